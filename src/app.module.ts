@@ -8,6 +8,11 @@ import { HeatingModule } from './devices/heating/heating.module';
 import { BatteriesModule } from './devices/batteries/batteries.module';
 import { DatabaseModule } from './database/database.module';
 import { ModbusSlaveModule } from './modbus/modbus-slave.module';
+import { ScheduleModule } from './devices/schedule/schedule.module';
+import { DeviceGroupModule } from './devices/device-group/device-group.module';
+import { DiscoveryModule } from './devices/discovery/discovery.module';
+import { HistoryModule } from './history/history.module';
+import { ExportModule } from './export/export.module';
 
 @Module({
 	imports: [
@@ -23,6 +28,11 @@ import { ModbusSlaveModule } from './modbus/modbus-slave.module';
 		MqttModule,
 		HeatingModule,
 		BatteriesModule,
+		ScheduleModule,
+		DeviceGroupModule,
+		DiscoveryModule,
+		HistoryModule,
+		ExportModule,
 		ModbusSlaveModule,
 	],
 })
@@ -0,0 +1,48 @@
+import { HISTORY_SCHEMA } from '../history/history.schema';
+
+/**
+ * Таблицы, которые сервер создает сам при запуске (CREATE ... IF NOT EXISTS)
+ * Таблицы system_settings и heating_settings создаются при развертывании базы
+ */
+export const DATABASE_SCHEMA: string[] = [
+	`CREATE TABLE IF NOT EXISTS event_log (
+		id BIGSERIAL PRIMARY KEY,
+		created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+		category VARCHAR(32) NOT NULL,
+		severity VARCHAR(16) NOT NULL,
+		device_id VARCHAR(64),
+		message TEXT NOT NULL,
+		details JSONB
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_event_log_created_at ON event_log (created_at)`,
+	`CREATE INDEX IF NOT EXISTS idx_event_log_device_id ON event_log (device_id, created_at)`,
+	`CREATE TABLE IF NOT EXISTS setpoint_schedules (
+		id SERIAL PRIMARY KEY,
+		name VARCHAR(128) NOT NULL,
+		default_setpoint NUMERIC(4, 1) NOT NULL,
+		periods JSONB NOT NULL DEFAULT '[]',
+		created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+		updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+	)`,
+	`CREATE TABLE IF NOT EXISTS holiday_calendar (
+		date DATE PRIMARY KEY,
+		type VARCHAR(16) NOT NULL,
+		name VARCHAR(128),
+		as_weekday SMALLINT
+	)`,
+	`CREATE TABLE IF NOT EXISTS device_configs (
+		device_id VARCHAR(64) PRIMARY KEY,
+		device_type VARCHAR(16) NOT NULL,
+		config JSONB NOT NULL,
+		updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+	)`,
+	`CREATE TABLE IF NOT EXISTS device_groups (
+		id SERIAL PRIMARY KEY,
+		name VARCHAR(128) NOT NULL,
+		description TEXT,
+		device_ids JSONB NOT NULL DEFAULT '[]',
+		created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+		updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+	)`,
+	...HISTORY_SCHEMA,
+];
@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Pool, PoolClient } from 'pg';
+import { DATABASE_SCHEMA } from './database.schema';
 
 @Injectable()
 export class DatabaseService implements OnModuleInit {
@@ -25,6 +26,21 @@ export class DatabaseService implements OnModuleInit {
 			client.release();
 		} catch (error) {
 			this.logger.error('❌ Ошибка подключения к PostgreSQL:', error);
+			return;
+		}
+
+		await this.ensureSchema();
+	}
+
+	// Создаем таблицы сервера, если их еще нет
+	private async ensureSchema() {
+		try {
+			for (const statement of DATABASE_SCHEMA) {
+				await this.query(statement);
+			}
+			this.logger.log('✅ Схема базы данных проверена');
+		} catch (error) {
+			this.logger.error('❌ Ошибка создания таблиц:', error);
 		}
 	}
 
@@ -32,6 +48,33 @@ export class DatabaseService implements OnModuleInit {
 		return await this.pool.connect();
 	}
 
+	// Произвольный запрос, возвращает строки результата
+	async query<T = any>(text: string, params: any[] = []): Promise<T[]> {
+		const client = await this.getClient();
+		try {
+			const result = await client.query(text, params);
+			return result.rows;
+		} finally {
+			client.release();
+		}
+	}
+
+	// Несколько запросов в одной транзакции: при ошибке все изменения откатываются
+	async transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+		const client = await this.getClient();
+		try {
+			await client.query('BEGIN');
+			const result = await callback(client);
+			await client.query('COMMIT');
+			return result;
+		} catch (error) {
+			await client.query('ROLLBACK');
+			throw error;
+		} finally {
+			client.release();
+		}
+	}
+
 	// Методы для работы с системными настройками
 	async getSystemSetting(key: string): Promise<string | null> {
 		const client = await this.getClient();
@@ -108,6 +151,25 @@ export class DatabaseService implements OnModuleInit {
 		}
 	}
 
+	// Значение одной настройки для всех устройств: heating_id -> setting_value
+	async getHeatingSettingsByKey(settingKey: string): Promise<Record<string, string>> {
+		const client = await this.getClient();
+		try {
+			const result = await client.query(
+				'SELECT heating_id, setting_value FROM heating_settings WHERE setting_key = $1',
+				[settingKey]
+			);
+
+			const settings: Record<string, string> = {};
+			result.rows.forEach(row => {
+				settings[row.heating_id] = row.setting_value;
+			});
+			return settings;
+		} finally {
+			client.release();
+		}
+	}
+
 	async onModuleDestroy() {
 		if (this.pool) {
 			await this.pool.end();
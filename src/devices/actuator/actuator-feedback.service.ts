@@ -0,0 +1,247 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MqttService } from '../../mqtt/mqtt.service';
+import { ActuatorFeedbackTracker, toActuatorValue } from '../control/actuator-feedback';
+import { OutputPublisher } from '../control/output-publisher';
+import { ActuatorFeedbackOptions, ActuatorOutputState, OutputPublishOptions, OutputPublishStats } from '../interfaces/actuator.interface';
+
+const FEEDBACK_OPTIONS: ActuatorFeedbackOptions = {
+	confirmTimeout: parseFloat(process.env.ACTUATOR_CONFIRM_TIMEOUT || '10'),
+	maxRetries: parseInt(process.env.ACTUATOR_MAX_RETRIES || '2'),
+	tolerance: 1, // Диммер может округлять выход до целых процентов
+};
+const PUBLISH_OPTIONS: OutputPublishOptions = {
+	deadband: parseFloat(process.env.ACTUATOR_DEADBAND || '0.5'),
+	refreshInterval: parseFloat(process.env.ACTUATOR_REFRESH_INTERVAL || '60'),
+	coalesceWindow: parseFloat(process.env.ACTUATOR_COALESCE_WINDOW || '0.5'),
+};
+const CHECK_INTERVAL = 1000;
+
+interface TrackedOutput {
+	owner: string;   // Устройство, которое командует выходом
+	broker: string;
+	tracker: ActuatorFeedbackTracker;
+	publisher: OutputPublisher;
+	flushTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Команды выходов (реле, диммеры) с контролем исполнения
+ *
+ * Команда публикуется в <контрол>/on, фактическое значение читается из самого контрола.
+ * Неподтвержденная команда повторяется, после исчерпания повторов событие 'actuator.feedback.alarm'
+ * сообщает устройству-владельцу об аварии «команда не выполнена».
+ * Команда публикуется только при изменении больше зоны нечувствительности (OutputPublisher),
+ * контроль исполнения ведется по опубликованному значению.
+ */
+@Injectable()
+export class ActuatorFeedbackService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(ActuatorFeedbackService.name);
+	private outputs: Record<string, TrackedOutput> = {};
+	private brokers = new Set<string>();
+	private checkInterval: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly mqttService: MqttService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	onModuleInit() {
+		this.checkInterval = setInterval(() => this.checkOutputs(), CHECK_INTERVAL);
+		this.logger.log(`Actuator Feedback Service initialized: timeout=${FEEDBACK_OPTIONS.confirmTimeout}s, retries=${FEEDBACK_OPTIONS.maxRetries}, deadband=${PUBLISH_OPTIONS.deadband}, refresh=${PUBLISH_OPTIONS.refreshInterval}s`);
+	}
+
+	onModuleDestroy() {
+		if (this.checkInterval) {
+			clearInterval(this.checkInterval);
+		}
+		Object.values(this.outputs).forEach(output => this.clearFlushTimer(output));
+	}
+
+	// Отправка команды выходу с контролем исполнения; неизмененное значение не публикуется повторно
+	command(owner: string, broker: string, controlTopic: string, value: boolean | number) {
+		const output = this.getTrackedOutput(owner, broker, controlTopic);
+
+		const desired = toActuatorValue(value);
+		if (desired === null) {
+			this.mqttService.publish(broker, `${controlTopic}/on`, value, {
+				retain: false,
+			});
+			return;
+		}
+
+		const publishValue = output.publisher.offer(desired);
+		if (publishValue !== null) {
+			this.publishOutput(output, publishValue);
+		} else {
+			this.scheduleFlush(output);
+		}
+	}
+
+	// Подписка на фактическое значение выхода без отправки команды (например, до первой команды после запуска)
+	track(owner: string, broker: string, controlTopic: string) {
+		this.getTrackedOutput(owner, broker, controlTopic);
+	}
+
+	// Прекратить контроль выходов устройства (устройство перезапускается с новой конфигурацией или удалено)
+	untrack(owner: string) {
+		Object.entries(this.outputs)
+			.filter(([, output]) => output.owner === owner)
+			.forEach(([key, output]) => {
+				this.clearFlushTimer(output);
+				delete this.outputs[key];
+			});
+	}
+
+	getOutput(broker: string, controlTopic: string): ActuatorOutputState | null {
+		return this.outputs[this.getKey(broker, controlTopic)]?.tracker.getState() ?? null;
+	}
+
+	// Счетчики публикации команд по брокерам
+	getPublishStats(): Record<string, OutputPublishStats> {
+		const stats: Record<string, OutputPublishStats> = {};
+		Object.values(this.outputs).forEach(output => {
+			const total = (stats[output.broker] ??= { commands: 0, published: 0, suppressed: 0, coalesced: 0, refreshed: 0 });
+			const outputStats = output.publisher.getStats();
+			(Object.keys(total) as (keyof OutputPublishStats)[]).forEach(key => {
+				total[key] += outputStats[key];
+			});
+		});
+		return stats;
+	}
+
+	private getTrackedOutput(owner: string, broker: string, controlTopic: string): TrackedOutput {
+		const key = this.getKey(broker, controlTopic);
+		let output = this.outputs[key];
+		if (!output) {
+			output = {
+				owner,
+				broker,
+				tracker: new ActuatorFeedbackTracker(controlTopic, FEEDBACK_OPTIONS),
+				publisher: new OutputPublisher(PUBLISH_OPTIONS),
+				flushTimer: null,
+			};
+			this.outputs[key] = output;
+			this.listenBroker(broker);
+			this.mqttService.subscribe(broker, controlTopic);
+		}
+		output.owner = owner;
+		return output;
+	}
+
+	private getKey(broker: string, controlTopic: string): string {
+		return `${broker}:${controlTopic}`;
+	}
+
+	private listenBroker(broker: string) {
+		if (this.brokers.has(broker)) return;
+		this.brokers.add(broker);
+
+		this.eventEmitter.on(`mqtt.${broker}.message`, (data: { topic: string; message: any }) => {
+			const output = this.outputs[this.getKey(broker, data.topic)];
+			if (!output) return;
+
+			const value = toActuatorValue(String(data.message));
+			if (value === null) {
+				this.logger.warn(`❌ Invalid actuator value on ${data.topic}: ${data.message}`);
+				return;
+			}
+			this.handleReport(output, value);
+		});
+		// После восстановления связи неподтвержденные команды отправляются повторно с новым отсчетом таймаута
+		this.eventEmitter.on(`mqtt.${broker}.connected`, () => {
+			Object.values(this.outputs)
+				.filter(output => output.broker === broker)
+				.forEach(output => {
+					this.mqttService.subscribe(broker, output.tracker.topic);
+					const desired = output.tracker.getDesired();
+					if (desired !== null && !output.tracker.getState().confirmed) {
+						this.mqttService.publish(broker, `${output.tracker.topic}/on`, desired, {
+							retain: false,
+						});
+					}
+					output.tracker.restartTimeout();
+				});
+		});
+	}
+
+	private publishOutput(output: TrackedOutput, value: number) {
+		const isSent = this.mqttService.publish(output.broker, `${output.tracker.topic}/on`, value, {
+			retain: false,
+		});
+		// Без связи с брокером команда потеряна - следующая команда публикуется без проверки изменения
+		if (!isSent) {
+			output.publisher.reset();
+		}
+		output.tracker.command(value);
+	}
+
+	// Отложенная в окне объединения команда публикуется по его окончании
+	private scheduleFlush(output: TrackedOutput) {
+		const delay = output.publisher.getFlushDelay();
+		if (delay === null || output.flushTimer) return;
+
+		output.flushTimer = setTimeout(() => {
+			output.flushTimer = null;
+			this.flushOutput(output);
+		}, delay);
+	}
+
+	private flushOutput(output: TrackedOutput) {
+		const result = output.publisher.poll();
+		if (!result) return;
+
+		if (result.reason === 'refresh') {
+			this.logger.debug(`🔁 ACTUATOR: ${output.owner} ${output.tracker.topic} refresh ${result.value}`);
+		}
+		this.publishOutput(output, result.value);
+	}
+
+	private clearFlushTimer(output: TrackedOutput) {
+		if (output.flushTimer) {
+			clearTimeout(output.flushTimer);
+			output.flushTimer = null;
+		}
+	}
+
+	private handleReport(output: TrackedOutput, value: number) {
+		const event = output.tracker.report(value);
+		const state = output.tracker.getState();
+
+		if (event === 'cleared') {
+			this.logger.log(`✅ ACTUATOR: ${output.owner} ${state.topic} confirmed ${value}, alarm cleared`);
+			this.eventEmitter.emit('actuator.feedback.alarm', { owner: output.owner, output: state });
+		}
+		this.eventEmitter.emit('actuator.feedback.updated', { owner: output.owner, output: state });
+	}
+
+	// Без связи с брокером команды не доходят до модулей - повторы и таймауты подтверждения приостанавливаются
+	private checkOutputs() {
+		Object.values(this.outputs).forEach(output => {
+			if (!this.mqttService.isConnected(output.broker)) return;
+
+			// Повтор по интервалу обновления (и отложенные команды, если таймер не успел сработать)
+			this.flushOutput(output);
+
+			const event = output.tracker.check();
+			const desired = output.tracker.getDesired();
+			if (!event || desired === null) return;
+
+			const state = output.tracker.getState();
+			if (event === 'retry') {
+				this.logger.warn(`🔁 ACTUATOR: ${output.owner} ${state.topic} not confirmed (desired=${desired}, actual=${state.actual ?? '-'}), retry ${state.retries}`);
+				this.mqttService.publish(output.broker, `${state.topic}/on`, desired, {
+					retain: false,
+				});
+				this.eventEmitter.emit('actuator.feedback.updated', { owner: output.owner, output: state });
+			} else {
+				if (event === 'alarm') {
+					this.logger.error(`❌ ACTUATOR: ${output.owner} ${state.topic} command not executed (desired=${desired}, actual=${state.actual ?? '-'})`);
+				} else {
+					this.logger.log(`✅ ACTUATOR: ${output.owner} ${state.topic} confirmed ${desired}, alarm cleared`);
+				}
+				this.eventEmitter.emit('actuator.feedback.alarm', { owner: output.owner, output: state });
+			}
+		});
+	}
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ActuatorFeedbackService } from './actuator-feedback.service';
+import { MqttModule } from '../../mqtt/mqtt.module';
+
+@Module({
+	imports: [MqttModule],
+	providers: [ActuatorFeedbackService],
+	exports: [ActuatorFeedbackService],
+})
+export class ActuatorModule {}
@@ -1,6 +1,6 @@
 import { BatteriesConfig } from '../interfaces/batteries.interface';
 
-const defaultTemperatureSettings = {
+export const defaultTemperatureSettings = {
 	HYSTERESIS: 0.5,
 	TEMP_LOW: 15,
 	TEMP_HIGH: 25,
@@ -1,6 +1,12 @@
 import { Controller, Get, Post, Put, Body, Param } from '@nestjs/common';
 import { BatteriesService } from './batteries.service';
-import { BatteriesControl, BatteriesControlParameters } from '../interfaces/batteries.interface';
+import {
+	BatteriesControl,
+	BatteriesControlParameters,
+	BatteriesValveMode,
+	BATTERIES_VALVE_MODES,
+} from '../interfaces/batteries.interface';
+import { isProtectionAlarmType } from '../control/protection-monitor';
 
 @Controller('batteries')
 export class BatteriesController {
@@ -59,7 +65,17 @@ export class BatteriesController {
 				case 'set_valve_state':
 					if (parameters?.groupName && parameters?.valveState !== undefined) {
 						const open = parameters.valveState === 'open';
-						this.batteriesService.setGroupValveManually(deviceId, parameters.groupName, open);
+						if (!this.batteriesService.setGroupValveManually(deviceId, parameters.groupName, open)) {
+							return { success: false, message: `Group ${parameters.groupName} not found in batteries ${deviceId} or its valve mode is not auto` };
+						}
+					}
+					break;
+				case 'set_valve_mode':
+					if (!parameters?.groupName || !BATTERIES_VALVE_MODES.includes(parameters.valveMode as BatteriesValveMode)) {
+						return { success: false, message: `Invalid valve mode: ${parameters?.valveMode}` };
+					}
+					if (!this.batteriesService.setGroupValveMode(deviceId, parameters.groupName, parameters.valveMode as BatteriesValveMode)) {
+						return { success: false, message: `Group ${parameters.groupName} not found in batteries ${deviceId}` };
 					}
 					break;
 				default:
@@ -102,6 +118,35 @@ export class BatteriesController {
 		}
 	}
 
+	@Get(':deviceId/alarms')
+	getAlarms(@Param('deviceId') deviceId: string) {
+		const alarms = this.batteriesService.getProtectionAlarms(deviceId);
+		if (!alarms) {
+			return { success: false, message: 'Batteries device not found' };
+		}
+		return { success: true, data: alarms };
+	}
+
+	@Post(':deviceId/alarms/acknowledge')
+	acknowledgeAlarms(@Param('deviceId') deviceId: string, @Body() body: { type?: string } = {}) {
+		try {
+			if (body?.type !== undefined && !isProtectionAlarmType(body.type)) {
+				return { success: false, message: `Invalid alarm type: ${body.type}` };
+			}
+			const acknowledged = this.batteriesService.acknowledgeAlarms(deviceId, body?.type);
+			if (!acknowledged) {
+				return { success: false, message: 'Batteries device not found' };
+			}
+			return {
+				success: true,
+				message: `${acknowledged.length} alarm(s) acknowledged for batteries ${deviceId}`,
+				data: this.batteriesService.getProtectionAlarms(deviceId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error acknowledging alarms: ${error.message}` };
+		}
+	}
+
 	@Post(':deviceId/emergency-stop')
 	emergencyStop(@Param('deviceId') deviceId: string) {
 		try {
@@ -125,7 +170,9 @@ export class BatteriesController {
 	@Post(':deviceId/group/:groupName/valve')
 	setGroupValve(@Param('deviceId') deviceId: string, @Param('groupName') groupName: string, @Body() body: { open: boolean }) {
 		try {
-			this.batteriesService.setGroupValveManually(deviceId, groupName, body.open);
+			if (!this.batteriesService.setGroupValveManually(deviceId, groupName, body.open)) {
+				return { success: false, message: `Group ${groupName} not found in batteries ${deviceId} or its valve mode is not auto` };
+			}
 			return { 
 				success: true, 
 				message: `Valve for group ${groupName} in device ${deviceId} set to ${body.open ? 'open' : 'closed'}` 
@@ -135,6 +182,21 @@ export class BatteriesController {
 		}
 	}
 
+	@Put(':deviceId/group/:groupName/valve-mode')
+	setGroupValveMode(@Param('deviceId') deviceId: string, @Param('groupName') groupName: string, @Body() body: { mode: BatteriesValveMode }) {
+		try {
+			if (!BATTERIES_VALVE_MODES.includes(body.mode)) {
+				return { success: false, message: `Invalid valve mode: ${body.mode}` };
+			}
+			if (!this.batteriesService.setGroupValveMode(deviceId, groupName, body.mode)) {
+				return { success: false, message: `Group ${groupName} not found in batteries ${deviceId}` };
+			}
+			return { success: true, message: `Valve mode for group ${groupName} in device ${deviceId} set to ${body.mode}` };
+		} catch (error) {
+			return { success: false, message: `Error setting group valve mode: ${error.message}` };
+		}
+	}
+
 	@Post(':deviceId/test-mqtt')
 	testMqtt(@Param('deviceId') deviceId: string, @Body() body: { 
 		groupName: string; 
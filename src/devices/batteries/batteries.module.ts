@@ -3,9 +3,13 @@ import { BatteriesService } from './batteries.service';
 import { BatteriesController } from './batteries.controller';
 import { MqttModule } from '../../mqtt/mqtt.module';
 import { DatabaseModule } from '../../database/database.module';
+import { EventLogModule } from '../../event-log/event-log.module';
+import { TemperatureSourceModule } from '../temperature-source/temperature-source.module';
+import { ActuatorModule } from '../actuator/actuator.module';
+import { DeviceConfigModule } from '../device-config/device-config.module';
 
 @Module({
-	imports: [MqttModule, DatabaseModule],
+	imports: [MqttModule, DatabaseModule, EventLogModule, TemperatureSourceModule, ActuatorModule, DeviceConfigModule],
 	controllers: [BatteriesController],
 	providers: [BatteriesService],
 	exports: [BatteriesService],
@@ -3,12 +3,37 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { MqttService } from '../../mqtt/mqtt.service';
 import { DatabaseService } from '../../database/database.service';
 import { batteriesConfigs } from './batteries.config';
-import { BatteriesState, BatteriesGroup } from '../interfaces/batteries.interface';
+import { BatteriesConfig, BatteriesState, BatteriesValveMode, BATTERIES_VALVE_MODES } from '../interfaces/batteries.interface';
+import { ControlStrategy } from '../interfaces/control.interface';
+import { HysteresisControlStrategy } from '../control/hysteresis.strategy';
+import { ProtectionMonitor } from '../control/protection-monitor';
+import { ProtectionAlarm, ProtectionAlarmType, ProtectionTransition } from '../interfaces/protection.interface';
+import { EventLogService } from '../../event-log/event-log.service';
+import { fuseTemperatures } from '../control/sensor-fusion';
+import { FusedTemperature, SensorFusionSettings } from '../interfaces/sensor-fusion.interface';
+import { TemperatureSourceService } from '../temperature-source/temperature-source.service';
+import { getTemperatureSourceKey } from '../temperature-source/temperature-source.utils';
+import { TemperatureSourceReading } from '../interfaces/temperature-source.interface';
+import { ActuatorFeedbackService } from '../actuator/actuator-feedback.service';
+import { ActuatorOutputState } from '../interfaces/actuator.interface';
+import { DeviceConfigChange } from '../interfaces/device-config.interface';
+
+const PROTECTION_HYSTERESIS = 1; // °C
+const DEFAULT_SENSOR_TIMEOUT = 600; // сек
+const DEFAULT_SENSOR_FUSION: SensorFusionSettings = {
+	policy: 'mean',
+	outlierThreshold: 3,
+};
 
 interface BatteriesInternalState extends BatteriesState {
 	autoControlEnabled: boolean;
 	lastTemperatureUpdate: number;
 	valveOperationTimers: Record<string, NodeJS.Timeout>; // Таймеры для операций с клапанами по группам
+	strategy: ControlStrategy; // Двухпозиционный регулятор (выход 1 = клапаны открыты)
+	valveModes: Record<string, BatteriesValveMode>;
+	protection: ProtectionMonitor;
+	controlErrors: Record<string, string>;
+	sensorFusionSettings: SensorFusionSettings;
 }
 
 @Injectable()
@@ -17,135 +42,447 @@ export class BatteriesService implements OnModuleInit {
 	private states: Record<string, BatteriesInternalState> = {};
 	private controlIntervals: Record<string, NodeJS.Timeout> = {};
 	private isDestroyed = false;
+	// Последние показания по топикам датчиков и источникам температуры
+	private sensorReadings: Record<string, { temperature: number; updatedAt: number }> = {};
 
 	constructor(
 		private readonly mqttService: MqttService,
 		private readonly eventEmitter: EventEmitter2,
 		private readonly databaseService: DatabaseService,
+		private readonly eventLogService: EventLogService,
+		private readonly temperatureSourceService: TemperatureSourceService,
+		private readonly actuatorFeedbackService: ActuatorFeedbackService,
 	) {
 		this.isDestroyed = false;
-		// Инициализация состояний для каждого устройства батарей
-		Object.keys(batteriesConfigs).forEach((deviceId) => {
-			const config = batteriesConfigs[deviceId];
-			this.states[deviceId] = {
-				valveStates: {},
-				currentTemperature: 0,
-				setpointTemperature: 20,
-				isEmergencyStop: false,
-				isWorking: false,
-				isOnline: false,
-				autoControlEnabled: false,
-				lastTemperatureUpdate: Date.now(),
-				valveOperationTimers: {},
-				lastValveOperation: {},
-			};
-
-			// Инициализируем состояния клапанов для каждой группы
-			config.groups.forEach(group => {
-				this.states[deviceId].valveStates[group.groupName] = 'closed';
-			});
-		});
 	}
 
 	async onModuleInit() {
 		this.logger.log('Batteries Service initialized');
+
+		// Состояния создаются после загрузки конфигурации устройств (DeviceConfigModule)
+		Object.keys(batteriesConfigs).forEach(deviceId => {
+			this.states[deviceId] = this.createState(deviceId);
+		});
 		
-		// Загружаем уставки из базы данных
+		// Загружаем сохраненное состояние из базы данных
 		await this.loadSettingsFromDatabase();
 
 		// Обработчик MQTT сообщений для брокера sensors
 		this.eventEmitter.on('mqtt.sensors.message', (data: { topic: string; message: any }) => {
 			this.logger.log(`🔋 Получено MQTT сообщение: ${data.topic}, ${data.message}`);
 
-			// Ищем устройство батарей, которому соответствует топик
+			// Ищем устройства батарей, которым соответствует топик (датчик может входить в несколько устройств)
 			for (const [deviceId, config] of Object.entries(batteriesConfigs)) {
 				// Проверяем все датчики температуры для этого устройства
-				for (const [address, sensorPath] of Object.entries(config.topics.TEMPERATURE_SENSORS)) {
+				for (const [address, sensorPath] of this.getSensorTopics(config)) {
 					if (data.topic === sensorPath) {
 						const temperature = parseFloat(String(data.message));
 						if (!isNaN(temperature)) {
-							this.updateTemperature(deviceId, temperature);
+							this.sensorReadings[sensorPath] = { temperature, updatedAt: Date.now() };
+							this.updateTemperature(deviceId);
 						} else {
 							this.logger.warn(`❌ Invalid temperature data for ${deviceId} sensor ${address}: ${data.message}`);
 						}
-						return; // Найден соответствующий датчик, выходим из цикла
+						break;
 					}
 				}
 			}
 		});
 
+		// Источники температуры (temperatureSource) заменяют датчики из TEMPERATURE_SENSORS
+		this.eventEmitter.on('temperature.source.updated', (reading: TemperatureSourceReading) => {
+			const { temperature } = reading;
+			if (temperature === null) return;
+			const key = getTemperatureSourceKey(reading);
+
+			Object.entries(batteriesConfigs).forEach(([deviceId, config]) => {
+				if (!config.temperatureSource || getTemperatureSourceKey(config.temperatureSource) !== key) return;
+				this.sensorReadings[key] = { temperature, updatedAt: Date.now() };
+				this.updateTemperature(deviceId);
+			});
+		});
+		Object.keys(batteriesConfigs).forEach(deviceId => this.registerTemperatureSource(deviceId));
+
 		// Подписка на события подключения к брокерам
 		this.eventEmitter.on('mqtt.sensors.connected', () => {
 			this.logger.log('🔌 Подключились к брокеру датчиков');
 			this.setupMqttSubscriptions();
 		});
 
+		// Ошибки опроса модулей Wiren Board: датчики на брокере sensors, реле на брокере устройства
+		['heating', 'sensors'].forEach(broker => {
+			this.eventEmitter.on(`mqtt.${broker}.control.error`, (data: { topic: string; error: string | null }) =>
+				this.handleControlError(broker, data.topic, data.error),
+			);
+		});
+
+		// Контроль исполнения команд реле клапанов
+		this.eventEmitter.on('actuator.feedback.alarm', (data: { owner: string; output: ActuatorOutputState }) =>
+			this.handleActuatorAlarm(data.owner, data.output),
+		);
+		this.eventEmitter.on('actuator.feedback.updated', (data: { owner: string }) => {
+			if (this.states[data.owner]) {
+				this.eventEmitter.emit('batteries.update', data.owner);
+			}
+		});
+
 		this.eventEmitter.on('mqtt.heating.connected', () => {
 			this.logger.log('🔌 Подключились к брокеру отопления');
+			// После (пере)подключения повторно отправляем выходы, восстановленные из базы
+			Object.keys(this.states).forEach(deviceId => this.restoreOutputs(deviceId));
 		});
 
-		// Инициализируем состояние для каждого устройства батарей
-		Object.entries(batteriesConfigs).forEach(([deviceId, config]) => {
-			this.logger.log(`Initializing batteries device: ${deviceId}`);
-
-			// Запускаем контроль каждую секунду
-			this.controlIntervals[deviceId] = setInterval(() => {
-				if (this.states[deviceId]?.autoControlEnabled && !this.states[deviceId]?.isEmergencyStop) {
-					this.runHysteresisControl(deviceId);
-				}
-			}, 1000);
+		// Изменение конфигурации ШУОП через API - перезапуск устройства без перезапуска сервера
+		this.eventEmitter.on('device.config.changed', (change: DeviceConfigChange) => {
+			if (change.deviceType === 'batteries') {
+				this.reloadDevice(change.deviceId);
+			}
+		});
 
-			// Подписка на события подключения/отключения для каждого устройства
-			this.eventEmitter.on(`mqtt.sensors.connected`, () => {
-				this.states[deviceId].isOnline = true;
-				this.eventEmitter.emit('batteries.update', deviceId);
-			});
-			this.eventEmitter.on(`mqtt.sensors.error`, () => {
-				this.states[deviceId].isOnline = false;
-				this.eventEmitter.emit('batteries.update', deviceId);
-			});
-			this.eventEmitter.on(`mqtt.sensors.offline`, () => {
-				this.states[deviceId].isOnline = false;
-				this.eventEmitter.emit('batteries.update', deviceId);
+		// Доступность брокера датчиков для всех устройств, в том числе добавленных после запуска
+		(['connected', 'error', 'offline'] as const).forEach(event => {
+			this.eventEmitter.on(`mqtt.sensors.${event}`, () => {
+				Object.keys(this.states).forEach(deviceId => {
+					this.states[deviceId].isOnline = event === 'connected';
+					this.eventEmitter.emit('batteries.update', deviceId);
+				});
 			});
 		});
 
+		Object.keys(batteriesConfigs).forEach(deviceId => this.startControlLoop(deviceId));
+
 		// Начальная настройка подписок
 		await this.setupMqttSubscriptions();
+
+		// Восстанавливаем аварийные остановки и принудительные режимы клапанов
+		Object.keys(this.states).forEach(deviceId => this.restoreOutputs(deviceId));
 	}
 
 	private async setupMqttSubscriptions() {
 		this.logger.log('🔧 Setting up MQTT subscriptions for batteries...');
 		
-		await Promise.all(
-			Object.entries(batteriesConfigs).map(async ([deviceId, config]) => {
-				try {
-					// Подписываемся на все датчики температуры для этого устройства
-					Object.entries(config.topics.TEMPERATURE_SENSORS).forEach(([address, sensorPath]) => {
-						this.logger.log(`🌡️ Subscribing ${deviceId} to temperature sensor address ${address}: ${sensorPath}`);
-						this.mqttService.subscribe('sensors', sensorPath);
-					});
-				} catch (err: unknown) {
-					const error = err as Error;
-					this.logger.error(`Ошибка подписки на топики батарей ${deviceId}: ${error.message}`);
-				}
+		Object.keys(batteriesConfigs).forEach(deviceId => this.subscribeDevice(deviceId));
+	}
+
+	private subscribeDevice(deviceId: string) {
+		const config = batteriesConfigs[deviceId];
+		if (!config) return;
+
+		try {
+			// Подписываемся на все датчики температуры для этого устройства
+			this.getSensorTopics(config).forEach(([address, sensorPath]) => {
+				this.logger.log(`🌡️ Subscribing ${deviceId} to temperature sensor address ${address}: ${sensorPath}`);
+				this.mqttService.subscribe('sensors', sensorPath);
+				this.mqttService.subscribeControlError('sensors', sensorPath);
+			});
+			this.getRelayControls(deviceId).forEach(topic => {
+				this.mqttService.subscribeControlError(config.broker, topic);
+				this.actuatorFeedbackService.track(deviceId, config.broker, topic);
+			});
+		} catch (err: unknown) {
+			const error = err as Error;
+			this.logger.error(`Ошибка подписки на топики батарей ${deviceId}: ${error.message}`);
+		}
+	}
+
+	private registerTemperatureSource(deviceId: string) {
+		const config = batteriesConfigs[deviceId];
+		if (config?.temperatureSource && !this.temperatureSourceService.register(config.temperatureSource)) {
+			this.logger.warn(`⚠️ Batteries ${deviceId}: temperature source ${getTemperatureSourceKey(config.temperatureSource)} not found`);
+		}
+	}
+
+	private startControlLoop(deviceId: string) {
+		this.logger.log(`Initializing batteries device: ${deviceId}`);
+
+		// Запускаем контроль каждую секунду
+		this.controlIntervals[deviceId] = setInterval(() => {
+			// Устаревшие показания исключаются из температуры устройства
+			this.updateTemperature(deviceId, false);
+
+			if (this.states[deviceId]?.autoControlEnabled && !this.states[deviceId]?.isEmergencyStop) {
+				this.runHysteresisControl(deviceId);
+			}
+			this.applyValveModes(deviceId);
+		}, 1000);
+	}
+
+	// Остановка контроля и таймеров клапанов ШУОП (перед перезапуском или удалением из конфигурации)
+	// Подписки MQTT сохраняются: топик может использоваться другими устройствами и датчиками
+	private stopDevice(deviceId: string) {
+		clearInterval(this.controlIntervals[deviceId]);
+		delete this.controlIntervals[deviceId];
+		Object.values(this.states[deviceId]?.valveOperationTimers ?? {}).forEach(timer => clearTimeout(timer));
+		this.actuatorFeedbackService.untrack(deviceId);
+		delete this.states[deviceId];
+	}
+
+	// Перезапуск ШУОП после изменения конфигурации: состояние создается заново, настройки из базы (уставка, режимы клапанов, аварии) сохраняются
+	private async reloadDevice(deviceId: string) {
+		this.stopDevice(deviceId);
+		if (!batteriesConfigs[deviceId]) {
+			this.logger.log(`🛠️ Batteries ${deviceId} removed from configuration`);
+			return;
+		}
+
+		const state = this.createState(deviceId);
+		this.states[deviceId] = state;
+		try {
+			const settings = await this.databaseService.getAllHeatingSettings(deviceId);
+			// Конфигурация могла измениться повторно, пока загружались настройки
+			if (this.states[deviceId] !== state) return;
+			this.applyStoredSettings(deviceId, settings);
+		} catch (error) {
+			this.logger.error(`Ошибка загрузки настроек для ${deviceId}:`, error);
+		}
+		if (this.states[deviceId] !== state) return;
+
+		state.isOnline = this.mqttService.isConnected('sensors');
+		this.registerTemperatureSource(deviceId);
+		this.subscribeDevice(deviceId);
+		this.startControlLoop(deviceId);
+		this.updateTemperature(deviceId, false);
+		this.restoreOutputs(deviceId);
+
+		this.logger.log(`🛠️ Batteries ${deviceId} reloaded with new configuration`);
+		this.eventEmitter.emit('batteries.update', deviceId);
+	}
+
+	// Начальное состояние ШУОП по конфигурации (настройки из базы применяются отдельно)
+	private createState(deviceId: string): BatteriesInternalState {
+		const config = batteriesConfigs[deviceId];
+		const state: BatteriesInternalState = {
+			valveStates: {},
+			currentTemperature: 0,
+			setpointTemperature: 20,
+			isEmergencyStop: false,
+			isWorking: false,
+			isOnline: false,
+			autoControlEnabled: false,
+			lastTemperatureUpdate: Date.now(),
+			valveOperationTimers: {},
+			lastValveOperation: {},
+			strategy: new HysteresisControlStrategy(config.temperatureSettings.HYSTERESIS, 0, 1),
+			valveModes: {},
+			protection: new ProtectionMonitor({
+				freezeLimit: config.temperatureSettings.TEMP_FREEZE_LIMIT,
+				overheatLimit: config.temperatureSettings.TEMP_OVERHEAT_LIMIT,
+				hysteresis: PROTECTION_HYSTERESIS,
 			}),
-		);
+			controlErrors: {},
+			sensorFusionSettings: { ...DEFAULT_SENSOR_FUSION, ...config.sensorFusion },
+		};
+
+		// Инициализируем состояния клапанов для каждой группы
+		config.groups.forEach(group => {
+			state.valveStates[group.groupName] = 'closed';
+			state.valveModes[group.groupName] = 'auto';
+		});
+		return state;
 	}
 
-	private updateTemperature(deviceId: string, temperature: number) {
-		if (this.states[deviceId]) {
-			this.states[deviceId].currentTemperature = temperature;
-			this.states[deviceId].isOnline = true;
-			this.states[deviceId].lastTemperatureUpdate = Date.now();
-			this.logger.log(`📊 Batteries ${deviceId} temperature updated: ${temperature}°C`);
-			
-			// Эмитируем событие обновления температуры
-			this.eventEmitter.emit('batteries.temperature.updated', {
-				deviceId,
-				temperature,
+
+	// Пересчет температуры по показаниям всех датчиков устройства
+	// (без нового показания - только если изменился состав пригодных датчиков)
+	private updateTemperature(deviceId: string, isNewReading = true) {
+		const state = this.states[deviceId];
+		if (!state) return;
+
+		const fusion = this.computeSensorFusion(deviceId);
+		const { temperature } = fusion;
+		if (temperature === null || (!isNewReading && temperature === state.currentTemperature)) return;
+
+		state.currentTemperature = temperature;
+		state.isOnline = true;
+		if (isNewReading) {
+			state.lastTemperatureUpdate = Date.now();
+		}
+		this.logger.log(`📊 Batteries ${deviceId} temperature updated: ${temperature}°C (${fusion.policy})`);
+		
+		// Эмитируем событие обновления температуры
+		this.eventEmitter.emit('batteries.temperature.updated', {
+			deviceId,
+			temperature,
+			sensors: fusion.sensors,
+		});
+
+		// Защиты работают независимо от автоуправления
+		this.checkProtection(deviceId);
+	}
+
+	// Адреса и топики датчиков на брокере sensors (не используются, если задан temperatureSource)
+	private getSensorTopics(config: BatteriesConfig): [string, string][] {
+		return config.temperatureSource ? [] : Object.entries(config.topics.TEMPERATURE_SENSORS);
+	}
+
+	// Датчики идентифицируются адресами из TEMPERATURE_SENSORS, источник температуры - ключом 'тип:sourceId'
+	private computeSensorFusion(deviceId: string): FusedTemperature {
+		const state = this.states[deviceId];
+		const config = batteriesConfigs[deviceId];
+		const samples = this.getSensorTopics(config).map(([address, topic]) => ({
+			id: address,
+			temperature: this.sensorReadings[topic]?.temperature ?? null,
+			updatedAt: this.sensorReadings[topic]?.updatedAt ?? null,
+			error: state.controlErrors[topic] !== undefined,
+		}));
+		if (config.temperatureSource) {
+			const key = getTemperatureSourceKey(config.temperatureSource);
+			samples.push({
+				id: key,
+				temperature: this.sensorReadings[key]?.temperature ?? null,
+				updatedAt: this.sensorReadings[key]?.updatedAt ?? null,
+				error: !!this.temperatureSourceService.getReading(config.temperatureSource)?.error,
 			});
 		}
+		return fuseTemperatures(samples, state.sensorFusionSettings, config.sensorTimeout ?? DEFAULT_SENSOR_TIMEOUT);
+	}
+
+	// Топики всех реле клапанов групп устройства
+	private getRelayControls(deviceId: string): string[] {
+		const config = batteriesConfigs[deviceId];
+		if (!config) return [];
+
+		return config.groups.flatMap(group => {
+			const relayModulePath = config.topics.RELAY_MODULES[group.relayModuleAddress];
+			return relayModulePath ? group.relays.map(relay => `${relayModulePath}/${relay}`) : [];
+		});
+	}
+
+	// Заданное и фактическое состояние реле клапанов по топикам
+	private getOutputs(deviceId: string): Record<string, ActuatorOutputState> {
+		const config = batteriesConfigs[deviceId];
+		const outputs: Record<string, ActuatorOutputState> = {};
+		this.getRelayControls(deviceId).forEach(topic => {
+			const output = this.actuatorFeedbackService.getOutput(config.broker, topic);
+			if (output) {
+				outputs[topic] = output;
+			}
+		});
+		return outputs;
+	}
+
+	private getActuatorAlarms(deviceId: string): string[] {
+		return Object.values(this.getOutputs(deviceId))
+			.filter(output => output.alarm)
+			.map(output => output.topic);
+	}
+
+	// Команда реле клапана не выполнена после всех повторов (или авария снята)
+	private handleActuatorAlarm(deviceId: string, output: ActuatorOutputState) {
+		if (!this.getRelayControls(deviceId).includes(output.topic)) return;
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: output.alarm ? 'alarm' : 'info',
+			deviceId,
+			message: output.alarm
+				? `Команда реле ${output.topic} не выполнена: задано ${output.desired}, фактически ${output.actual ?? 'нет данных'}`
+				: `Команда реле ${output.topic} выполнена, авария снята`,
+			details: { ...output },
+		});
+		this.emitAlarmUpdate(deviceId);
+	}
+
+	// Ошибка опроса контрола Wiren Board (null - ошибка снята)
+	private handleControlError(broker: string, topic: string, error: string | null) {
+		Object.entries(batteriesConfigs).forEach(([deviceId, config]) => {
+			const state = this.states[deviceId];
+			if (!state) return;
+
+			const isSensor = broker === 'sensors' && this.getSensorTopics(config).some(([, sensorPath]) => sensorPath === topic);
+			const isRelay = broker === config.broker && this.getRelayControls(deviceId).includes(topic);
+			if (!isSensor && !isRelay) return;
+
+			if (error) {
+				state.controlErrors[topic] = error;
+			} else {
+				delete state.controlErrors[topic];
+			}
+
+			this.eventLogService.log({
+				category: 'alarm',
+				severity: error ? 'alarm' : 'info',
+				deviceId,
+				message: error
+					? `Ошибка опроса ${isSensor ? 'датчика' : 'реле'} ${topic}: ${error}`
+					: `Ошибка опроса ${isSensor ? 'датчика' : 'реле'} ${topic} снята`,
+				details: { topic, error },
+			});
+			this.emitAlarmUpdate(deviceId);
+		});
+	}
+
+	// Проверка защит от замерзания и перегрева по текущей температуре
+	private checkProtection(deviceId: string) {
+		const state = this.states[deviceId];
+		if (!state) return;
+
+		const transitions = state.protection.update(state.currentTemperature);
+		if (transitions.length === 0) return;
+
+		transitions.forEach(transition => this.logProtectionTransition(deviceId, transition));
+		this.enforceProtection(deviceId);
+		this.saveProtectionAlarms(deviceId);
+		this.emitAlarmUpdate(deviceId);
+	}
+
+	private logProtectionTransition(deviceId: string, { event, alarm }: ProtectionTransition) {
+		const name = alarm.type === 'freeze' ? 'Защита от замерзания' : 'Защита от перегрева';
+		const message = event === 'tripped'
+			? `${name}: сработала при ${alarm.temperature}°C (порог ${alarm.limit}°C)`
+			: `${name}: температура вернулась в норму, авария ${alarm.acknowledged ? 'снята' : 'ожидает квитирования'}`;
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: event === 'tripped' ? 'alarm' : 'info',
+			deviceId,
+			message,
+			details: { ...alarm, event },
+		});
+		this.eventEmitter.emit('batteries.protection.changed', { deviceId, event, alarm });
+	}
+
+	// Приводим клапаны в соответствие с защитами; после снятия защиты принудительные группы возвращаются
+	// к своему режиму, автоматические закрываются до следующего шага регулятора
+	private enforceProtection(deviceId: string) {
+		const state = this.states[deviceId];
+		const config = batteriesConfigs[deviceId];
+		if (!state || !config) return;
+
+		config.groups.forEach(group => {
+			const mode = state.valveModes[group.groupName];
+			this.setGroupValve(deviceId, group.groupName, !state.isEmergencyStop && mode === 'open');
+		});
+		state.strategy.reset();
+	}
+
+	// Защиты имеют приоритет над режимами клапанов и аварийной остановкой
+	private getProtectedValveState(deviceId: string, open: boolean): boolean {
+		const protection = this.states[deviceId]?.protection;
+		if (protection?.isActive('freeze')) return true;
+		if (protection?.isActive('overheat')) return false;
+		return open;
+	}
+
+	private saveProtectionAlarms(deviceId: string) {
+		const alarms = this.states[deviceId]?.protection.getAlarms() ?? [];
+		this.saveSetting(deviceId, 'protection_alarms', alarms.length > 0 ? JSON.stringify(alarms) : '');
+	}
+
+	private emitAlarmUpdate(deviceId: string) {
+		const state = this.states[deviceId];
+		if (!state) return;
+
+		const { protection } = state;
+		const actuatorAlarms = this.getActuatorAlarms(deviceId);
+		this.eventEmitter.emit('batteries.alarm', {
+			deviceId,
+			isAlarm: protection.hasAlarm() || Object.keys(state.controlErrors).length > 0 || actuatorAlarms.length > 0,
+			alarms: protection.getAlarms(),
+			controlErrors: { ...state.controlErrors },
+			actuatorAlarms,
+		});
+		this.eventEmitter.emit('batteries.update', deviceId);
 	}
 
 	private runHysteresisControl(deviceId: string) {
@@ -155,29 +492,23 @@ export class BatteriesService implements OnModuleInit {
 		if (!state || !config) return;
 
 		const { currentTemperature, setpointTemperature } = state;
-		const { HYSTERESIS } = config.temperatureSettings;
 
-		// Вычисляем разность температур
-		const temperatureDiff = setpointTemperature - currentTemperature;
-		
-		this.logger.debug(`Hysteresis Control ${deviceId}: current=${currentTemperature.toFixed(2)}°C, setpoint=${setpointTemperature}°C, diff=${temperatureDiff.toFixed(2)}°C`);
+		const { output, error } = state.strategy.compute({
+			currentTemperature,
+			setpointTemperature,
+			isWorking: state.isWorking,
+			timestamp: Date.now(),
+			dt: 1, // Двухпозиционному регулятору шаг времени не нужен, цикл - 1 секунда
+		});
+		const shouldOpen = output > 0;
 
-		// Управление клапанами по гистерезису для каждой группы
+		this.logger.debug(`Hysteresis Control ${deviceId}: current=${currentTemperature.toFixed(2)}°C, setpoint=${setpointTemperature}°C, diff=${error.toFixed(2)}°C`);
+
+		// Управляем клапанами групп в автоматическом режиме по выходу регулятора
 		config.groups.forEach(group => {
+			if (state.valveModes[group.groupName] !== 'auto') return;
+
 			const currentValveState = state.valveStates[group.groupName];
-			let shouldOpen = false;
-
-			// Логика гистерезиса
-			if (temperatureDiff > HYSTERESIS) {
-				// Температура ниже уставки на величину больше гистерезиса - открываем клапан
-				shouldOpen = true;
-			} else if (temperatureDiff < -HYSTERESIS) {
-				// Температура выше уставки на величину больше гистерезиса - закрываем клапан
-				shouldOpen = false;
-			} else {
-				// В зоне гистерезиса - оставляем текущее состояние
-				shouldOpen = currentValveState === 'open';
-			}
 
 			// Управляем клапаном только если состояние изменилось
 			if ((shouldOpen && currentValveState !== 'open') || (!shouldOpen && currentValveState !== 'closed')) {
@@ -192,7 +523,7 @@ export class BatteriesService implements OnModuleInit {
 		this.logger.debug(`Hysteresis Control ${deviceId}: isWorking=${state.isWorking}, valveStates=`, state.valveStates);
 	}
 
-	private setGroupValve(deviceId: string, groupName: string, open: boolean) {
+	private setGroupValve(deviceId: string, groupName: string, open: boolean, force = false) {
 		const state = this.states[deviceId];
 		const config = batteriesConfigs[deviceId];
 		
@@ -201,10 +532,11 @@ export class BatteriesService implements OnModuleInit {
 		const group = config.groups.find(g => g.groupName === groupName);
 		if (!group) return;
 
+		open = this.getProtectedValveState(deviceId, open);
 		const newState = open ? 'open' : 'closed';
 		
 		// Если состояние не изменилось, не отправляем команду
-		if (state.valveStates[groupName] === newState) return;
+		if (state.valveStates[groupName] === newState && !force) return;
 
 		// Отправляем команды на все реле группы
 		group.relays.forEach(relay => {
@@ -218,9 +550,7 @@ export class BatteriesService implements OnModuleInit {
 			const relayValue = open ? 0 : 1; // 0 - открыть клапан, 1 - закрыть клапан
 			
 			this.logger.log(`🔋 VALVE: Sending valve command for ${deviceId} group ${groupName}: topic="${topic}/on", value=${relayValue}`);
-			this.mqttService.publish(config.broker, `${topic}/on`, relayValue, {
-				retain: false,
-			});
+			this.actuatorFeedbackService.command(deviceId, config.broker, topic, relayValue);
 		});
 
 		// Обновляем состояние
@@ -231,7 +561,8 @@ export class BatteriesService implements OnModuleInit {
 		state.lastValveOperation[groupName] = new Date();
 
 		// Запускаем таймер для автоматического закрытия клапана через заданное время
-		if (open) {
+		// (принудительно открытый клапан остается открытым)
+		if (open && state.valveModes[groupName] !== 'open') {
 			// Очищаем предыдущий таймер если есть
 			if (state.valveOperationTimers[groupName]) {
 				clearTimeout(state.valveOperationTimers[groupName]);
@@ -240,9 +571,11 @@ export class BatteriesService implements OnModuleInit {
 			// Устанавливаем таймер на автоматическое закрытие
 			state.valveOperationTimers[groupName] = setTimeout(() => {
 				this.logger.log(`🔋 AUTO-CLOSE: Auto-closing valve for ${deviceId} group ${groupName} after ${config.temperatureSettings.VALVE_OPERATION_TIME}s`);
+				// В зоне гистерезиса клапан должен остаться закрытым до следующего выхода за нижнюю границу
+				state.strategy.reset();
 				this.setGroupValve(deviceId, groupName, false);
 			}, config.temperatureSettings.VALVE_OPERATION_TIME * 1000);
-		} else {
+		} else if (!open) {
 			// Очищаем таймер при закрытии клапана
 			if (state.valveOperationTimers[groupName]) {
 				clearTimeout(state.valveOperationTimers[groupName]);
@@ -266,31 +599,99 @@ export class BatteriesService implements OnModuleInit {
 		
 		for (const deviceId of Object.keys(this.states)) {
 			try {
-				const setpointStr = await this.databaseService.getHeatingSetting(deviceId, 'setpoint_temperature');
-				if (setpointStr) {
-					const setpoint = parseFloat(setpointStr);
-					if (!isNaN(setpoint)) {
-						this.states[deviceId].setpointTemperature = setpoint;
-						this.logger.log(`Загружена уставка для ${deviceId}: ${setpoint}°C`);
-					}
-				}
+				const settings = await this.databaseService.getAllHeatingSettings(deviceId);
+				this.applyStoredSettings(deviceId, settings);
 			} catch (error) {
 				this.logger.error(`Ошибка загрузки настроек для ${deviceId}:`, error);
 			}
 		}
 	}
 
+	private applyStoredSettings(deviceId: string, settings: Record<string, string>) {
+		const state = this.states[deviceId];
+		const config = batteriesConfigs[deviceId];
+		if (!state || !config) return;
+
+		const setpoint = parseFloat(settings.setpoint_temperature);
+		if (!isNaN(setpoint)) {
+			state.setpointTemperature = setpoint;
+			this.logger.log(`Загружена уставка для ${deviceId}: ${setpoint}°C`);
+		}
+
+		// Аварийная остановка имеет приоритет над автоуправлением
+		state.isEmergencyStop = settings.emergency_stop === 'true';
+		state.autoControlEnabled = !state.isEmergencyStop && settings.auto_control_enabled === 'true';
+
+		config.groups.forEach(group => {
+			const mode = settings[`valve_mode:${group.groupName}`];
+			if (BATTERIES_VALVE_MODES.includes(mode as BatteriesValveMode)) {
+				state.valveModes[group.groupName] = mode as BatteriesValveMode;
+			}
+		});
+
+		// Зафиксированные аварии защит сохраняются до квитирования и после перезапуска
+		if (settings.protection_alarms) {
+			try {
+				state.protection.restore(JSON.parse(settings.protection_alarms));
+			} catch {
+				this.logger.warn(`Не удалось разобрать аварии защит для ${deviceId}`);
+			}
+		}
+
+		this.logger.log(`Восстановлено состояние ${deviceId}: auto=${state.autoControlEnabled}, emergency=${state.isEmergencyStop}, valveModes=${JSON.stringify(state.valveModes)}`);
+	}
+
+	// Принудительные режимы клапанов удерживаются в каждом цикле (кроме аварийной остановки);
+	// команда отправляется только при расхождении с текущим состоянием клапана
+	private applyValveModes(deviceId: string) {
+		const state = this.states[deviceId];
+		const config = batteriesConfigs[deviceId];
+		if (!state || !config || state.isEmergencyStop) return;
+
+		config.groups.forEach(group => {
+			const mode = state.valveModes[group.groupName];
+			if (mode !== 'auto') {
+				this.setGroupValve(deviceId, group.groupName, mode === 'open');
+			}
+		});
+	}
+
+	// Повторная отправка выходов, которые не пересчитываются циклом регулирования
+	private restoreOutputs(deviceId: string) {
+		const state = this.states[deviceId];
+		const config = batteriesConfigs[deviceId];
+		if (!state || !config) return;
+
+		config.groups.forEach(group => {
+			const mode = state.valveModes[group.groupName];
+			if (state.isEmergencyStop) {
+				this.setGroupValve(deviceId, group.groupName, false, true);
+			} else if (mode !== 'auto') {
+				this.setGroupValve(deviceId, group.groupName, mode === 'open', true);
+			}
+		});
+	}
+
+	// Сохранение параметра состояния в базу данных
+	private async saveSetting(deviceId: string, key: string, value: string) {
+		try {
+			await this.databaseService.setHeatingSetting(deviceId, key, value);
+		} catch (error) {
+			this.logger.error(`Failed to save ${key} to database for ${deviceId}:`, error);
+		}
+	}
+
 	// Публичные методы для управления
 
-	async setTemperature(deviceId: string, temperature: number) {
+	async setTemperature(deviceId: string, temperature: number): Promise<boolean> {
 		const state = this.states[deviceId];
 		
-		if (!state) return;
+		if (!state) return false;
 
 		// Проверяем допустимые пределы температуры
 		if (temperature < 5 || temperature > 35) {
 			this.logger.warn(`Invalid temperature setpoint for batteries ${deviceId}: ${temperature}°C`);
-			return;
+			return false;
 		}
 
 		state.setpointTemperature = temperature;
@@ -308,14 +709,18 @@ export class BatteriesService implements OnModuleInit {
 			deviceId,
 			temperature,
 		});
+		return true;
 	}
 
-	enableAutoControl(deviceId: string) {
+	enableAutoControl(deviceId: string): boolean {
 		const state = this.states[deviceId];
-		if (!state) return;
+		if (!state) return false;
 
 		state.autoControlEnabled = true;
 		state.isEmergencyStop = false;
+		state.strategy.reset();
+		this.saveSetting(deviceId, 'auto_control_enabled', 'true');
+		this.saveSetting(deviceId, 'emergency_stop', 'false');
 
 		this.logger.log(`Auto control enabled for batteries ${deviceId}`);
 		
@@ -323,20 +728,24 @@ export class BatteriesService implements OnModuleInit {
 		this.eventEmitter.emit('batteries.auto.control.enabled', {
 			deviceId,
 		});
+		return true;
 	}
 
-	disableAutoControl(deviceId: string) {
+	disableAutoControl(deviceId: string): boolean {
 		const state = this.states[deviceId];
 		const config = batteriesConfigs[deviceId];
 		
-		if (!state || !config) return;
+		if (!state || !config) return false;
 
 		state.autoControlEnabled = false;
 		state.isWorking = false;
+		this.saveSetting(deviceId, 'auto_control_enabled', 'false');
 		
-		// Закрываем все клапаны
+		// Закрываем клапаны групп в автоматическом режиме
 		config.groups.forEach(group => {
-			this.setGroupValve(deviceId, group.groupName, false);
+			if (state.valveModes[group.groupName] === 'auto') {
+				this.setGroupValve(deviceId, group.groupName, false);
+			}
 		});
 
 		this.logger.log(`Auto control disabled for batteries ${deviceId}`);
@@ -345,17 +754,20 @@ export class BatteriesService implements OnModuleInit {
 		this.eventEmitter.emit('batteries.auto.control.disabled', {
 			deviceId,
 		});
+		return true;
 	}
 
-	emergencyStop(deviceId: string) {
+	emergencyStop(deviceId: string): boolean {
 		const state = this.states[deviceId];
 		const config = batteriesConfigs[deviceId];
 		
-		if (!state || !config) return;
+		if (!state || !config) return false;
 
 		state.isEmergencyStop = true;
 		state.autoControlEnabled = false;
 		state.isWorking = false;
+		this.saveSetting(deviceId, 'emergency_stop', 'true');
+		this.saveSetting(deviceId, 'auto_control_enabled', 'false');
 		
 		// Закрываем все клапаны
 		config.groups.forEach(group => {
@@ -368,31 +780,99 @@ export class BatteriesService implements OnModuleInit {
 		this.eventEmitter.emit('batteries.emergency.stop', {
 			deviceId,
 		});
+		return true;
 	}
 
-	resetEmergencyStop(deviceId: string) {
+	resetEmergencyStop(deviceId: string): boolean {
 		const state = this.states[deviceId];
-		if (!state) return;
+		if (!state) return false;
 
 		state.isEmergencyStop = false;
+		this.saveSetting(deviceId, 'emergency_stop', 'false');
 		this.logger.log(`Emergency stop reset for batteries ${deviceId}`);
+
+		// Возвращаем принудительные режимы клапанов
+		this.restoreOutputs(deviceId);
 		
 		// Эмитируем событие сброса аварийной остановки
 		this.eventEmitter.emit('batteries.emergency.stop.reset', {
 			deviceId,
 		});
+		return true;
 	}
 
-	// Ручное управление клапаном группы
-	setGroupValveManually(deviceId: string, groupName: string, open: boolean) {
+	// Ручное управление клапаном группы в автоматическом режиме; принудительный режим задается setGroupValveMode
+	setGroupValveManually(deviceId: string, groupName: string, open: boolean): boolean {
 		const state = this.states[deviceId];
-		if (!state) return;
+		const config = batteriesConfigs[deviceId];
+		if (!state || !config || !config.groups.some(g => g.groupName === groupName)) return false;
+		if (state.valveModes[groupName] !== 'auto') {
+			this.logger.warn(`Manual valve control for ${deviceId} group ${groupName} ignored: valve mode is ${state.valveModes[groupName]}`);
+			return false;
+		}
 
-		// Временно отключаем автоматическое управление для этой группы
-		// (можно расширить логику для управления отдельными группами)
+		// Разовая команда: открытый клапан закрывается через VALVE_OPERATION_TIME, регулятор продолжает управлять группой
 		this.setGroupValve(deviceId, groupName, open);
 		
 		this.logger.log(`Manual valve control for ${deviceId} group ${groupName}: ${open ? 'OPEN' : 'CLOSED'}`);
+		return true;
+	}
+
+	// Режим клапана группы: 'auto' - по регулятору, 'open'/'closed' - принудительно
+	setGroupValveMode(deviceId: string, groupName: string, mode: BatteriesValveMode): boolean {
+		const state = this.states[deviceId];
+		const config = batteriesConfigs[deviceId];
+		if (!state || !config || !config.groups.some(g => g.groupName === groupName)) return false;
+
+		state.valveModes[groupName] = mode;
+		this.saveSetting(deviceId, `valve_mode:${groupName}`, mode);
+
+		// При аварийной остановке клапаны остаются закрытыми
+		if (!state.isEmergencyStop) {
+			if (mode === 'auto') {
+				// Регулятор подхватит группу на следующем шаге; без автоуправления клапан закрываем
+				state.strategy.reset();
+				if (!state.autoControlEnabled) {
+					this.setGroupValve(deviceId, groupName, false);
+				}
+			} else {
+				this.setGroupValve(deviceId, groupName, mode === 'open');
+			}
+		}
+
+		this.logger.log(`Valve mode for ${deviceId} group ${groupName} set to: ${mode}`);
+
+		this.eventEmitter.emit('batteries.valve.mode.changed', {
+			deviceId,
+			groupName,
+			mode,
+		});
+		return true;
+	}
+
+	// Аварии защит
+
+	getProtectionAlarms(deviceId: string): ProtectionAlarm[] | null {
+		return this.states[deviceId]?.protection.getAlarms() ?? null;
+	}
+
+	// Квитирование аварий защит (всех или одного типа); действующая защита продолжает работать до снятия условия
+	acknowledgeAlarms(deviceId: string, type?: ProtectionAlarmType): ProtectionAlarm[] | null {
+		const state = this.states[deviceId];
+		if (!state) return null;
+
+		const acknowledged = state.protection.acknowledge(type);
+		if (acknowledged.length === 0) return acknowledged;
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: 'info',
+			deviceId,
+			message: `Квитированы аварии защит: ${acknowledged.map(alarm => alarm.type).join(', ')}`,
+		});
+		this.saveProtectionAlarms(deviceId);
+		this.emitAlarmUpdate(deviceId);
+		return acknowledged;
 	}
 
 	// Методы для получения состояния
@@ -412,6 +892,14 @@ export class BatteriesService implements OnModuleInit {
 			autoControlEnabled: state.autoControlEnabled,
 			lastError: state.lastError,
 			lastValveOperation: { ...state.lastValveOperation },
+			valveModes: { ...state.valveModes },
+			freezeProtection: state.protection.hasAlarm('freeze'),
+			overheatProtection: state.protection.hasAlarm('overheat'),
+			protectionAlarms: state.protection.getAlarms(),
+			controlErrors: { ...state.controlErrors },
+			sensorFusion: this.computeSensorFusion(deviceId),
+			outputs: this.getOutputs(deviceId),
+			actuatorAlarm: this.getActuatorAlarms(deviceId).length > 0,
 		};
 	}
 
@@ -446,6 +934,11 @@ export class BatteriesService implements OnModuleInit {
 			averageSetpoint: 0,
 			totalGroups: 0,
 			openValves: 0,
+			// Нагрузка на контроллеры: публикации по брокерам и команды выходов, не опубликованные без изменения
+			publishing: {
+				mqtt: this.mqttService.getPublishStats(),
+				outputs: this.actuatorFeedbackService.getPublishStats(),
+			},
 		};
 
 		let tempSum = 0;
@@ -0,0 +1,80 @@
+import { ActuatorFeedbackTracker, toActuatorValue } from './actuator-feedback';
+
+describe('ActuatorFeedbackTracker', () => {
+	const options = { confirmTimeout: 5, maxRetries: 2, tolerance: 1 };
+
+	it('should confirm a command when the module reports the value', () => {
+		const tracker = new ActuatorFeedbackTracker('/devices/wb-mr6cu_1/controls/K1', options);
+
+		tracker.command(1, 0);
+		expect(tracker.getState().confirmed).toBe(false);
+		expect(tracker.report(1, 1000)).toBeNull();
+		expect(tracker.getState()).toMatchObject({ desired: 1, actual: 1, confirmed: true });
+		expect(tracker.check(10_000)).toBeNull();
+	});
+
+	it('should retry an unconfirmed command and raise an alarm after the retries', () => {
+		const tracker = new ActuatorFeedbackTracker('/devices/wb-mao4_1/controls/Channel 1 Dimming Level', options);
+
+		tracker.report(0, 0);
+		tracker.command(40, 0);
+		expect(tracker.check(4000)).toBeNull();
+		expect(tracker.check(5000)).toBe('retry');
+		expect(tracker.check(10_000)).toBe('retry');
+		expect(tracker.check(15_000)).toBe('alarm');
+		expect(tracker.check(30_000)).toBeNull();
+		expect(tracker.getState().alarm).toBe(true);
+
+		expect(tracker.report(40.4, 31_000)).toBe('cleared');
+		expect(tracker.getState()).toMatchObject({ alarm: false, confirmed: true, retries: 0 });
+	});
+
+	it('should not extend the timeout by frequent commands but by module progress', () => {
+		const tracker = new ActuatorFeedbackTracker('/devices/wb-mao4_1/controls/Channel 1 Dimming Level', { ...options, maxRetries: 0 });
+
+		tracker.report(0, 0);
+		tracker.command(20, 0);
+		tracker.command(22, 3000);
+		expect(tracker.check(5000)).toBe('alarm');
+
+		tracker.command(30, 6000);
+		tracker.report(25, 9000);
+		expect(tracker.check(12_000)).toBeNull();
+		tracker.command(30, 13_000);
+		expect(tracker.check(13_000)).toBeNull();
+		expect(tracker.report(30, 13_500)).toBe('cleared');
+	});
+
+	it('should treat a repeated command as confirmed and detect external changes', () => {
+		const tracker = new ActuatorFeedbackTracker('/devices/wb-mr6cu_1/controls/K1', options);
+
+		tracker.report(1, 0);
+		tracker.command(1, 1000);
+		expect(tracker.getState().confirmed).toBe(true);
+
+		tracker.report(0, 2000);
+		expect(tracker.getState().confirmed).toBe(false);
+		expect(tracker.check(7000)).toBe('retry');
+	});
+
+	it('should restart the timeout of an unconfirmed command', () => {
+		const tracker = new ActuatorFeedbackTracker('/devices/wb-mr6cu_1/controls/K1', options);
+
+		tracker.report(0, 0);
+		tracker.command(1, 0);
+		tracker.restartTimeout(60_000);
+		expect(tracker.check(64_000)).toBeNull();
+		expect(tracker.check(65_000)).toBe('retry');
+
+		tracker.report(1, 66_000);
+		tracker.restartTimeout(70_000);
+		expect(tracker.getState().confirmed).toBe(true);
+		expect(tracker.check(80_000)).toBeNull();
+	});
+
+	it('should convert command payloads to numbers', () => {
+		expect(toActuatorValue(true)).toBe(1);
+		expect(toActuatorValue('23.5')).toBe(23.5);
+		expect(toActuatorValue('on')).toBeNull();
+	});
+});
@@ -0,0 +1,120 @@
+import { ActuatorFeedbackEvent, ActuatorFeedbackOptions, ActuatorOutputState } from '../interfaces/actuator.interface';
+
+// Булевы команды реле публикуются как 1/0 - сравниваем в числах
+export function toActuatorValue(value: boolean | number | string): number | null {
+	if (typeof value === 'boolean') return value ? 1 : 0;
+	const parsed = typeof value === 'number' ? value : parseFloat(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Контроль выполнения команды выхода по фактическому значению контрола
+ *
+ * Расхождение заданного и фактического значения дольше таймаута приводит к повтору команды,
+ * после исчерпания повторов - к аварии, которая снимается при совпадении значений.
+ * Таймаут отсчитывается от первой неподтвержденной команды (частые команды регулятора его не продлевают)
+ * или от последнего изменения фактического значения (модуль отрабатывает команду с запаздыванием).
+ */
+export class ActuatorFeedbackTracker {
+	private desired: number | null = null;
+	private actual: number | null = null;
+	private commandedAt: number | null = null;
+	private reportedAt: number | null = null;
+	private mismatchSince: number | null = null;
+	private retries = 0;
+	private alarm = false;
+
+	constructor(
+		readonly topic: string,
+		private readonly options: ActuatorFeedbackOptions,
+	) {}
+
+	command(value: number, now = Date.now()) {
+		this.desired = value;
+		this.commandedAt = now;
+		// Модуль не публикует значение повторно, если оно не изменилось - такая команда сразу подтверждена
+		if (this.matches()) {
+			this.mismatchSince = null;
+			this.retries = 0;
+		} else {
+			this.mismatchSince ??= now;
+		}
+	}
+
+	/**
+	 * Фактическое значение контрола
+	 * @returns 'cleared', если значение сняло аварию
+	 */
+	report(value: number, now = Date.now()): ActuatorFeedbackEvent | null {
+		const isChanged = value !== this.actual;
+		this.actual = value;
+		this.reportedAt = now;
+		if (this.desired === null) return null;
+
+		if (!this.matches()) {
+			if (isChanged || this.mismatchSince === null) {
+				this.mismatchSince = now;
+			}
+			return null;
+		}
+
+		this.mismatchSince = null;
+		this.retries = 0;
+		if (this.alarm) {
+			this.alarm = false;
+			return 'cleared';
+		}
+		return null;
+	}
+
+	/**
+	 * Проверка таймаута подтверждения
+	 * @returns 'retry' - повторить команду, 'alarm' - повторы исчерпаны, 'cleared' - команда подтверждена после аварии
+	 */
+	check(now = Date.now()): ActuatorFeedbackEvent | null {
+		if (this.alarm && this.mismatchSince === null) {
+			this.alarm = false;
+			return 'cleared';
+		}
+		if (this.mismatchSince === null || now - this.mismatchSince < this.options.confirmTimeout * 1000) return null;
+
+		if (this.retries < this.options.maxRetries) {
+			this.retries++;
+			this.mismatchSince = now;
+			return 'retry';
+		}
+		if (!this.alarm) {
+			this.alarm = true;
+			return 'alarm';
+		}
+		return null;
+	}
+
+	// Команда заново отправлена после восстановления связи с брокером: таймаут отсчитывается заново
+	restartTimeout(now = Date.now()) {
+		if (this.mismatchSince !== null) {
+			this.mismatchSince = now;
+		}
+	}
+
+	getDesired(): number | null {
+		return this.desired;
+	}
+
+	getState(): ActuatorOutputState {
+		return {
+			topic: this.topic,
+			desired: this.desired,
+			actual: this.actual,
+			confirmed: this.desired !== null && this.mismatchSince === null,
+			retries: this.retries,
+			alarm: this.alarm,
+			commandedAt: this.commandedAt !== null ? new Date(this.commandedAt).toISOString() : null,
+			reportedAt: this.reportedAt !== null ? new Date(this.reportedAt).toISOString() : null,
+		};
+	}
+
+	private matches(): boolean {
+		return this.desired !== null && this.actual !== null && Math.abs(this.actual - this.desired) < this.options.tolerance;
+	}
+}
@@ -0,0 +1,43 @@
+import {
+	ControlStrategy,
+	ControlStrategyOptions,
+	ControlStrategyType,
+	CONTROL_STRATEGY_TYPES,
+} from '../interfaces/control.interface';
+import { HeatingPIDSettings } from '../interfaces/heating.interface';
+import { PidControlStrategy } from './pid.strategy';
+import { HysteresisControlStrategy } from './hysteresis.strategy';
+import { OnOffControlStrategy } from './on-off.strategy';
+import { FixedOutputControlStrategy } from './fixed-output.strategy';
+
+export function isControlStrategyType(value: unknown): value is ControlStrategyType {
+	return typeof value === 'string' && CONTROL_STRATEGY_TYPES.includes(value as ControlStrategyType);
+}
+
+/**
+ * Создать экземпляр стратегии управления
+ * @param type - тип стратегии
+ * @param options - общие параметры выхода
+ * @param pidState - настройки PID (используются только стратегией 'pid')
+ */
+export function createControlStrategy(
+	type: ControlStrategyType,
+	options: ControlStrategyOptions,
+	pidState?: HeatingPIDSettings,
+): ControlStrategy {
+	switch (type) {
+		case 'pid':
+			if (!pidState) {
+				throw new Error('PID settings are required for pid control strategy');
+			}
+			return new PidControlStrategy(pidState);
+		case 'hysteresis':
+			return new HysteresisControlStrategy(options.hysteresis, options.outputMin, options.outputMax);
+		case 'on_off':
+			return new OnOffControlStrategy(options.outputMin, options.outputMax);
+		case 'fixed_output':
+			return new FixedOutputControlStrategy(options.fixedOutput, options.outputMin, options.outputMax);
+		default:
+			throw new Error(`Unknown control strategy: ${type}`);
+	}
+}
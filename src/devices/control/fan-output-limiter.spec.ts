@@ -0,0 +1,62 @@
+import { FanOutputLimiter, validateFanOutputLimits } from './fan-output-limiter';
+import { FanOutputLimitSettings } from '../interfaces/heating.interface';
+
+describe('FanOutputLimiter', () => {
+	const settings = (overrides: Partial<FanOutputLimitSettings> = {}): FanOutputLimitSettings => ({
+		rampRate: 0,
+		cutoffOutput: 15,
+		cutoffHysteresis: 2,
+		minRunTime: 0,
+		minOffTime: 0,
+		startBoostOutput: 0,
+		startBoostTime: 0,
+		...overrides,
+	});
+
+	it('should switch the fan around the cut-off threshold with hysteresis', () => {
+		const limiter = new FanOutputLimiter(settings());
+
+		expect(limiter.update(16, 0)).toBe(0);
+		expect(limiter.update(17, 1000)).toBe(17);
+		expect(limiter.update(15.5, 2000)).toBe(15.5);
+		expect(limiter.update(14, 3000)).toBe(0);
+		expect(limiter.update(16, 4000)).toBe(0);
+	});
+
+	it('should hold the fan for minimum run and off times', () => {
+		const limiter = new FanOutputLimiter(settings({ minRunTime: 60, minOffTime: 30 }));
+
+		expect(limiter.update(20, 0)).toBe(20);
+		expect(limiter.update(0, 10_000)).toBe(15);
+		expect(limiter.getState(10_000).isHeld).toBe(true);
+		expect(limiter.update(0, 60_000)).toBe(0);
+		expect(limiter.update(25, 70_000)).toBe(0);
+		expect(limiter.update(25, 90_000)).toBe(25);
+	});
+
+	it('should limit the ramp rate after a start boost', () => {
+		const limiter = new FanOutputLimiter(settings({ rampRate: 2, startBoostOutput: 30, startBoostTime: 3 }));
+
+		expect(limiter.update(20, 0)).toBe(30);
+		expect(limiter.getState(0).isBoosting).toBe(true);
+		expect(limiter.update(20, 2000)).toBe(30);
+		expect(limiter.update(20, 3000)).toBe(28);
+		expect(limiter.update(20, 4000)).toBe(26);
+		expect(limiter.update(20, 10_000)).toBe(20);
+	});
+
+	it('should continue from an output applied outside the limiter', () => {
+		const limiter = new FanOutputLimiter(settings({ rampRate: 5 }));
+
+		limiter.reset(30, 0);
+		expect(limiter.update(0, 1000)).toBe(0);
+		limiter.reset(20, 2000);
+		expect(limiter.update(30, 3000)).toBe(25);
+	});
+
+	it('should validate limits', () => {
+		expect(validateFanOutputLimits({ rampRate: 5, cutoffOutput: 15 }, 100)).toBeNull();
+		expect(validateFanOutputLimits({ minRunTime: -1 }, 100)).toContain('minRunTime');
+		expect(validateFanOutputLimits({ cutoffOutput: 95, cutoffHysteresis: 10 }, 100)).toContain('cutoffOutput');
+	});
+});
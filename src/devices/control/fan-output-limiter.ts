@@ -0,0 +1,123 @@
+import { FanOutputLimiterState, FanOutputLimitSettings } from '../interfaces/heating.interface';
+
+const LIMIT_KEYS: (keyof FanOutputLimitSettings)[] = [
+	'rampRate',
+	'cutoffOutput',
+	'cutoffHysteresis',
+	'minRunTime',
+	'minOffTime',
+	'startBoostOutput',
+	'startBoostTime',
+];
+
+export function validateFanOutputLimits(settings: Partial<FanOutputLimitSettings>, outputMax: number): string | null {
+	for (const key of LIMIT_KEYS) {
+		const value = settings[key];
+		if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+			return `${key} must be a non-negative number`;
+		}
+	}
+	if (settings.cutoffOutput !== undefined && settings.cutoffOutput + (settings.cutoffHysteresis ?? 0) > outputMax) {
+		return `cutoffOutput + cutoffHysteresis must not exceed ${outputMax}`;
+	}
+	if (settings.startBoostOutput !== undefined && settings.startBoostOutput > outputMax) {
+		return `startBoostOutput must not exceed ${outputMax}`;
+	}
+	return null;
+}
+
+/**
+ * Ограничения выхода вентилятора для защиты двигателя
+ *
+ * Вентилятор выключается при выходе ниже порога и включается снова только выше порога с гистерезисом,
+ * не раньше минимального времени простоя; после включения работает не меньше минимального времени работы.
+ * При пуске выход на заданное время поднимается до выхода разгона, дальше изменяется не быстрее rampRate.
+ */
+export class FanOutputLimiter {
+	private output = 0;
+	private isRunning = false;
+	private isHeld = false;
+	private lastSwitch: number | null = null;
+	private lastUpdate: number | null = null;
+	private boostUntil = 0;
+
+	constructor(private settings: FanOutputLimitSettings) {}
+
+	setSettings(settings: FanOutputLimitSettings) {
+		this.settings = settings;
+	}
+
+	/**
+	 * Шаг ограничителя
+	 * @returns выход для диммера (%)
+	 */
+	update(target: number, now = Date.now()): number {
+		const { cutoffOutput, cutoffHysteresis, minRunTime, minOffTime, startBoostOutput, startBoostTime } = this.settings;
+		const dt = this.lastUpdate !== null ? Math.max(0, (now - this.lastUpdate) / 1000) : 0;
+		this.lastUpdate = now;
+
+		const sinceSwitch = this.lastSwitch !== null ? (now - this.lastSwitch) / 1000 : Infinity;
+		const wantsRun = this.isRunning ? target >= cutoffOutput : target >= cutoffOutput + cutoffHysteresis;
+		this.isHeld = false;
+
+		if (wantsRun !== this.isRunning) {
+			const minTime = this.isRunning ? minRunTime : minOffTime;
+			if (sinceSwitch < minTime) {
+				this.isHeld = true;
+			} else {
+				this.isRunning = wantsRun;
+				this.lastSwitch = now;
+				if (wantsRun) {
+					// Пуск: разгон или начало плавного нарастания от порога
+					this.boostUntil = startBoostOutput > 0 ? now + startBoostTime * 1000 : 0;
+					this.output = Math.max(cutoffOutput, Math.min(target, cutoffOutput + cutoffHysteresis));
+				}
+			}
+		}
+
+		if (!this.isRunning) {
+			this.output = 0;
+			return this.output;
+		}
+
+		// Удерживаемый минимальным временем работы вентилятор работает на пороге
+		const value = Math.max(target, cutoffOutput);
+		if (now < this.boostUntil) {
+			this.output = Math.max(value, startBoostOutput);
+			return this.output;
+		}
+
+		this.output = this.applyRamp(value, dt);
+		return this.output;
+	}
+
+	// Синхронизация с выходом, отправленным в обход ограничителя (ручное управление, аварийная остановка)
+	reset(output: number, now = Date.now()) {
+		const isRunning = output > 0;
+		if (isRunning !== this.isRunning) {
+			this.lastSwitch = now;
+		}
+		this.isRunning = isRunning;
+		this.output = Math.max(0, output);
+		this.lastUpdate = now;
+		this.boostUntil = 0;
+		this.isHeld = false;
+	}
+
+	getState(now = Date.now()): FanOutputLimiterState {
+		return {
+			output: Number(this.output.toFixed(2)),
+			isRunning: this.isRunning,
+			isBoosting: this.isRunning && now < this.boostUntil,
+			isHeld: this.isHeld,
+		};
+	}
+
+	private applyRamp(value: number, dt: number): number {
+		const { rampRate } = this.settings;
+		if (!(rampRate > 0)) return value;
+
+		const maxStep = rampRate * dt;
+		return Math.min(this.output + maxStep, Math.max(this.output - maxStep, value));
+	}
+}
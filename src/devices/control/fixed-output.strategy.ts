@@ -0,0 +1,21 @@
+import { ControlInput, ControlOutput, ControlStrategy } from '../interfaces/control.interface';
+
+/**
+ * Постоянный выход независимо от температуры
+ */
+export class FixedOutputControlStrategy implements ControlStrategy {
+	readonly type = 'fixed_output' as const;
+	private readonly output: number;
+
+	constructor(output: number, outputMin: number, outputMax: number) {
+		this.output = Math.max(outputMin, Math.min(outputMax, output));
+	}
+
+	compute(input: ControlInput): ControlOutput {
+		return { output: this.output, error: input.setpointTemperature - input.currentTemperature };
+	}
+
+	reset(): void {}
+
+	preload(): void {}
+}
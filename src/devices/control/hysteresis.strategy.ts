@@ -0,0 +1,39 @@
+import { ControlInput, ControlOutput, ControlStrategy } from '../interfaces/control.interface';
+
+/**
+ * Двухпозиционный регулятор с гистерезисом
+ * Включает выход, когда температура ниже уставки больше чем на гистерезис,
+ * и выключает, когда выше уставки больше чем на гистерезис. В зоне гистерезиса
+ * сохраняется предыдущее состояние.
+ */
+export class HysteresisControlStrategy implements ControlStrategy {
+	readonly type = 'hysteresis' as const;
+	private isOn = false;
+
+	constructor(
+		private readonly hysteresis: number,
+		private readonly outputMin: number,
+		private readonly outputMax: number,
+	) {}
+
+	compute(input: ControlInput): ControlOutput {
+		const error = input.setpointTemperature - input.currentTemperature;
+
+		if (error > this.hysteresis) {
+			this.isOn = true;
+		} else if (error < -this.hysteresis) {
+			this.isOn = false;
+		}
+
+		return { output: this.isOn ? this.outputMax : this.outputMin, error };
+	}
+
+	reset(): void {
+		this.isOn = false;
+	}
+
+	// В зоне гистерезиса продолжаем с того состояния, которое было задано вручную
+	preload(_input: ControlInput, output: number): void {
+		this.isOn = output > this.outputMin;
+	}
+}
@@ -0,0 +1,23 @@
+import { ControlInput, ControlOutput, ControlStrategy } from '../interfaces/control.interface';
+
+/**
+ * Простой регулятор вкл/выкл без зоны нечувствительности:
+ * максимальный выход, пока температура ниже уставки
+ */
+export class OnOffControlStrategy implements ControlStrategy {
+	readonly type = 'on_off' as const;
+
+	constructor(
+		private readonly outputMin: number,
+		private readonly outputMax: number,
+	) {}
+
+	compute(input: ControlInput): ControlOutput {
+		const error = input.setpointTemperature - input.currentTemperature;
+		return { output: error > 0 ? this.outputMax : this.outputMin, error };
+	}
+
+	reset(): void {}
+
+	preload(): void {}
+}
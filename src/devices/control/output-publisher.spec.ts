@@ -0,0 +1,64 @@
+import { OutputPublisher } from './output-publisher';
+
+describe('OutputPublisher', () => {
+	const options = { deadband: 0.5, refreshInterval: 60, coalesceWindow: 0.5 };
+
+	it('should publish only changes beyond the deadband', () => {
+		const publisher = new OutputPublisher(options);
+
+		expect(publisher.offer(40, 0)).toBe(40);
+		expect(publisher.offer(40, 1000)).toBeNull();
+		expect(publisher.offer(40.4, 2000)).toBeNull();
+		expect(publisher.offer(41, 3000)).toBe(41);
+		expect(publisher.getStats()).toMatchObject({ commands: 4, published: 2, suppressed: 2 });
+	});
+
+	it('should always publish switching off', () => {
+		const publisher = new OutputPublisher({ ...options, deadband: 5 });
+
+		expect(publisher.offer(3, 0)).toBe(3);
+		expect(publisher.offer(0, 1000)).toBe(0);
+		expect(publisher.offer(1, 2000)).toBeNull();
+	});
+
+	it('should coalesce bursts and publish the latest value after the window', () => {
+		const publisher = new OutputPublisher(options);
+
+		expect(publisher.offer(20, 0)).toBe(20);
+		expect(publisher.offer(30, 100)).toBeNull();
+		expect(publisher.offer(35, 200)).toBeNull();
+		expect(publisher.getFlushDelay(200)).toBe(300);
+		expect(publisher.poll(400)).toBeNull();
+		expect(publisher.poll(500)).toEqual({ value: 35, reason: 'coalesced' });
+		expect(publisher.getStats()).toMatchObject({ published: 2, coalesced: 1 });
+	});
+
+	it('should drop a deferred value that returned into the deadband', () => {
+		const publisher = new OutputPublisher(options);
+
+		publisher.offer(20, 0);
+		publisher.offer(30, 100);
+		expect(publisher.offer(20.2, 200)).toBeNull();
+		expect(publisher.getFlushDelay(200)).toBeNull();
+		expect(publisher.poll(1000)).toBeNull();
+	});
+
+	it('should refresh the latest value as a keep-alive', () => {
+		const publisher = new OutputPublisher(options);
+
+		publisher.offer(40, 0);
+		publisher.offer(40.3, 30_000);
+		expect(publisher.poll(59_000)).toBeNull();
+		expect(publisher.poll(60_000)).toEqual({ value: 40.3, reason: 'refresh' });
+		expect(publisher.getStats().refreshed).toBe(1);
+		expect(new OutputPublisher({ ...options, refreshInterval: 0 }).poll(60_000)).toBeNull();
+	});
+
+	it('should publish the next value after reset', () => {
+		const publisher = new OutputPublisher(options);
+
+		publisher.offer(40, 0);
+		publisher.reset();
+		expect(publisher.offer(40, 100)).toBe(40);
+	});
+});
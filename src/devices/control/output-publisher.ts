@@ -0,0 +1,88 @@
+import { OutputPublishOptions, OutputPublishStats } from '../interfaces/actuator.interface';
+
+export type OutputPublishReason = 'change' | 'coalesced' | 'refresh';
+
+/**
+ * Публикация команд выхода только при изменении
+ *
+ * Регулятор задает значение каждую секунду, но команда публикуется, только если значение
+ * отличается от опубликованного больше зоны нечувствительности (выключение в 0 публикуется всегда).
+ * Команды чаще окна объединения откладываются, публикуется последняя; опубликованное значение
+ * повторяется с интервалом обновления, чтобы модуль получил команду после потери сообщения.
+ */
+export class OutputPublisher {
+	private latest: number | null = null;       // Последнее заданное значение
+	private published: number | null = null;    // Последнее опубликованное значение
+	private publishedAt: number | null = null;
+	private pending = false;                    // Последнее значение отложено до конца окна объединения
+	private stats: OutputPublishStats = { commands: 0, published: 0, suppressed: 0, coalesced: 0, refreshed: 0 };
+
+	constructor(private readonly options: OutputPublishOptions) {}
+
+	/**
+	 * Новое значение выхода
+	 * @returns значение для немедленной публикации или null (не изменилось или отложено)
+	 */
+	offer(value: number, now = Date.now()): number | null {
+		this.stats.commands++;
+		this.latest = value;
+
+		if (this.published !== null && !this.isChanged(value)) {
+			this.pending = false;
+			this.stats.suppressed++;
+			return null;
+		}
+		if (this.publishedAt !== null && now - this.publishedAt < this.options.coalesceWindow * 1000) {
+			if (this.pending) this.stats.coalesced++;
+			this.pending = true;
+			return null;
+		}
+		return this.publish(value, now, 'change');
+	}
+
+	/**
+	 * Периодическая проверка: отложенное значение после окна объединения или повтор по интервалу обновления
+	 */
+	poll(now = Date.now()): { value: number; reason: OutputPublishReason } | null {
+		if (this.latest === null || this.publishedAt === null) return null;
+
+		if (this.pending && now - this.publishedAt >= this.options.coalesceWindow * 1000) {
+			return { value: this.publish(this.latest, now, 'coalesced'), reason: 'coalesced' };
+		}
+		if (this.options.refreshInterval > 0 && now - this.publishedAt >= this.options.refreshInterval * 1000) {
+			return { value: this.publish(this.latest, now, 'refresh'), reason: 'refresh' };
+		}
+		return null;
+	}
+
+	// Через сколько мс нужно вызвать poll для отложенного значения (null - ничего не отложено)
+	getFlushDelay(now = Date.now()): number | null {
+		if (!this.pending || this.publishedAt === null) return null;
+		return Math.max(0, this.publishedAt + this.options.coalesceWindow * 1000 - now);
+	}
+
+	// Следующее значение публикуется без проверки изменения (например, после переподключения к брокеру)
+	reset() {
+		this.published = null;
+		this.publishedAt = null;
+		this.pending = false;
+	}
+
+	getStats(): OutputPublishStats {
+		return { ...this.stats };
+	}
+
+	private isChanged(value: number): boolean {
+		if (value === this.published) return false;
+		return value === 0 || Math.abs(value - this.published!) > this.options.deadband;
+	}
+
+	private publish(value: number, now: number, reason: OutputPublishReason): number {
+		this.published = value;
+		this.publishedAt = now;
+		this.pending = false;
+		this.stats.published++;
+		if (reason === 'refresh') this.stats.refreshed++;
+		return value;
+	}
+}
@@ -0,0 +1,149 @@
+import { PidRegulator, PidRegulatorSettings } from './pid-regulator';
+
+describe('PidRegulator', () => {
+	const baseSettings: PidRegulatorSettings = {
+		Kp: 2,
+		Ki: 0.5,
+		Kd: 0,
+		outputMin: 0,
+		outputMax: 100,
+	};
+
+	it('should compute proportional output from the error', () => {
+		const pid = new PidRegulator({ ...baseSettings, Ki: 0 });
+
+		const result = pid.update(22, 20, 1);
+
+		expect(result.error).toBe(2);
+		expect(result.proportional).toBe(4);
+		expect(result.output).toBe(4);
+	});
+
+	it('should integrate using the real elapsed time', () => {
+		const fast = new PidRegulator({ ...baseSettings, Kp: 0 });
+		const slow = new PidRegulator({ ...baseSettings, Kp: 0 });
+
+		fast.update(22, 20, 1);
+		slow.update(22, 20, 3);
+
+		expect(fast.integralTerm).toBeCloseTo(1);
+		expect(slow.integralTerm).toBeCloseTo(3);
+	});
+
+	it('should not integrate when dt is not positive', () => {
+		const pid = new PidRegulator(baseSettings);
+
+		pid.update(22, 20, 0);
+		pid.update(22, 20, NaN);
+
+		expect(pid.integralTerm).toBe(0);
+	});
+
+	it('should not wind up the integral with clamping anti-windup', () => {
+		const pid = new PidRegulator({ ...baseSettings, antiWindup: 'clamping' });
+
+		for (let i = 0; i < 1000; i++) {
+			pid.update(30, 10, 1);
+		}
+
+		expect(pid.integralTerm).toBeLessThanOrEqual(100);
+
+		// После перегрева выход должен сразу уйти из насыщения
+		const result = pid.update(20, 25, 1);
+		expect(result.saturated).toBe(false);
+		expect(result.output).toBeLessThan(100);
+	});
+
+	it('should keep the integral near the output limit with back-calculation', () => {
+		const pid = new PidRegulator({ ...baseSettings, antiWindup: 'back_calculation', trackingTime: 2 });
+
+		for (let i = 0; i < 1000; i++) {
+			pid.update(30, 10, 1);
+		}
+
+		// P = 40, поэтому интеграл стремится к 100 - 40 + Tt·Ki·e = 80
+		expect(pid.integralTerm).toBeCloseTo(80, 0);
+	});
+
+	it('should not kick the derivative on setpoint change', () => {
+		const pid = new PidRegulator({ ...baseSettings, Kp: 0, Ki: 0, Kd: 10, derivativeFilterTime: 0 });
+
+		pid.update(20, 20, 1);
+		const result = pid.update(25, 20, 1);
+
+		expect(result.derivative).toBe(0);
+	});
+
+	it('should take the derivative on the measurement', () => {
+		const pid = new PidRegulator({ ...baseSettings, Kp: 0, Ki: 0, Kd: 10, derivativeFilterTime: 0, outputMin: -100 });
+
+		pid.update(20, 20, 1);
+		const result = pid.update(20, 20.5, 1);
+
+		expect(result.derivative).toBeCloseTo(-5);
+	});
+
+	it('should smooth the derivative with the low-pass filter', () => {
+		const raw = new PidRegulator({ ...baseSettings, Kp: 0, Ki: 0, Kd: 10, derivativeFilterTime: 0, outputMin: -100 });
+		const filtered = new PidRegulator({ ...baseSettings, Kp: 0, Ki: 0, Kd: 10, derivativeFilterTime: 4, outputMin: -100 });
+
+		raw.update(20, 20, 1);
+		filtered.update(20, 20, 1);
+
+		expect(raw.update(20, 20.5, 1).derivative).toBeCloseTo(-5);
+		expect(filtered.update(20, 20.5, 1).derivative).toBeCloseTo(-1);
+	});
+
+	it('should respect a per-step output limit without winding up', () => {
+		const pid = new PidRegulator({ ...baseSettings, antiWindup: 'clamping' });
+
+		let result = pid.update(35, 10, 1, 40);
+		for (let i = 0; i < 100; i++) {
+			result = pid.update(35, 10, 1, 40);
+		}
+
+		expect(result.output).toBe(40);
+		expect(result.saturated).toBe(true);
+		expect(pid.integralTerm).toBeLessThanOrEqual(40);
+	});
+
+	it('should apply setpoint weighting to the proportional term only', () => {
+		const pid = new PidRegulator({ ...baseSettings, Ki: 0, setpointWeight: 0.5 });
+
+		const result = pid.update(20, 5, 1);
+
+		expect(result.error).toBe(15);
+		expect(result.proportional).toBe(2 * (0.5 * 20 - 5));
+	});
+
+	it('should continue from the preloaded output without a bump', () => {
+		const pid = new PidRegulator(baseSettings);
+
+		pid.preload(22, 20, 30);
+		const result = pid.update(22, 20, 0);
+
+		expect(result.output).toBeCloseTo(30);
+		expect(pid.integralTerm).toBeCloseTo(26);
+	});
+
+	it('should not preload the integral without the integral term', () => {
+		const pid = new PidRegulator({ ...baseSettings, Ki: 0 });
+
+		pid.preload(22, 20, 30);
+
+		expect(pid.integralTerm).toBe(0);
+		expect(pid.update(22, 20, 1).output).toBe(4);
+	});
+
+	it('should clear the state on reset', () => {
+		const pid = new PidRegulator({ ...baseSettings, Kd: 10 });
+
+		pid.update(22, 20, 1);
+		pid.update(22, 21, 1);
+		pid.reset();
+		const result = pid.update(22, 20, 1);
+
+		expect(result.integral).toBe(0);
+		expect(result.derivative).toBe(0);
+	});
+});
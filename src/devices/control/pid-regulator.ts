@@ -0,0 +1,154 @@
+import { HeatingPIDSettings, PIDAntiWindupMode } from '../interfaces/heating.interface';
+
+const DEFAULT_ANTI_WINDUP: PIDAntiWindupMode = 'back_calculation';
+const DEFAULT_DERIVATIVE_FILTER_TIME = 5; // сек
+const DEFAULT_SETPOINT_WEIGHT = 1;
+
+export type PidRegulatorSettings = Pick<
+	HeatingPIDSettings,
+	'Kp' | 'Ki' | 'Kd' | 'outputMin' | 'outputMax' | 'antiWindup' | 'trackingTime' | 'derivativeFilterTime' | 'setpointWeight'
+>;
+
+export interface PidRegulatorOutput {
+	output: number;        // Выход после ограничения outputMin..outputMax
+	error: number;         // Ошибка регулирования (уставка - измерение)
+	proportional: number;  // P-составляющая
+	integral: number;      // I-составляющая (накопленная, в единицах выхода)
+	derivative: number;    // D-составляющая
+	saturated: boolean;    // Выход упёрся в ограничение
+}
+
+/**
+ * PID регулятор с учетом реального времени шага
+ *
+ * - интеграл накапливается как Ki·e·dt и хранится в единицах выхода,
+ *   поэтому изменение Ki не вызывает скачка выхода;
+ * - защита от насыщения интеграла: условное интегрирование ('clamping')
+ *   или обратный расчет с постоянной Tt ('back_calculation');
+ * - D-составляющая считается по измерению (без броска при смене уставки)
+ *   и сглаживается фильтром первого порядка;
+ * - вес уставки b в P-составляющей: P = Kp·(b·SP - PV).
+ *
+ * Коэффициенты читаются из settings на каждом шаге, поэтому их можно менять на лету.
+ */
+export class PidRegulator {
+	private integral = 0;
+	private filteredRate = 0;
+	private prevMeasurement: number | null = null;
+
+	constructor(private readonly settings: PidRegulatorSettings) {}
+
+	/**
+	 * Шаг регулирования
+	 * @param setpoint - уставка
+	 * @param measurement - измеренное значение
+	 * @param dt - время с предыдущего шага (сек); при dt <= 0 I и D не обновляются
+	 * @param outputLimit - дополнительное ограничение выхода сверху на этом шаге (например, погодная компенсация)
+	 */
+	update(setpoint: number, measurement: number, dt: number, outputLimit?: number): PidRegulatorOutput {
+		const { Kp, Ki, Kd, outputMin } = this.settings;
+		const outputMax = this.getOutputMax(outputLimit);
+		const setpointWeight = this.settings.setpointWeight ?? DEFAULT_SETPOINT_WEIGHT;
+		const validDt = Number.isFinite(dt) && dt > 0;
+
+		const error = setpoint - measurement;
+		const proportional = Kp * (setpointWeight * setpoint - measurement);
+
+		// Производная по измерению со знаком минус: рост температуры уменьшает выход
+		if (this.prevMeasurement !== null && validDt) {
+			const rate = -(measurement - this.prevMeasurement) / dt;
+			const filterTime = this.settings.derivativeFilterTime ?? DEFAULT_DERIVATIVE_FILTER_TIME;
+			const alpha = filterTime > 0 ? dt / (filterTime + dt) : 1;
+			this.filteredRate += alpha * (rate - this.filteredRate);
+		}
+		this.prevMeasurement = measurement;
+		const derivative = Kd * this.filteredRate;
+
+		const unsaturated = proportional + this.integral + derivative;
+		const output = Math.max(outputMin, Math.min(outputMax, unsaturated));
+		const saturated = output !== unsaturated;
+		const result: PidRegulatorOutput = { output, error, proportional, integral: this.integral, derivative, saturated };
+
+		if (Ki === 0) {
+			this.integral = 0;
+		} else if (validDt) {
+			this.integrate(error, unsaturated, output, dt, outputMax);
+		}
+
+		return result;
+	}
+
+	reset(): void {
+		this.integral = 0;
+		this.filteredRate = 0;
+		this.prevMeasurement = null;
+	}
+
+	/**
+	 * Безударный переход: интеграл подбирается так, чтобы при тех же уставке
+	 * и измерении регулятор выдал заданный выход (D-составляющая обнуляется)
+	 * @param setpoint - уставка
+	 * @param measurement - измеренное значение
+	 * @param output - выход, с которого продолжает регулятор
+	 * @param outputLimit - дополнительное ограничение выхода сверху
+	 */
+	preload(setpoint: number, measurement: number, output: number, outputLimit?: number): void {
+		const { Kp, Ki, outputMin } = this.settings;
+		const outputMax = this.getOutputMax(outputLimit);
+		const setpointWeight = this.settings.setpointWeight ?? DEFAULT_SETPOINT_WEIGHT;
+
+		this.filteredRate = 0;
+		this.prevMeasurement = measurement;
+
+		// Без I-составляющей выход определяется только ошибкой
+		if (Ki === 0) {
+			this.integral = 0;
+			return;
+		}
+
+		const target = Math.max(outputMin, Math.min(outputMax, output));
+		const integral = target - Kp * (setpointWeight * setpoint - measurement);
+		this.integral = (this.settings.antiWindup ?? DEFAULT_ANTI_WINDUP) === 'clamping'
+			? Math.max(outputMin, Math.min(outputMax, integral))
+			: integral;
+	}
+
+	get integralTerm(): number {
+		return this.integral;
+	}
+
+	// Верхний предел выхода не ниже нижнего, даже если ограничение задано некорректно
+	private getOutputMax(outputLimit?: number): number {
+		const { outputMin, outputMax } = this.settings;
+		if (outputLimit === undefined || !Number.isFinite(outputLimit)) return outputMax;
+		return Math.max(outputMin, Math.min(outputMax, outputLimit));
+	}
+
+	private integrate(error: number, unsaturated: number, output: number, dt: number, outputMax: number) {
+		const { Kp, Ki, Kd, outputMin } = this.settings;
+		const mode = this.settings.antiWindup ?? DEFAULT_ANTI_WINDUP;
+
+		if (mode === 'clamping') {
+			// Не интегрируем, если выход в насыщении и ошибка тянет его дальше за предел
+			const windingUp = (unsaturated >= outputMax && error > 0) || (unsaturated <= outputMin && error < 0);
+			if (!windingUp) {
+				this.integral += Ki * error * dt;
+			}
+			this.integral = Math.max(outputMin, Math.min(outputMax, this.integral));
+			return;
+		}
+
+		// Обратный расчет: интеграл подтягивается к выходу с постоянной Tt
+		this.integral += (Ki * error + (output - unsaturated) / this.trackingTime(Kp, Ki, Kd)) * dt;
+	}
+
+	// По умолчанию Tt = √(Ti·Td), а без D-составляющей Tt = Ti
+	private trackingTime(Kp: number, Ki: number, Kd: number): number {
+		if (this.settings.trackingTime !== undefined && this.settings.trackingTime > 0) {
+			return this.settings.trackingTime;
+		}
+		const Ti = Kp > 0 ? Kp / Ki : 1 / Math.abs(Ki);
+		const Td = Kp > 0 ? Kd / Kp : 0;
+		return Td > 0 ? Math.sqrt(Ti * Td) : Ti;
+	}
+}
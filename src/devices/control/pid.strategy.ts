@@ -0,0 +1,44 @@
+import { ControlInput, ControlOutput, ControlStrategy } from '../interfaces/control.interface';
+import { HeatingPIDSettings } from '../interfaces/heating.interface';
+import { PidRegulator } from './pid-regulator';
+
+/**
+ * PID регулятор
+ * Работает с общим объектом pidState, чтобы изменения коэффициентов
+ * через setPIDParameters сразу применялись к регулятору
+ */
+export class PidControlStrategy implements ControlStrategy {
+	readonly type = 'pid' as const;
+	private readonly regulator: PidRegulator;
+
+	constructor(private readonly pidState: HeatingPIDSettings) {
+		this.regulator = new PidRegulator(pidState);
+	}
+
+	compute(input: ControlInput): ControlOutput {
+		const { output, error, proportional, integral, derivative } = this.regulator.update(
+			input.setpointTemperature,
+			input.currentTemperature,
+			input.dt,
+			input.outputLimit,
+		);
+
+		// Отражаем состояние регулятора в pidState для getPIDParameters
+		this.pidState.integral = this.regulator.integralTerm;
+		this.pidState.prevError = error;
+
+		return { output, error, proportional, integral, derivative };
+	}
+
+	reset(): void {
+		this.regulator.reset();
+		this.pidState.integral = 0;
+		this.pidState.prevError = 0;
+	}
+
+	preload(input: ControlInput, output: number): void {
+		this.regulator.preload(input.setpointTemperature, input.currentTemperature, output, input.outputLimit);
+		this.pidState.integral = this.regulator.integralTerm;
+		this.pidState.prevError = input.setpointTemperature - input.currentTemperature;
+	}
+}
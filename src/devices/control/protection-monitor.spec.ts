@@ -0,0 +1,51 @@
+import { ProtectionMonitor } from './protection-monitor';
+
+describe('ProtectionMonitor', () => {
+	const limits = { freezeLimit: 5, overheatLimit: 35, hysteresis: 1 };
+
+	it('should trip below the freeze limit and clear with hysteresis', () => {
+		const monitor = new ProtectionMonitor(limits);
+
+		expect(monitor.update(4.9)).toEqual([expect.objectContaining({ event: 'tripped' })]);
+		expect(monitor.isActive('freeze')).toBe(true);
+
+		// В зоне гистерезиса защита продолжает действовать
+		expect(monitor.update(5.5)).toEqual([]);
+		expect(monitor.isActive('freeze')).toBe(true);
+
+		expect(monitor.update(6)).toEqual([expect.objectContaining({ event: 'cleared' })]);
+		expect(monitor.isActive('freeze')).toBe(false);
+	});
+
+	it('should keep the alarm latched until acknowledged', () => {
+		const monitor = new ProtectionMonitor(limits);
+
+		monitor.update(36);
+		monitor.update(30);
+
+		expect(monitor.isActive('overheat')).toBe(false);
+		expect(monitor.hasAlarm('overheat')).toBe(true);
+
+		expect(monitor.acknowledge()).toHaveLength(1);
+		expect(monitor.hasAlarm()).toBe(false);
+	});
+
+	it('should keep an acknowledged alarm while the condition is active', () => {
+		const monitor = new ProtectionMonitor(limits);
+
+		monitor.update(2);
+		monitor.acknowledge('freeze');
+
+		expect(monitor.getAlarms()).toEqual([expect.objectContaining({ type: 'freeze', active: true, acknowledged: true })]);
+
+		monitor.update(10);
+		expect(monitor.hasAlarm()).toBe(false);
+	});
+
+	it('should not report a new trip while the protection is already active', () => {
+		const monitor = new ProtectionMonitor(limits);
+
+		monitor.update(3);
+		expect(monitor.update(2)).toEqual([]);
+	});
+});
@@ -0,0 +1,117 @@
+import {
+	ProtectionAlarm,
+	ProtectionAlarmType,
+	ProtectionTransition,
+	PROTECTION_ALARM_TYPES,
+} from '../interfaces/protection.interface';
+
+export interface ProtectionLimits {
+	freezeLimit: number;    // Срабатывание защиты от замерзания ниже этой температуры
+	overheatLimit: number;  // Срабатывание защиты от перегрева выше этой температуры
+	hysteresis: number;     // Защита снимается после возврата за порог на величину гистерезиса
+}
+
+export function isProtectionAlarmType(value: unknown): value is ProtectionAlarmType {
+	return PROTECTION_ALARM_TYPES.includes(value as ProtectionAlarmType);
+}
+
+/**
+ * Контроль температурных защит с фиксацией аварий
+ *
+ * Защита действует, пока выполняется условие (с гистерезисом). Авария фиксируется
+ * при срабатывании и удаляется только после квитирования и снятия условия.
+ */
+export class ProtectionMonitor {
+	private alarms: Partial<Record<ProtectionAlarmType, ProtectionAlarm>> = {};
+
+	constructor(private readonly limits: ProtectionLimits) {}
+
+	/**
+	 * Проверка температуры
+	 * @returns срабатывания и снятия защит на этом шаге
+	 */
+	update(temperature: number, now = Date.now()): ProtectionTransition[] {
+		if (!Number.isFinite(temperature)) return [];
+
+		const { freezeLimit, overheatLimit, hysteresis } = this.limits;
+		const transitions: ProtectionTransition[] = [];
+
+		const check = (type: ProtectionAlarmType, tripped: boolean, released: boolean, limit: number) => {
+			const alarm = this.alarms[type];
+			if (tripped && !alarm?.active) {
+				this.alarms[type] = {
+					type,
+					active: true,
+					acknowledged: false,
+					trippedAt: new Date(now).toISOString(),
+					clearedAt: null,
+					acknowledgedAt: null,
+					temperature,
+					limit,
+				};
+				transitions.push({ event: 'tripped', alarm: { ...this.alarms[type]! } });
+			} else if (released && alarm?.active) {
+				alarm.active = false;
+				alarm.clearedAt = new Date(now).toISOString();
+				transitions.push({ event: 'cleared', alarm: { ...alarm } });
+				if (alarm.acknowledged) {
+					delete this.alarms[type];
+				}
+			}
+		};
+
+		check('freeze', temperature < freezeLimit, temperature >= freezeLimit + hysteresis, freezeLimit);
+		check('overheat', temperature > overheatLimit, temperature <= overheatLimit - hysteresis, overheatLimit);
+
+		return transitions;
+	}
+
+	/**
+	 * Квитирование аварий (всех или одного типа)
+	 * @returns квитированные аварии
+	 */
+	acknowledge(type?: ProtectionAlarmType, now = Date.now()): ProtectionAlarm[] {
+		const acknowledged: ProtectionAlarm[] = [];
+
+		for (const alarmType of type ? [type] : PROTECTION_ALARM_TYPES) {
+			const alarm = this.alarms[alarmType];
+			if (!alarm || alarm.acknowledged) continue;
+
+			alarm.acknowledged = true;
+			alarm.acknowledgedAt = new Date(now).toISOString();
+			acknowledged.push({ ...alarm });
+
+			// Квитированная авария без действующего условия больше не нужна
+			if (!alarm.active) {
+				delete this.alarms[alarmType];
+			}
+		}
+		return acknowledged;
+	}
+
+	// Защита действует сейчас (температура за порогом)
+	isActive(type: ProtectionAlarmType): boolean {
+		return this.alarms[type]?.active ?? false;
+	}
+
+	// Есть действующая или неквитированная авария
+	hasAlarm(type?: ProtectionAlarmType): boolean {
+		return type ? this.alarms[type] !== undefined : Object.keys(this.alarms).length > 0;
+	}
+
+	getAlarms(): ProtectionAlarm[] {
+		return PROTECTION_ALARM_TYPES
+			.map(type => this.alarms[type])
+			.filter((alarm): alarm is ProtectionAlarm => alarm !== undefined)
+			.map(alarm => ({ ...alarm }));
+	}
+
+	// Восстановление зафиксированных аварий после перезапуска
+	restore(alarms: ProtectionAlarm[]) {
+		alarms
+			.filter(alarm => PROTECTION_ALARM_TYPES.includes(alarm?.type))
+			.forEach(alarm => {
+				this.alarms[alarm.type] = { ...alarm };
+			});
+	}
+}
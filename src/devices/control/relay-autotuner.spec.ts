@@ -0,0 +1,78 @@
+import { RelayAutotuner } from './relay-autotuner';
+import { AutotuneOptions } from '../interfaces/control.interface';
+
+const options: AutotuneOptions = {
+	setpoint: 20,
+	outputHigh: 100,
+	outputLow: 0,
+	noiseBand: 0.1,
+	cycles: 2,
+	maxDuration: 3 * 3600 * 1000,
+	minTemperature: 5,
+	maxTemperature: 35,
+	rule: 'ziegler_nichols',
+};
+
+describe('RelayAutotuner', () => {
+	it('should switch the relay only outside the noise band', () => {
+		const tuner = new RelayAutotuner(options, 0);
+
+		expect(tuner.update(20.05, 1000)).toBe(100);
+		expect(tuner.update(20.2, 2000)).toBe(0);
+		expect(tuner.update(19.95, 3000)).toBe(0);
+		expect(tuner.update(19.8, 4000)).toBe(100);
+		expect(tuner.isRunning).toBe(true);
+	});
+
+	it('should compute Ku and Pu from sustained oscillation', () => {
+		const tuner = new RelayAutotuner(options, 0);
+		const period = 600;
+
+		// Автоколебания температуры: синусоида амплитудой 1°C с периодом 10 минут, измерение раз в 10 секунд
+		for (let t = 10; t <= 10 * period && tuner.isRunning; t += 10) {
+			tuner.update(20 + Math.sin((2 * Math.PI * t) / period), t * 1000);
+		}
+		const result = tuner.getResult();
+
+		expect(result.status).toBe('completed');
+		expect(result.amplitude).toBeCloseTo(1, 2);
+		expect(result.ultimatePeriod).toBeCloseTo(period, 0);
+		expect(result.ultimateGain).toBeCloseTo((4 * 50) / (Math.PI * result.amplitude!), 6);
+		expect(result.suggested).toEqual(RelayAutotuner.computeGains(result.ultimateGain!, result.ultimatePeriod!, 'ziegler_nichols'));
+		expect(tuner.update(20, 6001 * 1000)).toBeNull();
+	});
+
+	it('should abort when temperature leaves the freeze/overheat band', () => {
+		const cold = new RelayAutotuner(options, 0);
+		expect(cold.update(4.9, 1000)).toBeNull();
+		expect(cold.getResult()).toMatchObject({ status: 'aborted', reason: expect.stringContaining('safe band') });
+
+		const hot = new RelayAutotuner(options, 0);
+		hot.update(20, 1000);
+		expect(hot.update(35.5, 2000)).toBeNull();
+		expect(hot.getResult().status).toBe('aborted');
+	});
+
+	it('should fail when oscillation is not established in time', () => {
+		const tuner = new RelayAutotuner(options, 0);
+
+		expect(tuner.update(20, options.maxDuration + 1)).toBeNull();
+		expect(tuner.getResult()).toMatchObject({ status: 'failed', reason: expect.stringContaining('Timeout') });
+	});
+});
+
+describe('RelayAutotuner.computeGains', () => {
+	it('should apply classic Ziegler–Nichols rules', () => {
+		// Kp = 0.6Ku, Ti = Pu/2, Td = Pu/8
+		expect(RelayAutotuner.computeGains(10, 100, 'ziegler_nichols')).toEqual({ Kp: 6, Ki: 0.12, Kd: 75 });
+	});
+
+	it('should apply Tyreus–Luyben rules', () => {
+		// Kp = Ku/2.2, Ti = 2.2Pu, Td = Pu/6.3
+		const gains = RelayAutotuner.computeGains(10, 100, 'tyreus_luyben');
+
+		expect(gains.Kp).toBeCloseTo(4.5455, 4);
+		expect(gains.Ki).toBeCloseTo(0.0207, 4);
+		expect(gains.Kd).toBeCloseTo(72.1501, 3);
+	});
+});
@@ -0,0 +1,183 @@
+import {
+	AutotuneOptions,
+	AutotuneResult,
+	AutotuneStatus,
+	PIDGains,
+} from '../interfaces/control.interface';
+
+interface Peak {
+	value: number;
+	timestamp: number;
+}
+
+/**
+ * Автонастройка PID методом релейной обратной связи (Åström–Hägglund)
+ *
+ * Выход переключается между outputHigh и outputLow при пересечении уставки
+ * (с зоной нечувствительности noiseBand). По установившимся автоколебаниям
+ * измеряются период Pu и амплитуда a, критический коэффициент усиления
+ * Ku = 4d / (πa), где d - половина размаха выхода реле.
+ */
+export class RelayAutotuner {
+	private status: AutotuneStatus = 'running';
+	private relayHigh = true;
+	private readonly startedAt: number;
+	private finishedAt?: number;
+	private reason?: string;
+
+	// Экстремум текущего полупериода
+	private extremum: Peak | null = null;
+	private hasFullHalfCycle = false;
+	private maxima: Peak[] = [];
+	private minima: Peak[] = [];
+
+	private ultimateGain?: number;
+	private ultimatePeriod?: number;
+	private amplitude?: number;
+	private suggested?: PIDGains;
+
+	constructor(
+		private readonly options: AutotuneOptions,
+		now = Date.now(),
+	) {
+		this.startedAt = now;
+	}
+
+	get isRunning(): boolean {
+		return this.status === 'running';
+	}
+
+	/**
+	 * Обработать новое измерение и получить выход реле
+	 * Возвращает null, если автонастройка завершена и выход больше не управляется
+	 */
+	update(temperature: number, now = Date.now()): number | null {
+		if (!this.isRunning) return null;
+
+		if (temperature < this.options.minTemperature || temperature > this.options.maxTemperature) {
+			this.finish('aborted', now, `Temperature ${temperature}°C left safe band ${this.options.minTemperature}..${this.options.maxTemperature}°C`);
+			return null;
+		}
+
+		if (now - this.startedAt > this.options.maxDuration) {
+			this.finish('failed', now, 'Timeout: oscillation was not established');
+			return null;
+		}
+
+		const { setpoint, noiseBand } = this.options;
+
+		// Отслеживаем экстремум полупериода: после выключения ищем максимум, после включения - минимум
+		if (
+			!this.extremum ||
+			(this.relayHigh && temperature < this.extremum.value) ||
+			(!this.relayHigh && temperature > this.extremum.value)
+		) {
+			this.extremum = { value: temperature, timestamp: now };
+		}
+
+		if (this.relayHigh && temperature > setpoint + noiseBand) {
+			this.switchRelay(false, temperature, now);
+		} else if (!this.relayHigh && temperature < setpoint - noiseBand) {
+			this.switchRelay(true, temperature, now);
+		}
+
+		if (this.isRunning && this.maxima.length > this.options.cycles && this.minima.length > this.options.cycles) {
+			this.calculate(now);
+		}
+
+		return this.relayHigh ? this.options.outputHigh : this.options.outputLow;
+	}
+
+	abort(reason: string, now = Date.now()) {
+		if (!this.isRunning) return;
+		this.finish('aborted', now, reason);
+	}
+
+	getResult(): AutotuneResult {
+		return {
+			status: this.status,
+			rule: this.options.rule,
+			setpoint: this.options.setpoint,
+			startedAt: new Date(this.startedAt).toISOString(),
+			finishedAt: this.finishedAt !== undefined ? new Date(this.finishedAt).toISOString() : undefined,
+			cyclesCompleted: Math.max(0, this.maxima.length - 1),
+			cyclesRequired: this.options.cycles,
+			ultimateGain: this.ultimateGain,
+			ultimatePeriod: this.ultimatePeriod,
+			amplitude: this.amplitude,
+			suggested: this.suggested,
+			reason: this.reason,
+		};
+	}
+
+	private switchRelay(high: boolean, temperature: number, now: number) {
+		// Первый полупериод пропускаем: он зависит от начальных условий
+		if (this.extremum && this.hasFullHalfCycle) {
+			if (high) {
+				this.maxima.push(this.extremum);
+			} else {
+				this.minima.push(this.extremum);
+			}
+		}
+		this.hasFullHalfCycle = true;
+		this.relayHigh = high;
+		this.extremum = { value: temperature, timestamp: now };
+	}
+
+	private calculate(now: number) {
+		const maxima = this.maxima.slice(-(this.options.cycles + 1));
+		const minima = this.minima.slice(-(this.options.cycles + 1));
+
+		const periodMs = (maxima[maxima.length - 1].timestamp - maxima[0].timestamp) / (maxima.length - 1);
+		const avgMax = maxima.reduce((sum, peak) => sum + peak.value, 0) / maxima.length;
+		const avgMin = minima.reduce((sum, peak) => sum + peak.value, 0) / minima.length;
+		const amplitude = (avgMax - avgMin) / 2;
+
+		if (amplitude <= 0 || periodMs <= 0) {
+			this.finish('failed', now, 'Oscillation amplitude or period is zero');
+			return;
+		}
+
+		const relayAmplitude = (this.options.outputHigh - this.options.outputLow) / 2;
+		const Ku = (4 * relayAmplitude) / (Math.PI * amplitude);
+		const Pu = periodMs / 1000;
+
+		this.ultimateGain = Ku;
+		this.ultimatePeriod = Pu;
+		this.amplitude = amplitude;
+		this.suggested = RelayAutotuner.computeGains(Ku, Pu, this.options.rule);
+		this.finish('completed', now);
+	}
+
+	/**
+	 * Коэффициенты PID по Ku и Pu
+	 * Регулятор интегрирует ошибку раз в секунду, поэтому Ki и Kd приводятся к секундам
+	 */
+	static computeGains(Ku: number, Pu: number, rule: AutotuneOptions['rule']): PIDGains {
+		let Kp: number;
+		let Ti: number;
+		let Td: number;
+
+		if (rule === 'tyreus_luyben') {
+			Kp = Ku / 2.2;
+			Ti = 2.2 * Pu;
+			Td = Pu / 6.3;
+		} else {
+			Kp = 0.6 * Ku;
+			Ti = Pu / 2;
+			Td = Pu / 8;
+		}
+
+		return {
+			Kp: Number(Kp.toFixed(4)),
+			Ki: Number((Kp / Ti).toFixed(4)),
+			Kd: Number((Kp * Td).toFixed(4)),
+		};
+	}
+
+	private finish(status: AutotuneStatus, now: number, reason?: string) {
+		this.status = status;
+		this.finishedAt = now;
+		this.reason = reason;
+	}
+}
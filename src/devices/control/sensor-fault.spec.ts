@@ -0,0 +1,57 @@
+import { getDegradedOutput, isSensorFault } from './sensor-fault';
+import { fuseTemperatures, SensorSample } from './sensor-fusion';
+import { SensorFusionSettings } from '../interfaces/sensor-fusion.interface';
+
+describe('isSensorFault', () => {
+	const startedAt = 1_000_000;
+	const timeout = 600;
+	const settings: SensorFusionSettings = { policy: 'mean', outlierThreshold: 3 };
+	const check = (samples: SensorSample[], now: number) =>
+		isSensorFault(fuseTemperatures(samples, settings, timeout, now), timeout, startedAt, now);
+
+	it('should wait for the first readings during the timeout after startup', () => {
+		const samples: SensorSample[] = [{ id: 'a', temperature: null, updatedAt: null }];
+
+		expect(check(samples, startedAt + 600 * 1000)).toBe(false);
+		expect(check(samples, startedAt + 601 * 1000)).toBe(true);
+	});
+
+	it('should latch the fault while readings are stale and clear it on a new reading', () => {
+		let sample: SensorSample = { id: 'a', temperature: 20, updatedAt: startedAt };
+
+		expect(check([sample], startedAt + 600 * 1000)).toBe(false);
+		expect(check([sample], startedAt + 601 * 1000)).toBe(true);
+		expect(check([sample], startedAt + 3600 * 1000)).toBe(true);
+
+		sample = { id: 'a', temperature: 21, updatedAt: startedAt + 3601 * 1000 };
+		expect(check([sample], startedAt + 3601 * 1000)).toBe(false);
+	});
+
+	it('should report a fault at once when the sensor module reports an error', () => {
+		expect(check([{ id: 'a', temperature: 20, updatedAt: startedAt, error: true }], startedAt + 1000)).toBe(true);
+	});
+
+	it('should not report a fault while at least one sensor is valid', () => {
+		const samples: SensorSample[] = [
+			{ id: 'a', temperature: 20, updatedAt: startedAt },
+			{ id: 'b', temperature: 21, updatedAt: startedAt + 1000 * 1000 },
+		];
+
+		expect(check(samples, startedAt + 1200 * 1000)).toBe(false);
+		expect(check(samples, startedAt + 1601 * 1000)).toBe(true);
+	});
+});
+
+describe('getDegradedOutput', () => {
+	it('should hold the last output in hold mode', () => {
+		expect(getDegradedOutput({ timeout: 600, mode: 'hold', fallbackOutput: 40 })).toBeNull();
+	});
+
+	it('should use the fallback output in fixed_output mode', () => {
+		expect(getDegradedOutput({ timeout: 600, mode: 'fixed_output', fallbackOutput: 40 })).toBe(40);
+	});
+
+	it('should switch the fan off in off mode', () => {
+		expect(getDegradedOutput({ timeout: 600, mode: 'off', fallbackOutput: 40 })).toBe(0);
+	});
+});
@@ -0,0 +1,28 @@
+import { FusedTemperature } from '../interfaces/sensor-fusion.interface';
+import { SensorFaultSettings } from '../interfaces/heating.interface';
+
+/**
+ * Отказ датчиков зоны: не осталось ни одного пригодного показания
+ *
+ * Пока после запуска сервера (startedAt) не пришло ни одного показания, отказ фиксируется
+ * только по истечении таймаута - датчикам дается время прислать первые данные.
+ */
+export function isSensorFault(fusion: FusedTemperature, timeout: number, startedAt: number, now = Date.now()): boolean {
+	if (fusion.temperature !== null) return false;
+
+	const isWaitingForData = fusion.sensors.every(sensor => sensor.excluded === 'no_data') &&
+		now - startedAt <= timeout * 1000;
+	return !isWaitingForData;
+}
+
+// Выход при отказе датчика: фиксированный, выключение или null - удерживать последний выход
+export function getDegradedOutput(settings: SensorFaultSettings): number | null {
+	switch (settings.mode) {
+		case 'fixed_output':
+			return settings.fallbackOutput;
+		case 'off':
+			return 0;
+		default:
+			return null;
+	}
+}
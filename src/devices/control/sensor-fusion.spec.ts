@@ -0,0 +1,46 @@
+import { fuseTemperatures, SensorSample } from './sensor-fusion';
+
+describe('fuseTemperatures', () => {
+	const now = 1_000_000;
+	const sample = (id: string, temperature: number | null, age = 0): SensorSample => ({
+		id,
+		temperature,
+		updatedAt: temperature === null ? null : now - age * 1000,
+	});
+
+	it('should combine readings according to the policy', () => {
+		const samples = [sample('a', 20), sample('b', 21), sample('c', 22.5)];
+
+		expect(fuseTemperatures(samples, { policy: 'mean', outlierThreshold: 5 }, 600, now).temperature).toBe(21.17);
+		expect(fuseTemperatures(samples, { policy: 'median', outlierThreshold: 5 }, 600, now).temperature).toBe(21);
+		expect(fuseTemperatures(samples, { policy: 'min', outlierThreshold: 5 }, 600, now).temperature).toBe(20);
+		expect(fuseTemperatures(samples, { policy: 'weighted', outlierThreshold: 5, weights: { a: 3, b: 1, c: 0 } }, 600, now).temperature).toBe(20.25);
+	});
+
+	it('should exclude stale, faulty and missing sensors', () => {
+		const result = fuseTemperatures(
+			[sample('a', 20), sample('b', 25, 700), { ...sample('c', 30), error: true }, sample('d', null)],
+			{ policy: 'mean', outlierThreshold: 3 },
+			600,
+			now,
+		);
+
+		expect(result.temperature).toBe(20);
+		expect(result.sensors.map(sensor => sensor.excluded)).toEqual([null, 'stale', 'error', 'no_data']);
+	});
+
+	it('should exclude outliers only when there are enough sensors to compare', () => {
+		const settings = { policy: 'mean' as const, outlierThreshold: 3 };
+
+		const three = fuseTemperatures([sample('a', 20), sample('b', 21), sample('c', 40)], settings, 600, now);
+		expect(three.temperature).toBe(20.5);
+		expect(three.sensors[2].excluded).toBe('outlier');
+
+		const two = fuseTemperatures([sample('a', 20), sample('b', 40)], settings, 600, now);
+		expect(two.temperature).toBe(30);
+	});
+
+	it('should return null when no sensor is usable', () => {
+		expect(fuseTemperatures([sample('a', 20, 1000)], { policy: 'mean', outlierThreshold: 3 }, 600, now).temperature).toBeNull();
+	});
+});
@@ -0,0 +1,118 @@
+import {
+	FusedTemperature,
+	SensorFusionPolicy,
+	SensorFusionSettings,
+	SensorReading,
+	SENSOR_FUSION_POLICIES,
+} from '../interfaces/sensor-fusion.interface';
+
+// Исходное показание датчика зоны
+export interface SensorSample {
+	id: string;
+	temperature: number | null;
+	updatedAt: number | null;   // Время показания (мс)
+	error?: boolean;            // Модуль сообщает об ошибке опроса
+}
+
+// Выброс можно определить только относительно большинства
+const MIN_SENSORS_FOR_OUTLIERS = 3;
+
+export function isSensorFusionPolicy(value: unknown): value is SensorFusionPolicy {
+	return SENSOR_FUSION_POLICIES.includes(value as SensorFusionPolicy);
+}
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Температура зоны по нескольким датчикам
+ *
+ * Из расчета исключаются датчики без показаний, с ошибкой опроса, с показаниями старше staleTimeout
+ * и (при трех и более датчиках) отклоняющиеся от медианы больше чем на outlierThreshold.
+ */
+export function fuseTemperatures(
+	samples: SensorSample[],
+	settings: SensorFusionSettings,
+	staleTimeout: number,
+	now = Date.now(),
+): FusedTemperature {
+	const sensors: SensorReading[] = samples.map(sample => ({
+		id: sample.id,
+		temperature: sample.temperature,
+		updatedAt: sample.updatedAt !== null ? new Date(sample.updatedAt).toISOString() : null,
+		excluded: sample.error
+			? 'error'
+			: sample.temperature === null || sample.updatedAt === null
+				? 'no_data'
+				: now - sample.updatedAt > staleTimeout * 1000
+					? 'stale'
+					: null,
+	}));
+
+	let valid = sensors.filter(sensor => sensor.excluded === null);
+	if (valid.length >= MIN_SENSORS_FOR_OUTLIERS) {
+		const center = median(valid.map(sensor => sensor.temperature!));
+		valid.forEach(sensor => {
+			if (Math.abs(sensor.temperature! - center) > settings.outlierThreshold) {
+				sensor.excluded = 'outlier';
+			}
+		});
+		valid = valid.filter(sensor => sensor.excluded === null);
+	}
+
+	const values = valid.map(sensor => sensor.temperature!);
+	let temperature: number | null = null;
+
+	if (values.length > 0) {
+		switch (settings.policy) {
+			case 'median':
+				temperature = median(values);
+				break;
+			case 'min':
+				temperature = Math.min(...values);
+				break;
+			case 'weighted': {
+				const weights = valid.map(sensor => Math.max(0, settings.weights?.[sensor.id] ?? 1));
+				const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+				temperature = totalWeight > 0
+					? values.reduce((sum, value, index) => sum + value * weights[index], 0) / totalWeight
+					: null;
+				break;
+			}
+			default:
+				temperature = values.reduce((sum, value) => sum + value, 0) / values.length;
+		}
+	}
+
+	return {
+		temperature: temperature !== null ? Number(temperature.toFixed(2)) : null,
+		policy: settings.policy,
+		sensors,
+	};
+}
+
+export function validateSensorFusionSettings(settings: Partial<SensorFusionSettings>): string | null {
+	if (settings.policy !== undefined && !isSensorFusionPolicy(settings.policy)) {
+		return `policy must be one of: ${SENSOR_FUSION_POLICIES.join(', ')}`;
+	}
+	if (
+		settings.outlierThreshold !== undefined &&
+		(typeof settings.outlierThreshold !== 'number' || !(settings.outlierThreshold > 0))
+	) {
+		return 'outlierThreshold must be a positive number';
+	}
+	if (settings.weights !== undefined) {
+		if (typeof settings.weights !== 'object' || settings.weights === null) {
+			return 'weights must be an object';
+		}
+		for (const [id, weight] of Object.entries(settings.weights)) {
+			if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+				return `weight for ${id} must be a non-negative number`;
+			}
+		}
+	}
+	return null;
+}
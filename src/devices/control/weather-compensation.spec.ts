@@ -0,0 +1,40 @@
+import { evaluateCompensationCurve, validateCompensationPoints } from './weather-compensation';
+
+describe('evaluateCompensationCurve', () => {
+	const points = [
+		{ outdoorTemperature: 10, setpointOffset: 0, maxOutput: 40 },
+		{ outdoorTemperature: -20, setpointOffset: 2, maxOutput: 100 },
+		{ outdoorTemperature: 0, setpointOffset: 1, maxOutput: 70 },
+	];
+
+	it('should interpolate linearly between points', () => {
+		const result = evaluateCompensationCurve(points, -10);
+
+		expect(result.setpointOffset).toBeCloseTo(1.5);
+		expect(result.maxOutput).toBeCloseTo(85);
+	});
+
+	it('should hold the end values outside the curve', () => {
+		expect(evaluateCompensationCurve(points, -35)).toEqual({ setpointOffset: 2, maxOutput: 100 });
+		expect(evaluateCompensationCurve(points, 25)).toEqual({ setpointOffset: 0, maxOutput: 40 });
+	});
+
+	it('should return the point values exactly at a point', () => {
+		expect(evaluateCompensationCurve(points, 0)).toEqual({ setpointOffset: 1, maxOutput: 70 });
+	});
+});
+
+describe('validateCompensationPoints', () => {
+	it('should reject empty curves, duplicates and out-of-range outputs', () => {
+		expect(validateCompensationPoints([], 0, 100)).not.toBeNull();
+		expect(validateCompensationPoints([
+			{ outdoorTemperature: 0, setpointOffset: 0, maxOutput: 50 },
+			{ outdoorTemperature: 0, setpointOffset: 1, maxOutput: 60 },
+		], 0, 100)).toContain('duplicate');
+		expect(validateCompensationPoints([{ outdoorTemperature: 0, setpointOffset: 0, maxOutput: 150 }], 0, 100)).toContain('maxOutput');
+	});
+
+	it('should accept a valid curve', () => {
+		expect(validateCompensationPoints([{ outdoorTemperature: -20, setpointOffset: 2, maxOutput: 100 }], 0, 100)).toBeNull();
+	});
+});
@@ -0,0 +1,56 @@
+import { WeatherCompensationPoint } from '../interfaces/heating.interface';
+
+/**
+ * Значения кривой погодной компенсации для уличной температуры
+ * Точки сортируются по уличной температуре; между точками - линейная интерполяция,
+ * за пределами кривой - значения крайних точек
+ */
+export function evaluateCompensationCurve(
+	points: WeatherCompensationPoint[],
+	outdoorTemperature: number,
+): Pick<WeatherCompensationPoint, 'setpointOffset' | 'maxOutput'> {
+	const sorted = [...points].sort((a, b) => a.outdoorTemperature - b.outdoorTemperature);
+	const first = sorted[0];
+	const last = sorted[sorted.length - 1];
+
+	if (outdoorTemperature <= first.outdoorTemperature) {
+		return { setpointOffset: first.setpointOffset, maxOutput: first.maxOutput };
+	}
+	if (outdoorTemperature >= last.outdoorTemperature) {
+		return { setpointOffset: last.setpointOffset, maxOutput: last.maxOutput };
+	}
+
+	const upperIndex = sorted.findIndex(point => point.outdoorTemperature >= outdoorTemperature);
+	const lower = sorted[upperIndex - 1];
+	const upper = sorted[upperIndex];
+	const ratio = (outdoorTemperature - lower.outdoorTemperature) / (upper.outdoorTemperature - lower.outdoorTemperature);
+
+	return {
+		setpointOffset: lower.setpointOffset + (upper.setpointOffset - lower.setpointOffset) * ratio,
+		maxOutput: lower.maxOutput + (upper.maxOutput - lower.maxOutput) * ratio,
+	};
+}
+
+export function validateCompensationPoints(points: unknown, outputMin: number, outputMax: number): string | null {
+	if (!Array.isArray(points) || points.length === 0) {
+		return 'points must be a non-empty array';
+	}
+
+	const temperatures = new Set<number>();
+	for (const [index, point] of points.entries()) {
+		if (!point || [point.outdoorTemperature, point.setpointOffset, point.maxOutput].some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+			return `point ${index}: outdoorTemperature, setpointOffset and maxOutput must be numbers`;
+		}
+		if (point.maxOutput < outputMin || point.maxOutput > outputMax) {
+			return `point ${index}: maxOutput must be between ${outputMin} and ${outputMax}`;
+		}
+		if (Math.abs(point.setpointOffset) > 10) {
+			return `point ${index}: setpointOffset must be within ±10°C`;
+		}
+		if (temperatures.has(point.outdoorTemperature)) {
+			return `duplicate outdoorTemperature: ${point.outdoorTemperature}`;
+		}
+		temperatures.add(point.outdoorTemperature);
+	}
+	return null;
+}
@@ -0,0 +1,81 @@
+import { Controller, Get, Post, Put, Delete, Body, Param } from '@nestjs/common';
+import { DeviceConfigService } from './device-config.service';
+import { DeviceConfig, DeviceConfigType, DEVICE_CONFIG_TYPES } from '../interfaces/device-config.interface';
+
+@Controller('device-config')
+export class DeviceConfigController {
+	constructor(private readonly deviceConfigService: DeviceConfigService) {}
+
+	@Get()
+	getConfigs() {
+		return {
+			success: true,
+			data: {
+				storage: this.deviceConfigService.getStorage(),
+				devices: this.deviceConfigService.getConfigs(),
+			},
+		};
+	}
+
+	@Post('reload')
+	async reload() {
+		try {
+			const changes = await this.deviceConfigService.reload();
+			if (!changes) {
+				return { success: false, message: `Cannot read device configs from ${this.deviceConfigService.getStorage()}` };
+			}
+			return { success: true, message: `Device configs reloaded, ${changes.length} changed`, data: changes };
+		} catch (error) {
+			return { success: false, message: `Error reloading device configs: ${error.message}` };
+		}
+	}
+
+	@Get(':deviceType')
+	getConfigsByType(@Param('deviceType') deviceType: string) {
+		if (!this.isDeviceType(deviceType)) {
+			return { success: false, message: `Unknown device type, expected: ${DEVICE_CONFIG_TYPES.join(', ')}` };
+		}
+		return { success: true, data: this.deviceConfigService.getConfigs(deviceType) };
+	}
+
+	@Get(':deviceType/:deviceId')
+	getConfig(@Param('deviceType') deviceType: string, @Param('deviceId') deviceId: string) {
+		const config = this.isDeviceType(deviceType) ? this.deviceConfigService.getConfig(deviceType, deviceId) : null;
+		if (!config) {
+			return { success: false, message: 'Device not found' };
+		}
+		return { success: true, data: config };
+	}
+
+	@Put(':deviceType/:deviceId')
+	async setConfig(@Param('deviceType') deviceType: string, @Param('deviceId') deviceId: string, @Body() body: Partial<DeviceConfig>) {
+		try {
+			if (!this.isDeviceType(deviceType)) {
+				return { success: false, message: `Unknown device type, expected: ${DEVICE_CONFIG_TYPES.join(', ')}` };
+			}
+			const error = await this.deviceConfigService.setConfig(deviceType, deviceId, body);
+			if (error) {
+				return { success: false, message: `Invalid device config: ${error}` };
+			}
+			return { success: true, message: `Config for ${deviceId} saved and applied`, data: this.deviceConfigService.getConfig(deviceType, deviceId) };
+		} catch (error) {
+			return { success: false, message: `Error saving device config: ${error.message}` };
+		}
+	}
+
+	@Delete(':deviceType/:deviceId')
+	async removeConfig(@Param('deviceType') deviceType: string, @Param('deviceId') deviceId: string) {
+		try {
+			if (!this.isDeviceType(deviceType) || !(await this.deviceConfigService.removeConfig(deviceType, deviceId))) {
+				return { success: false, message: 'Device config was not set via API' };
+			}
+			return { success: true, message: `Config for ${deviceId} removed`, data: this.deviceConfigService.getConfig(deviceType, deviceId) };
+		} catch (error) {
+			return { success: false, message: `Error removing device config: ${error.message}` };
+		}
+	}
+
+	private isDeviceType(value: string): value is DeviceConfigType {
+		return DEVICE_CONFIG_TYPES.includes(value as DeviceConfigType);
+	}
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DeviceConfigService } from './device-config.service';
+import { DeviceConfigController } from './device-config.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { EventLogModule } from '../../event-log/event-log.module';
+
+@Module({
+	imports: [DatabaseModule, EventLogModule],
+	controllers: [DeviceConfigController],
+	providers: [DeviceConfigService],
+	exports: [DeviceConfigService],
+})
+export class DeviceConfigModule {}
@@ -0,0 +1,421 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { FSWatcher, promises as fs, watch } from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { DatabaseService } from '../../database/database.service';
+import { EventLogService } from '../../event-log/event-log.service';
+import { mqttConfigs } from '../../mqtt/mqtt.config';
+import { MAX_HEATING_DEVICES, MODBUS_HEATING_DEVICES } from '../../modbus/config/modbus-heating.config';
+import { heatingConfigs } from '../heating/heating.config';
+import { batteriesConfigs } from '../batteries/batteries.config';
+import { HeatingConfig } from '../interfaces/heating.interface';
+import { BatteriesConfig } from '../interfaces/batteries.interface';
+import {
+	DeviceConfig,
+	DeviceConfigChange,
+	DeviceConfigEntry,
+	DeviceConfigStorage,
+	DeviceConfigType,
+	DEVICE_CONFIG_TYPES,
+} from '../interfaces/device-config.interface';
+import {
+	createBatteriesConfig,
+	createHeatingConfig,
+	mergeDeviceConfig,
+	validateBatteriesConfig,
+	validateHeatingConfig,
+} from './device-config.utils';
+
+const CONFIG_FILE = process.env.DEVICE_CONFIG_FILE || '';
+const MAX_DEVICE_ID_LENGTH = 64;
+const WATCH_DEBOUNCE = 1000; // Редактор может записывать файл в несколько приемов
+
+// Конфигурации из heating.config.ts и batteries.config.ts до применения сохраненных изменений
+const BUILT_IN_CONFIGS: Record<DeviceConfigType, Record<string, DeviceConfig>> = {
+	heating: { ...heatingConfigs },
+	batteries: { ...batteriesConfigs },
+};
+
+// Действующие конфигурации: объекты heatingConfigs и batteriesConfigs изменяются на месте,
+// поэтому все модули сразу видят новую конфигурацию
+const ACTIVE_CONFIGS: Record<DeviceConfigType, Record<string, DeviceConfig>> = {
+	heating: heatingConfigs,
+	batteries: batteriesConfigs,
+};
+
+/**
+ * Конфигурация ШУК и ШУОП с изменением без перезапуска
+ *
+ * Устройства из heating.config.ts и batteries.config.ts можно переопределить или добавить новые через API.
+ * Изменения хранятся в таблице device_configs или, если задан DEVICE_CONFIG_FILE, в YAML файле.
+ * После изменения событие 'device.config.changed' перезапускает устройство: подписки MQTT, цикл регулирования, карту Modbus.
+ * Ручное изменение YAML файла применяется автоматически (отслеживание каталога файла).
+ */
+@Injectable()
+export class DeviceConfigService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(DeviceConfigService.name);
+	private readonly storage: DeviceConfigStorage = CONFIG_FILE ? 'file' : 'database';
+	private customConfigs: Record<DeviceConfigType, Record<string, DeviceConfig>> = { heating: {}, batteries: {} };
+	private configFileContent: string | null = null; // Последнее прочитанное или записанное содержимое YAML файла
+	private watcher: FSWatcher | null = null;
+	private watchTimer: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly eventLogService: EventLogService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	// Вызывается до инициализации ШУК и ШУОП: модули устройств импортируют DeviceConfigModule
+	async onModuleInit() {
+		// Если хранилище недоступно, работаем с исходной конфигурацией
+		this.customConfigs = (await this.loadCustomConfigs()) ?? { heating: {}, batteries: {} };
+		DEVICE_CONFIG_TYPES.forEach(deviceType => {
+			this.getDeviceIds(deviceType).forEach(deviceId => this.applyConfig(deviceType, deviceId));
+		});
+
+		if (this.storage === 'file') {
+			this.watchConfigFile();
+		}
+
+		const customCount = DEVICE_CONFIG_TYPES.reduce((count, deviceType) => count + Object.keys(this.customConfigs[deviceType]).length, 0);
+		this.logger.log(`Device Config Service initialized: ${Object.keys(heatingConfigs).length} heating, ${Object.keys(batteriesConfigs).length} batteries, ${customCount} from ${this.storage}`);
+	}
+
+	onModuleDestroy() {
+		this.watcher?.close();
+		this.watcher = null;
+		if (this.watchTimer) {
+			clearTimeout(this.watchTimer);
+			this.watchTimer = null;
+		}
+	}
+
+	getStorage(): DeviceConfigStorage {
+		return this.storage;
+	}
+
+	getConfigs(deviceType?: DeviceConfigType): DeviceConfigEntry[] {
+		const deviceTypes = deviceType ? [deviceType] : DEVICE_CONFIG_TYPES;
+		return deviceTypes.flatMap(type =>
+			Object.keys(ACTIVE_CONFIGS[type]).map(deviceId => this.getConfig(type, deviceId)!),
+		);
+	}
+
+	getConfig(deviceType: DeviceConfigType, deviceId: string): DeviceConfigEntry | null {
+		const config = ACTIVE_CONFIGS[deviceType][deviceId];
+		if (!config) return null;
+
+		return {
+			deviceId,
+			deviceType,
+			configSource: this.customConfigs[deviceType][deviceId] ? this.storage : 'config',
+			modbusUnitId: deviceType === 'heating' ? this.getModbusUnitId(deviceId) : null,
+			config,
+		};
+	}
+
+	/**
+	 * Добавить устройство или изменить конфигурацию существующего; возвращает ошибку валидации или null
+	 * Переданные поля дополняют действующую конфигурацию (для нового устройства - значения по умолчанию)
+	 */
+	async setConfig(deviceType: DeviceConfigType, deviceId: string, patch: Partial<DeviceConfig>): Promise<string | null> {
+		if (!deviceId || deviceId.length > MAX_DEVICE_ID_LENGTH) {
+			return `deviceId must be 1-${MAX_DEVICE_ID_LENGTH} characters`;
+		}
+		const otherType = DEVICE_CONFIG_TYPES.find(type => type !== deviceType && ACTIVE_CONFIGS[type][deviceId]);
+		if (otherType) {
+			return `device ${deviceId} is already configured as ${otherType}`;
+		}
+		if (!patch || typeof patch !== 'object') {
+			return 'config must be an object';
+		}
+
+		const isNew = !ACTIVE_CONFIGS[deviceType][deviceId];
+		const base = ACTIVE_CONFIGS[deviceType][deviceId]
+			?? (deviceType === 'heating' ? createHeatingConfig(deviceId) : createBatteriesConfig(deviceId));
+		const config = mergeDeviceConfig(base, patch);
+
+		const error = this.validateConfig(deviceType, deviceId, config);
+		if (error) {
+			this.logger.warn(`❌ Invalid ${deviceType} config ${deviceId}: ${error}`);
+			return error;
+		}
+
+		const previous = this.customConfigs[deviceType][deviceId];
+		this.customConfigs[deviceType][deviceId] = config;
+		if (!(await this.saveCustomConfig(deviceType, deviceId))) {
+			this.restoreCustomConfig(deviceType, deviceId, previous);
+			return `cannot save config to ${this.storage}`;
+		}
+
+		this.applyConfig(deviceType, deviceId);
+		this.logChange(deviceType, deviceId, isNew ? 'добавлено' : 'изменено');
+		this.emitChange(deviceType, deviceId);
+		return null;
+	}
+
+	// Удалить конфигурацию, заданную через API: устройство из конфигурации возвращается к исходным настройкам, новое устройство удаляется
+	async removeConfig(deviceType: DeviceConfigType, deviceId: string): Promise<boolean> {
+		const previous = this.customConfigs[deviceType][deviceId];
+		if (!previous) {
+			this.logger.warn(`⚠️ ${deviceType} ${deviceId} is not configured via API`);
+			return false;
+		}
+
+		delete this.customConfigs[deviceType][deviceId];
+		if (!(await this.saveCustomConfig(deviceType, deviceId))) {
+			this.restoreCustomConfig(deviceType, deviceId, previous);
+			return false;
+		}
+
+		this.applyConfig(deviceType, deviceId);
+		this.logChange(deviceType, deviceId, BUILT_IN_CONFIGS[deviceType][deviceId] ? 'возвращено к исходной конфигурации' : 'удалено');
+		this.emitChange(deviceType, deviceId);
+		return true;
+	}
+
+	/**
+	 * Повторная загрузка из хранилища (например, после ручного изменения YAML файла); перезапускаются только измененные устройства
+	 * null - хранилище недоступно, действующая конфигурация не изменена
+	 */
+	async reload(): Promise<DeviceConfigChange[] | null> {
+		const customConfigs = await this.loadCustomConfigs();
+		if (!customConfigs) return null;
+
+		const previous: Record<DeviceConfigType, Record<string, string>> = { heating: {}, batteries: {} };
+		DEVICE_CONFIG_TYPES.forEach(deviceType => {
+			Object.entries(ACTIVE_CONFIGS[deviceType]).forEach(([deviceId, config]) => {
+				previous[deviceType][deviceId] = JSON.stringify(config);
+			});
+		});
+
+		this.customConfigs = customConfigs;
+
+		const changes: DeviceConfigChange[] = [];
+		DEVICE_CONFIG_TYPES.forEach(deviceType => {
+			const deviceIds = new Set([...Object.keys(previous[deviceType]), ...this.getDeviceIds(deviceType)]);
+			deviceIds.forEach(deviceId => {
+				this.applyConfig(deviceType, deviceId);
+				const config = ACTIVE_CONFIGS[deviceType][deviceId];
+				if ((config ? JSON.stringify(config) : undefined) !== previous[deviceType][deviceId]) {
+					changes.push({ deviceType, deviceId });
+				}
+			});
+		});
+
+		changes.forEach(({ deviceType, deviceId }) => {
+			this.logChange(deviceType, deviceId, 'перезагружено');
+			this.emitChange(deviceType, deviceId);
+		});
+		this.logger.log(`🔄 Device configs reloaded from ${this.storage}: ${changes.length} changed`);
+		return changes;
+	}
+
+	/**
+	 * Unit ID ШУК в Modbus: из конфигурации устройства (modbusUnitId) или из таблицы MODBUS_HEATING_DEVICES
+	 * null - устройство не отображается в Modbus
+	 */
+	getModbusUnitId(heatingId: string): number | null {
+		const config = heatingConfigs[heatingId];
+		if (!config) return null;
+		if (config.modbusUnitId !== undefined) return config.modbusUnitId;
+
+		return MODBUS_HEATING_DEVICES.find(device => device.enabled && device.deviceId === heatingId)?.unitId ?? null;
+	}
+
+	private validateConfig(deviceType: DeviceConfigType, deviceId: string, config: DeviceConfig): string | null {
+		const brokers = Object.keys(mqttConfigs);
+		if (deviceType === 'batteries') {
+			return validateBatteriesConfig(config as BatteriesConfig, brokers);
+		}
+
+		const error = validateHeatingConfig(config as HeatingConfig, brokers);
+		if (error) return error;
+
+		// Unit ID не должен совпадать с Unit ID другого ШУК, в том числе назначенным по умолчанию
+		const { modbusUnitId } = config as HeatingConfig;
+		if (modbusUnitId !== undefined) {
+			if (modbusUnitId < 1 || modbusUnitId > MAX_HEATING_DEVICES) {
+				return `modbusUnitId must be between 1 and ${MAX_HEATING_DEVICES}`;
+			}
+			const owner = Object.keys(heatingConfigs).find(heatingId => heatingId !== deviceId && this.getModbusUnitId(heatingId) === modbusUnitId);
+			if (owner) {
+				return `modbusUnitId ${modbusUnitId} is already used by ${owner}`;
+			}
+		}
+		return null;
+	}
+
+	private getDeviceIds(deviceType: DeviceConfigType): string[] {
+		return Array.from(new Set([...Object.keys(BUILT_IN_CONFIGS[deviceType]), ...Object.keys(this.customConfigs[deviceType])]));
+	}
+
+	// Действующая конфигурация: заданная через API или исходная из файла конфигурации
+	private applyConfig(deviceType: DeviceConfigType, deviceId: string) {
+		const config = this.customConfigs[deviceType][deviceId] ?? BUILT_IN_CONFIGS[deviceType][deviceId];
+		if (config) {
+			ACTIVE_CONFIGS[deviceType][deviceId] = config;
+		} else {
+			delete ACTIVE_CONFIGS[deviceType][deviceId];
+		}
+	}
+
+	private restoreCustomConfig(deviceType: DeviceConfigType, deviceId: string, config: DeviceConfig | undefined) {
+		if (config) {
+			this.customConfigs[deviceType][deviceId] = config;
+		} else {
+			delete this.customConfigs[deviceType][deviceId];
+		}
+	}
+
+	private emitChange(deviceType: DeviceConfigType, deviceId: string) {
+		const change: DeviceConfigChange = { deviceType, deviceId };
+		this.eventEmitter.emit('device.config.changed', change);
+	}
+
+	private logChange(deviceType: DeviceConfigType, deviceId: string, action: string) {
+		const name = ACTIVE_CONFIGS[deviceType][deviceId]?.deviceRealName ?? deviceId;
+		this.logger.log(`🛠️ ${deviceType} ${deviceId} config: ${action}`);
+		this.eventLogService.log({
+			category: 'system',
+			severity: 'info',
+			deviceId,
+			message: `Конфигурация ${deviceType === 'heating' ? 'ШУК' : 'ШУОП'} "${name}" ${action}`,
+			details: { deviceType, storage: this.storage },
+		});
+	}
+
+	// ========== Хранилище ==========
+
+	// Отслеживается каталог, а не сам файл: при записи через переименование файл заменяется новым
+	private watchConfigFile() {
+		const fileName = path.basename(CONFIG_FILE);
+		try {
+			this.watcher = watch(path.dirname(path.resolve(CONFIG_FILE)), (_event, changed) => {
+				if (changed !== fileName) return;
+				if (this.watchTimer) {
+					clearTimeout(this.watchTimer);
+				}
+				this.watchTimer = setTimeout(() => {
+					this.watchTimer = null;
+					this.reloadChangedFile();
+				}, WATCH_DEBOUNCE);
+			});
+			this.watcher.on('error', error => this.logger.error(`Ошибка отслеживания ${CONFIG_FILE}:`, error));
+		} catch (error) {
+			this.logger.warn(`⚠️ Изменения ${CONFIG_FILE} не отслеживаются: ${error.message}`);
+		}
+	}
+
+	// Собственная запись файла (saveCustomConfig) не приводит к повторной загрузке
+	private async reloadChangedFile() {
+		try {
+			const content = await fs.readFile(CONFIG_FILE, 'utf8').catch((err: NodeJS.ErrnoException) => {
+				if (err.code === 'ENOENT') return '';
+				throw err;
+			});
+			if (content === this.configFileContent) return;
+
+			this.logger.log(`📝 ${CONFIG_FILE} changed, reloading device configs`);
+			await this.reload();
+		} catch (error) {
+			this.logger.error(`Ошибка перезагрузки ${CONFIG_FILE}:`, error);
+		}
+	}
+
+	private async loadCustomConfigs(): Promise<Record<DeviceConfigType, Record<string, DeviceConfig>> | null> {
+		const configs: Record<DeviceConfigType, Record<string, DeviceConfig>> = { heating: {}, batteries: {} };
+		try {
+			const stored = this.storage === 'file' ? await this.readConfigFile() : await this.readDatabase();
+			DEVICE_CONFIG_TYPES.forEach(deviceType => {
+				Object.entries(stored[deviceType] ?? {}).forEach(([deviceId, config]) => {
+					const error = this.validateStoredConfig(deviceType, config);
+					if (error) {
+						this.logger.warn(`⚠️ Stored ${deviceType} config ${deviceId} ignored: ${error}`);
+						return;
+					}
+					configs[deviceType][deviceId] = config;
+				});
+			});
+
+			// Устройство не может одновременно быть ШУК и ШУОП
+			Object.keys(configs.heating)
+				.filter(deviceId => configs.batteries[deviceId] || BUILT_IN_CONFIGS.batteries[deviceId])
+				.forEach(deviceId => {
+					this.logger.warn(`⚠️ Stored heating config ${deviceId} ignored: device is configured as batteries`);
+					delete configs.heating[deviceId];
+				});
+		} catch (error) {
+			this.logger.error(`Ошибка загрузки конфигурации устройств (${this.storage}):`, error);
+			return null;
+		}
+		return configs;
+	}
+
+	private validateStoredConfig(deviceType: DeviceConfigType, config: DeviceConfig): string | null {
+		const brokers = Object.keys(mqttConfigs);
+		return deviceType === 'heating'
+			? validateHeatingConfig(config as HeatingConfig, brokers)
+			: validateBatteriesConfig(config as BatteriesConfig, brokers);
+	}
+
+	private async readDatabase(): Promise<Partial<Record<DeviceConfigType, Record<string, DeviceConfig>>>> {
+		const rows = await this.databaseService.query('SELECT device_id, device_type, config FROM device_configs ORDER BY device_id');
+		const stored: Record<DeviceConfigType, Record<string, DeviceConfig>> = { heating: {}, batteries: {} };
+		rows.forEach(row => {
+			if (DEVICE_CONFIG_TYPES.includes(row.device_type)) {
+				stored[row.device_type as DeviceConfigType][row.device_id] = row.config;
+			}
+		});
+		return stored;
+	}
+
+	// YAML файл: { heating: { <deviceId>: <config> }, batteries: { <deviceId>: <config> } }; отсутствующий файл - нет изменений
+	private async readConfigFile(): Promise<Partial<Record<DeviceConfigType, Record<string, DeviceConfig>>>> {
+		let content: string;
+		try {
+			content = await fs.readFile(CONFIG_FILE, 'utf8');
+		} catch (err: unknown) {
+			if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+				this.configFileContent = '';
+				return {};
+			}
+			throw err;
+		}
+		this.configFileContent = content;
+		return (yaml.load(content) as Partial<Record<DeviceConfigType, Record<string, DeviceConfig>>>) ?? {};
+	}
+
+	private async saveCustomConfig(deviceType: DeviceConfigType, deviceId: string): Promise<boolean> {
+		try {
+			if (this.storage === 'file') {
+				// Запись во временный файл и переименование, чтобы не оставить файл недописанным
+				const tmpFile = `${CONFIG_FILE}.tmp`;
+				await fs.mkdir(path.dirname(path.resolve(CONFIG_FILE)), { recursive: true });
+				const content = yaml.dump(this.customConfigs, { noRefs: true });
+				await fs.writeFile(tmpFile, content, 'utf8');
+				await fs.rename(tmpFile, CONFIG_FILE);
+				this.configFileContent = content;
+				return true;
+			}
+
+			const config = this.customConfigs[deviceType][deviceId];
+			if (config) {
+				await this.databaseService.query(
+					`INSERT INTO device_configs (device_id, device_type, config, updated_at)
+					VALUES ($1, $2, $3, NOW())
+					ON CONFLICT (device_id) DO UPDATE SET device_type = $2, config = $3, updated_at = NOW()`,
+					[deviceId, deviceType, JSON.stringify(config)],
+				);
+			} else {
+				await this.databaseService.query('DELETE FROM device_configs WHERE device_id = $1', [deviceId]);
+			}
+			return true;
+		} catch (error) {
+			this.logger.error(`Ошибка сохранения конфигурации ${deviceType} ${deviceId}:`, error);
+			return false;
+		}
+	}
+}
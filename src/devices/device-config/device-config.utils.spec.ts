@@ -0,0 +1,88 @@
+import { createBatteriesConfig, createHeatingConfig, mergeDeviceConfig, validateBatteriesConfig, validateHeatingConfig } from './device-config.utils';
+import { HeatingConfig } from '../interfaces/heating.interface';
+import { BatteriesConfig } from '../interfaces/batteries.interface';
+
+const BROKERS = ['heating', 'sensors'];
+
+function heatingConfig(): HeatingConfig {
+	return mergeDeviceConfig(createHeatingConfig('ШУК21'), {
+		topics: {
+			VALVE_RELAY: '/devices/wb-mr6cu_90/controls/K1',
+			FAN_DIMMER: '/devices/wb-mao4_210/controls/Channel 1 Dimming Level',
+			TEMPERATURE_SENSOR: '/devices/wb-msw-v4_40/controls/Temperature',
+		},
+	});
+}
+
+function batteriesConfig(): BatteriesConfig {
+	return mergeDeviceConfig(createBatteriesConfig('ШУОП9'), {
+		topics: {
+			RELAY_MODULES: { 90: '/devices/wb-mr6cu_90/controls' },
+			TEMPERATURE_SENSORS: { 40: '/devices/wb-msw-v4_40/controls/Temperature' },
+		},
+		groups: [{ groupName: 'ШУОП9_1', relayModuleAddress: 90, moduleName: 'Модуль 1', relays: ['K1', 'K2'], hasTemperatureSensor: true }],
+	});
+}
+
+describe('mergeDeviceConfig', () => {
+	it('should merge nested settings by key and keep the base config intact', () => {
+		const base = heatingConfig();
+		const merged = mergeDeviceConfig(base, {
+			deviceRealName: 'Управление отоплением 21А',
+			temperatureSettings: { ...base.temperatureSettings, HYSTERESIS: 1 },
+			pidSettings: { ...base.pidSettings, Kp: 4 },
+		});
+
+		expect(merged.deviceRealName).toBe('Управление отоплением 21А');
+		expect(merged.temperatureSettings.HYSTERESIS).toBe(1);
+		expect(merged.pidSettings.Kp).toBe(4);
+		expect(merged.topics).toEqual(base.topics);
+		expect(base.pidSettings.Kp).not.toBe(4);
+	});
+
+	it('should remove optional fields set to null', () => {
+		const base = { ...heatingConfig(), modbusUnitId: 21 };
+		const merged = mergeDeviceConfig(base, { modbusUnitId: null } as unknown as Partial<HeatingConfig>);
+
+		expect('modbusUnitId' in merged).toBe(false);
+	});
+});
+
+describe('validateHeatingConfig', () => {
+	it('should accept a complete config', () => {
+		expect(validateHeatingConfig(heatingConfig(), BROKERS)).toBeNull();
+	});
+
+	it('should reject missing topics, unknown brokers and invalid settings', () => {
+		expect(validateHeatingConfig(createHeatingConfig('ШУК21'), BROKERS)).toContain('topics.VALVE_RELAY');
+		expect(validateHeatingConfig({ ...heatingConfig(), broker: 'unknown' }, BROKERS)).toContain('broker');
+		expect(validateHeatingConfig({ ...heatingConfig(), fixedOutput: 150 }, BROKERS)).toContain('fixedOutput');
+		expect(validateHeatingConfig({ ...heatingConfig(), modbusUnitId: 2.5 }, BROKERS)).toContain('modbusUnitId');
+
+		const pidSettings = { ...heatingConfig().pidSettings, outputMin: 100, outputMax: 0 };
+		expect(validateHeatingConfig({ ...heatingConfig(), pidSettings }, BROKERS)).toContain('outputMin');
+	});
+});
+
+describe('validateBatteriesConfig', () => {
+	it('should accept a complete config', () => {
+		expect(validateBatteriesConfig(batteriesConfig(), BROKERS)).toBeNull();
+	});
+
+	it('should reject groups with unknown relay modules or duplicate names', () => {
+		const config = batteriesConfig();
+		const group = config.groups[0];
+
+		expect(validateBatteriesConfig({ ...config, groups: [{ ...group, relayModuleAddress: 91 }] }, BROKERS)).toContain('relay module 91');
+		expect(validateBatteriesConfig({ ...config, groups: [group, group] }, BROKERS)).toContain('duplicate group');
+		expect(validateBatteriesConfig({ ...config, groups: [] }, BROKERS)).toContain('groups');
+	});
+
+	it('should require temperature sensors unless a temperature source is set', () => {
+		const config = batteriesConfig();
+		const topics = { ...config.topics, TEMPERATURE_SENSORS: {} };
+
+		expect(validateBatteriesConfig({ ...config, topics }, BROKERS)).toContain('TEMPERATURE_SENSORS');
+		expect(validateBatteriesConfig({ ...config, topics, temperatureSource: { type: 'dht', sourceId: 'DHT80' } }, BROKERS)).toBeNull();
+	});
+});
@@ -0,0 +1,223 @@
+import { HeatingConfig, HeatingTopics } from '../interfaces/heating.interface';
+import { BatteriesConfig } from '../interfaces/batteries.interface';
+import { DeviceConfig } from '../interfaces/device-config.interface';
+import { defaultTemperatureSettings as defaultHeatingTemperatureSettings, defaultPIDSettings } from '../heating/heating.config';
+import { defaultTemperatureSettings as defaultBatteriesTemperatureSettings } from '../batteries/batteries.config';
+import { isControlStrategyType } from '../control/control-strategy.factory';
+import { isTemperatureSourceType } from '../temperature-source/temperature-source.utils';
+
+const HEATING_TOPICS: (keyof HeatingTopics)[] = ['VALVE_RELAY', 'FAN_DIMMER', 'TEMPERATURE_SENSOR'];
+const HEATING_TEMPERATURE_SETTINGS = Object.keys(defaultHeatingTemperatureSettings);
+const BATTERIES_TEMPERATURE_SETTINGS = Object.keys(defaultBatteriesTemperatureSettings);
+const HEATING_OPTIONAL_SETTINGS = ['weatherCompensation', 'sensorFault', 'sensorFusion', 'fanOutputLimits'];
+
+// Заготовка конфигурации нового ШУК: топики задаются при создании
+export function createHeatingConfig(deviceId: string): HeatingConfig {
+	return {
+		broker: 'heating',
+		deviceName: deviceId,
+		relayModule: '',
+		analogModule: '',
+		tempModule: '',
+		deviceRealName: deviceId,
+		topics: { VALVE_RELAY: '', FAN_DIMMER: '', TEMPERATURE_SENSOR: '' },
+		temperatureSettings: { ...defaultHeatingTemperatureSettings },
+		pidSettings: { ...defaultPIDSettings },
+	};
+}
+
+// Заготовка конфигурации нового ШУОП: реле, датчики и группы задаются при создании
+export function createBatteriesConfig(deviceId: string): BatteriesConfig {
+	return {
+		broker: 'heating',
+		deviceName: deviceId,
+		deviceRealName: deviceId,
+		topics: { RELAY_MODULES: {}, TEMPERATURE_SENSORS: {} },
+		temperatureSettings: { ...defaultBatteriesTemperatureSettings },
+		groups: [],
+	};
+}
+
+/**
+ * Изменение конфигурации: переданные поля заменяют поля исходной конфигурации,
+ * topics, temperatureSettings и pidSettings дополняются по ключам, null удаляет необязательное поле
+ */
+export function mergeDeviceConfig<T extends DeviceConfig>(base: T, patch: Partial<T>): T {
+	const merged: Record<string, unknown> = {
+		...base,
+		...patch,
+		topics: { ...base.topics, ...patch.topics },
+		temperatureSettings: { ...base.temperatureSettings, ...patch.temperatureSettings },
+	};
+	if ('pidSettings' in base) {
+		merged.pidSettings = { ...base.pidSettings, ...(patch as Partial<HeatingConfig>).pidSettings };
+	}
+	Object.keys(merged).forEach(key => {
+		if (merged[key] === null) delete merged[key];
+	});
+	return merged as T;
+}
+
+export function validateHeatingConfig(config: HeatingConfig, brokers: string[]): string | null {
+	const error = validateCommonConfig(config, brokers);
+	if (error) return error;
+
+	for (const topic of HEATING_TOPICS) {
+		if (!isNonEmptyString(config.topics[topic])) {
+			return `topics.${topic} must be a non-empty string`;
+		}
+	}
+	for (const key of ['relayModule', 'analogModule', 'tempModule'] as const) {
+		if (typeof config[key] !== 'string') {
+			return `${key} must be a string`;
+		}
+	}
+
+	const temperatureError = validateTemperatureSettings(config.temperatureSettings, HEATING_TEMPERATURE_SETTINGS);
+	if (temperatureError) return temperatureError;
+
+	const pid = config.pidSettings;
+	for (const key of ['Kp', 'Ki', 'Kd'] as const) {
+		if (!isFiniteNumber(pid[key]) || pid[key] < 0) {
+			return `pidSettings.${key} must be a non-negative number`;
+		}
+	}
+	for (const key of ['outputMin', 'outputMax', 'integral', 'prevError'] as const) {
+		if (!isFiniteNumber(pid[key])) {
+			return `pidSettings.${key} must be a number`;
+		}
+	}
+	if (pid.outputMin >= pid.outputMax) {
+		return 'pidSettings.outputMin must be less than outputMax';
+	}
+
+	if (config.controlStrategy !== undefined && !isControlStrategyType(config.controlStrategy)) {
+		return `unknown controlStrategy: ${config.controlStrategy}`;
+	}
+	if (config.fixedOutput !== undefined && (!isFiniteNumber(config.fixedOutput) || config.fixedOutput < 0 || config.fixedOutput > 100)) {
+		return 'fixedOutput must be between 0 and 100';
+	}
+	if (config.freezeProtectionOutput !== undefined && (!isFiniteNumber(config.freezeProtectionOutput) || config.freezeProtectionOutput < 0 || config.freezeProtectionOutput > 100)) {
+		return 'freezeProtectionOutput must be between 0 and 100';
+	}
+	if (config.temperatureSensors !== undefined && (!Array.isArray(config.temperatureSensors) || !config.temperatureSensors.every(isNonEmptyString))) {
+		return 'temperatureSensors must be an array of topics';
+	}
+	for (const key of HEATING_OPTIONAL_SETTINGS) {
+		const value = config[key as keyof HeatingConfig];
+		if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+			return `${key} must be an object`;
+		}
+	}
+	if (config.modbusUnitId !== undefined && !Number.isInteger(config.modbusUnitId)) {
+		return 'modbusUnitId must be an integer';
+	}
+	return null;
+}
+
+export function validateBatteriesConfig(config: BatteriesConfig, brokers: string[]): string | null {
+	const error = validateCommonConfig(config, brokers);
+	if (error) return error;
+
+	const { RELAY_MODULES, TEMPERATURE_SENSORS } = config.topics;
+	if (!isTopicMap(RELAY_MODULES) || Object.keys(RELAY_MODULES).length === 0) {
+		return 'topics.RELAY_MODULES must map module addresses to control paths';
+	}
+	if (!isTopicMap(TEMPERATURE_SENSORS)) {
+		return 'topics.TEMPERATURE_SENSORS must map sensor addresses to topics';
+	}
+	if (!config.temperatureSource && Object.keys(TEMPERATURE_SENSORS).length === 0) {
+		return 'topics.TEMPERATURE_SENSORS or temperatureSource is required';
+	}
+
+	const temperatureError = validateTemperatureSettings(config.temperatureSettings, BATTERIES_TEMPERATURE_SETTINGS);
+	if (temperatureError) return temperatureError;
+	if (config.temperatureSettings.VALVE_OPERATION_TIME <= 0) {
+		return 'temperatureSettings.VALVE_OPERATION_TIME must be positive';
+	}
+
+	if (!Array.isArray(config.groups) || config.groups.length === 0) {
+		return 'groups must be a non-empty array';
+	}
+	const groupNames = new Set<string>();
+	for (const group of config.groups) {
+		if (!isNonEmptyString(group?.groupName)) {
+			return 'groups[].groupName must be a non-empty string';
+		}
+		if (groupNames.has(group.groupName)) {
+			return `duplicate group ${group.groupName}`;
+		}
+		groupNames.add(group.groupName);
+		if (!RELAY_MODULES[group.relayModuleAddress]) {
+			return `group ${group.groupName}: relay module ${group.relayModuleAddress} is not in topics.RELAY_MODULES`;
+		}
+		if (!Array.isArray(group.relays) || group.relays.length === 0 || !group.relays.every(isNonEmptyString)) {
+			return `group ${group.groupName}: relays must be a non-empty array`;
+		}
+		if (typeof group.hasTemperatureSensor !== 'boolean') {
+			return `group ${group.groupName}: hasTemperatureSensor must be a boolean`;
+		}
+	}
+
+	if (config.sensorTimeout !== undefined && (!isFiniteNumber(config.sensorTimeout) || config.sensorTimeout <= 0)) {
+		return 'sensorTimeout must be a positive number of seconds';
+	}
+	if (config.sensorFusion !== undefined && (typeof config.sensorFusion !== 'object' || config.sensorFusion === null)) {
+		return 'sensorFusion must be an object';
+	}
+	return null;
+}
+
+function validateCommonConfig(config: DeviceConfig, brokers: string[]): string | null {
+	if (!config || typeof config !== 'object') {
+		return 'config must be an object';
+	}
+	if (!brokers.includes(config.broker)) {
+		return `broker must be one of: ${brokers.join(', ')}`;
+	}
+	if (!isNonEmptyString(config.deviceName) || !isNonEmptyString(config.deviceRealName)) {
+		return 'deviceName and deviceRealName must be non-empty strings';
+	}
+	if (!config.topics || typeof config.topics !== 'object') {
+		return 'topics must be an object';
+	}
+	if (config.temperatureSource !== undefined) {
+		const source = config.temperatureSource;
+		if (!isTemperatureSourceType(source?.type) || !isNonEmptyString(source.sourceId)) {
+			return 'temperatureSource must be { type: dht | modbus | mqtt, sourceId }';
+		}
+	}
+	return null;
+}
+
+function validateTemperatureSettings(settings: object, keys: string[]): string | null {
+	if (!settings || typeof settings !== 'object') {
+		return 'temperatureSettings must be an object';
+	}
+	const values = settings as Record<string, unknown>;
+	for (const key of keys) {
+		if (!isFiniteNumber(values[key])) {
+			return `temperatureSettings.${key} must be a number`;
+		}
+	}
+	if ((values.TEMP_FREEZE_LIMIT as number) >= (values.TEMP_OVERHEAT_LIMIT as number)) {
+		return 'temperatureSettings.TEMP_FREEZE_LIMIT must be less than TEMP_OVERHEAT_LIMIT';
+	}
+	if ((values.HYSTERESIS as number) < 0) {
+		return 'temperatureSettings.HYSTERESIS must be non-negative';
+	}
+	return null;
+}
+
+function isTopicMap(value: unknown): value is Record<string, string> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+		&& Object.values(value).every(isNonEmptyString);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,170 @@
+import { Controller, Get, Post, Put, Delete, Body, Param } from '@nestjs/common';
+import { DeviceGroupService } from './device-group.service';
+import { DeviceGroupInput, GroupCommandResult } from '../interfaces/device-group.interface';
+
+@Controller('groups')
+export class DeviceGroupController {
+	constructor(private readonly deviceGroupService: DeviceGroupService) {}
+
+	@Get()
+	getGroups() {
+		return { success: true, data: this.deviceGroupService.getGroups() };
+	}
+
+	@Get('states')
+	getGroupStates() {
+		return { success: true, data: this.deviceGroupService.getGroupStates() };
+	}
+
+	@Get(':id')
+	getGroup(@Param('id') id: string) {
+		const group = this.deviceGroupService.getGroup(parseInt(id, 10));
+		if (!group) {
+			return { success: false, message: 'Group not found' };
+		}
+		return { success: true, data: group };
+	}
+
+	@Get(':id/state')
+	getGroupState(@Param('id') id: string) {
+		const state = this.deviceGroupService.getGroupState(parseInt(id, 10));
+		if (!state) {
+			return { success: false, message: 'Group not found' };
+		}
+		return { success: true, data: state };
+	}
+
+	@Post()
+	async createGroup(@Body() body: DeviceGroupInput) {
+		try {
+			const error = this.deviceGroupService.validateGroup(body);
+			if (error) {
+				return { success: false, message: `Invalid group: ${error}` };
+			}
+			const group = await this.deviceGroupService.createGroup(body);
+			return { success: true, message: 'Group created', data: group };
+		} catch (error) {
+			return { success: false, message: `Error creating group: ${error.message}` };
+		}
+	}
+
+	@Put(':id')
+	async updateGroup(@Param('id') id: string, @Body() body: DeviceGroupInput) {
+		try {
+			const error = this.deviceGroupService.validateGroup(body);
+			if (error) {
+				return { success: false, message: `Invalid group: ${error}` };
+			}
+			const group = await this.deviceGroupService.updateGroup(parseInt(id, 10), body);
+			if (!group) {
+				return { success: false, message: 'Group not found' };
+			}
+			return { success: true, message: 'Group updated', data: group };
+		} catch (error) {
+			return { success: false, message: `Error updating group: ${error.message}` };
+		}
+	}
+
+	@Delete(':id')
+	async deleteGroup(@Param('id') id: string) {
+		try {
+			if (!(await this.deviceGroupService.deleteGroup(parseInt(id, 10)))) {
+				return { success: false, message: 'Group not found' };
+			}
+			return { success: true, message: 'Group deleted' };
+		} catch (error) {
+			return { success: false, message: `Error deleting group: ${error.message}` };
+		}
+	}
+
+	@Put(':id/temperature')
+	async setTemperature(@Param('id') id: string, @Body() body: { temperature: number }) {
+		try {
+			const results = await this.deviceGroupService.setSetpoint(parseInt(id, 10), body.temperature);
+			if (!results) {
+				return { success: false, message: 'Group not found or invalid temperature (5-35°C)' };
+			}
+			return this.commandResponse(id, `Temperature set to ${body.temperature}°C`, results);
+		} catch (error) {
+			return { success: false, message: `Error setting temperature: ${error.message}` };
+		}
+	}
+
+	@Post(':id/auto-control/enable')
+	async enableAutoControl(@Param('id') id: string) {
+		try {
+			const results = await this.deviceGroupService.setAutoControl(parseInt(id, 10), true);
+			if (!results) {
+				return { success: false, message: 'Group not found' };
+			}
+			return this.commandResponse(id, 'Auto control enabled', results);
+		} catch (error) {
+			return { success: false, message: `Error enabling auto control: ${error.message}` };
+		}
+	}
+
+	@Post(':id/auto-control/disable')
+	async disableAutoControl(@Param('id') id: string) {
+		try {
+			const results = await this.deviceGroupService.setAutoControl(parseInt(id, 10), false);
+			if (!results) {
+				return { success: false, message: 'Group not found' };
+			}
+			return this.commandResponse(id, 'Auto control disabled', results);
+		} catch (error) {
+			return { success: false, message: `Error disabling auto control: ${error.message}` };
+		}
+	}
+
+	@Post(':id/emergency-stop')
+	async emergencyStop(@Param('id') id: string) {
+		try {
+			const results = await this.deviceGroupService.emergencyStop(parseInt(id, 10));
+			if (!results) {
+				return { success: false, message: 'Group not found' };
+			}
+			return this.commandResponse(id, 'Emergency stop activated', results);
+		} catch (error) {
+			return { success: false, message: `Error activating emergency stop: ${error.message}` };
+		}
+	}
+
+	@Post(':id/emergency-stop/reset')
+	async resetEmergencyStop(@Param('id') id: string) {
+		try {
+			const results = await this.deviceGroupService.resetEmergencyStop(parseInt(id, 10));
+			if (!results) {
+				return { success: false, message: 'Group not found' };
+			}
+			return this.commandResponse(id, 'Emergency stop reset', results);
+		} catch (error) {
+			return { success: false, message: `Error resetting emergency stop: ${error.message}` };
+		}
+	}
+
+	@Put(':id/schedule')
+	async assignSchedule(@Param('id') id: string, @Body() body: { scheduleId: number | null }) {
+		try {
+			const scheduleId = body.scheduleId ?? null;
+			const results = await this.deviceGroupService.assignSchedule(parseInt(id, 10), scheduleId);
+			if (!results) {
+				return { success: false, message: 'Group or schedule not found' };
+			}
+			return this.commandResponse(id, `Schedule set to ${scheduleId ?? 'none'}`, results);
+		} catch (error) {
+			return { success: false, message: `Error assigning schedule: ${error.message}` };
+		}
+	}
+
+	// Команда считается выполненной, если она прошла для всех устройств группы
+	private commandResponse(id: string, message: string, results: GroupCommandResult[]) {
+		const failed = results.filter(result => !result.success).map(result => result.deviceId);
+		return {
+			success: failed.length === 0,
+			message: failed.length === 0
+				? `${message} for group ${id}`
+				: `${message} for group ${id}, failed for: ${failed.join(', ')}`,
+			data: { results, state: this.deviceGroupService.getGroupState(parseInt(id, 10)) },
+		};
+	}
+}
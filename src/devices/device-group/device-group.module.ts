@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DeviceGroupService } from './device-group.service';
+import { DeviceGroupController } from './device-group.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { EventLogModule } from '../../event-log/event-log.module';
+import { HeatingModule } from '../heating/heating.module';
+import { BatteriesModule } from '../batteries/batteries.module';
+import { ScheduleModule } from '../schedule/schedule.module';
+
+@Module({
+	imports: [DatabaseModule, EventLogModule, HeatingModule, BatteriesModule, ScheduleModule],
+	controllers: [DeviceGroupController],
+	providers: [DeviceGroupService],
+	exports: [DeviceGroupService],
+})
+export class DeviceGroupModule {}
@@ -0,0 +1,103 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DeviceGroupService } from './device-group.service';
+import { DatabaseService } from '../../database/database.service';
+import { EventLogService } from '../../event-log/event-log.service';
+import { HeatingService } from '../heating/heating.service';
+import { BatteriesService } from '../batteries/batteries.service';
+import { ScheduleService } from '../schedule/schedule.service';
+
+const DEVICE_IDS = ['ШУК1', 'ШУК10', 'ШУК11', 'ШУОП-1_1'];
+
+function createService(states: Record<string, Record<string, unknown>>) {
+	const databaseService = {
+		query: jest.fn().mockResolvedValue([{ id: 1, name: 'Цех 1', description: null, device_ids: DEVICE_IDS }]),
+	} as unknown as DatabaseService;
+	const heatingService = {
+		getState: (id: string) => states[id] ?? null,
+		enableAutoControl: jest.fn((id: string) => id !== 'ШУК11'),
+		emergencyStop: jest.fn(() => true),
+	} as unknown as HeatingService;
+	const batteriesService = {
+		getState: (id: string) => states[id] ?? null,
+		enableAutoControl: jest.fn(() => true),
+		emergencyStop: jest.fn(() => false),
+	} as unknown as BatteriesService;
+	const eventLogService = { log: jest.fn() } as unknown as EventLogService;
+	const eventEmitter = { emit: jest.fn(), on: jest.fn() } as unknown as EventEmitter2;
+
+	return new DeviceGroupService(
+		databaseService,
+		heatingService,
+		batteriesService,
+		{} as ScheduleService,
+		eventLogService,
+		eventEmitter,
+	);
+}
+
+const device = (overrides: Record<string, unknown>) => ({
+	currentTemperature: 20,
+	setpointTemperature: 20,
+	isOnline: true,
+	isWorking: false,
+	autoControlEnabled: true,
+	isEmergencyStop: false,
+	...overrides,
+});
+
+describe('DeviceGroupService', () => {
+	describe('getGroupState', () => {
+		it('should aggregate counters and temperature statistics', async () => {
+			const service = createService({
+				ШУК1: device({ currentTemperature: 18, setpointTemperature: 21, isWorking: true }),
+				ШУК10: device({ currentTemperature: 22.5, setpointTemperature: 19, autoControlEnabled: false, freezeProtection: true }),
+				ШУК11: device({ currentTemperature: 5, isOnline: false, isEmergencyStop: true, autoControlEnabled: false }),
+				'ШУОП-1_1': device({ currentTemperature: 20, setpointTemperature: 22, controlErrors: { K1: 'r' } }),
+			});
+			await service.createGroup({ name: 'Цех 1', deviceIds: DEVICE_IDS });
+
+			expect(service.getGroupState(1)).toMatchObject({
+				groupId: 1,
+				name: 'Цех 1',
+				deviceCount: 4,
+				onlineCount: 3,
+				workingCount: 1,
+				autoControlCount: 2,
+				emergencyStopCount: 1,
+				alarmCount: 2,
+				// Температура - только по устройствам на связи, уставка - по всем
+				temperature: { min: 18, avg: 20.17, max: 22.5 },
+				setpoint: { min: 19, avg: 20.5, max: 22 },
+			});
+		});
+
+		it('should skip devices without state and report missing statistics', async () => {
+			const service = createService({ ШУК1: device({ isOnline: false }) });
+			await service.createGroup({ name: 'Цех 1', deviceIds: DEVICE_IDS });
+
+			const state = service.getGroupState(1)!;
+			expect(state.devices.map(item => item.deviceId)).toEqual(['ШУК1']);
+			expect(state.temperature).toBeNull();
+			expect(state.setpoint).toEqual({ min: 20, avg: 20, max: 20 });
+		});
+
+		it('should return null for an unknown group', () => {
+			expect(createService({}).getGroupState(99)).toBeNull();
+		});
+	});
+
+	describe('group commands', () => {
+		it('should report the result of each device command', async () => {
+			const service = createService({});
+			await service.createGroup({ name: 'Цех 1', deviceIds: DEVICE_IDS });
+
+			expect(await service.setAutoControl(1, true)).toEqual([
+				{ deviceId: 'ШУК1', success: true },
+				{ deviceId: 'ШУК10', success: true },
+				{ deviceId: 'ШУК11', success: false },
+				{ deviceId: 'ШУОП-1_1', success: true },
+			]);
+			expect((await service.emergencyStop(1))!.map(result => result.success)).toEqual([true, true, true, false]);
+		});
+	});
+});
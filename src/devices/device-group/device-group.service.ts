@@ -0,0 +1,412 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabaseService } from '../../database/database.service';
+import { EventLogService } from '../../event-log/event-log.service';
+import { HeatingService } from '../heating/heating.service';
+import { BatteriesService } from '../batteries/batteries.service';
+import { ScheduleService } from '../schedule/schedule.service';
+import { heatingConfigs } from '../heating/heating.config';
+import { batteriesConfigs } from '../batteries/batteries.config';
+import {
+	DeviceGroup,
+	DeviceGroupCommand,
+	DeviceGroupInput,
+	DeviceGroupState,
+	GroupCommandResult,
+	GroupDeviceState,
+	GroupDeviceType,
+	GroupTemperatureStats,
+} from '../interfaces/device-group.interface';
+
+const UPDATE_INTERVAL = 1000; // Сводное состояние групп отправляется не чаще раза в секунду
+const MIN_SETPOINT = 5;
+const MAX_SETPOINT = 35;
+
+// События устройств, после которых пересчитывается сводное состояние групп
+const HEATING_EVENTS = [
+	'heating.temperature.updated',
+	'heating.setpoint.changed',
+	'heating.auto.control.enabled',
+	'heating.auto.control.disabled',
+	'heating.emergency.stop',
+	'heating.emergency.stop.reset',
+	'heating.alarm',
+];
+const BATTERIES_EVENTS = [
+	'batteries.temperature.updated',
+	'batteries.setpoint.changed',
+	'batteries.auto.control.enabled',
+	'batteries.auto.control.disabled',
+	'batteries.emergency.stop',
+	'batteries.emergency.stop.reset',
+	'batteries.alarm',
+];
+
+/**
+ * Группы устройств (зоны) и групповые команды
+ * Группы хранятся в таблице device_groups и могут объединять ШУК и ШУОП.
+ * Команда группе выполняется для каждого устройства по отдельности, результат возвращается по устройствам.
+ */
+@Injectable()
+export class DeviceGroupService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(DeviceGroupService.name);
+	private groups: Map<number, DeviceGroup> = new Map();
+	private changedDevices: Set<string> = new Set();
+	private updateInterval: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly heatingService: HeatingService,
+		private readonly batteriesService: BatteriesService,
+		private readonly scheduleService: ScheduleService,
+		private readonly eventLogService: EventLogService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async onModuleInit() {
+		await this.loadFromDatabase();
+
+		this.eventEmitter.on('heating.update', (heatingId: string) => this.changedDevices.add(heatingId));
+		this.eventEmitter.on('batteries.update', (deviceId: string) => this.changedDevices.add(deviceId));
+		HEATING_EVENTS.forEach(event =>
+			this.eventEmitter.on(event, (data: { heatingId: string }) => this.changedDevices.add(data.heatingId)),
+		);
+		BATTERIES_EVENTS.forEach(event =>
+			this.eventEmitter.on(event, (data: { deviceId: string }) => this.changedDevices.add(data.deviceId)),
+		);
+
+		this.updateInterval = setInterval(() => this.emitChangedGroups(), UPDATE_INTERVAL);
+
+		this.logger.log(`Device Group Service initialized: ${this.groups.size} groups`);
+	}
+
+	onModuleDestroy() {
+		if (this.updateInterval) {
+			clearInterval(this.updateInterval);
+		}
+	}
+
+	private async loadFromDatabase() {
+		try {
+			const rows = await this.databaseService.query(
+				'SELECT id, name, description, device_ids, created_at, updated_at FROM device_groups ORDER BY id',
+			);
+			rows.forEach(row => {
+				const group = this.fromRow(row);
+				// Устройства, удаленные из конфигурации, в группе не учитываются
+				const unknown = group.deviceIds.filter(deviceId => !this.getDeviceType(deviceId));
+				if (unknown.length > 0) {
+					this.logger.warn(`Group #${group.id} "${group.name}": unknown devices ${unknown.join(', ')} ignored`);
+					group.deviceIds = group.deviceIds.filter(deviceId => this.getDeviceType(deviceId));
+				}
+				this.groups.set(group.id, group);
+			});
+		} catch (error) {
+			this.logger.error('Ошибка загрузки групп устройств из базы данных:', error);
+		}
+	}
+
+	// ========== Группы ==========
+
+	getGroups(): DeviceGroup[] {
+		return Array.from(this.groups.values()).map(group => this.copyGroup(group));
+	}
+
+	getGroup(id: number): DeviceGroup | null {
+		const group = this.groups.get(id);
+		return group ? this.copyGroup(group) : null;
+	}
+
+	// Группы, в которые входит устройство
+	getDeviceGroups(deviceId: string): DeviceGroup[] {
+		return this.getGroups().filter(group => group.deviceIds.includes(deviceId));
+	}
+
+	async createGroup(input: DeviceGroupInput): Promise<DeviceGroup | null> {
+		const error = this.validateGroup(input);
+		if (error) {
+			this.logger.warn(`Invalid device group: ${error}`);
+			return null;
+		}
+
+		const rows = await this.databaseService.query(
+			`INSERT INTO device_groups (name, description, device_ids)
+			VALUES ($1, $2, $3)
+			RETURNING id, name, description, device_ids, created_at, updated_at`,
+			[input.name.trim(), input.description?.trim() || null, JSON.stringify(this.normalizeDeviceIds(input.deviceIds))],
+		);
+		const group = this.fromRow(rows[0]);
+		this.groups.set(group.id, group);
+
+		this.logger.log(`👥 Group created: #${group.id} "${group.name}" (${group.deviceIds.join(', ')})`);
+		this.emitGroupUpdated(group.id);
+		return this.copyGroup(group);
+	}
+
+	async updateGroup(id: number, input: DeviceGroupInput): Promise<DeviceGroup | null> {
+		if (!this.groups.has(id)) return null;
+
+		const error = this.validateGroup(input);
+		if (error) {
+			this.logger.warn(`Invalid device group #${id}: ${error}`);
+			return null;
+		}
+
+		const rows = await this.databaseService.query(
+			`UPDATE device_groups
+			SET name = $2, description = $3, device_ids = $4, updated_at = NOW()
+			WHERE id = $1
+			RETURNING id, name, description, device_ids, created_at, updated_at`,
+			[id, input.name.trim(), input.description?.trim() || null, JSON.stringify(this.normalizeDeviceIds(input.deviceIds))],
+		);
+		const group = this.fromRow(rows[0]);
+		this.groups.set(group.id, group);
+
+		this.logger.log(`👥 Group updated: #${group.id} "${group.name}" (${group.deviceIds.join(', ')})`);
+		this.emitGroupUpdated(group.id);
+		return this.copyGroup(group);
+	}
+
+	async deleteGroup(id: number): Promise<boolean> {
+		if (!this.groups.has(id)) return false;
+
+		await this.databaseService.query('DELETE FROM device_groups WHERE id = $1', [id]);
+		this.groups.delete(id);
+
+		this.logger.log(`👥 Group deleted: #${id}`);
+		return true;
+	}
+
+	// ========== Сводное состояние ==========
+
+	getGroupState(id: number): DeviceGroupState | null {
+		const group = this.groups.get(id);
+		if (!group) return null;
+
+		const devices = group.deviceIds
+			.map(deviceId => this.getDeviceState(deviceId))
+			.filter((device): device is GroupDeviceState => device !== null);
+		const online = devices.filter(device => device.isOnline);
+
+		return {
+			groupId: group.id,
+			name: group.name,
+			deviceCount: devices.length,
+			onlineCount: online.length,
+			workingCount: devices.filter(device => device.isWorking).length,
+			autoControlCount: devices.filter(device => device.autoControlEnabled).length,
+			emergencyStopCount: devices.filter(device => device.isEmergencyStop).length,
+			alarmCount: devices.filter(device => device.isAlarm).length,
+			temperature: this.getStats(online.map(device => device.currentTemperature)),
+			setpoint: this.getStats(devices.map(device => device.setpointTemperature)),
+			devices,
+		};
+	}
+
+	getGroupStates(): DeviceGroupState[] {
+		return Array.from(this.groups.keys())
+			.map(id => this.getGroupState(id))
+			.filter((state): state is DeviceGroupState => state !== null);
+	}
+
+	private getDeviceState(deviceId: string): GroupDeviceState | null {
+		const deviceType = this.getDeviceType(deviceId);
+
+		if (deviceType === 'heating') {
+			const state = this.heatingService.getState(deviceId);
+			if (!state) return null;
+			return {
+				deviceId,
+				deviceType,
+				name: heatingConfigs[deviceId].deviceRealName || deviceId,
+				currentTemperature: state.currentTemperature,
+				setpointTemperature: state.setpointTemperature,
+				isOnline: state.isOnline ?? false,
+				isWorking: state.isWorking,
+				autoControlEnabled: state.autoControlEnabled ?? false,
+				isEmergencyStop: state.isEmergencyStop,
+				isAlarm: !!(state.freezeProtection || state.overheatProtection || state.sensorFault || state.moduleError || state.actuatorAlarm),
+			};
+		}
+
+		if (deviceType === 'batteries') {
+			const state = this.batteriesService.getState(deviceId);
+			if (!state) return null;
+			return {
+				deviceId,
+				deviceType,
+				name: batteriesConfigs[deviceId].deviceRealName || deviceId,
+				currentTemperature: state.currentTemperature,
+				setpointTemperature: state.setpointTemperature,
+				isOnline: state.isOnline ?? false,
+				isWorking: state.isWorking,
+				autoControlEnabled: state.autoControlEnabled ?? false,
+				isEmergencyStop: state.isEmergencyStop,
+				isAlarm: !!(
+					state.freezeProtection ||
+					state.overheatProtection ||
+					state.actuatorAlarm ||
+					Object.keys(state.controlErrors ?? {}).length > 0
+				),
+			};
+		}
+
+		return null;
+	}
+
+	private getStats(values: number[]): GroupTemperatureStats | null {
+		if (values.length === 0) return null;
+
+		const sum = values.reduce((total, value) => total + value, 0);
+		return {
+			min: Math.min(...values),
+			avg: Number((sum / values.length).toFixed(2)),
+			max: Math.max(...values),
+		};
+	}
+
+	// ========== Групповые команды ==========
+
+	async setSetpoint(id: number, temperature: number): Promise<GroupCommandResult[] | null> {
+		if (typeof temperature !== 'number' || isNaN(temperature) || temperature < MIN_SETPOINT || temperature > MAX_SETPOINT) {
+			this.logger.warn(`Invalid group setpoint for #${id}: ${temperature}`);
+			return null;
+		}
+
+		return this.executeCommand(id, 'set_setpoint', temperature, (deviceId, deviceType) =>
+			deviceType === 'heating'
+				? this.heatingService.setTemperature(deviceId, temperature)
+				: this.batteriesService.setTemperature(deviceId, temperature),
+		);
+	}
+
+	async setAutoControl(id: number, enabled: boolean): Promise<GroupCommandResult[] | null> {
+		return this.executeCommand(id, enabled ? 'enable_auto_control' : 'disable_auto_control', enabled, async (deviceId, deviceType) => {
+			const service = deviceType === 'heating' ? this.heatingService : this.batteriesService;
+			return enabled ? service.enableAutoControl(deviceId) : service.disableAutoControl(deviceId);
+		});
+	}
+
+	async emergencyStop(id: number): Promise<GroupCommandResult[] | null> {
+		return this.executeCommand(id, 'emergency_stop', null, async (deviceId, deviceType) => {
+			const service = deviceType === 'heating' ? this.heatingService : this.batteriesService;
+			return service.emergencyStop(deviceId);
+		});
+	}
+
+	async resetEmergencyStop(id: number): Promise<GroupCommandResult[] | null> {
+		return this.executeCommand(id, 'reset_emergency_stop', null, async (deviceId, deviceType) => {
+			const service = deviceType === 'heating' ? this.heatingService : this.batteriesService;
+			return service.resetEmergencyStop(deviceId);
+		});
+	}
+
+	// Назначить программу уставок всем устройствам группы (null - снять программу)
+	async assignSchedule(id: number, scheduleId: number | null): Promise<GroupCommandResult[] | null> {
+		if (scheduleId !== null && !this.scheduleService.getSchedule(scheduleId)) {
+			this.logger.warn(`Schedule #${scheduleId} not found for group #${id}`);
+			return null;
+		}
+
+		return this.executeCommand(id, 'assign_schedule', scheduleId, deviceId =>
+			this.scheduleService.assignSchedule(deviceId, scheduleId),
+		);
+	}
+
+	private async executeCommand(
+		id: number,
+		command: DeviceGroupCommand,
+		value: number | boolean | null,
+		apply: (deviceId: string, deviceType: GroupDeviceType) => Promise<boolean>,
+	): Promise<GroupCommandResult[] | null> {
+		const group = this.groups.get(id);
+		if (!group) return null;
+
+		const results: GroupCommandResult[] = [];
+		for (const deviceId of group.deviceIds) {
+			const deviceType = this.getDeviceType(deviceId);
+			let success = false;
+			try {
+				success = deviceType !== null && (await apply(deviceId, deviceType));
+			} catch (error) {
+				this.logger.error(`Group #${id} command ${command} failed for ${deviceId}:`, error);
+			}
+			results.push({ deviceId, success });
+		}
+
+		const failed = results.filter(result => !result.success).map(result => result.deviceId);
+		this.logger.log(`👥 Group #${id} "${group.name}": ${command}${value !== null ? ` = ${value}` : ''} (${results.length - failed.length}/${results.length})`);
+		this.eventLogService.log({
+			category: 'control',
+			severity: failed.length > 0 ? 'warning' : 'info',
+			message: `Групповая команда ${command}${value !== null ? ` = ${value}` : ''} для группы "${group.name}"${failed.length > 0 ? `, не выполнена для ${failed.join(', ')}` : ''}`,
+			details: { groupId: id, command, value, results },
+		});
+		this.emitGroupUpdated(id);
+		return results;
+	}
+
+	// ========== Вспомогательные методы ==========
+
+	validateGroup(input: DeviceGroupInput): string | null {
+		if (!input || typeof input.name !== 'string' || !input.name.trim() || input.name.length > 128) {
+			return 'name must be a non-empty string (max 128 characters)';
+		}
+		if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+			return 'description must be a string';
+		}
+		if (!Array.isArray(input.deviceIds) || input.deviceIds.length === 0) {
+			return 'deviceIds must be a non-empty array';
+		}
+		const unknown = input.deviceIds.filter(deviceId => typeof deviceId !== 'string' || !this.getDeviceType(deviceId));
+		if (unknown.length > 0) {
+			return `unknown devices: ${unknown.join(', ')}`;
+		}
+		return null;
+	}
+
+	private normalizeDeviceIds(deviceIds: string[]): string[] {
+		return Array.from(new Set(deviceIds));
+	}
+
+	private getDeviceType(deviceId: string): GroupDeviceType | null {
+		if (heatingConfigs[deviceId]) return 'heating';
+		if (batteriesConfigs[deviceId]) return 'batteries';
+		return null;
+	}
+
+	// Отправляем сводное состояние групп, в которые входят изменившиеся устройства
+	private emitChangedGroups() {
+		if (this.changedDevices.size === 0) return;
+
+		const changed = this.changedDevices;
+		this.changedDevices = new Set();
+		this.groups.forEach(group => {
+			if (group.deviceIds.some(deviceId => changed.has(deviceId))) {
+				this.emitGroupUpdated(group.id);
+			}
+		});
+	}
+
+	private emitGroupUpdated(id: number) {
+		const state = this.getGroupState(id);
+		if (state) {
+			this.eventEmitter.emit('device.group.updated', state);
+		}
+	}
+
+	private fromRow(row: any): DeviceGroup {
+		return {
+			id: row.id,
+			name: row.name,
+			description: row.description ?? null,
+			deviceIds: row.device_ids ?? [],
+			createdAt: row.created_at?.toISOString(),
+			updatedAt: row.updated_at?.toISOString(),
+		};
+	}
+
+	private copyGroup(group: DeviceGroup): DeviceGroup {
+		return { ...group, deviceIds: [...group.deviceIds] };
+	}
+}
@@ -0,0 +1,53 @@
+import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import { DiscoveryService } from './discovery.service';
+import { DeviceConfigService } from '../device-config/device-config.service';
+import { DiscoveryHeatingInput, DiscoveryModuleType, DISCOVERY_MODULE_TYPES } from '../interfaces/discovery.interface';
+
+@Controller('discovery')
+export class DiscoveryController {
+	constructor(
+		private readonly discoveryService: DiscoveryService,
+		private readonly deviceConfigService: DeviceConfigService,
+	) {}
+
+	@Get()
+	getModules(
+		@Query('type') type?: string,
+		@Query('broker') broker?: string,
+		@Query('unused') unused?: string,
+	) {
+		if (type && !DISCOVERY_MODULE_TYPES.includes(type as DiscoveryModuleType)) {
+			return { success: false, message: `Unknown module type, expected: ${DISCOVERY_MODULE_TYPES.join(', ')}` };
+		}
+		return {
+			success: true,
+			data: this.discoveryService.getModules({ type: type as DiscoveryModuleType, broker, unused: unused === 'true' }),
+		};
+	}
+
+	@Get(':deviceId')
+	getModule(@Param('deviceId') deviceId: string, @Query('broker') broker?: string) {
+		const module = this.discoveryService.getModule(deviceId, broker);
+		if (!module) {
+			return { success: false, message: 'Module not discovered' };
+		}
+		return { success: true, data: module };
+	}
+
+	@Post('heating/:heatingId')
+	async configureHeating(@Param('heatingId') heatingId: string, @Body() body: DiscoveryHeatingInput) {
+		try {
+			const error = await this.discoveryService.configureHeating(heatingId, body);
+			if (error) {
+				return { success: false, message: `Cannot configure heating: ${error}` };
+			}
+			return {
+				success: true,
+				message: `Heating ${heatingId} configured from discovered modules`,
+				data: this.deviceConfigService.getConfig('heating', heatingId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error configuring heating: ${error.message}` };
+		}
+	}
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryService } from './discovery.service';
+import { DiscoveryController } from './discovery.controller';
+import { MqttModule } from '../../mqtt/mqtt.module';
+import { DeviceConfigModule } from '../device-config/device-config.module';
+
+@Module({
+	imports: [MqttModule, DeviceConfigModule],
+	controllers: [DiscoveryController],
+	providers: [DiscoveryService],
+	exports: [DiscoveryService],
+})
+export class DiscoveryModule {}
@@ -0,0 +1,207 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MqttService } from '../../mqtt/mqtt.service';
+import { mqttConfigs } from '../../mqtt/mqtt.config';
+import { DeviceConfigService } from '../device-config/device-config.service';
+import { heatingConfigs } from '../heating/heating.config';
+import { batteriesConfigs } from '../batteries/batteries.config';
+import { HeatingConfig } from '../interfaces/heating.interface';
+import {
+	DiscoveredControl,
+	DiscoveredModule,
+	DiscoveryHeatingInput,
+	DiscoveryModuleType,
+} from '../interfaces/discovery.interface';
+import { getMetaTitle, parseMeta, parseMetaTopic, parseModuleId } from './discovery.utils';
+
+// Метаданные модулей и контролов публикуются Wiren Board как retained сообщения
+const META_TOPICS = ['/devices/+/meta', '/devices/+/controls/+/meta'];
+
+const DEFAULT_RELAY_CONTROL = 'K1';
+const DEFAULT_ANALOG_CONTROL = 'Channel 1 Dimming Level';
+const DEFAULT_TEMPERATURE_CONTROL = 'Temperature';
+
+type InventoryModule = Omit<DiscoveredModule, 'controls' | 'usedBy'> & { controls: Map<string, DiscoveredControl> };
+
+/**
+ * Обнаружение модулей Wiren Board по MQTT метаданным (/devices/+/meta, /devices/+/controls/+/meta)
+ * Инвентарь wb-mr6cu, wb-mao4 и wb-msw-v4 с контролами на всех брокерах; из обнаруженных модулей создаются ШУК
+ */
+@Injectable()
+export class DiscoveryService implements OnModuleInit {
+	private readonly logger = new Logger(DiscoveryService.name);
+	private modules = new Map<string, InventoryModule>(); // Ключ: <брокер>:<модуль>
+
+	constructor(
+		private readonly mqttService: MqttService,
+		private readonly deviceConfigService: DeviceConfigService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	onModuleInit() {
+		Object.keys(mqttConfigs).forEach(broker => {
+			this.eventEmitter.on(`mqtt.${broker}.meta`, (data: { topic: string; message: string }) =>
+				this.handleMeta(broker, data.topic, data.message),
+			);
+			// После переподключения подписки создаются заново, retained метаданные приходят повторно
+			this.eventEmitter.on(`mqtt.${broker}.connected`, () => this.subscribe(broker));
+			this.subscribe(broker);
+		});
+		this.logger.log('Discovery Service initialized');
+	}
+
+	getModules(filter: { type?: DiscoveryModuleType; broker?: string; unused?: boolean } = {}): DiscoveredModule[] {
+		return Array.from(this.modules.values())
+			.filter(module => (!filter.type || module.type === filter.type) && (!filter.broker || module.broker === filter.broker))
+			.map(module => this.toDiscoveredModule(module))
+			.filter(module => !filter.unused || module.usedBy.length === 0)
+			.sort((a, b) => a.type.localeCompare(b.type) || a.address - b.address || a.broker.localeCompare(b.broker));
+	}
+
+	// Модуль на брокере (без брокера - первый найденный)
+	getModule(deviceId: string, broker?: string): DiscoveredModule | null {
+		const module = broker
+			? this.modules.get(`${broker}:${deviceId}`)
+			: Array.from(this.modules.values()).find(item => item.deviceId === deviceId);
+		return module ? this.toDiscoveredModule(module) : null;
+	}
+
+	/**
+	 * Создать ШУК (или заменить модули существующего) по обнаруженным модулям; возвращает ошибку или null
+	 * Топики VALVE_RELAY, FAN_DIMMER и TEMPERATURE_SENSOR формируются из модулей и контролов
+	 */
+	async configureHeating(heatingId: string, input: DiscoveryHeatingInput): Promise<string | null> {
+		if (!input || typeof input !== 'object') {
+			return 'body must be an object';
+		}
+		const broker = input.broker ?? heatingConfigs[heatingId]?.broker ?? 'heating';
+		const relayControl = input.relayControl ?? DEFAULT_RELAY_CONTROL;
+		const analogControl = input.analogControl ?? DEFAULT_ANALOG_CONTROL;
+		const temperatureControl = input.temperatureControl ?? DEFAULT_TEMPERATURE_CONTROL;
+
+		const error = this.checkControl(broker, input.relayModule, 'wb-mr6cu', relayControl)
+			?? this.checkControl(broker, input.analogModule, 'wb-mao4', analogControl)
+			?? this.checkControl('sensors', input.tempModule, 'wb-msw-v4', temperatureControl);
+		if (error) {
+			this.logger.warn(`❌ Cannot configure heating ${heatingId} from discovered modules: ${error}`);
+			return error;
+		}
+
+		const patch: Partial<HeatingConfig> = {
+			broker,
+			relayModule: input.relayModule,
+			analogModule: input.analogModule,
+			tempModule: input.tempModule,
+			topics: {
+				VALVE_RELAY: `/devices/${input.relayModule}/controls/${relayControl}`,
+				FAN_DIMMER: `/devices/${input.analogModule}/controls/${analogControl}`,
+				TEMPERATURE_SENSOR: `/devices/${input.tempModule}/controls/${temperatureControl}`,
+			},
+		};
+		if (input.deviceRealName !== undefined) patch.deviceRealName = input.deviceRealName;
+		if (input.modbusUnitId !== undefined) patch.modbusUnitId = input.modbusUnitId;
+
+		return this.deviceConfigService.setConfig('heating', heatingId, patch);
+	}
+
+	private subscribe(broker: string) {
+		META_TOPICS.forEach(topic => this.mqttService.subscribe(broker, topic));
+	}
+
+	private handleMeta(broker: string, topic: string, message: string) {
+		const metaTopic = parseMetaTopic(topic);
+		if (!metaTopic) return;
+		const moduleId = parseModuleId(metaTopic.deviceId);
+		if (!moduleId) return;
+
+		const key = `${broker}:${metaTopic.deviceId}`;
+		const meta = parseMeta(message);
+
+		// Пустое retained сообщение - модуль или контрол удален из конфигурации контроллера
+		if (!meta) {
+			if (message) return;
+			if (metaTopic.control === null) {
+				if (this.modules.delete(key)) {
+					this.logger.log(`🔍 Module ${metaTopic.deviceId} removed on ${broker}`);
+				}
+			} else {
+				this.modules.get(key)?.controls.delete(metaTopic.control);
+			}
+			return;
+		}
+
+		let module = this.modules.get(key);
+		if (!module) {
+			module = {
+				broker,
+				deviceId: metaTopic.deviceId,
+				type: moduleId.type,
+				address: moduleId.address,
+				topic: `/devices/${metaTopic.deviceId}/controls`,
+				title: null,
+				driver: null,
+				controls: new Map(),
+				lastSeen: new Date().toISOString(),
+			};
+			this.modules.set(key, module);
+			this.logger.log(`🔍 Discovered ${metaTopic.deviceId} on ${broker}`);
+		}
+		module.lastSeen = new Date().toISOString();
+
+		if (metaTopic.control === null) {
+			module.title = getMetaTitle(meta);
+			module.driver = typeof meta.driver === 'string' ? meta.driver : null;
+			return;
+		}
+
+		module.controls.set(metaTopic.control, {
+			name: metaTopic.control,
+			topic: `${module.topic}/${metaTopic.control}`,
+			type: typeof meta.type === 'string' ? meta.type : null,
+			units: typeof meta.units === 'string' ? meta.units : null,
+			readonly: meta.readonly === true,
+			order: typeof meta.order === 'number' ? meta.order : null,
+			title: getMetaTitle(meta),
+		});
+	}
+
+	private checkControl(broker: string, deviceId: string, type: DiscoveryModuleType, control: string): string | null {
+		if (typeof deviceId !== 'string' || !deviceId) {
+			return `${type} module is required`;
+		}
+		const module = this.modules.get(`${broker}:${deviceId}`);
+		if (!module) {
+			return `module ${deviceId} is not discovered on broker ${broker}`;
+		}
+		if (module.type !== type) {
+			return `module ${deviceId} is ${module.type}, expected ${type}`;
+		}
+		if (!module.controls.has(control)) {
+			return `module ${deviceId} has no control "${control}"`;
+		}
+		return null;
+	}
+
+	private toDiscoveredModule(module: InventoryModule): DiscoveredModule {
+		return {
+			...module,
+			controls: Array.from(module.controls.values()).sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || a.name.localeCompare(b.name)),
+			usedBy: this.getUsedBy(module.deviceId),
+		};
+	}
+
+	// Устройства, в конфигурации которых упоминается модуль (поля модулей ШУК или топики /devices/<модуль>/...)
+	private getUsedBy(deviceId: string): string[] {
+		const prefix = `/devices/${deviceId}/`;
+		const usesModule = (topics: object) => Object.values(topics).some(topic => typeof topic === 'string' && topic.startsWith(prefix));
+
+		const heating = Object.entries(heatingConfigs)
+			.filter(([, config]) => [config.relayModule, config.analogModule, config.tempModule].includes(deviceId)
+				|| usesModule(config.topics) || (config.temperatureSensors ?? []).some(topic => topic.startsWith(prefix)))
+			.map(([heatingId]) => heatingId);
+		const batteries = Object.entries(batteriesConfigs)
+			.filter(([, config]) => usesModule(config.topics.RELAY_MODULES) || usesModule(config.topics.TEMPERATURE_SENSORS))
+			.map(([batteriesId]) => batteriesId);
+		return [...heating, ...batteries];
+	}
+}
@@ -0,0 +1,45 @@
+import { getMetaTitle, parseMeta, parseMetaTopic, parseModuleId } from './discovery.utils';
+
+describe('parseMetaTopic', () => {
+	it('should parse module and control meta topics', () => {
+		expect(parseMetaTopic('/devices/wb-mr6cu_86/meta')).toEqual({ deviceId: 'wb-mr6cu_86', control: null });
+		expect(parseMetaTopic('/devices/wb-mao4_168/controls/Channel 1 Dimming Level/meta'))
+			.toEqual({ deviceId: 'wb-mao4_168', control: 'Channel 1 Dimming Level' });
+	});
+
+	it('should ignore values and poll errors', () => {
+		expect(parseMetaTopic('/devices/wb-mr6cu_86/controls/K1')).toBeNull();
+		expect(parseMetaTopic('/devices/wb-mr6cu_86/controls/K1/meta/error')).toBeNull();
+		expect(parseMetaTopic('/devices/wb-mr6cu_86/meta/name')).toBeNull();
+	});
+});
+
+describe('parseModuleId', () => {
+	it('should extract module type and bus address', () => {
+		expect(parseModuleId('wb-mr6cu_86')).toEqual({ type: 'wb-mr6cu', address: 86 });
+		expect(parseModuleId('wb-msw-v4_244')).toEqual({ type: 'wb-msw-v4', address: 244 });
+	});
+
+	it('should skip unsupported modules', () => {
+		expect(parseModuleId('wb-m1w2_201')).toBeNull();
+		expect(parseModuleId('system')).toBeNull();
+	});
+});
+
+describe('parseMeta', () => {
+	it('should parse JSON objects only', () => {
+		expect(parseMeta('{"type":"switch","order":1}')).toEqual({ type: 'switch', order: 1 });
+		expect(parseMeta('')).toBeNull();
+		expect(parseMeta('switch')).toBeNull();
+		expect(parseMeta('[1]')).toBeNull();
+	});
+});
+
+describe('getMetaTitle', () => {
+	it('should prefer the russian title', () => {
+		expect(getMetaTitle({ title: { en: 'Temperature', ru: 'Температура' } })).toBe('Температура');
+		expect(getMetaTitle({ title: { en: 'MR6CU (86)' } })).toBe('MR6CU (86)');
+		expect(getMetaTitle({ title: 'K1' })).toBe('K1');
+		expect(getMetaTitle({})).toBeNull();
+	});
+});
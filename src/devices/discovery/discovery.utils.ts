@@ -0,0 +1,53 @@
+import { DiscoveryModuleType, DISCOVERY_MODULE_TYPES } from '../interfaces/discovery.interface';
+
+const DEVICE_META_TOPIC = /^\/devices\/([^/]+)\/meta$/;
+const CONTROL_META_TOPIC = /^\/devices\/([^/]+)\/controls\/([^/]+)\/meta$/;
+const MODULE_ID = /^(.+)_(\d+)$/;
+
+export interface MetaTopic {
+	deviceId: string;
+	control: string | null; // null - метаданные модуля
+}
+
+/**
+ * Разбор топика метаданных Wiren Board: /devices/<модуль>/meta или /devices/<модуль>/controls/<контрол>/meta
+ * Остальные топики (в том числе /meta/error) - null
+ */
+export function parseMetaTopic(topic: string): MetaTopic | null {
+	const device = topic.match(DEVICE_META_TOPIC);
+	if (device) return { deviceId: device[1], control: null };
+
+	const control = topic.match(CONTROL_META_TOPIC);
+	if (control) return { deviceId: control[1], control: control[2] };
+	return null;
+}
+
+// Тип и адрес модуля по имени устройства Wiren Board (wb-mr6cu_86 -> wb-mr6cu, 86); неизвестные модули - null
+export function parseModuleId(deviceId: string): { type: DiscoveryModuleType; address: number } | null {
+	const match = deviceId.match(MODULE_ID);
+	if (!match || !DISCOVERY_MODULE_TYPES.includes(match[1] as DiscoveryModuleType)) return null;
+	return { type: match[1] as DiscoveryModuleType, address: parseInt(match[2], 10) };
+}
+
+// JSON метаданных; пустое сообщение (удаленный retained топик) или не JSON - null
+export function parseMeta(payload: string): Record<string, unknown> | null {
+	if (!payload) return null;
+	try {
+		const meta = JSON.parse(payload);
+		return meta !== null && typeof meta === 'object' && !Array.isArray(meta) ? meta : null;
+	} catch {
+		return null;
+	}
+}
+
+// Название из метаданных: строка или { en, ru } (предпочитаем ru)
+export function getMetaTitle(meta: Record<string, unknown>): string | null {
+	const title = meta.title;
+	if (typeof title === 'string') return title;
+	if (title && typeof title === 'object') {
+		const titles = title as Record<string, unknown>;
+		const value = titles.ru ?? titles.en ?? Object.values(titles)[0];
+		return typeof value === 'string' ? value : null;
+	}
+	return null;
+}
@@ -1,6 +1,6 @@
 import { HeatingConfig } from '../interfaces/heating.interface';
 
-const defaultTemperatureSettings = {
+export const defaultTemperatureSettings = {
 	HYSTERESIS: 0.5,
 	TEMP_LOW_1: 15,
 	TEMP_LOW_2: 18,
@@ -9,7 +9,7 @@ const defaultTemperatureSettings = {
 	TEMP_OVERHEAT_LIMIT: 35,
 };
 
-const defaultPIDSettings = {
+export const defaultPIDSettings = {
 	Kp: 2.0,     // Коэффициент пропорциональности
 	Ki: 0.5,     // Коэффициент интегральной составляющей
 	Kd: 2.0,     // Коэффициент дифференциальной составляющей
@@ -1,6 +1,9 @@
 import { Controller, Get, Post, Put, Body, Param } from '@nestjs/common';
 import { HeatingService } from './heating.service';
-import { HeatingControl, HeatingControlParameters } from '../interfaces/heating.interface';
+import { HeatingControl, HeatingControlParameters, SensorFaultSettings, WeatherCompensationSettings, FanOutputLimitSettings } from '../interfaces/heating.interface';
+import { AutotuneRule, ControlStrategyType } from '../interfaces/control.interface';
+import { isControlStrategyType } from '../control/control-strategy.factory';
+import { isProtectionAlarmType } from '../control/protection-monitor';
 
 @Controller('heating')
 export class HeatingController {
@@ -50,6 +53,14 @@ export class HeatingController {
 			case 'set_valve':
 				// Управление клапаном отключено - используется сезонная логика
 				break;
+			case 'set_control_strategy':
+				if (!isControlStrategyType(parameters?.controlStrategy)) {
+					return { success: false, message: `Unknown control strategy: ${parameters?.controlStrategy}` };
+				}
+				if (!this.heatingService.setControlStrategy(heatingId, parameters.controlStrategy, parameters.fixedOutput)) {
+					return { success: false, message: `Failed to set control strategy for heating ${heatingId}` };
+				}
+				break;
 				default:
 					return { success: false, message: `Unknown command: ${command}` };
 			}
@@ -113,6 +124,258 @@ export class HeatingController {
 		}
 	}
 
+	@Get(':heatingId/control-strategy')
+	getControlStrategy(@Param('heatingId') heatingId: string) {
+		const strategy = this.heatingService.getControlStrategy(heatingId);
+		if (!strategy) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return { success: true, data: strategy };
+	}
+
+	@Put(':heatingId/control-strategy')
+	setControlStrategy(@Param('heatingId') heatingId: string, @Body() body: { strategy: ControlStrategyType; fixedOutput?: number }) {
+		try {
+			if (!isControlStrategyType(body.strategy)) {
+				return { success: false, message: `Unknown control strategy: ${body.strategy}` };
+			}
+			if (!this.heatingService.setControlStrategy(heatingId, body.strategy, body.fixedOutput)) {
+				return { success: false, message: `Failed to set control strategy for heating ${heatingId}` };
+			}
+			return { success: true, message: `Control strategy set to ${body.strategy} for heating ${heatingId}` };
+		} catch (error) {
+			return { success: false, message: `Error setting control strategy: ${error.message}` };
+		}
+	}
+
+	@Get(':heatingId/weather-compensation')
+	getWeatherCompensation(@Param('heatingId') heatingId: string) {
+		const state = this.heatingService.getState(heatingId);
+		if (!state) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return {
+			success: true,
+			data: {
+				settings: this.heatingService.getWeatherCompensationSettings(heatingId),
+				current: state.weatherCompensation,
+			},
+		};
+	}
+
+	@Put(':heatingId/weather-compensation')
+	setWeatherCompensation(@Param('heatingId') heatingId: string, @Body() body: WeatherCompensationSettings | null) {
+		try {
+			// Пустое тело - вернуть настройку из конфигурации
+			const settings = body && Object.keys(body).length > 0 ? body : null;
+			if (!this.heatingService.setWeatherCompensation(heatingId, settings)) {
+				return { success: false, message: `Failed to set weather compensation for heating ${heatingId}` };
+			}
+			return {
+				success: true,
+				message: `Weather compensation ${settings ? 'updated' : 'reset to config'} for heating ${heatingId}`,
+				data: this.heatingService.getWeatherCompensationSettings(heatingId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error setting weather compensation: ${error.message}` };
+		}
+	}
+
+	@Get(':heatingId/autotune')
+	getAutotune(@Param('heatingId') heatingId: string) {
+		if (!this.heatingService.getState(heatingId)) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return { success: true, data: this.heatingService.getAutotune(heatingId) };
+	}
+
+	@Post(':heatingId/autotune/start')
+	startAutotune(
+		@Param('heatingId') heatingId: string,
+		@Body() body: { rule?: AutotuneRule; outputHigh?: number; outputLow?: number; noiseBand?: number; cycles?: number; maxDurationMinutes?: number },
+	) {
+		try {
+			if (body.rule !== undefined && body.rule !== 'ziegler_nichols' && body.rule !== 'tyreus_luyben') {
+				return { success: false, message: `Unknown autotune rule: ${body.rule}` };
+			}
+			const started = this.heatingService.startAutotune(heatingId, {
+				rule: body.rule,
+				outputHigh: body.outputHigh,
+				outputLow: body.outputLow,
+				noiseBand: body.noiseBand,
+				cycles: body.cycles,
+				maxDuration: body.maxDurationMinutes !== undefined ? body.maxDurationMinutes * 60 * 1000 : undefined,
+			});
+			if (!started) {
+				return { success: false, message: `Failed to start autotune for heating ${heatingId}` };
+			}
+			return { success: true, message: `Autotune started for heating ${heatingId}` };
+		} catch (error) {
+			return { success: false, message: `Error starting autotune: ${error.message}` };
+		}
+	}
+
+	@Post(':heatingId/autotune/abort')
+	abortAutotune(@Param('heatingId') heatingId: string) {
+		try {
+			if (!this.heatingService.abortAutotune(heatingId)) {
+				return { success: false, message: `Autotune is not running for heating ${heatingId}` };
+			}
+			return { success: true, message: `Autotune aborted for heating ${heatingId}` };
+		} catch (error) {
+			return { success: false, message: `Error aborting autotune: ${error.message}` };
+		}
+	}
+
+	@Post(':heatingId/autotune/accept')
+	acceptAutotune(@Param('heatingId') heatingId: string) {
+		try {
+			if (!this.heatingService.acceptAutotune(heatingId)) {
+				return { success: false, message: `No completed autotune result for heating ${heatingId}` };
+			}
+			return { success: true, message: `Autotune PID parameters applied for heating ${heatingId}`, data: this.heatingService.getPIDParameters(heatingId) };
+		} catch (error) {
+			return { success: false, message: `Error accepting autotune result: ${error.message}` };
+		}
+	}
+
+	@Get(':heatingId/manual-override')
+	getManualOverride(@Param('heatingId') heatingId: string) {
+		if (!this.heatingService.getState(heatingId)) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return { success: true, data: this.heatingService.getManualOverride(heatingId) };
+	}
+
+	@Post(':heatingId/manual-override/start')
+	startManualOverride(
+		@Param('heatingId') heatingId: string,
+		@Body() body: { fanOutput?: number; valveOpen?: boolean; durationMinutes?: number },
+	) {
+		try {
+			const started = this.heatingService.startManualOverride(heatingId, {
+				fanOutput: body.fanOutput,
+				valveOpen: body.valveOpen,
+				duration: body.durationMinutes !== undefined ? body.durationMinutes * 60 : undefined,
+			}, 'rest');
+			if (!started) {
+				return { success: false, message: `Failed to start manual override for heating ${heatingId}` };
+			}
+			return {
+				success: true,
+				message: `Manual override started for heating ${heatingId}`,
+				data: this.heatingService.getManualOverride(heatingId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error starting manual override: ${error.message}` };
+		}
+	}
+
+	@Post(':heatingId/manual-override/end')
+	endManualOverride(@Param('heatingId') heatingId: string) {
+		try {
+			if (!this.heatingService.endManualOverride(heatingId, 'rest')) {
+				return { success: false, message: `Manual override is not active for heating ${heatingId}` };
+			}
+			return { success: true, message: `Manual override finished for heating ${heatingId}, auto control resumed` };
+		} catch (error) {
+			return { success: false, message: `Error finishing manual override: ${error.message}` };
+		}
+	}
+
+	@Get(':heatingId/sensor-fault')
+	getSensorFault(@Param('heatingId') heatingId: string) {
+		const state = this.heatingService.getState(heatingId);
+		if (!state) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return {
+			success: true,
+			data: {
+				settings: this.heatingService.getSensorFaultSettings(heatingId),
+				sensorFault: state.sensorFault,
+				lastTemperatureUpdate: state.lastTemperatureUpdate,
+			},
+		};
+	}
+
+	@Put(':heatingId/sensor-fault')
+	setSensorFault(@Param('heatingId') heatingId: string, @Body() body: Partial<SensorFaultSettings>) {
+		try {
+			if (!this.heatingService.setSensorFaultSettings(heatingId, body ?? {})) {
+				return { success: false, message: `Failed to set sensor fault settings for heating ${heatingId}` };
+			}
+			return {
+				success: true,
+				message: `Sensor fault settings updated for heating ${heatingId}`,
+				data: this.heatingService.getSensorFaultSettings(heatingId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error setting sensor fault settings: ${error.message}` };
+		}
+	}
+
+	@Get(':heatingId/fan-limits')
+	getFanOutputLimits(@Param('heatingId') heatingId: string) {
+		const state = this.heatingService.getState(heatingId);
+		if (!state) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return {
+			success: true,
+			data: {
+				settings: this.heatingService.getFanOutputLimits(heatingId),
+				controllerOutput: state.pidOutput,
+				limiter: state.fanOutputLimiter,
+			},
+		};
+	}
+
+	@Put(':heatingId/fan-limits')
+	setFanOutputLimits(@Param('heatingId') heatingId: string, @Body() body: Partial<FanOutputLimitSettings>) {
+		try {
+			if (!this.heatingService.setFanOutputLimits(heatingId, body ?? {})) {
+				return { success: false, message: `Failed to set fan output limits for heating ${heatingId}` };
+			}
+			return {
+				success: true,
+				message: `Fan output limits updated for heating ${heatingId}`,
+				data: this.heatingService.getFanOutputLimits(heatingId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error setting fan output limits: ${error.message}` };
+		}
+	}
+
+	@Get(':heatingId/alarms')
+	getAlarms(@Param('heatingId') heatingId: string) {
+		const alarms = this.heatingService.getProtectionAlarms(heatingId);
+		if (!alarms) {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return { success: true, data: alarms };
+	}
+
+	@Post(':heatingId/alarms/acknowledge')
+	acknowledgeAlarms(@Param('heatingId') heatingId: string, @Body() body: { type?: string } = {}) {
+		try {
+			if (body?.type !== undefined && !isProtectionAlarmType(body.type)) {
+				return { success: false, message: `Invalid alarm type: ${body.type}` };
+			}
+			const acknowledged = this.heatingService.acknowledgeAlarms(heatingId, body?.type);
+			if (!acknowledged) {
+				return { success: false, message: 'Heating system not found' };
+			}
+			return {
+				success: true,
+				message: `${acknowledged.length} alarm(s) acknowledged for heating ${heatingId}`,
+				data: this.heatingService.getProtectionAlarms(heatingId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error acknowledging alarms: ${error.message}` };
+		}
+	}
+
 	@Post(':heatingId/emergency-stop')
 	emergencyStop(@Param('heatingId') heatingId: string) {
 		try {
@@ -3,9 +3,15 @@ import { HeatingService } from './heating.service';
 import { HeatingController } from './heating.controller';
 import { MqttModule } from '../../mqtt/mqtt.module';
 import { DatabaseModule } from '../../database/database.module';
+import { SeasonModule } from '../season/season.module';
+import { OutdoorTemperatureModule } from '../outdoor-temperature/outdoor-temperature.module';
+import { EventLogModule } from '../../event-log/event-log.module';
+import { TemperatureSourceModule } from '../temperature-source/temperature-source.module';
+import { ActuatorModule } from '../actuator/actuator.module';
+import { DeviceConfigModule } from '../device-config/device-config.module';
 
 @Module({
-	imports: [MqttModule, DatabaseModule],
+	imports: [MqttModule, DatabaseModule, SeasonModule, OutdoorTemperatureModule, EventLogModule, TemperatureSourceModule, ActuatorModule, DeviceConfigModule],
 	controllers: [HeatingController],
 	providers: [HeatingService],
 	exports: [HeatingService],
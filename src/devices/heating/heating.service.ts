@@ -3,12 +3,101 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { MqttService } from '../../mqtt/mqtt.service';
 import { DatabaseService } from '../../database/database.service';
 import { heatingConfigs } from './heating.config';
-import { HeatingState, HeatingPIDSettings } from '../interfaces/heating.interface';
+import {
+	HeatingState,
+	HeatingPIDSettings,
+	HeatingConfig,
+	HeatingTopics,
+	WeatherCompensationSettings,
+	WeatherCompensationState,
+	SensorFaultSettings,
+	SENSOR_FAULT_MODES,
+	FanOutputLimitSettings,
+	ManualOverrideOptions,
+	ManualOverrideSource,
+	ManualOverrideState,
+} from '../interfaces/heating.interface';
+import {
+	AutotuneOptions,
+	AutotuneResult,
+	ControlStrategy,
+	ControlStrategyType,
+} from '../interfaces/control.interface';
+import { createControlStrategy, isControlStrategyType } from '../control/control-strategy.factory';
+import { RelayAutotuner } from '../control/relay-autotuner';
+import { SeasonService } from '../season/season.service';
+import { OutdoorTemperatureService } from '../outdoor-temperature/outdoor-temperature.service';
+import { evaluateCompensationCurve, validateCompensationPoints } from '../control/weather-compensation';
+import { ProtectionMonitor } from '../control/protection-monitor';
+import { ProtectionAlarm, ProtectionAlarmType, ProtectionTransition } from '../interfaces/protection.interface';
+import { EventLogService } from '../../event-log/event-log.service';
+import { fuseTemperatures } from '../control/sensor-fusion';
+import { getDegradedOutput, isSensorFault } from '../control/sensor-fault';
+import { FanOutputLimiter, validateFanOutputLimits } from '../control/fan-output-limiter';
+import { ActuatorFeedbackService } from '../actuator/actuator-feedback.service';
+import { ActuatorOutputState } from '../interfaces/actuator.interface';
+import { FusedTemperature, SensorFusionSettings } from '../interfaces/sensor-fusion.interface';
+import { TemperatureSourceService } from '../temperature-source/temperature-source.service';
+import { getTemperatureSourceKey } from '../temperature-source/temperature-source.utils';
+import { TemperatureSourceReading } from '../interfaces/temperature-source.interface';
+import { DeviceConfigChange } from '../interfaces/device-config.interface';
+
+const DEFAULT_FIXED_OUTPUT = 50;
+const DEFAULT_AUTOTUNE_CYCLES = 3;
+const DEFAULT_AUTOTUNE_MAX_DURATION = 4 * 60 * 60 * 1000; // 4 часа
+const DEFAULT_FREEZE_PROTECTION_OUTPUT = 30;
+const PROTECTION_HYSTERESIS = 1; // °C
+const DEFAULT_SENSOR_FAULT: SensorFaultSettings = {
+	timeout: 600,
+	mode: 'hold',
+	fallbackOutput: DEFAULT_FIXED_OUTPUT,
+};
+const MIN_SENSOR_TIMEOUT = 10; // сек
+const DEFAULT_SENSOR_FUSION: SensorFusionSettings = {
+	policy: 'mean',
+	outlierThreshold: 3,
+};
+const DEFAULT_FAN_OUTPUT_LIMITS: FanOutputLimitSettings = {
+	rampRate: 0,
+	cutoffOutput: 15,
+	cutoffHysteresis: 2,
+	minRunTime: 0,
+	minOffTime: 0,
+	startBoostOutput: 0,
+	startBoostTime: 0,
+};
+const DEFAULT_MANUAL_OVERRIDE_DURATION = 60 * 60; // сек
+const MIN_MANUAL_OVERRIDE_DURATION = 60; // сек
+const MAX_MANUAL_OVERRIDE_DURATION = 12 * 60 * 60; // сек
+const HEATING_CONTROLS: (keyof HeatingTopics)[] = ['VALVE_RELAY', 'FAN_DIMMER', 'TEMPERATURE_SENSOR'];
+const HEATING_OUTPUTS: (keyof HeatingTopics)[] = ['VALVE_RELAY', 'FAN_DIMMER'];
+
+interface ManualOverride {
+	fanOutput: number;
+	valveOpen: boolean;
+	source: ManualOverrideSource;
+	startedAt: number;
+	expiresAt: number;
+}
 
 interface HeatingInternalState extends HeatingState {
 	autoControlEnabled: boolean;
 	pidState: HeatingPIDSettings;
 	lastPIDUpdate: number;
+	controlStrategy: ControlStrategyType;
+	fixedOutput: number;
+	strategy: ControlStrategy;
+	autotuner?: RelayAutotuner;
+	manualFanSpeed: number | null; // Ручная скорость вентилятора при выключенном автоуправлении
+	compensationSettings: WeatherCompensationSettings | null; // Кривая погодной компенсации
+	protection: ProtectionMonitor;
+	sensorFault: boolean;
+	sensorFaultSettings: SensorFaultSettings;
+	controlErrors: Partial<Record<keyof HeatingTopics, string>>;
+	sensorFusionSettings: SensorFusionSettings;
+	fanOutputLimits: FanOutputLimitSettings;
+	fanLimiter: FanOutputLimiter; // Ограничения выхода регулятора перед отправкой на диммер
+	override: ManualOverride | null; // Ручной режим на время, затем возврат к автоуправлению
 }
 
 @Injectable()
@@ -17,36 +106,32 @@ export class HeatingService implements OnModuleInit {
 	private states: Record<string, HeatingInternalState> = {};
 	private pidControlIntervals: Record<string, NodeJS.Timeout> = {};
 	private isDestroyed = false;
+	// Последние показания по топикам датчиков и источникам температуры (один датчик может обслуживать несколько ШУК)
+	private sensorReadings: Record<string, { temperature: number; updatedAt: number }> = {};
+	private readonly startedAt = Date.now();
 
 	constructor(
 		private readonly mqttService: MqttService,
 		private readonly eventEmitter: EventEmitter2,
 		private readonly databaseService: DatabaseService,
+		private readonly seasonService: SeasonService,
+		private readonly outdoorTemperatureService: OutdoorTemperatureService,
+		private readonly eventLogService: EventLogService,
+		private readonly temperatureSourceService: TemperatureSourceService,
+		private readonly actuatorFeedbackService: ActuatorFeedbackService,
 	) {
 		this.isDestroyed = false;
-		// Инициализация состояний для каждого отопительного контура
-		Object.keys(heatingConfigs).forEach((heatingId) => {
-			const config = heatingConfigs[heatingId];
-			this.states[heatingId] = {
-				currentFanSpeed: 0,
-				valveState: 'closed',
-				currentTemperature: 0,
-				setpointTemperature: 15, // Значение по умолчанию как в примере
-				pidOutput: 0,
-				isEmergencyStop: false,
-				isWorking: false,
-				isOnline: false,
-				autoControlEnabled: false,
-				pidState: { ...config.pidSettings }, // Копируем настройки PID
-				lastPIDUpdate: Date.now(),
-			};
-		});
 	}
 
 	async onModuleInit() {
 		this.logger.log('Heating Service initialized');
+
+		// Состояния создаются после загрузки конфигурации устройств (DeviceConfigModule)
+		Object.keys(heatingConfigs).forEach(heatingId => {
+			this.states[heatingId] = this.createState(heatingId);
+		});
 		
-		// Загружаем уставки из базы данных
+		// Загружаем сохраненное состояние из базы данных
 		await this.loadSettingsFromDatabase();
 
 		// Единый обработчик MQTT сообщений для брокера sensors
@@ -57,11 +142,12 @@ export class HeatingService implements OnModuleInit {
 			// Ищем отопление, которому соответствует топик
 			let matchedCount = 0;
 			for (const [heatingId, config] of Object.entries(heatingConfigs)) {
-				if (data.topic === config.topics.TEMPERATURE_SENSOR) {
+				if (this.getSensorTopics(config).includes(data.topic)) {
 					const temperature = parseFloat(String(data.message));
 					if (!isNaN(temperature)) {
 						this.logger.log(`  ✅ MQTT topic ${data.topic} matched to ${heatingId}, updating temperature: ${temperature}°C`);
-						this.updateTemperature(heatingId, temperature);
+						this.sensorReadings[data.topic] = { temperature, updatedAt: Date.now() };
+						this.updateTemperature(heatingId);
 						matchedCount++;
 					} else {
 						this.logger.warn(`❌ Invalid temperature data for ${heatingId}: ${data.message}`);
@@ -77,166 +163,610 @@ export class HeatingService implements OnModuleInit {
 			}
 		});
 
+		// Источники температуры (temperatureSource) заменяют основной датчик ШУК
+		this.eventEmitter.on('temperature.source.updated', (reading: TemperatureSourceReading) => {
+			const { temperature } = reading;
+			if (temperature === null) return;
+			const key = getTemperatureSourceKey(reading);
+
+			Object.entries(heatingConfigs).forEach(([heatingId, config]) => {
+				if (!config.temperatureSource || getTemperatureSourceKey(config.temperatureSource) !== key) return;
+				this.sensorReadings[key] = { temperature, updatedAt: Date.now() };
+				this.updateTemperature(heatingId);
+			});
+		});
+		Object.keys(heatingConfigs).forEach(heatingId => this.registerTemperatureSource(heatingId));
+
 		// Подписка на события подключения к брокерам
 		this.eventEmitter.on('mqtt.sensors.connected', () => {
 			this.logger.log('🔌 Подключились к брокеру датчиков');
 			this.setupMqttSubscriptions();
 		});
 
+		// Смена сезона (календарь, уличная температура, принудительный сезон, переопределение ШУК) - сразу пересчитываем клапаны
+		this.eventEmitter.on('season.changed', (data: { heatingId?: string }) => {
+			const heatingIds = data.heatingId ? [data.heatingId] : Object.keys(this.states);
+			heatingIds.forEach(heatingId => {
+				const state = this.states[heatingId];
+				if (!state) return;
+				// В ручном режиме клапан остается в заданном оператором состоянии
+				if (!state.isEmergencyStop && !state.override) {
+					this.setSeasonalValve(heatingId, this.getSeasonalValveState(heatingId, state.pidOutput));
+				}
+				// Статус сезона нужен клиентам и Modbus даже при аварийной остановке
+				this.eventEmitter.emit('heating.update', heatingId);
+			});
+		});
+
+		// Ошибки опроса модулей Wiren Board: датчик на брокере sensors, реле и диммер на брокере отопления
+		['heating', 'sensors'].forEach(broker => {
+			this.eventEmitter.on(`mqtt.${broker}.control.error`, (data: { topic: string; error: string | null }) =>
+				this.handleControlError(broker, data.topic, data.error),
+			);
+		});
+
+		// Контроль исполнения команд клапана и вентилятора
+		this.eventEmitter.on('actuator.feedback.alarm', (data: { owner: string; output: ActuatorOutputState }) =>
+			this.handleActuatorAlarm(data.owner, data.output),
+		);
+		this.eventEmitter.on('actuator.feedback.updated', (data: { owner: string }) => {
+			if (this.states[data.owner]) {
+				this.eventEmitter.emit('heating.update', data.owner);
+			}
+		});
+
 		this.eventEmitter.on('mqtt.heating.connected', () => {
 			this.logger.log('🔌 Подключились к брокеру отопления');
+			// После (пере)подключения повторно отправляем выходы, восстановленные из базы
+			Object.keys(this.states).forEach(heatingId => this.restoreOutputs(heatingId));
 		});
 
-		// Инициализируем состояние для каждого отопительного блока
-		Object.entries(heatingConfigs).forEach(([heatingId, config]) => {
-			this.logger.log(`Initializing heating system: ${heatingId}`);
-
-			// Инициализируем состояние отопления
-			this.states[heatingId] = {
-				currentFanSpeed: 0,
-				valveState: 'closed',
-				currentTemperature: 0,
-				setpointTemperature: 23,
-				pidOutput: 0,
-				isEmergencyStop: false,
-				isWorking: false,
-				isOnline: false,
-				autoControlEnabled: false,
-				lastError: 0,
-				integral: config.pidSettings.integral,
-				pidState: { ...config.pidSettings },
-				lastPIDUpdate: Date.now(),
-			};
-
-			// Запускаем PID контроль каждую секунду (как в примере кода)
-			this.pidControlIntervals[heatingId] = setInterval(() => {
-				if (this.states[heatingId]?.autoControlEnabled && !this.states[heatingId]?.isEmergencyStop) {
-					this.runPIDControl(heatingId);
-				}
-			}, 1000); // 1 секунда, как в примере
+		// Изменение конфигурации ШУК через API - перезапуск устройства без перезапуска сервера
+		this.eventEmitter.on('device.config.changed', (change: DeviceConfigChange) => {
+			if (change.deviceType === 'heating') {
+				this.reloadDevice(change.deviceId);
+			}
+		});
 
-			// Подписка на события подключения/отключения для каждого отопления
-			this.eventEmitter.on(`mqtt.sensors.connected`, () => {
-				this.states[heatingId].isOnline = true;
-				this.eventEmitter.emit('heating.update', heatingId);
-			});
-			this.eventEmitter.on(`mqtt.sensors.error`, () => {
-				this.states[heatingId].isOnline = false;
-				this.eventEmitter.emit('heating.update', heatingId);
-			});
-			this.eventEmitter.on(`mqtt.sensors.offline`, () => {
-				this.states[heatingId].isOnline = false;
-				this.eventEmitter.emit('heating.update', heatingId);
+		// Доступность брокера датчиков для всех ШУК, в том числе добавленных после запуска
+		(['connected', 'error', 'offline'] as const).forEach(event => {
+			this.eventEmitter.on(`mqtt.sensors.${event}`, () => {
+				Object.keys(this.states).forEach(heatingId => {
+					this.states[heatingId].isOnline = event === 'connected';
+					this.eventEmitter.emit('heating.update', heatingId);
+				});
 			});
 		});
 
+		Object.keys(heatingConfigs).forEach(heatingId => this.startControlLoop(heatingId));
+
 		// Начальная настройка подписок
 		await this.setupMqttSubscriptions();
 
 		// Применяем сезонную логику клапанов для всех ШУКов при запуске сервера
 		this.applySasonalValveLogicToAll();
+
+		// Восстанавливаем аварийные остановки и ручные режимы
+		Object.keys(this.states).forEach(heatingId => this.restoreOutputs(heatingId));
 	}
 
 	private async setupMqttSubscriptions() {
 		this.logger.log('🔧 Setting up MQTT subscriptions...');
 		
-		await Promise.all(
-			Object.entries(heatingConfigs).map(async ([heatingId, config]) => {
-				try {
-					this.logger.log(`🌡️ Subscribing ${heatingId} to temperature sensor: ${config.topics.TEMPERATURE_SENSOR}`);
-					await this.mqttService.subscribe('sensors', config.topics.TEMPERATURE_SENSOR);
-				} catch (err: unknown) {
-					const error = err as Error;
-					this.logger.error(`Ошибка подписки на топики отопления ${heatingId}: ${error.message}`);
+		Object.keys(heatingConfigs).forEach(heatingId => this.subscribeDevice(heatingId));
+	}
+
+	private subscribeDevice(heatingId: string) {
+		const config = heatingConfigs[heatingId];
+		if (!config) return;
+
+		try {
+			this.getSensorTopics(config).forEach(topic => {
+				this.logger.log(`🌡️ Subscribing ${heatingId} to temperature sensor: ${topic}`);
+				this.mqttService.subscribe('sensors', topic);
+				this.mqttService.subscribeControlError('sensors', topic);
+			});
+			HEATING_OUTPUTS.forEach(control => {
+				this.mqttService.subscribeControlError(config.broker, config.topics[control]);
+				this.actuatorFeedbackService.track(heatingId, config.broker, config.topics[control]);
+			});
+		} catch (err: unknown) {
+			const error = err as Error;
+			this.logger.error(`Ошибка подписки на топики отопления ${heatingId}: ${error.message}`);
+		}
+	}
+
+	private registerTemperatureSource(heatingId: string) {
+		const config = heatingConfigs[heatingId];
+		if (config?.temperatureSource && !this.temperatureSourceService.register(config.temperatureSource)) {
+			this.logger.warn(`⚠️ Heating ${heatingId}: temperature source ${getTemperatureSourceKey(config.temperatureSource)} not found`);
+		}
+	}
+
+	private startControlLoop(heatingId: string) {
+		this.logger.log(`Initializing heating system: ${heatingId}`);
+
+		// Запускаем цикл регулирования каждую секунду (как в примере кода)
+		this.pidControlIntervals[heatingId] = setInterval(() => {
+			const state = this.states[heatingId];
+			if (!state) return;
+
+			// Контроль датчиков работает и при аварийной остановке; устаревшие показания исключаются из температуры зоны
+			this.updateTemperature(heatingId, false);
+			if (state.isEmergencyStop) return;
+
+			if (state.override) {
+				this.checkManualOverride(heatingId);
+			} else if (state.autotuner?.isRunning) {
+				this.runAutotune(heatingId);
+			} else if (state.autoControlEnabled) {
+				if (state.sensorFault) {
+					this.runDegradedControl(heatingId);
+				} else {
+					this.runControl(heatingId);
 				}
+			}
+		}, 1000); // 1 секунда, как в примере
+	}
+
+	// Остановка цикла регулирования и контроля выходов ШУК (перед перезапуском или удалением из конфигурации)
+	// Подписки MQTT сохраняются: топик может использоваться другими устройствами и датчиками
+	private stopDevice(heatingId: string) {
+		clearInterval(this.pidControlIntervals[heatingId]);
+		delete this.pidControlIntervals[heatingId];
+		this.actuatorFeedbackService.untrack(heatingId);
+		delete this.states[heatingId];
+	}
+
+	// Перезапуск ШУК после изменения конфигурации: состояние создается заново, настройки из базы (уставка, режимы, аварии) сохраняются
+	private async reloadDevice(heatingId: string) {
+		this.stopDevice(heatingId);
+		if (!heatingConfigs[heatingId]) {
+			this.logger.log(`🛠️ Heating ${heatingId} removed from configuration`);
+			return;
+		}
+
+		const state = this.createState(heatingId);
+		this.states[heatingId] = state;
+		try {
+			const settings = await this.databaseService.getAllHeatingSettings(heatingId);
+			// Конфигурация могла измениться повторно, пока загружались настройки
+			if (this.states[heatingId] !== state) return;
+			this.applyStoredSettings(heatingId, settings);
+		} catch (error) {
+			this.logger.error(`Ошибка загрузки настроек для ${heatingId}:`, error);
+		}
+		if (this.states[heatingId] !== state) return;
+
+		state.isOnline = this.mqttService.isConnected('sensors');
+		this.registerTemperatureSource(heatingId);
+		this.subscribeDevice(heatingId);
+		this.startControlLoop(heatingId);
+		this.updateTemperature(heatingId, false);
+		this.applySeasonalValve(heatingId);
+		this.restoreOutputs(heatingId);
+
+		this.logger.log(`🛠️ Heating ${heatingId} reloaded with new configuration`);
+		this.eventEmitter.emit('heating.update', heatingId);
+	}
+
+	// Начальное состояние ШУК по конфигурации (настройки из базы применяются отдельно)
+	private createState(heatingId: string): HeatingInternalState {
+		const config = heatingConfigs[heatingId];
+		const pidState = { ...config.pidSettings }; // Копируем настройки PID
+		const controlStrategy = config.controlStrategy ?? 'pid';
+		const fixedOutput = config.fixedOutput ?? DEFAULT_FIXED_OUTPUT;
+		const fanOutputLimits = { ...DEFAULT_FAN_OUTPUT_LIMITS, ...config.fanOutputLimits };
+		return {
+			currentFanSpeed: 0,
+			valveState: 'closed',
+			currentTemperature: 0,
+			setpointTemperature: 23, // Значение по умолчанию, если уставки нет в базе
+			pidOutput: 0,
+			isEmergencyStop: false,
+			isWorking: false,
+			isOnline: false,
+			autoControlEnabled: false,
+			lastError: 0,
+			integral: config.pidSettings.integral,
+			pidState,
+			lastPIDUpdate: Date.now(),
+			controlStrategy,
+			fixedOutput,
+			strategy: this.buildControlStrategy(config, controlStrategy, fixedOutput, pidState),
+			manualFanSpeed: null,
+			compensationSettings: this.getConfiguredWeatherCompensation(config),
+			protection: new ProtectionMonitor({
+				freezeLimit: config.temperatureSettings.TEMP_FREEZE_LIMIT,
+				overheatLimit: config.temperatureSettings.TEMP_OVERHEAT_LIMIT,
+				hysteresis: PROTECTION_HYSTERESIS,
 			}),
-		);
+			sensorFault: false,
+			sensorFaultSettings: { ...DEFAULT_SENSOR_FAULT, ...config.sensorFault },
+			controlErrors: {},
+			sensorFusionSettings: { ...DEFAULT_SENSOR_FUSION, ...config.sensorFusion },
+			fanOutputLimits,
+			fanLimiter: new FanOutputLimiter(fanOutputLimits),
+			override: null,
+		};
 	}
 
-	private updateTemperature(heatingId: string, temperature: number) {
-		if (this.states[heatingId]) {
-			this.states[heatingId].currentTemperature = temperature;
-			this.states[heatingId].isOnline = true;
-			this.logger.log(`📊 Heating ${heatingId} temperature updated: ${temperature}°C`);
+	// Пересчет температуры зоны по показаниям датчиков
+	// (без нового показания - только если изменился состав пригодных датчиков)
+	private updateTemperature(heatingId: string, isNewReading = true) {
+		const state = this.states[heatingId];
+		if (!state) return;
+
+		const fusion = this.computeSensorFusion(heatingId);
+		const { temperature } = fusion;
+
+		if (temperature !== null && (isNewReading || temperature !== state.currentTemperature)) {
+			state.currentTemperature = temperature;
+			state.isOnline = true;
+			this.logger.log(`📊 Heating ${heatingId} temperature updated: ${temperature}°C (${fusion.policy})`);
 			
 			// Эмитируем событие обновления температуры
 			this.eventEmitter.emit('heating.temperature.updated', {
 				heatingId,
 				temperature,
+				sensors: fusion.sensors,
 			});
+
+			// Защиты работают независимо от автоуправления
+			this.checkProtection(heatingId);
 		}
+
+		this.checkSensor(heatingId, fusion);
+	}
+
+	// MQTT топики датчиков на брокере sensors: основной датчик ШУК (если не задан temperatureSource) и дополнительные датчики зоны
+	private getSensorTopics(config: HeatingConfig): string[] {
+		const primary = config.temperatureSource ? [] : [config.topics.TEMPERATURE_SENSOR];
+		return [...new Set([...primary, ...(config.temperatureSensors ?? [])])];
 	}
 
-	private runPIDControl(heatingId: string) {
+	// Все датчики зоны: источник температуры идентифицируется ключом 'тип:sourceId', датчики - топиками
+	private getSensorIds(config: HeatingConfig): string[] {
+		const source = config.temperatureSource ? [getTemperatureSourceKey(config.temperatureSource)] : [];
+		return [...source, ...this.getSensorTopics(config)];
+	}
+
+	private isSensorError(config: HeatingConfig, sensorId: string): boolean {
+		if (config.temperatureSource && sensorId === getTemperatureSourceKey(config.temperatureSource)) {
+			return !!this.temperatureSourceService.getReading(config.temperatureSource)?.error;
+		}
+		return this.mqttService.getControlError('sensors', sensorId) !== null;
+	}
+
+	private computeSensorFusion(heatingId: string): FusedTemperature {
 		const state = this.states[heatingId];
 		const config = heatingConfigs[heatingId];
-		
-		if (!state || !config) return;
+		const samples = this.getSensorIds(config).map(sensorId => ({
+			id: sensorId,
+			temperature: this.sensorReadings[sensorId]?.temperature ?? null,
+			updatedAt: this.sensorReadings[sensorId]?.updatedAt ?? null,
+			error: this.isSensorError(config, sensorId),
+		}));
+		return fuseTemperatures(samples, state.sensorFusionSettings, state.sensorFaultSettings.timeout);
+	}
 
-		const { currentTemperature, setpointTemperature, pidState } = state;
-		const { Kp, Ki, Kd, outputMin, outputMax } = pidState;
-		const { HYSTERESIS } = config.temperatureSettings;
+	private getLastTemperatureUpdate(heatingId: string): number | null {
+		const updates = this.getSensorIds(heatingConfigs[heatingId])
+			.map(sensorId => this.sensorReadings[sensorId]?.updatedAt)
+			.filter((updatedAt): updatedAt is number => updatedAt !== undefined);
+		return updates.length > 0 ? Math.max(...updates) : null;
+	}
 
-		// Вычисляем ошибку с учетом гистерезиса
-		let error = setpointTemperature - currentTemperature;
-		
-		// Применяем гистерезис для более плавной работы
-		if (state.isWorking && error < 0 && Math.abs(error) <= HYSTERESIS) {
-			// Если система работает и ошибка в пределах гистерезиса, 
-			// считаем ошибку равной 0 (не меняем режим)
-			error = 0;
+	// Датчики зоны неисправны, если не осталось ни одного пригодного показания
+	// (первых показаний после запуска сервера ждем в течение таймаута)
+	private checkSensor(heatingId: string, fusion = this.computeSensorFusion(heatingId)) {
+		const state = this.states[heatingId];
+		if (!state) return;
+
+		const fault = isSensorFault(fusion, state.sensorFaultSettings.timeout, this.startedAt);
+		if (fault !== state.sensorFault) {
+			this.setSensorFault(heatingId, fault, fusion);
 		}
+	}
 
-		// Обновляем интегральную составляющую с антивиндовпом
-		pidState.integral += error;
-		
-		// Ограничиваем интегральную составляющую для предотвращения перерегулирования
-		// const maxIntegral = 200; // Максимальное значение интеграла
-		// pidState.integral = Math.max(-maxIntegral, Math.min(maxIntegral, pidState.integral));
+	private getControlBroker(config: HeatingConfig, control: keyof HeatingTopics): string {
+		return control === 'TEMPERATURE_SENSOR' ? 'sensors' : config.broker;
+	}
+
+	// Ошибка опроса контрола Wiren Board (null - ошибка снята)
+	private handleControlError(broker: string, topic: string, error: string | null) {
+		Object.entries(heatingConfigs).forEach(([heatingId, config]) => {
+			const state = this.states[heatingId];
+			if (!state) return;
+
+			HEATING_CONTROLS.forEach(control => {
+				if (config.topics[control] !== topic || this.getControlBroker(config, control) !== broker) return;
+
+				if (error) {
+					state.controlErrors[control] = error;
+				} else {
+					delete state.controlErrors[control];
+				}
+
+				this.eventLogService.log({
+					category: 'alarm',
+					severity: error ? 'alarm' : 'info',
+					deviceId: heatingId,
+					message: error
+						? `Ошибка опроса ${control} (${topic}): ${error}`
+						: `Ошибка опроса ${control} (${topic}) снята`,
+					details: { control, topic, error },
+				});
+
+				if (control === 'TEMPERATURE_SENSOR') {
+					this.checkSensor(heatingId);
+				}
+				this.emitAlarmUpdate(heatingId);
+			});
+		});
+	}
+
+	// Заданное и фактическое состояние выходов ШУК
+	private getOutputs(heatingId: string): Partial<Record<keyof HeatingTopics, ActuatorOutputState>> {
+		const config = heatingConfigs[heatingId];
+		const outputs: Partial<Record<keyof HeatingTopics, ActuatorOutputState>> = {};
+		HEATING_OUTPUTS.forEach(control => {
+			const output = this.actuatorFeedbackService.getOutput(config.broker, config.topics[control]);
+			if (output) {
+				outputs[control] = output;
+			}
+		});
+		return outputs;
+	}
+
+	private getActuatorAlarms(heatingId: string): (keyof HeatingTopics)[] {
+		const outputs = this.getOutputs(heatingId);
+		return HEATING_OUTPUTS.filter(control => outputs[control]?.alarm);
+	}
+
+	// Команда клапану или вентилятору не выполнена после всех повторов (или авария снята)
+	private handleActuatorAlarm(heatingId: string, output: ActuatorOutputState) {
+		const config = heatingConfigs[heatingId];
+		const control = config && HEATING_OUTPUTS.find(name => config.topics[name] === output.topic);
+		if (!control) return;
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: output.alarm ? 'alarm' : 'info',
+			deviceId: heatingId,
+			message: output.alarm
+				? `Команда ${control} не выполнена: задано ${output.desired}, фактически ${output.actual ?? 'нет данных'}`
+				: `Команда ${control} выполнена, авария снята`,
+			details: { control, ...output },
+		});
+		this.emitAlarmUpdate(heatingId);
+	}
+
+	private setSensorFault(heatingId: string, fault: boolean, fusion: FusedTemperature) {
+		const state = this.states[heatingId];
+		if (!state) return;
+
+		state.sensorFault = fault;
+		const lastUpdate = this.getLastTemperatureUpdate(heatingId);
+
+		if (fault) {
+			this.abortAutotune(heatingId, 'Temperature sensor fault');
+		} else {
+			// Регулятор начинает с чистого состояния: накопленный за время отказа шаг dt не учитываем
+			state.strategy.reset();
+			state.lastPIDUpdate = Date.now();
+		}
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: fault ? 'alarm' : 'info',
+			deviceId: heatingId,
+			message: fault
+				? `Нет пригодных показаний датчиков температуры (${fusion.sensors.map(sensor => `${sensor.id}: ${sensor.excluded}`).join(', ')}), режим ${state.sensorFaultSettings.mode}`
+				: 'Показания датчиков температуры восстановлены',
+			details: { lastUpdate: lastUpdate ? new Date(lastUpdate).toISOString() : null, sensors: fusion.sensors },
+		});
+		this.eventEmitter.emit('heating.sensor.fault', {
+			heatingId,
+			fault,
+			lastUpdate: lastUpdate ? new Date(lastUpdate).toISOString() : null,
+		});
+		this.emitAlarmUpdate(heatingId);
+	}
+
+	// Управление при неисправном датчике: удержание последнего выхода, фиксированный выход или выключение
+	private runDegradedControl(heatingId: string) {
+		const state = this.states[heatingId];
+		if (!state) return;
 
-		// Сбрасываем интеграл при превышении температуры
-		if (error < 0) {
-			pidState.integral = Math.max(0, pidState.integral * 0.95);
+		const output = getDegradedOutput(state.sensorFaultSettings);
+		if (output !== null) {
+			this.applyOutput(heatingId, output);
 		}
+	}
+
+	// Проверка защит от замерзания и перегрева по текущей температуре
+	private checkProtection(heatingId: string) {
+		const state = this.states[heatingId];
+		if (!state) return;
+
+		const transitions = state.protection.update(state.currentTemperature);
+		if (transitions.length === 0) return;
+
+		transitions.forEach(transition => this.logProtectionTransition(heatingId, transition));
+		this.enforceProtection(heatingId);
+		this.saveProtectionAlarms(heatingId);
+		this.emitAlarmUpdate(heatingId);
+	}
+
+	private logProtectionTransition(heatingId: string, { event, alarm }: ProtectionTransition) {
+		const name = alarm.type === 'freeze' ? 'Защита от замерзания' : 'Защита от перегрева';
+		const message = event === 'tripped'
+			? `${name}: сработала при ${alarm.temperature}°C (порог ${alarm.limit}°C)`
+			: `${name}: температура вернулась в норму, авария ${alarm.acknowledged ? 'снята' : 'ожидает квитирования'}`;
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: event === 'tripped' ? 'alarm' : 'info',
+			deviceId: heatingId,
+			message,
+			details: { ...alarm, event },
+		});
+		this.eventEmitter.emit('heating.protection.changed', { heatingId, event, alarm });
+	}
 
-		// Вычисляем дифференциальную составляющую
-		const derivative = error - pidState.prevError;
+	// Приводим выходы в соответствие с защитами: при срабатывании - принудительное действие,
+	// после снятия - возврат к штатной логике текущего режима
+	private enforceProtection(heatingId: string) {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		if (!state || !config) return;
 
-		// Вычисляем выход PID регулятора
-		let output = Kp * error + Ki * pidState.integral + Kd * derivative;
+		// Аварийная остановка: вентилятор остается выключенным, клапан открывается только защитой от замерзания
+		if (state.isEmergencyStop) {
+			this.setValve(heatingId, false);
+			return;
+		}
 
-		// Ограничиваем выход в диапазоне outputMin - outputMax
-		output = Math.max(outputMin, Math.min(outputMax, output));
+		if (state.override) {
+			this.applyManualOverride(heatingId);
+			return;
+		}
 
-		// Для отопления: если температура выше уставки, постепенно снижаем выход
-		// но не сбрасываем сразу в 0, чтобы избежать резких скачков
-		if (error < 0) {
-			// Постепенно уменьшаем интегральную составляющую при превышении температуры
-			pidState.integral = Math.max(0, pidState.integral * 0.95); // Медленно сбрасываем интеграл
+		if (state.autoControlEnabled) {
+			this.applyOutput(heatingId, state.pidOutput);
+			return;
 		}
 
-		this.logger.debug(`PID Control ${heatingId}: error=${error.toFixed(2)}, output=${output.toFixed(2)}, valve=${this.getSeasonalValveState(heatingId, output) ? 'open' : 'closed'} (seasonal)`);
+		const fanSpeed = this.getProtectedFanSpeed(heatingId, state.manualFanSpeed ?? 0);
+		this.logger.log(`🛡️ PROTECTION: Sending fan speed for ${heatingId}: ${fanSpeed}`);
+		this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, fanSpeed);
+		state.currentFanSpeed = fanSpeed;
+		state.fanLimiter.reset(fanSpeed);
+		this.setSeasonalValve(heatingId, this.getSeasonalValveState(heatingId, state.pidOutput));
+	}
+
+	// Защиты имеют приоритет над любой логикой клапана
+	private getProtectedValveState(heatingId: string, open: boolean): boolean {
+		const protection = this.states[heatingId]?.protection;
+		if (protection?.isActive('freeze')) return true;
+		if (protection?.isActive('overheat')) return false;
+		return open;
+	}
+
+	// При защите от замерзания вентилятор работает не ниже безопасного выхода
+	private getProtectedFanSpeed(heatingId: string, speed: number): number {
+		const state = this.states[heatingId];
+		if (!state?.protection.isActive('freeze') || state.isEmergencyStop) return speed;
+
+		const safeOutput = heatingConfigs[heatingId]?.freezeProtectionOutput ?? DEFAULT_FREEZE_PROTECTION_OUTPUT;
+		return Math.max(speed, safeOutput);
+	}
+
+	private saveProtectionAlarms(heatingId: string) {
+		const alarms = this.states[heatingId]?.protection.getAlarms() ?? [];
+		this.saveSetting(heatingId, 'protection_alarms', alarms.length > 0 ? JSON.stringify(alarms) : '');
+	}
+
+	private emitAlarmUpdate(heatingId: string) {
+		const state = this.states[heatingId];
+		if (!state) return;
+
+		const { protection } = state;
+		const actuatorAlarms = this.getActuatorAlarms(heatingId);
+		this.eventEmitter.emit('heating.alarm', {
+			heatingId,
+			isAlarm: protection.hasAlarm() || state.sensorFault || Object.keys(state.controlErrors).length > 0 || actuatorAlarms.length > 0,
+			alarms: protection.getAlarms(),
+			sensorFault: state.sensorFault,
+			controlErrors: { ...state.controlErrors },
+			actuatorAlarms,
+		});
+		this.eventEmitter.emit('heating.update', heatingId);
+	}
+
+	private buildControlStrategy(
+		config: HeatingConfig,
+		type: ControlStrategyType,
+		fixedOutput: number,
+		pidState: HeatingPIDSettings,
+	): ControlStrategy {
+		return createControlStrategy(
+			type,
+			{
+				hysteresis: config.temperatureSettings.HYSTERESIS,
+				outputMin: pidState.outputMin,
+				outputMax: pidState.outputMax,
+				fixedOutput,
+			},
+			pidState,
+		);
+	}
+
+	private runControl(heatingId: string) {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		
+		if (!state || !config) return;
+
+		// Реальное время с предыдущего шага, а не предполагаемая 1 секунда
+		const now = Date.now();
+		const dt = (now - state.lastPIDUpdate) / 1000;
+		state.lastPIDUpdate = now;
+
+		// Погодная компенсация: поправка к уставке и ограничение выхода по уличной температуре
+		const compensation = this.computeWeatherCompensation(heatingId);
+		const setpointTemperature = compensation?.effectiveSetpoint ?? state.setpointTemperature;
+		const outputLimit = compensation?.maxOutput;
+
+		const computed = state.strategy.compute({
+			currentTemperature: state.currentTemperature,
+			setpointTemperature,
+			isWorking: state.isWorking,
+			timestamp: now,
+			dt,
+			outputLimit,
+		});
+		const { error, proportional, integral, derivative } = computed;
+		const output = outputLimit !== undefined ? Math.min(computed.output, outputLimit) : computed.output;
+
+		this.logger.debug(`Control ${heatingId} [${state.controlStrategy}]: error=${error.toFixed(2)}, output=${output.toFixed(2)}, valve=${this.getSeasonalValveState(heatingId, output) ? 'open' : 'closed'} (seasonal)`);
+
+		state.lastError = error;
+		this.applyOutput(heatingId, output);
+
+		this.logger.debug(`Control ${heatingId} [${state.controlStrategy}]: error=${error.toFixed(2)}, output=${output.toFixed(2)}, valve=${state.valveState}`);
+
+		// Эмитируем события
+		this.eventEmitter.emit('heating.pid.updated', {
+			heatingId,
+			strategy: state.controlStrategy,
+			error,
+			output,
+			proportional,
+			integral,
+			derivative,
+		});
+	}
+
+	// Применяем выход регулятора: вентилятор, сезонный клапан и признак работы
+	private applyOutput(heatingId: string, output: number) {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+
+		if (!state || !config) return;
 
 		// Обновляем состояние
 		state.pidOutput = output;
-		state.currentFanSpeed = output;
-		pidState.prevError = error;
 
-		// Отправляем команду вентилятору с учетом минимального порога
-		const fanSpeed = Math.max(0, output);
-		
-		// Если выход очень мал (меньше 5%), отключаем вентилятор
-		if (fanSpeed < 15) {
-			this.logger.log(`🔥 PID: Fan speed too low (${fanSpeed.toFixed(1)}%), turning off fan for ${heatingId}`);
-			this.mqttService.publish(config.broker, `${config.topics.FAN_DIMMER}/on`, 0, {
-				retain: false,
-			});
-		} else {
-			this.logger.log(`🔥 PID: Sending fan speed command for ${heatingId}: topic="${config.topics.FAN_DIMMER}/on", value=${fanSpeed.toFixed(1)}`);
-			this.mqttService.publish(config.broker, `${config.topics.FAN_DIMMER}/on`, fanSpeed, {
-				retain: false,
-			});
-		}
+		// Порог отключения, минимальные времена работы/простоя, разгон и скорость нарастания;
+		// защита от замерзания имеет приоритет над ограничениями
+		const limitedOutput = state.fanLimiter.update(Math.max(0, output));
+		const fanSpeed = this.getProtectedFanSpeed(heatingId, limitedOutput);
+		state.currentFanSpeed = fanSpeed;
+
+		this.logger.debug(`🔥 CONTROL: Fan speed command for ${heatingId}: topic="${config.topics.FAN_DIMMER}/on", value=${fanSpeed.toFixed(1)} (output=${output.toFixed(1)})`);
+		this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, fanSpeed);
 
 		// Управляем клапаном по сезонной логике
 		const valveState = this.getSeasonalValveState(heatingId, output);
@@ -244,16 +774,60 @@ export class HeatingService implements OnModuleInit {
 
 		// Определяем состояние работы
 		state.isWorking = output > 0;
+	}
 
-		this.logger.debug(`PID Control ${heatingId}: error=${error.toFixed(2)}, output=${output.toFixed(2)}, valve=${state.valveState}`);
+	// Шаг автонастройки: релейное управление вентилятором вокруг уставки
+	private runAutotune(heatingId: string) {
+		const state = this.states[heatingId];
+		const autotuner = state?.autotuner;
 
-		// Эмитируем события
-		this.eventEmitter.emit('heating.pid.updated', {
+		if (!state || !autotuner) return;
+
+		const before = autotuner.getResult();
+		const output = autotuner.update(state.currentTemperature);
+
+		if (output === null) {
+			this.finishAutotune(heatingId);
+			return;
+		}
+
+		if (output !== state.pidOutput) {
+			this.logger.log(`🎛️ AUTOTUNE: ${heatingId} relay switched to ${output}% at ${state.currentTemperature}°C`);
+		}
+		this.applyOutput(heatingId, output);
+
+		const after = autotuner.getResult();
+		if (after.status !== 'running') {
+			this.finishAutotune(heatingId);
+		} else if (after.cyclesCompleted !== before.cyclesCompleted) {
+			this.emitAutotuneUpdate(heatingId);
+		}
+	}
+
+	// Завершение автонастройки: выключаем вентилятор и возвращаем штатный регулятор
+	private finishAutotune(heatingId: string) {
+		const state = this.states[heatingId];
+		const result = state?.autotuner?.getResult();
+
+		if (!state || !result) return;
+
+		this.applyOutput(heatingId, 0);
+		state.strategy.reset();
+		state.lastPIDUpdate = Date.now();
+
+		if (result.status === 'completed') {
+			this.logger.log(`🎛️ AUTOTUNE: ${heatingId} completed: Ku=${result.ultimateGain?.toFixed(3)}, Pu=${result.ultimatePeriod?.toFixed(0)}s, suggested Kp=${result.suggested?.Kp}, Ki=${result.suggested?.Ki}, Kd=${result.suggested?.Kd}`);
+		} else {
+			this.logger.warn(`🎛️ AUTOTUNE: ${heatingId} ${result.status}: ${result.reason}`);
+		}
+
+		this.emitAutotuneUpdate(heatingId);
+	}
+
+	private emitAutotuneUpdate(heatingId: string) {
+		this.eventEmitter.emit('heating.autotune.updated', {
 			heatingId,
-			error,
-			output,
-			integral: pidState.integral,
-			derivative,
+			autotune: this.states[heatingId]?.autotuner?.getResult() ?? null,
 		});
 	}
 
@@ -263,6 +837,7 @@ export class HeatingService implements OnModuleInit {
 		
 		if (!state || !config) return;
 
+		open = this.getProtectedValveState(heatingId, open);
 		const newState = open ? 'open' : 'closed';
 		
 		// Если состояние не изменилось, не отправляем команду
@@ -270,9 +845,7 @@ export class HeatingService implements OnModuleInit {
 
 		// Отправляем команду на реле
 		this.logger.log(`🔥 VALVE: Sending valve command for ${heatingId}: topic="${config.topics.VALVE_RELAY}/on", value=${open}`);
-		this.mqttService.publish(config.broker, `${config.topics.VALVE_RELAY}/on`, open, {
-			retain: false,
-		});
+		this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.VALVE_RELAY, open);
 		
 		state.valveState = newState;
 
@@ -294,11 +867,23 @@ export class HeatingService implements OnModuleInit {
 		if (!state || !config || speed < 0 || speed > 100) return;
 
 		// Устанавливаем значение на аналоговый выход
-		this.mqttService.publish(config.broker, `${config.topics.FAN_DIMMER}/on`, speed, {
-			retain: false,
-		});
-		state.currentFanSpeed = speed;
+		const fanSpeed = this.getProtectedFanSpeed(heatingId, speed);
+		this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, fanSpeed);
+		state.currentFanSpeed = fanSpeed;
 		state.pidOutput = speed;
+		state.fanLimiter.reset(fanSpeed);
+
+		// В ручном режиме на время меняем его выход, иначе ручную скорость запоминаем,
+		// только когда автоуправление ее не перезапишет
+		if (state.override) {
+			state.override.fanOutput = speed;
+			state.isWorking = speed > 0;
+			this.saveSetting(heatingId, 'manual_override', JSON.stringify(state.override));
+			this.emitManualOverrideUpdate(heatingId);
+		} else if (!state.autoControlEnabled) {
+			state.manualFanSpeed = speed;
+			this.saveSetting(heatingId, 'manual_fan_speed', speed.toString());
+		}
 
 		this.logger.log(`Fan speed manually set to ${speed} for heating ${heatingId}`);
 	}
@@ -309,29 +894,171 @@ export class HeatingService implements OnModuleInit {
 		
 		for (const heatingId of Object.keys(this.states)) {
 			try {
-				const setpointStr = await this.databaseService.getHeatingSetting(heatingId, 'setpoint_temperature');
-				if (setpointStr) {
-					const setpoint = parseFloat(setpointStr);
-					if (!isNaN(setpoint)) {
-						this.states[heatingId].setpointTemperature = setpoint;
-						this.logger.log(`Загружена уставка для ${heatingId}: ${setpoint}°C`);
-					}
-				}
+				const settings = await this.databaseService.getAllHeatingSettings(heatingId);
+				this.applyStoredSettings(heatingId, settings);
 			} catch (error) {
 				this.logger.error(`Ошибка загрузки настроек для ${heatingId}:`, error);
 			}
 		}
 	}
 
-	async setTemperature(heatingId: string, temperature: number) {
+	private applyStoredSettings(heatingId: string, settings: Record<string, string>) {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		if (!state || !config) return;
+
+		const setpoint = parseFloat(settings.setpoint_temperature);
+		if (!isNaN(setpoint)) {
+			state.setpointTemperature = setpoint;
+			this.logger.log(`Загружена уставка для ${heatingId}: ${setpoint}°C`);
+		}
+
+		// Коэффициенты PID
+		const gains = { Kp: parseFloat(settings.pid_kp), Ki: parseFloat(settings.pid_ki), Kd: parseFloat(settings.pid_kd) };
+		if (!isNaN(gains.Kp)) state.pidState.Kp = gains.Kp;
+		if (!isNaN(gains.Ki)) state.pidState.Ki = gains.Ki;
+		if (!isNaN(gains.Kd)) state.pidState.Kd = gains.Kd;
+
+		// Алгоритм управления
+		const fixedOutput = parseFloat(settings.fixed_output);
+		if (!isNaN(fixedOutput)) state.fixedOutput = fixedOutput;
+		if (isControlStrategyType(settings.control_strategy)) {
+			state.controlStrategy = settings.control_strategy;
+		}
+		state.strategy = this.buildControlStrategy(config, state.controlStrategy, state.fixedOutput, state.pidState);
+
+		// Режимы работы: аварийная остановка имеет приоритет над автоуправлением
+		state.isEmergencyStop = settings.emergency_stop === 'true';
+		state.autoControlEnabled = !state.isEmergencyStop && settings.auto_control_enabled === 'true';
+
+		const manualFanSpeed = parseFloat(settings.manual_fan_speed);
+		state.manualFanSpeed = !state.autoControlEnabled && !isNaN(manualFanSpeed) ? manualFanSpeed : null;
+
+		// Ручной режим продолжается после перезапуска; истекший за время простоя - возврат к автоуправлению
+		if (settings.manual_override && !state.isEmergencyStop) {
+			try {
+				const override: ManualOverride = JSON.parse(settings.manual_override);
+				if (override.expiresAt > Date.now() && this.validateManualOverride(heatingId, override) === null) {
+					state.override = override;
+					state.manualFanSpeed = null;
+				} else {
+					this.logger.log(`Ручной режим ${heatingId} истек, возврат к автоуправлению`);
+					state.autoControlEnabled = true;
+					state.manualFanSpeed = null;
+					this.saveSetting(heatingId, 'manual_override', '');
+					this.saveSetting(heatingId, 'auto_control_enabled', 'true');
+					this.saveSetting(heatingId, 'manual_fan_speed', '');
+				}
+			} catch {
+				this.logger.warn(`Не удалось разобрать ручной режим для ${heatingId}`);
+			}
+		}
+
+		// Погодная компенсация, настроенная через API, имеет приоритет над конфигурацией
+		if (settings.weather_compensation) {
+			try {
+				const compensation = JSON.parse(settings.weather_compensation);
+				if (this.validateWeatherCompensation(heatingId, compensation) === null) {
+					state.compensationSettings = compensation;
+				} else {
+					this.logger.warn(`Сохраненная погодная компенсация для ${heatingId} некорректна, используется конфигурация`);
+				}
+			} catch {
+				this.logger.warn(`Не удалось разобрать погодную компенсацию для ${heatingId}`);
+			}
+		}
+
+		if (settings.sensor_fault) {
+			try {
+				const sensorFault = { ...state.sensorFaultSettings, ...JSON.parse(settings.sensor_fault) };
+				if (this.validateSensorFaultSettings(heatingId, sensorFault) === null) {
+					state.sensorFaultSettings = sensorFault;
+				} else {
+					this.logger.warn(`Сохраненные настройки контроля датчика для ${heatingId} некорректны, используется конфигурация`);
+				}
+			} catch {
+				this.logger.warn(`Не удалось разобрать настройки контроля датчика для ${heatingId}`);
+			}
+		}
+
+		if (settings.fan_output_limits) {
+			try {
+				const limits = { ...state.fanOutputLimits, ...JSON.parse(settings.fan_output_limits) };
+				if (validateFanOutputLimits(limits, state.pidState.outputMax) === null) {
+					state.fanOutputLimits = limits;
+					state.fanLimiter.setSettings(limits);
+				} else {
+					this.logger.warn(`Сохраненные ограничения вентилятора для ${heatingId} некорректны, используется конфигурация`);
+				}
+			} catch {
+				this.logger.warn(`Не удалось разобрать ограничения вентилятора для ${heatingId}`);
+			}
+		}
+
+		// Зафиксированные аварии защит сохраняются до квитирования и после перезапуска
+		if (settings.protection_alarms) {
+			try {
+				state.protection.restore(JSON.parse(settings.protection_alarms));
+			} catch {
+				this.logger.warn(`Не удалось разобрать аварии защит для ${heatingId}`);
+			}
+		}
+
+		this.logger.log(`Восстановлено состояние ${heatingId}: auto=${state.autoControlEnabled}, emergency=${state.isEmergencyStop}, strategy=${state.controlStrategy}, Kp=${state.pidState.Kp}, Ki=${state.pidState.Ki}, Kd=${state.pidState.Kd}, manualFan=${state.manualFanSpeed ?? '-'}, override=${state.override ? new Date(state.override.expiresAt).toISOString() : '-'}`);
+	}
+
+	// Повторная отправка выходов, которые не пересчитываются циклом регулирования
+	private restoreOutputs(heatingId: string) {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		if (!state || !config) return;
+
+		if (state.isEmergencyStop) {
+			this.logger.warn(`Restoring emergency stop for heating ${heatingId}`);
+			this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, 0);
+			const valveOpen = this.getProtectedValveState(heatingId, false);
+			this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.VALVE_RELAY, valveOpen);
+			state.valveState = valveOpen ? 'open' : 'closed';
+			state.currentFanSpeed = 0;
+			state.pidOutput = 0;
+			state.fanLimiter.reset(0);
+			return;
+		}
+
+		if (state.override) {
+			this.logger.log(`Restoring manual override for heating ${heatingId}: fan ${state.override.fanOutput}, valve ${state.override.valveOpen ? 'open' : 'closed'}`);
+			this.applyManualOverride(heatingId);
+			return;
+		}
+
+		if (!state.autoControlEnabled && state.manualFanSpeed !== null) {
+			const fanSpeed = this.getProtectedFanSpeed(heatingId, state.manualFanSpeed);
+			this.logger.log(`Restoring manual fan speed ${fanSpeed} for heating ${heatingId}`);
+			this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, fanSpeed);
+			state.currentFanSpeed = fanSpeed;
+			state.pidOutput = state.manualFanSpeed;
+			state.fanLimiter.reset(fanSpeed);
+		}
+	}
+
+	// Сохранение параметра состояния в базу данных
+	private async saveSetting(heatingId: string, key: string, value: string) {
+		try {
+			await this.databaseService.setHeatingSetting(heatingId, key, value);
+		} catch (error) {
+			this.logger.error(`Failed to save ${key} to database for ${heatingId}:`, error);
+		}
+	}
+
+	async setTemperature(heatingId: string, temperature: number): Promise<boolean> {
 		const state = this.states[heatingId];
 		
-		if (!state) return;
+		if (!state) return false;
 
 		// Проверяем допустимые пределы температуры
 		if (temperature < 5 || temperature > 35) {
 			this.logger.warn(`Invalid temperature setpoint for heating ${heatingId}: ${temperature}°C`);
-			return;
+			return false;
 		}
 
 		state.setpointTemperature = temperature;
@@ -349,21 +1076,29 @@ export class HeatingService implements OnModuleInit {
 			heatingId,
 			temperature,
 		});
+		return true;
 	}
 
-	enableAutoControl(heatingId: string) {
+	enableAutoControl(heatingId: string): boolean {
 		const state = this.states[heatingId];
-		if (!state) return;
+		if (!state) return false;
+
+		if (state.override) {
+			this.finishManualOverride(heatingId, 'включено автоуправление');
+			return true;
+		}
 
 		state.autoControlEnabled = true;
 		state.isEmergencyStop = false;
+		state.manualFanSpeed = null;
 		
-		// Сбрасываем PID состояние при включении
-		const config = heatingConfigs[heatingId];
-		if (config) {
-			state.pidState.integral = 0;
-			state.pidState.prevError = 0;
-		}
+		// Сбрасываем состояние регулятора при включении
+		state.strategy.reset();
+		state.lastPIDUpdate = Date.now();
+
+		this.saveSetting(heatingId, 'auto_control_enabled', 'true');
+		this.saveSetting(heatingId, 'emergency_stop', 'false');
+		this.saveSetting(heatingId, 'manual_fan_speed', '');
 
 		this.logger.log(`Auto control enabled for heating ${heatingId}`);
 		
@@ -371,25 +1106,31 @@ export class HeatingService implements OnModuleInit {
 		this.eventEmitter.emit('heating.auto.control.enabled', {
 			heatingId,
 		});
+		return true;
 	}
 
-	disableAutoControl(heatingId: string) {
+	disableAutoControl(heatingId: string): boolean {
 		const state = this.states[heatingId];
 		const config = heatingConfigs[heatingId];
 		
-		if (!state || !config) return;
+		if (!state || !config) return false;
 
 		state.autoControlEnabled = false;
 		state.isWorking = false;
+		state.manualFanSpeed = null;
+		this.clearManualOverride(heatingId, 'автоуправление выключено');
+		this.abortAutotune(heatingId, 'Auto control disabled');
+		this.saveSetting(heatingId, 'auto_control_enabled', 'false');
+		this.saveSetting(heatingId, 'manual_fan_speed', '');
 		
-		// Отключаем вентилятор и закрываем клапан
-					this.mqttService.publish(config.broker, `${config.topics.FAN_DIMMER}/on`, 0, {
-						retain: false,
-					});
+		// Отключаем вентилятор и закрываем клапан (кроме действующих защит)
+		const fanSpeed = this.getProtectedFanSpeed(heatingId, 0);
+					this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, fanSpeed);
 		this.setValve(heatingId, false);
 		
-		state.currentFanSpeed = 0;
+		state.currentFanSpeed = fanSpeed;
 		state.pidOutput = 0;
+		state.fanLimiter.reset(fanSpeed);
 
 		this.logger.log(`Auto control disabled for heating ${heatingId}`);
 		
@@ -397,26 +1138,32 @@ export class HeatingService implements OnModuleInit {
 		this.eventEmitter.emit('heating.auto.control.disabled', {
 			heatingId,
 		});
+		return true;
 	}
 
-	emergencyStop(heatingId: string) {
+	emergencyStop(heatingId: string): boolean {
 		const state = this.states[heatingId];
 		const config = heatingConfigs[heatingId];
 		
-		if (!state || !config) return;
+		if (!state || !config) return false;
 
 		state.isEmergencyStop = true;
 		state.autoControlEnabled = false;
 		state.isWorking = false;
+		state.manualFanSpeed = null;
+		this.clearManualOverride(heatingId, 'аварийная остановка');
+		this.abortAutotune(heatingId, 'Emergency stop');
+		this.saveSetting(heatingId, 'emergency_stop', 'true');
+		this.saveSetting(heatingId, 'auto_control_enabled', 'false');
+		this.saveSetting(heatingId, 'manual_fan_speed', '');
 		
 		// Отключаем вентилятор и закрываем клапан
-					this.mqttService.publish(config.broker, `${config.topics.FAN_DIMMER}/on`, 0, {
-						retain: false,
-					});
+					this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, 0);
 		this.setValve(heatingId, false);
 		
 		state.currentFanSpeed = 0;
 		state.pidOutput = 0;
+		state.fanLimiter.reset(0);
 
 		this.logger.warn(`Emergency stop activated for heating ${heatingId}`);
 		
@@ -424,19 +1171,183 @@ export class HeatingService implements OnModuleInit {
 		this.eventEmitter.emit('heating.emergency.stop', {
 			heatingId,
 		});
+		return true;
 	}
 
-	resetEmergencyStop(heatingId: string) {
+	resetEmergencyStop(heatingId: string): boolean {
 		const state = this.states[heatingId];
-		if (!state) return;
+		if (!state) return false;
 
 		state.isEmergencyStop = false;
+		this.saveSetting(heatingId, 'emergency_stop', 'false');
 		this.logger.log(`Emergency stop reset for heating ${heatingId}`);
 		
 		// Эмитируем событие сброса аварийной остановки
 		this.eventEmitter.emit('heating.emergency.stop.reset', {
 			heatingId,
 		});
+		return true;
+	}
+
+	// Ручной режим на время: оператор фиксирует выход вентилятора и клапан,
+	// по истечении времени ШУК возвращается к автоуправлению
+	startManualOverride(heatingId: string, options: Partial<ManualOverrideOptions>, source: ManualOverrideSource): boolean {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		if (!state || !config) return false;
+
+		if (state.isEmergencyStop) {
+			this.logger.warn(`Cannot start manual override for ${heatingId}: emergency stop is active`);
+			return false;
+		}
+
+		const fanOutput = options.fanOutput ?? state.override?.fanOutput ?? state.currentFanSpeed;
+		const valveOpen = options.valveOpen ?? state.override?.valveOpen ?? state.valveState === 'open';
+		const duration = options.duration ?? DEFAULT_MANUAL_OVERRIDE_DURATION;
+		const error = this.validateManualOverride(heatingId, { fanOutput, valveOpen })
+			?? (typeof duration !== 'number' || !Number.isFinite(duration) || duration < MIN_MANUAL_OVERRIDE_DURATION || duration > MAX_MANUAL_OVERRIDE_DURATION
+				? `duration must be within ${MIN_MANUAL_OVERRIDE_DURATION}-${MAX_MANUAL_OVERRIDE_DURATION} sec`
+				: null);
+		if (error) {
+			this.logger.warn(`Invalid manual override for ${heatingId}: ${error}`);
+			return false;
+		}
+
+		this.abortAutotune(heatingId, 'Manual override');
+		const now = Date.now();
+		state.override = { fanOutput, valveOpen, source, startedAt: now, expiresAt: now + duration * 1000 };
+		state.autoControlEnabled = false;
+		state.manualFanSpeed = null;
+		this.applyManualOverride(heatingId);
+
+		this.saveSetting(heatingId, 'manual_override', JSON.stringify(state.override));
+		this.saveSetting(heatingId, 'auto_control_enabled', 'false');
+		this.saveSetting(heatingId, 'manual_fan_speed', '');
+
+		this.logger.log(`Manual override for heating ${heatingId} (${source}): fan ${fanOutput}, valve ${valveOpen ? 'open' : 'closed'}, ${duration} sec`);
+		this.eventLogService.log({
+			category: 'control',
+			severity: 'info',
+			deviceId: heatingId,
+			message: `Ручной режим на ${Math.round(duration / 60)} мин: вентилятор ${fanOutput}%, клапан ${valveOpen ? 'открыт' : 'закрыт'}`,
+			details: { ...state.override, duration },
+		});
+		this.emitManualOverrideUpdate(heatingId);
+		return true;
+	}
+
+	// Досрочное завершение ручного режима с возвратом к автоуправлению
+	endManualOverride(heatingId: string, source: ManualOverrideSource): boolean {
+		if (!this.states[heatingId]?.override) return false;
+
+		this.finishManualOverride(heatingId, `завершен оператором (${source})`);
+		return true;
+	}
+
+	getManualOverride(heatingId: string): ManualOverrideState | null {
+		const override = this.states[heatingId]?.override;
+		if (!override) return null;
+
+		return {
+			fanOutput: override.fanOutput,
+			valveOpen: override.valveOpen,
+			source: override.source,
+			startedAt: new Date(override.startedAt).toISOString(),
+			expiresAt: new Date(override.expiresAt).toISOString(),
+			remainingTime: Math.max(0, Math.ceil((override.expiresAt - Date.now()) / 1000)),
+		};
+	}
+
+	// Выходы ручного режима; защиты имеют приоритет
+	private applyManualOverride(heatingId: string) {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		const override = state?.override;
+		if (!state || !config || !override) return;
+
+		const fanSpeed = this.getProtectedFanSpeed(heatingId, override.fanOutput);
+		this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.FAN_DIMMER, fanSpeed);
+		state.currentFanSpeed = fanSpeed;
+		state.pidOutput = override.fanOutput;
+		state.fanLimiter.reset(fanSpeed);
+		state.isWorking = override.fanOutput > 0;
+		this.setValve(heatingId, override.valveOpen);
+	}
+
+	// Вызывается циклом регулирования раз в секунду: клиенты получают оставшееся время ручного режима
+	private checkManualOverride(heatingId: string) {
+		const override = this.states[heatingId]?.override;
+		if (!override) return;
+
+		if (Date.now() >= override.expiresAt) {
+			this.finishManualOverride(heatingId, 'время истекло');
+		} else {
+			this.eventEmitter.emit('heating.update', heatingId);
+		}
+	}
+
+	// Безударный возврат к автоуправлению: регулятор продолжает с выхода, заданного оператором
+	private finishManualOverride(heatingId: string, reason: string) {
+		const state = this.states[heatingId];
+		const output = state?.override?.fanOutput;
+		if (!state || output === undefined) return;
+
+		this.clearManualOverride(heatingId, reason);
+
+		const now = Date.now();
+		const compensation = this.computeWeatherCompensation(heatingId);
+		state.strategy.preload({
+			currentTemperature: state.currentTemperature,
+			setpointTemperature: compensation?.effectiveSetpoint ?? state.setpointTemperature,
+			isWorking: state.isWorking,
+			timestamp: now,
+			dt: 0,
+			outputLimit: compensation?.maxOutput,
+		}, output);
+		state.lastPIDUpdate = now;
+		state.autoControlEnabled = true;
+		state.manualFanSpeed = null;
+
+		this.saveSetting(heatingId, 'auto_control_enabled', 'true');
+		this.saveSetting(heatingId, 'manual_fan_speed', '');
+
+		this.logger.log(`Manual override for heating ${heatingId} finished (${reason}), auto control resumed from output ${output}`);
+		this.eventEmitter.emit('heating.auto.control.enabled', {
+			heatingId,
+		});
+	}
+
+	private clearManualOverride(heatingId: string, reason: string) {
+		const state = this.states[heatingId];
+		if (!state?.override) return;
+
+		state.override = null;
+		this.saveSetting(heatingId, 'manual_override', '');
+		this.eventLogService.log({
+			category: 'control',
+			severity: 'info',
+			deviceId: heatingId,
+			message: `Ручной режим завершен: ${reason}`,
+		});
+		this.emitManualOverrideUpdate(heatingId);
+	}
+
+	private emitManualOverrideUpdate(heatingId: string) {
+		this.eventEmitter.emit('heating.manual.override.changed', {
+			heatingId,
+			manualOverride: this.getManualOverride(heatingId),
+		});
+		this.eventEmitter.emit('heating.update', heatingId);
+	}
+
+	private validateManualOverride(heatingId: string, override: Pick<ManualOverride, 'fanOutput' | 'valveOpen'>): string | null {
+		if (typeof override.fanOutput !== 'number' || !Number.isFinite(override.fanOutput) || override.fanOutput < 0 || override.fanOutput > 100) {
+			return 'fanOutput must be within 0-100';
+		}
+		if (typeof override.valveOpen !== 'boolean') {
+			return 'valveOpen must be a boolean';
+		}
+		return null;
 	}
 
 	// Методы для настройки PID параметров
@@ -451,16 +1362,316 @@ export class HeatingService implements OnModuleInit {
 		// Сбрасываем интегральную составляющую при изменении параметров
 		state.pidState.integral = 0;
 		state.pidState.prevError = 0;
+		state.strategy.reset();
+
+		this.saveSetting(heatingId, 'pid_kp', state.pidState.Kp.toString());
+		this.saveSetting(heatingId, 'pid_ki', state.pidState.Ki.toString());
+		this.saveSetting(heatingId, 'pid_kd', state.pidState.Kd.toString());
 
 		this.logger.log(`PID parameters updated for ${heatingId}: Kp=${state.pidState.Kp}, Ki=${state.pidState.Ki}, Kd=${state.pidState.Kd}`);
 	}
 
+	// Методы автонастройки PID
+
+	startAutotune(heatingId: string, options: Partial<Omit<AutotuneOptions, 'setpoint' | 'minTemperature' | 'maxTemperature'>> = {}): boolean {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		if (!state || !config) return false;
+
+		if (state.isEmergencyStop) {
+			this.logger.warn(`Cannot start autotune for ${heatingId}: emergency stop is active`);
+			return false;
+		}
+		if (state.autotuner?.isRunning) {
+			this.logger.warn(`Autotune for ${heatingId} is already running`);
+			return false;
+		}
+
+		const { TEMP_FREEZE_LIMIT, TEMP_OVERHEAT_LIMIT, HYSTERESIS } = config.temperatureSettings;
+		if (!state.isOnline || state.currentTemperature <= TEMP_FREEZE_LIMIT || state.currentTemperature >= TEMP_OVERHEAT_LIMIT) {
+			this.logger.warn(`Cannot start autotune for ${heatingId}: temperature ${state.currentTemperature}°C is not valid`);
+			return false;
+		}
+
+		const autotuneOptions: AutotuneOptions = {
+			setpoint: state.setpointTemperature,
+			outputHigh: options.outputHigh ?? state.pidState.outputMax,
+			outputLow: options.outputLow ?? state.pidState.outputMin,
+			noiseBand: options.noiseBand ?? HYSTERESIS,
+			cycles: options.cycles ?? DEFAULT_AUTOTUNE_CYCLES,
+			maxDuration: options.maxDuration ?? DEFAULT_AUTOTUNE_MAX_DURATION,
+			minTemperature: TEMP_FREEZE_LIMIT,
+			maxTemperature: TEMP_OVERHEAT_LIMIT,
+			rule: options.rule ?? 'ziegler_nichols',
+		};
+
+		if (
+			autotuneOptions.outputLow < state.pidState.outputMin ||
+			autotuneOptions.outputHigh > state.pidState.outputMax ||
+			autotuneOptions.outputHigh <= autotuneOptions.outputLow ||
+			autotuneOptions.noiseBand < 0 ||
+			autotuneOptions.cycles < 1
+		) {
+			this.logger.warn(`Invalid autotune options for ${heatingId}: ${JSON.stringify(autotuneOptions)}`);
+			return false;
+		}
+
+		state.autotuner = new RelayAutotuner(autotuneOptions);
+
+		this.logger.log(`🎛️ AUTOTUNE: started for ${heatingId} around ${autotuneOptions.setpoint}°C (${autotuneOptions.outputLow}-${autotuneOptions.outputHigh}%, rule=${autotuneOptions.rule})`);
+		this.emitAutotuneUpdate(heatingId);
+		return true;
+	}
+
+	abortAutotune(heatingId: string, reason = 'Aborted by operator'): boolean {
+		const state = this.states[heatingId];
+		if (!state?.autotuner?.isRunning) return false;
+
+		state.autotuner.abort(reason);
+		this.finishAutotune(heatingId);
+		return true;
+	}
+
+	// Применить рекомендованные коэффициенты через setPIDParameters
+	acceptAutotune(heatingId: string): boolean {
+		const state = this.states[heatingId];
+		const result = state?.autotuner?.getResult();
+		if (!state || !result || result.status !== 'completed' || !result.suggested) return false;
+
+		const { Kp, Ki, Kd } = result.suggested;
+		this.setPIDParameters(heatingId, Kp, Ki, Kd);
+		state.autotuner = undefined;
+
+		this.logger.log(`🎛️ AUTOTUNE: suggested PID parameters accepted for ${heatingId}`);
+		this.emitAutotuneUpdate(heatingId);
+		return true;
+	}
+
+	getAutotune(heatingId: string): AutotuneResult | null {
+		return this.states[heatingId]?.autotuner?.getResult() ?? null;
+	}
+
+	// Переключение алгоритма управления без перезапуска
+	setControlStrategy(heatingId: string, type: ControlStrategyType, fixedOutput?: number): boolean {
+		const state = this.states[heatingId];
+		const config = heatingConfigs[heatingId];
+		if (!state || !config) return false;
+
+		if (fixedOutput !== undefined) {
+			if (isNaN(fixedOutput) || fixedOutput < state.pidState.outputMin || fixedOutput > state.pidState.outputMax) {
+				this.logger.warn(`Invalid fixed output for heating ${heatingId}: ${fixedOutput}`);
+				return false;
+			}
+			state.fixedOutput = fixedOutput;
+		}
+
+		const previousStrategy = state.controlStrategy;
+		state.controlStrategy = type;
+		state.strategy = this.buildControlStrategy(config, type, state.fixedOutput, state.pidState);
+		state.strategy.reset();
+
+		this.saveSetting(heatingId, 'control_strategy', type);
+		this.saveSetting(heatingId, 'fixed_output', state.fixedOutput.toString());
+
+		this.logger.log(`Control strategy for heating ${heatingId} changed: ${previousStrategy} -> ${type}`);
+
+		this.eventEmitter.emit('heating.control.strategy.changed', {
+			heatingId,
+			strategy: type,
+			previousStrategy,
+			fixedOutput: state.fixedOutput,
+		});
+		return true;
+	}
+
+	getControlStrategy(heatingId: string) {
+		const state = this.states[heatingId];
+		if (!state) return null;
+
+		return {
+			strategy: state.controlStrategy,
+			fixedOutput: state.fixedOutput,
+		};
+	}
+
+	// Аварии защит
+
+	getProtectionAlarms(heatingId: string): ProtectionAlarm[] | null {
+		return this.states[heatingId]?.protection.getAlarms() ?? null;
+	}
+
+	// Квитирование аварий защит (всех или одного типа); действующая защита продолжает работать до снятия условия
+	acknowledgeAlarms(heatingId: string, type?: ProtectionAlarmType): ProtectionAlarm[] | null {
+		const state = this.states[heatingId];
+		if (!state) return null;
+
+		const acknowledged = state.protection.acknowledge(type);
+		if (acknowledged.length === 0) return acknowledged;
+
+		this.eventLogService.log({
+			category: 'alarm',
+			severity: 'info',
+			deviceId: heatingId,
+			message: `Квитированы аварии защит: ${acknowledged.map(alarm => alarm.type).join(', ')}`,
+		});
+		this.saveProtectionAlarms(heatingId);
+		this.emitAlarmUpdate(heatingId);
+		return acknowledged;
+	}
+
+	getSensorFaultSettings(heatingId: string): SensorFaultSettings | null {
+		const settings = this.states[heatingId]?.sensorFaultSettings;
+		return settings ? { ...settings } : null;
+	}
+
+	getFanOutputLimits(heatingId: string): FanOutputLimitSettings | null {
+		const limits = this.states[heatingId]?.fanOutputLimits;
+		return limits ? { ...limits } : null;
+	}
+
+	// Ограничения выхода вентилятора: скорость нарастания, минимальные времена работы/простоя, разгон при пуске
+	setFanOutputLimits(heatingId: string, limits: Partial<FanOutputLimitSettings>): boolean {
+		const state = this.states[heatingId];
+		if (!state) return false;
+
+		const merged: FanOutputLimitSettings = { ...state.fanOutputLimits, ...limits };
+		const error = validateFanOutputLimits(merged, state.pidState.outputMax);
+		if (error) {
+			this.logger.warn(`Invalid fan output limits for ${heatingId}: ${error}`);
+			return false;
+		}
+
+		state.fanOutputLimits = merged;
+		state.fanLimiter.setSettings(merged);
+		this.saveSetting(heatingId, 'fan_output_limits', JSON.stringify(merged));
+
+		this.logger.log(`Fan output limits for ${heatingId}: ${JSON.stringify(merged)}`);
+		this.eventEmitter.emit('heating.update', heatingId);
+		return true;
+	}
+
+	// Таймаут датчика и режим работы при его отказе
+	setSensorFaultSettings(heatingId: string, settings: Partial<SensorFaultSettings>): boolean {
+		const state = this.states[heatingId];
+		if (!state) return false;
+
+		const merged: SensorFaultSettings = {
+			timeout: settings.timeout ?? state.sensorFaultSettings.timeout,
+			mode: settings.mode ?? state.sensorFaultSettings.mode,
+			fallbackOutput: settings.fallbackOutput ?? state.sensorFaultSettings.fallbackOutput,
+		};
+		const error = this.validateSensorFaultSettings(heatingId, merged);
+		if (error) {
+			this.logger.warn(`Invalid sensor fault settings for ${heatingId}: ${error}`);
+			return false;
+		}
+
+		state.sensorFaultSettings = merged;
+		this.saveSetting(heatingId, 'sensor_fault', JSON.stringify(merged));
+
+		this.logger.log(`Sensor fault settings for ${heatingId}: ${JSON.stringify(merged)}`);
+		this.eventEmitter.emit('heating.update', heatingId);
+		return true;
+	}
+
+	private validateSensorFaultSettings(heatingId: string, settings: SensorFaultSettings): string | null {
+		const state = this.states[heatingId];
+		if (typeof settings.timeout !== 'number' || !Number.isFinite(settings.timeout) || settings.timeout < MIN_SENSOR_TIMEOUT) {
+			return `timeout must be a number >= ${MIN_SENSOR_TIMEOUT}`;
+		}
+		if (!SENSOR_FAULT_MODES.includes(settings.mode)) {
+			return `mode must be one of: ${SENSOR_FAULT_MODES.join(', ')}`;
+		}
+		if (
+			typeof settings.fallbackOutput !== 'number' ||
+			settings.fallbackOutput < state.pidState.outputMin ||
+			settings.fallbackOutput > state.pidState.outputMax
+		) {
+			return `fallbackOutput must be within ${state.pidState.outputMin}-${state.pidState.outputMax}`;
+		}
+		return null;
+	}
+
+	getWeatherCompensationSettings(heatingId: string): WeatherCompensationSettings | null {
+		const settings = this.states[heatingId]?.compensationSettings;
+		return settings ? { ...settings, points: settings.points.map(point => ({ ...point })) } : null;
+	}
+
+	// Кривая погодной компенсации (null - вернуться к настройке из конфигурации)
+	setWeatherCompensation(heatingId: string, settings: WeatherCompensationSettings | null): boolean {
+		const state = this.states[heatingId];
+		if (!state) return false;
+
+		if (settings !== null) {
+			const error = this.validateWeatherCompensation(heatingId, settings);
+			if (error) {
+				this.logger.warn(`Invalid weather compensation for ${heatingId}: ${error}`);
+				return false;
+			}
+		}
+
+		state.compensationSettings = settings
+			? {
+				enabled: settings.enabled,
+				fallbackOutdoorTemperature: settings.fallbackOutdoorTemperature,
+				points: settings.points
+					.map(({ outdoorTemperature, setpointOffset, maxOutput }) => ({ outdoorTemperature, setpointOffset, maxOutput }))
+					.sort((a, b) => a.outdoorTemperature - b.outdoorTemperature),
+			}
+			: this.getConfiguredWeatherCompensation(heatingConfigs[heatingId]);
+		this.saveSetting(heatingId, 'weather_compensation', settings ? JSON.stringify(state.compensationSettings) : '');
+
+		this.logger.log(`🌤️ Weather compensation for ${heatingId}: ${JSON.stringify(state.compensationSettings)}${settings ? '' : ' (from config)'}`);
+		this.eventEmitter.emit('heating.weather.compensation.changed', {
+			heatingId,
+			weatherCompensation: this.computeWeatherCompensation(heatingId),
+		});
+		return true;
+	}
+
+	// Текущая поправка уставки и ограничение выхода по уличной температуре
+	private computeWeatherCompensation(heatingId: string): WeatherCompensationState | null {
+		const state = this.states[heatingId];
+		const settings = state?.compensationSettings;
+		if (!state || !settings?.enabled) return null;
+
+		const measured = this.outdoorTemperatureService.getTemperature();
+		const outdoorTemperature = measured ?? settings.fallbackOutdoorTemperature;
+		const { setpointOffset, maxOutput } = evaluateCompensationCurve(settings.points, outdoorTemperature);
+
+		return {
+			outdoorTemperature,
+			isFallback: measured === null,
+			setpointOffset: Number(setpointOffset.toFixed(2)),
+			maxOutput: Number(maxOutput.toFixed(1)),
+			effectiveSetpoint: Number(Math.max(5, Math.min(35, state.setpointTemperature + setpointOffset)).toFixed(2)),
+		};
+	}
+
+	private getConfiguredWeatherCompensation(config: HeatingConfig): WeatherCompensationSettings | null {
+		const settings = config.weatherCompensation;
+		return settings ? { ...settings, points: settings.points.map(point => ({ ...point })) } : null;
+	}
+
+	private validateWeatherCompensation(heatingId: string, settings: WeatherCompensationSettings): string | null {
+		const state = this.states[heatingId];
+		if (!settings || typeof settings.enabled !== 'boolean') {
+			return 'enabled must be a boolean';
+		}
+		if (typeof settings.fallbackOutdoorTemperature !== 'number' || !Number.isFinite(settings.fallbackOutdoorTemperature)) {
+			return 'fallbackOutdoorTemperature must be a number';
+		}
+		return validateCompensationPoints(settings.points, state.pidState.outputMin, state.pidState.outputMax);
+	}
+
 	// Методы для получения состояния
 
 	getState(heatingId: string): HeatingState | null {
 		const state = this.states[heatingId];
 		if (!state) return null;
 
+		const lastTemperatureUpdate = this.getLastTemperatureUpdate(heatingId);
+
 		// Возвращаем копию состояния без внутренних полей
 		return {
 			currentFanSpeed: state.currentFanSpeed,
@@ -474,6 +1685,25 @@ export class HeatingService implements OnModuleInit {
 			autoControlEnabled: state.autoControlEnabled,
 			lastError: state.lastError,
 			integral: state.integral,
+			controlStrategy: state.controlStrategy,
+			fixedOutput: state.fixedOutput,
+			autotune: state.autotuner?.getResult(),
+			manualFanSpeed: state.manualFanSpeed,
+			season: this.seasonService.getSeason(heatingId),
+			seasonSource: this.seasonService.getSeasonSource(heatingId),
+			weatherCompensation: this.computeWeatherCompensation(heatingId),
+			freezeProtection: state.protection.hasAlarm('freeze'),
+			overheatProtection: state.protection.hasAlarm('overheat'),
+			protectionAlarms: state.protection.getAlarms(),
+			sensorFault: state.sensorFault,
+			lastTemperatureUpdate: lastTemperatureUpdate !== null ? new Date(lastTemperatureUpdate).toISOString() : null,
+			controlErrors: { ...state.controlErrors },
+			moduleError: state.controlErrors.VALVE_RELAY !== undefined || state.controlErrors.FAN_DIMMER !== undefined,
+			sensorFusion: this.computeSensorFusion(heatingId),
+			fanOutputLimiter: state.fanLimiter.getState(),
+			outputs: this.getOutputs(heatingId),
+			actuatorAlarm: this.getActuatorAlarms(heatingId).length > 0,
+			manualOverride: this.getManualOverride(heatingId),
 		};
 	}
 
@@ -510,8 +1740,15 @@ export class HeatingService implements OnModuleInit {
 			workingSystems: 0,
 			emergencyStopSystems: 0,
 			autoControlEnabledSystems: 0,
+			manualOverrideSystems: 0,
 			averageTemperature: 0,
 			averageSetpoint: 0,
+			season: this.seasonService.getSeasonInfo(),
+			// Нагрузка на контроллеры: публикации по брокерам и команды выходов, не опубликованные без изменения
+			publishing: {
+				mqtt: this.mqttService.getPublishStats(),
+				outputs: this.actuatorFeedbackService.getPublishStats(),
+			},
 		};
 
 		let tempSum = 0;
@@ -522,6 +1759,7 @@ export class HeatingService implements OnModuleInit {
 			if (state.isWorking) stats.workingSystems++;
 			if (state.isEmergencyStop) stats.emergencyStopSystems++;
 			if (state.autoControlEnabled) stats.autoControlEnabledSystems++;
+			if (state.override) stats.manualOverrideSystems++;
 			
 			tempSum += state.currentTemperature;
 			setpointSum += state.setpointTemperature;
@@ -553,33 +1791,26 @@ export class HeatingService implements OnModuleInit {
 	}
 
 	// Определяем состояние клапана по сезону
+	// Сезон берется из SeasonService: переопределение ШУК, принудительный сезон, уличная температура или календарь
 	private getSeasonalValveState(heatingId: string, pidOutput: number): boolean {
-		const now = new Date();
-		const month = now.getMonth() + 1; // getMonth() возвращает 0-11, нужно 1-12
-		const day = now.getDate();
+		const season = this.seasonService.getSeason(heatingId);
 
-		// Зима: с 1 ноября до 31 марта - клапан всегда открыт
-		if ((month === 11) || (month === 12) || (month === 1) || (month === 2) || (month === 3)) {
+		// Зима - клапан всегда открыт
+		if (season === 'winter') {
 			this.logger.debug(`${heatingId}: Winter season - valve always open`);
 			return true;
 		}
 
-		// Лето: с 1 июня по 31 августа - клапан принудительно закрыт
-		if (month >= 6 && month <= 8) {
+		// Лето - клапан принудительно закрыт
+		if (season === 'summer') {
 			this.logger.debug(`${heatingId}: Summer season - valve always closed`);
 			return false;
 		}
 
-		// Осень: с 1 сентября по 31 октября - синхронно с включением ШУК
-		// Весна: с 1 апреля по 31 мая - синхронно с включением ШУК
-		if ((month >= 9 && month <= 10) || (month >= 4 && month <= 5)) {
-			const shouldOpen = pidOutput > 0;
-			this.logger.debug(`${heatingId}: Autumn/Spring season - valve synced with heating: ${shouldOpen}`);
-			return shouldOpen;
-		}
-
-		// На всякий случай (не должно попасть сюда)
-		return false;
+		// Весна/осень - синхронно с включением ШУК
+		const shouldOpen = pidOutput > 0;
+		this.logger.debug(`${heatingId}: Autumn/Spring season - valve synced with heating: ${shouldOpen}`);
+		return shouldOpen;
 	}
 
 	// Устанавливаем состояние клапана по сезонной логике
@@ -589,6 +1820,7 @@ export class HeatingService implements OnModuleInit {
 		
 		if (!state || !config) return;
 
+		shouldOpen = this.getProtectedValveState(heatingId, shouldOpen);
 		const newState = shouldOpen ? 'open' : 'closed';
 		
 		// Если состояние не изменилось, не отправляем команду
@@ -596,9 +1828,7 @@ export class HeatingService implements OnModuleInit {
 
 		// Отправляем команду на реле
 		this.logger.log(`🔥 SEASONAL VALVE: Sending valve command for ${heatingId}: topic="${config.topics.VALVE_RELAY}/on", value=${shouldOpen} (seasonal logic)`);
-		this.mqttService.publish(config.broker, `${config.topics.VALVE_RELAY}/on`, shouldOpen, {
-			retain: false,
-		});
+		this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.VALVE_RELAY, shouldOpen);
 		
 		state.valveState = newState;
 		this.logger.debug(`Seasonal valve ${heatingId} set to: ${newState}`);
@@ -608,26 +1838,26 @@ export class HeatingService implements OnModuleInit {
 	private applySasonalValveLogicToAll() {
 		this.logger.log('🌍 Applying seasonal valve logic to all heating units...');
 		
-		Object.keys(heatingConfigs).forEach(heatingId => {
-			const state = this.states[heatingId];
-			if (!state) return;
-
-			// Получаем сезонное состояние клапана (независимо от PID выхода)
-			const seasonalValveState = this.getSeasonalValveState(heatingId, 0);
-			
-			// Принудительно устанавливаем состояние клапана
-			this.logger.log(`🌍 Setting seasonal valve for ${heatingId}: ${seasonalValveState ? 'OPEN' : 'CLOSED'}`);
-			
-			// Устанавливаем состояние напрямую (минуя проверку изменения)
-			const config = heatingConfigs[heatingId];
-			if (config) {
-				this.mqttService.publish(config.broker, `${config.topics.VALVE_RELAY}/on`, seasonalValveState, {
-					retain: false,
-				});
-				state.valveState = seasonalValveState ? 'open' : 'closed';
-			}
-		});
+		Object.keys(heatingConfigs).forEach(heatingId => this.applySeasonalValve(heatingId));
 
 		this.logger.log('🌍 Seasonal valve logic applied to all heating units');
 	}
+
+	private applySeasonalValve(heatingId: string) {
+		const state = this.states[heatingId];
+		if (!state || state.isEmergencyStop) return;
+
+		// Получаем сезонное состояние клапана (независимо от PID выхода)
+		const seasonalValveState = this.getProtectedValveState(heatingId, this.getSeasonalValveState(heatingId, 0));
+		
+		// Принудительно устанавливаем состояние клапана
+		this.logger.log(`🌍 Setting seasonal valve for ${heatingId}: ${seasonalValveState ? 'OPEN' : 'CLOSED'}`);
+		
+		// Устанавливаем состояние напрямую (минуя проверку изменения)
+		const config = heatingConfigs[heatingId];
+		if (config) {
+			this.actuatorFeedbackService.command(heatingId, config.broker, config.topics.VALVE_RELAY, seasonalValveState);
+			state.valveState = seasonalValveState ? 'open' : 'closed';
+		}
+	}
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { Controller, Get, Put, Post, Delete, Body, Param, Query } from '@nestjs/common';
+import { HolidayService, isHolidayProfile } from './holiday.service';
+import { HolidayEntry, HolidayImportFormat, HolidayProfile } from '../interfaces/holiday.interface';
+
+@Controller('holidays')
+export class HolidayController {
+	constructor(private readonly holidayService: HolidayService) {}
+
+	@Get()
+	getEntries(@Query('from') from?: string, @Query('to') to?: string) {
+		return { success: true, data: this.holidayService.getEntries(from, to) };
+	}
+
+	// Режим устройств на дату (по умолчанию - на завтра)
+	@Get('mode')
+	getDayMode(@Query('date') date?: string) {
+		let day: Date;
+		if (date) {
+			const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+			if (!match) {
+				return { success: false, message: `Invalid date: ${date} (expected YYYY-MM-DD)` };
+			}
+			day = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+		} else {
+			const now = new Date();
+			day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+		}
+		return { success: true, data: this.holidayService.getDayInfo(day) };
+	}
+
+	@Put('days/:date')
+	async setEntry(@Param('date') date: string, @Body() body: Omit<HolidayEntry, 'date'>) {
+		try {
+			const error = await this.holidayService.setEntry({ ...body, date });
+			if (error) {
+				return { success: false, message: `Invalid calendar day: ${error}` };
+			}
+			return { success: true, message: `Calendar day ${date} set to ${body.type}`, data: this.holidayService.getEntry(date) };
+		} catch (error) {
+			return { success: false, message: `Error updating calendar day: ${error.message}` };
+		}
+	}
+
+	@Delete('days/:date')
+	async deleteEntry(@Param('date') date: string) {
+		try {
+			if (!(await this.holidayService.deleteEntry(date))) {
+				return { success: false, message: 'Calendar day not found' };
+			}
+			return { success: true, message: `Calendar day ${date} removed` };
+		} catch (error) {
+			return { success: false, message: `Error removing calendar day: ${error.message}` };
+		}
+	}
+
+	@Post('import')
+	async importCalendar(@Body() body: { file?: string; content?: string; format?: HolidayImportFormat; replace?: boolean }) {
+		try {
+			if (body.format && body.format !== 'json' && body.format !== 'ics') {
+				return { success: false, message: `Unknown format: ${body.format}` };
+			}
+			const result = await this.holidayService.importCalendar(body);
+			if (typeof result === 'string') {
+				return { success: false, message: `Calendar import failed: ${result}` };
+			}
+			return { success: true, message: `Imported ${result.imported} calendar days`, data: result };
+		} catch (error) {
+			return { success: false, message: `Error importing calendar: ${error.message}` };
+		}
+	}
+
+	@Get('profiles')
+	getProfiles() {
+		return {
+			success: true,
+			data: {
+				setpoints: this.holidayService.getProfileSetpoints(),
+				devices: this.holidayService.getDeviceProfiles(),
+			},
+		};
+	}
+
+	@Put('profiles')
+	async setProfileSetpoints(@Body() body: Partial<Record<HolidayProfile, number>>) {
+		try {
+			if (!(await this.holidayService.setProfileSetpoints(body))) {
+				return { success: false, message: 'Invalid profile setpoint (5-35°C)' };
+			}
+			return { success: true, message: 'Holiday profile setpoints updated', data: this.holidayService.getProfileSetpoints() };
+		} catch (error) {
+			return { success: false, message: `Error updating holiday profiles: ${error.message}` };
+		}
+	}
+
+	@Put('devices/:deviceId')
+	async setDeviceProfile(@Param('deviceId') deviceId: string, @Body() body: { profile: HolidayProfile | null }) {
+		try {
+			const profile = body.profile ?? null;
+			if (profile !== null && !isHolidayProfile(profile)) {
+				return { success: false, message: `Unknown holiday profile: ${profile}` };
+			}
+			if (!(await this.holidayService.setDeviceProfile(deviceId, profile))) {
+				return { success: false, message: 'Device not found' };
+			}
+			return { success: true, message: `Holiday profile for ${deviceId} set to ${profile ?? 'none'}` };
+		} catch (error) {
+			return { success: false, message: `Error setting holiday profile: ${error.message}` };
+		}
+	}
+}
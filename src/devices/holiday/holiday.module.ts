@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HolidayService } from './holiday.service';
+import { HolidayController } from './holiday.controller';
+import { DatabaseModule } from '../../database/database.module';
+
+@Module({
+	imports: [DatabaseModule],
+	controllers: [HolidayController],
+	providers: [HolidayService],
+	exports: [HolidayService],
+})
+export class HolidayModule {}
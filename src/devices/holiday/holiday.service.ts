@@ -0,0 +1,342 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DatabaseService } from '../../database/database.service';
+import { heatingConfigs } from '../heating/heating.config';
+import { batteriesConfigs } from '../batteries/batteries.config';
+import {
+	HolidayDayInfo,
+	HolidayEntry,
+	HolidayImportFormat,
+	HolidayImportResult,
+	HolidayProfile,
+	HOLIDAY_DAY_TYPES,
+	HOLIDAY_PROFILES,
+} from '../interfaces/holiday.interface';
+import { parseHolidayIcs, parseHolidayJson, toDateKey } from './holiday.utils';
+
+const PROFILES_SETTING_KEY = 'holiday_profiles';
+const DEVICE_PROFILE_SETTING_KEY = 'holiday_profile';
+const CALENDAR_DIR = process.env.HOLIDAY_CALENDAR_DIR || 'calendars';
+const MIN_SETPOINT = 5;
+const MAX_SETPOINT = 35;
+
+const DEFAULT_PROFILE_SETPOINTS: Record<HolidayProfile, number> = {
+	frost_protection: 8,
+	economy: 16,
+};
+
+export function isHolidayProfile(value: unknown): value is HolidayProfile {
+	return typeof value === 'string' && HOLIDAY_PROFILES.includes(value as HolidayProfile);
+}
+
+/**
+ * Календарь праздников и переносов рабочих дней (производственный календарь)
+ * Даты хранятся в таблице holiday_calendar, импортируются из JSON/ICS файлов.
+ * В праздничные дни назначенные ШУК и ШУОП переводятся в профиль защиты от замерзания или экономии.
+ */
+@Injectable()
+export class HolidayService implements OnModuleInit {
+	private readonly logger = new Logger(HolidayService.name);
+	private entries: Map<string, HolidayEntry> = new Map();
+	private profileSetpoints: Record<HolidayProfile, number> = { ...DEFAULT_PROFILE_SETPOINTS };
+	private deviceProfiles: Record<string, HolidayProfile> = {};
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async onModuleInit() {
+		await this.loadFromDatabase();
+		this.logger.log(`Holiday Service initialized: ${this.entries.size} calendar days, ${Object.keys(this.deviceProfiles).length} devices with holiday profile`);
+	}
+
+	private async loadFromDatabase() {
+		try {
+			const rows = await this.databaseService.query(
+				`SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date, type, name, as_weekday FROM holiday_calendar ORDER BY date`,
+			);
+			rows.forEach(row => {
+				this.entries.set(row.date, {
+					date: row.date,
+					type: row.type,
+					name: row.name ?? undefined,
+					asWeekday: row.as_weekday ?? undefined,
+				});
+			});
+
+			const profilesStr = await this.databaseService.getSystemSetting(PROFILES_SETTING_KEY);
+			if (profilesStr) {
+				const profiles = JSON.parse(profilesStr);
+				HOLIDAY_PROFILES.forEach(profile => {
+					if (this.isValidSetpoint(profiles[profile])) {
+						this.profileSetpoints[profile] = profiles[profile];
+					}
+				});
+			}
+
+			const deviceProfiles = await this.databaseService.getHeatingSettingsByKey(DEVICE_PROFILE_SETTING_KEY);
+			Object.entries(deviceProfiles).forEach(([deviceId, profile]) => {
+				if (this.isKnownDevice(deviceId) && isHolidayProfile(profile)) {
+					this.deviceProfiles[deviceId] = profile;
+				}
+			});
+		} catch (error) {
+			this.logger.error('Ошибка загрузки производственного календаря из базы данных:', error);
+		}
+	}
+
+	// ========== Календарь ==========
+
+	getEntries(from?: string, to?: string): HolidayEntry[] {
+		return Array.from(this.entries.values())
+			.filter(entry => (!from || entry.date >= from) && (!to || entry.date <= to))
+			.sort((a, b) => a.date.localeCompare(b.date))
+			.map(entry => ({ ...entry }));
+	}
+
+	getEntry(date: Date | string): HolidayEntry | null {
+		const entry = this.entries.get(typeof date === 'string' ? date : toDateKey(date));
+		return entry ? { ...entry } : null;
+	}
+
+	async setEntry(entry: HolidayEntry): Promise<string | null> {
+		const error = this.validateEntry(entry);
+		if (error) {
+			this.logger.warn(`Invalid holiday entry: ${error}`);
+			return error;
+		}
+
+		await this.saveEntries([this.normalizeEntry(entry)]);
+		this.logger.log(`📆 Calendar day ${entry.date} set to ${entry.type}${entry.name ? ` (${entry.name})` : ''}`);
+		this.emitCalendarChanged();
+		return null;
+	}
+
+	async deleteEntry(date: string): Promise<boolean> {
+		if (!this.entries.has(date)) return false;
+
+		await this.databaseService.query('DELETE FROM holiday_calendar WHERE date = $1', [date]);
+		this.entries.delete(date);
+
+		this.logger.log(`📆 Calendar day ${date} removed`);
+		this.emitCalendarChanged();
+		return true;
+	}
+
+	// Импорт из файла в каталоге HOLIDAY_CALENDAR_DIR или из переданного содержимого
+	async importCalendar(source: { file?: string; content?: string; format?: HolidayImportFormat; replace?: boolean }): Promise<HolidayImportResult | string> {
+		let content = source.content;
+		let format = source.format;
+
+		if (source.file) {
+			const calendarDir = path.resolve(CALENDAR_DIR);
+			const filePath = path.resolve(calendarDir, source.file);
+			if (path.dirname(filePath) !== calendarDir) {
+				return `file must be located in ${CALENDAR_DIR}`;
+			}
+			try {
+				content = await fs.readFile(filePath, 'utf8');
+			} catch (err: unknown) {
+				const error = err as Error;
+				return `cannot read ${source.file}: ${error.message}`;
+			}
+			format = format ?? (path.extname(filePath).toLowerCase() === '.ics' ? 'ics' : 'json');
+		}
+
+		if (!content) {
+			return 'file or content is required';
+		}
+		format = format ?? (content.trimStart().startsWith('BEGIN:VCALENDAR') ? 'ics' : 'json');
+
+		let entries: HolidayEntry[];
+		try {
+			entries = format === 'ics' ? parseHolidayIcs(content) : parseHolidayJson(content);
+		} catch (err: unknown) {
+			const error = err as Error;
+			return `cannot parse ${format.toUpperCase()}: ${error.message}`;
+		}
+
+		for (const entry of entries) {
+			const error = this.validateEntry(entry);
+			if (error) return error;
+		}
+		if (entries.length === 0) {
+			return 'no calendar days found';
+		}
+
+		const normalized = entries.map(entry => this.normalizeEntry(entry)).sort((a, b) => a.date.localeCompare(b.date));
+		const from = normalized[0].date;
+		const to = normalized[normalized.length - 1].date;
+
+		// replace - заменить все дни в диапазоне импортируемого календаря
+		await this.saveEntries(normalized, source.replace ? { from, to } : undefined);
+
+		const result: HolidayImportResult = {
+			imported: normalized.length,
+			holidays: normalized.filter(entry => entry.type === 'holiday').length,
+			workdays: normalized.filter(entry => entry.type === 'workday').length,
+			from,
+			to,
+		};
+		this.logger.log(`📆 Calendar imported (${format}): ${JSON.stringify(result)}`);
+		this.emitCalendarChanged();
+		return result;
+	}
+
+	// ========== Профили устройств ==========
+
+	getProfileSetpoints(): Record<HolidayProfile, number> {
+		return { ...this.profileSetpoints };
+	}
+
+	async setProfileSetpoints(setpoints: Partial<Record<HolidayProfile, number>>): Promise<boolean> {
+		const updated = { ...this.profileSetpoints };
+		for (const profile of HOLIDAY_PROFILES) {
+			if (setpoints[profile] === undefined) continue;
+			if (!this.isValidSetpoint(setpoints[profile])) {
+				this.logger.warn(`Invalid setpoint for holiday profile ${profile}: ${setpoints[profile]}`);
+				return false;
+			}
+			updated[profile] = setpoints[profile]!;
+		}
+
+		this.profileSetpoints = updated;
+		await this.databaseService.setSystemSetting(PROFILES_SETTING_KEY, JSON.stringify(this.profileSetpoints), 'Уставки праздничных профилей');
+
+		this.logger.log(`Holiday profile setpoints updated: ${JSON.stringify(this.profileSetpoints)}`);
+		this.emitCalendarChanged();
+		return true;
+	}
+
+	getDeviceProfiles(): Record<string, HolidayProfile> {
+		return { ...this.deviceProfiles };
+	}
+
+	async setDeviceProfile(deviceId: string, profile: HolidayProfile | null): Promise<boolean> {
+		if (!this.isKnownDevice(deviceId)) return false;
+
+		if (profile) {
+			this.deviceProfiles[deviceId] = profile;
+		} else {
+			delete this.deviceProfiles[deviceId];
+		}
+		await this.databaseService.setHeatingSetting(deviceId, DEVICE_PROFILE_SETTING_KEY, profile ?? '');
+
+		this.logger.log(`Holiday profile for ${deviceId} set to: ${profile ?? 'none'}`);
+		this.emitCalendarChanged();
+		return true;
+	}
+
+	// ========== Режим на дату ==========
+
+	// Уставка праздничного профиля устройства на дату (null - обычный режим)
+	getHolidaySetpoint(deviceId: string, date = new Date()): number | null {
+		const profile = this.deviceProfiles[deviceId];
+		if (!profile || !this.isHoliday(date)) return null;
+		return this.profileSetpoints[profile];
+	}
+
+	isHoliday(date = new Date()): boolean {
+		return this.entries.get(toDateKey(date))?.type === 'holiday';
+	}
+
+	// День недели для недельных программ: праздник работает как воскресенье,
+	// перенесенный рабочий день - как указанный будний день
+	getEffectiveWeekday(date = new Date()): number {
+		const entry = this.entries.get(toDateKey(date));
+		if (entry?.type === 'holiday') return 7;
+		if (entry?.type === 'workday') return entry.asWeekday ?? 1;
+		return date.getDay() === 0 ? 7 : date.getDay();
+	}
+
+	getDayInfo(date = new Date()): HolidayDayInfo {
+		const entry = this.entries.get(toDateKey(date));
+		const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+
+		return {
+			date: toDateKey(date),
+			dayType: entry?.type ?? (isWeekend ? 'weekend' : 'weekday'),
+			name: entry?.name ?? null,
+			effectiveWeekday: this.getEffectiveWeekday(date),
+			devices: [...Object.keys(heatingConfigs), ...Object.keys(batteriesConfigs)].map(deviceId => {
+				const profile = this.deviceProfiles[deviceId] ?? null;
+				const setpoint = this.getHolidaySetpoint(deviceId, date);
+				return {
+					deviceId,
+					profile,
+					mode: setpoint !== null ? profile! : 'normal',
+					setpoint,
+				};
+			}),
+		};
+	}
+
+	// ========== Вспомогательные методы ==========
+
+	// Запись дней одной транзакцией; replaceRange - предварительно удалить все дни диапазона
+	private async saveEntries(entries: HolidayEntry[], replaceRange?: { from: string; to: string }) {
+		await this.databaseService.transaction(async client => {
+			if (replaceRange) {
+				await client.query('DELETE FROM holiday_calendar WHERE date BETWEEN $1 AND $2', [replaceRange.from, replaceRange.to]);
+			}
+			for (const entry of entries) {
+				await client.query(
+					`INSERT INTO holiday_calendar (date, type, name, as_weekday)
+					VALUES ($1, $2, $3, $4)
+					ON CONFLICT (date)
+					DO UPDATE SET type = EXCLUDED.type, name = EXCLUDED.name, as_weekday = EXCLUDED.as_weekday`,
+					[entry.date, entry.type, entry.name ?? null, entry.asWeekday ?? null],
+				);
+			}
+		});
+
+		if (replaceRange) {
+			Array.from(this.entries.keys())
+				.filter(date => date >= replaceRange.from && date <= replaceRange.to)
+				.forEach(date => this.entries.delete(date));
+		}
+		entries.forEach(entry => this.entries.set(entry.date, entry));
+	}
+
+	private validateEntry(entry: HolidayEntry): string | null {
+		if (!entry || typeof entry.date !== 'string') {
+			return 'date is required';
+		}
+		const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(entry.date);
+		const date = match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : null;
+		if (!date || toDateKey(date) !== entry.date) {
+			return `invalid date: ${entry.date} (expected YYYY-MM-DD)`;
+		}
+		if (!HOLIDAY_DAY_TYPES.includes(entry.type)) {
+			return `${entry.date}: unknown day type ${entry.type}`;
+		}
+		if (entry.asWeekday !== undefined && (!Number.isInteger(entry.asWeekday) || entry.asWeekday < 1 || entry.asWeekday > 7)) {
+			return `${entry.date}: asWeekday must be 1 (Monday) - 7 (Sunday)`;
+		}
+		return null;
+	}
+
+	private normalizeEntry(entry: HolidayEntry): HolidayEntry {
+		return {
+			date: entry.date,
+			type: entry.type,
+			name: entry.name ? String(entry.name).slice(0, 128) : undefined,
+			asWeekday: entry.type === 'workday' ? entry.asWeekday : undefined,
+		};
+	}
+
+	private isValidSetpoint(value: unknown): value is number {
+		return typeof value === 'number' && !isNaN(value) && value >= MIN_SETPOINT && value <= MAX_SETPOINT;
+	}
+
+	private isKnownDevice(deviceId: string): boolean {
+		return Boolean(heatingConfigs[deviceId] || batteriesConfigs[deviceId]);
+	}
+
+	private emitCalendarChanged() {
+		this.eventEmitter.emit('holiday.calendar.changed');
+	}
+}
@@ -0,0 +1,74 @@
+import { parseHolidayIcs, parseHolidayJson } from './holiday.utils';
+
+function ics(...events: string[][]): string {
+	return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']), 'END:VCALENDAR']
+		.join('\r\n');
+}
+
+describe('parseHolidayJson', () => {
+	it('should accept an array of days and default the type to holiday', () => {
+		expect(parseHolidayJson('[{ "date": "2026-01-01", "name": "Новый год" }, { "date": "2026-11-01", "type": "workday", "asWeekday": 5 }]'))
+			.toEqual([
+				{ date: '2026-01-01', type: 'holiday', name: 'Новый год' },
+				{ date: '2026-11-01', type: 'workday', asWeekday: 5 },
+			]);
+	});
+
+	it('should accept an object with days', () => {
+		expect(parseHolidayJson('{ "days": [{ "date": "2026-05-09" }] }')).toEqual([{ date: '2026-05-09', type: 'holiday' }]);
+	});
+
+	it('should reject other structures and invalid JSON', () => {
+		expect(() => parseHolidayJson('{ "date": "2026-05-09" }')).toThrow('expected an array of days or { days: [...] }');
+		expect(() => parseHolidayJson('[{')).toThrow();
+	});
+});
+
+describe('parseHolidayIcs', () => {
+	it('should expand all-day events with an exclusive DTEND', () => {
+		const content = ics([
+			'DTSTART;VALUE=DATE:20260101',
+			'DTEND;VALUE=DATE:20260104',
+			'SUMMARY:Новогодние каникулы',
+		]);
+		expect(parseHolidayIcs(content)).toEqual([
+			{ date: '2026-01-01', type: 'holiday', name: 'Новогодние каникулы' },
+			{ date: '2026-01-02', type: 'holiday', name: 'Новогодние каникулы' },
+			{ date: '2026-01-03', type: 'holiday', name: 'Новогодние каникулы' },
+		]);
+	});
+
+	it('should default to a single day and recognize transferred workdays', () => {
+		const content = ics(
+			['DTSTART;VALUE=DATE:20261101', 'SUMMARY:Рабочий день (перенос)'],
+			['DTSTART;VALUE=DATE:20261102', 'CATEGORIES:WORKDAY'],
+		);
+		expect(parseHolidayIcs(content)).toEqual([
+			{ date: '2026-11-01', type: 'workday', name: 'Рабочий день (перенос)' },
+			{ date: '2026-11-02', type: 'workday', name: undefined },
+		]);
+	});
+
+	it('should unfold long lines and unescape the summary', () => {
+		const content = ics(['DTSTART;VALUE=DATE:20260612', 'SUMMARY:День России\\, выход', ' ной']);
+		expect(parseHolidayIcs(content)).toEqual([{ date: '2026-06-12', type: 'holiday', name: 'День России, выходной' }]);
+	});
+
+	it('should reject invalid and reversed dates', () => {
+		expect(() => parseHolidayIcs(ics(['DTSTART:tomorrow']))).toThrow('invalid DTSTART: tomorrow');
+		expect(() => parseHolidayIcs(ics(['DTSTART;VALUE=DATE:20260105', 'DTEND;VALUE=DATE:20260101']))).toThrow('must be after DTSTART');
+	});
+
+	it('should cap the event length at 366 days', () => {
+		expect(parseHolidayIcs(ics(['DTSTART;VALUE=DATE:20280101', 'DTEND;VALUE=DATE:20290101']))).toHaveLength(366);
+		expect(() => parseHolidayIcs(ics(['DTSTART;VALUE=DATE:20260101', 'DTEND;VALUE=DATE:20270103'])))
+			.toThrow('is longer than 366 days');
+	});
+
+	it('should reject recurring events naming the unsupported property', () => {
+		expect(() => parseHolidayIcs(ics(['DTSTART;VALUE=DATE:20260101', 'RRULE:FREQ=YEARLY'])))
+			.toThrow('unsupported property RRULE');
+		expect(() => parseHolidayIcs(ics(['DTSTART;VALUE=DATE:20260101', 'RDATE;VALUE=DATE:20270101'])))
+			.toThrow('unsupported property RDATE');
+	});
+});
@@ -0,0 +1,84 @@
+import { HolidayEntry } from '../interfaces/holiday.interface';
+
+const MAX_EVENT_DAYS = 366;
+
+// Свойства повторяющихся событий: повторения не разворачиваются, такие календари отклоняются
+const UNSUPPORTED_ICS_PROPERTIES = ['RRULE', 'RDATE', 'EXRULE'];
+
+// JSON: массив дней или объект { days: [...] }
+export function parseHolidayJson(content: string): HolidayEntry[] {
+	const data = JSON.parse(content);
+	const days = Array.isArray(data) ? data : data?.days;
+	if (!Array.isArray(days)) {
+		throw new Error('expected an array of days or { days: [...] }');
+	}
+	return days.map(day => ({ ...day, type: day?.type ?? 'holiday' }));
+}
+
+// ICS: каждое событие VEVENT на весь день (DTSTART;VALUE=DATE) - праздник;
+// события с категорией WORKDAY или "рабочий день" в названии - перенесенные рабочие дни
+export function parseHolidayIcs(content: string): HolidayEntry[] {
+	const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+	const entries: HolidayEntry[] = [];
+	let event: Record<string, string> | null = null;
+
+	for (const line of lines) {
+		if (line === 'BEGIN:VEVENT') {
+			event = {};
+			continue;
+		}
+		if (line === 'END:VEVENT' && event) {
+			entries.push(...icsEventToEntries(event));
+			event = null;
+			continue;
+		}
+		if (!event) continue;
+
+		const separator = line.indexOf(':');
+		if (separator < 0) continue;
+		const name = line.slice(0, separator).split(';')[0].toUpperCase();
+		event[name] = line.slice(separator + 1).trim();
+	}
+	return entries;
+}
+
+export function toDateKey(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function icsEventToEntries(event: Record<string, string>): HolidayEntry[] {
+	const start = parseIcsDate(event.DTSTART);
+	if (!start) {
+		throw new Error(`invalid DTSTART: ${event.DTSTART}`);
+	}
+	const unsupported = UNSUPPORTED_ICS_PROPERTIES.find(property => event[property] !== undefined);
+	if (unsupported) {
+		throw new Error(`unsupported property ${unsupported} in event ${event.DTSTART} (recurring events are not expanded)`);
+	}
+
+	// DTEND для событий на весь день не включается в событие
+	const end = parseIcsDate(event.DTEND) ?? new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+	if (end <= start) {
+		throw new Error(`DTEND ${event.DTEND} must be after DTSTART ${event.DTSTART}`);
+	}
+	if (end > new Date(start.getFullYear(), start.getMonth(), start.getDate() + MAX_EVENT_DAYS)) {
+		throw new Error(`event ${event.DTSTART}-${event.DTEND} is longer than ${MAX_EVENT_DAYS} days`);
+	}
+
+	const name = event.SUMMARY?.replace(/\\,/g, ',').replace(/\\;/g, ';') || undefined;
+	const isWorkday = /WORKDAY/i.test(event.CATEGORIES ?? '') || /рабочий день|working day/i.test(name ?? '');
+
+	const entries: HolidayEntry[] = [];
+	for (let day = start; day < end; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+		entries.push({ date: toDateKey(day), type: isWorkday ? 'workday' : 'holiday', name });
+	}
+	return entries;
+}
+
+function parseIcsDate(value?: string): Date | null {
+	const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null;
+	if (!match) return null;
+	return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
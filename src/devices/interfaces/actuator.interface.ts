@@ -0,0 +1,33 @@
+export interface ActuatorFeedbackOptions {
+	confirmTimeout: number;  // Время ожидания подтверждения команды (сек)
+	maxRetries: number;      // Повторы команды перед аварией «команда не выполнена»
+	tolerance: number;       // Допустимое расхождение заданного и фактического значения (строго меньше)
+}
+
+export interface ActuatorOutputState {
+	topic: string;               // Топик контрола (команда отправляется в <topic>/on)
+	desired: number | null;      // Заданное значение (null - команд еще не было)
+	actual: number | null;       // Фактическое значение, опубликованное модулем
+	confirmed: boolean;          // Фактическое значение совпадает с заданным
+	retries: number;             // Выполнено повторов текущей команды
+	alarm: boolean;              // Команда не выполнена после всех повторов
+	commandedAt: string | null;
+	reportedAt: string | null;
+}
+
+export type ActuatorFeedbackEvent = 'retry' | 'alarm' | 'cleared';
+
+export interface OutputPublishOptions {
+	deadband: number;        // Изменение значения, которое не публикуется (меньше или равно)
+	refreshInterval: number; // Повтор опубликованного значения (сек), 0 - без повтора
+	coalesceWindow: number;  // Команды чаще этого окна (сек) объединяются, публикуется последняя
+}
+
+// Счетчики публикации команд выходов
+export interface OutputPublishStats {
+	commands: number;        // Команды устройств
+	published: number;       // Опубликовано (включая повторы по интервалу обновления)
+	suppressed: number;      // Не опубликовано: значение в зоне нечувствительности
+	coalesced: number;       // Заменено более новой командой в окне объединения
+	refreshed: number;       // Повторы по интервалу обновления
+}
@@ -1,4 +1,8 @@
 import { Device } from './device.interface';
+import { ProtectionAlarm } from './protection.interface';
+import { FusedTemperature, SensorFusionSettings } from './sensor-fusion.interface';
+import { TemperatureSourceRef } from './temperature-source.interface';
+import { ActuatorOutputState } from './actuator.interface';
 
 export interface BatteriesData {
 	temperature: number;
@@ -14,6 +18,11 @@ export enum BatteriesMode {
 	OFF = 'off',
 }
 
+// Режим клапана группы: по регулятору или принудительно открыт/закрыт
+export type BatteriesValveMode = 'auto' | 'open' | 'closed';
+
+export const BATTERIES_VALVE_MODES: BatteriesValveMode[] = ['auto', 'open', 'closed'];
+
 export interface BatteriesControl {
 	command: BatteriesCommand;
 	parameters?: BatteriesControlParameters;
@@ -25,6 +34,7 @@ export enum BatteriesCommand {
 	SET_MODE = 'set_mode',
 	SET_TEMPERATURE = 'set_temperature',
 	SET_VALVE_STATE = 'set_valve_state',
+	SET_VALVE_MODE = 'set_valve_mode',
 }
 
 export interface BatteriesControlParameters {
@@ -32,6 +42,7 @@ export interface BatteriesControlParameters {
 	temperature?: number;
 	groupName?: string;
 	valveState?: 'open' | 'closed';
+	valveMode?: BatteriesValveMode;
 }
 
 export interface Batteries extends Device {
@@ -67,10 +78,8 @@ export interface BatteriesTemperatureSettings {
 	VALVE_OPERATION_TIME: number; // Время работы клапана в секундах (150 сек)
 }
 
-export interface BatteriesTemperatureSource {
-	type: 'dht' | 'modbus' | 'mqtt';
-	sourceId: string;
-}
+// Источник температуры вместо датчиков из topics.TEMPERATURE_SENSORS
+export type BatteriesTemperatureSource = TemperatureSourceRef;
 
 export interface BatteriesConfig {
 	broker: string;
@@ -80,6 +89,8 @@ export interface BatteriesConfig {
 	topics: BatteriesTopics;
 	temperatureSettings: BatteriesTemperatureSettings;
 	groups: BatteriesGroup[]; // Массив групп батарей
+	sensorFusion?: Partial<SensorFusionSettings>; // Объединение показаний датчиков (веса по адресам датчиков, по умолчанию среднее)
+	sensorTimeout?: number; // Показания датчика старше этого времени (сек) не учитываются (по умолчанию 600)
 }
 
 export interface BatteriesState {
@@ -92,4 +103,12 @@ export interface BatteriesState {
 	autoControlEnabled?: boolean;
 	lastError?: number;
 	lastValveOperation?: Record<string, Date>; // Время последней операции с клапаном по группам
+	valveModes?: Record<string, BatteriesValveMode>; // Режимы клапанов по группам
+	freezeProtection?: boolean;    // Действующая или неквитированная авария защиты от замерзания
+	overheatProtection?: boolean;  // Действующая или неквитированная авария защиты от перегрева
+	protectionAlarms?: ProtectionAlarm[];
+	controlErrors?: Record<string, string>; // Ошибки опроса реле и датчиков Wiren Board (meta/error) по топикам контролов
+	sensorFusion?: FusedTemperature; // Температура по всем датчикам устройства и показания отдельных датчиков
+	outputs?: Record<string, ActuatorOutputState>; // Заданное и фактическое состояние реле клапанов по топикам
+	actuatorAlarm?: boolean;         // Команда реле клапана не выполнена
 }
@@ -0,0 +1,71 @@
+export type ControlStrategyType = 'pid' | 'hysteresis' | 'on_off' | 'fixed_output';
+
+export const CONTROL_STRATEGY_TYPES: ControlStrategyType[] = ['pid', 'hysteresis', 'on_off', 'fixed_output'];
+
+export interface ControlInput {
+	currentTemperature: number;
+	setpointTemperature: number;
+	isWorking: boolean; // Работал ли агрегат на предыдущем шаге
+	timestamp: number;  // Время вычисления (мс)
+	dt: number;         // Время с предыдущего шага регулирования (сек)
+	outputLimit?: number; // Дополнительное ограничение выхода сверху (погодная компенсация)
+}
+
+export interface ControlOutput {
+	output: number;       // Выход регулятора (outputMin - outputMax)
+	error: number;        // Ошибка регулирования (уставка - температура)
+	proportional?: number; // Пропорциональная составляющая (только PID)
+	integral?: number;    // Интегральная составляющая (только PID)
+	derivative?: number;  // Дифференциальная составляющая (только PID)
+}
+
+export interface ControlStrategy {
+	readonly type: ControlStrategyType;
+	compute(input: ControlInput): ControlOutput;
+	reset(): void;
+	preload(input: ControlInput, output: number): void; // Безударный переход: следующий шаг продолжит с заданного выхода
+}
+
+export interface ControlStrategyOptions {
+	hysteresis: number;   // Гистерезис для двухпозиционных алгоритмов
+	outputMin: number;
+	outputMax: number;
+	fixedOutput: number;  // Выход для стратегии fixed_output
+}
+
+export type AutotuneRule = 'ziegler_nichols' | 'tyreus_luyben';
+
+export type AutotuneStatus = 'running' | 'completed' | 'aborted' | 'failed';
+
+export interface AutotuneOptions {
+	setpoint: number;        // Уставка, вокруг которой строятся автоколебания
+	outputHigh: number;      // Выход реле при температуре ниже уставки
+	outputLow: number;       // Выход реле при температуре выше уставки
+	noiseBand: number;       // Зона нечувствительности реле (°C)
+	cycles: number;          // Количество полных периодов для усреднения
+	maxDuration: number;     // Максимальная длительность автонастройки (мс)
+	minTemperature: number;  // Нижняя граница безопасности (TEMP_FREEZE_LIMIT)
+	maxTemperature: number;  // Верхняя граница безопасности (TEMP_OVERHEAT_LIMIT)
+	rule: AutotuneRule;
+}
+
+export interface PIDGains {
+	Kp: number;
+	Ki: number;
+	Kd: number;
+}
+
+export interface AutotuneResult {
+	status: AutotuneStatus;
+	rule: AutotuneRule;
+	setpoint: number;
+	startedAt: string;
+	finishedAt?: string;
+	cyclesCompleted: number;
+	cyclesRequired: number;
+	ultimateGain?: number;    // Ku - критический коэффициент усиления
+	ultimatePeriod?: number;  // Pu - период автоколебаний (сек)
+	amplitude?: number;       // Амплитуда колебаний температуры (°C)
+	suggested?: PIDGains;     // Рекомендуемые коэффициенты
+	reason?: string;          // Причина прерывания
+}
@@ -0,0 +1,25 @@
+import { HeatingConfig } from './heating.interface';
+import { BatteriesConfig } from './batteries.interface';
+
+export type DeviceConfigType = 'heating' | 'batteries';
+
+export const DEVICE_CONFIG_TYPES: DeviceConfigType[] = ['heating', 'batteries'];
+
+// Где хранятся конфигурации, заданные через API: таблица device_configs или YAML файл DEVICE_CONFIG_FILE
+export type DeviceConfigStorage = 'database' | 'file';
+
+export type DeviceConfig = HeatingConfig | BatteriesConfig;
+
+export interface DeviceConfigEntry {
+	deviceId: string;
+	deviceType: DeviceConfigType;
+	configSource: 'config' | DeviceConfigStorage; // 'config' - из heating.config.ts / batteries.config.ts
+	modbusUnitId: number | null;                  // Unit ID ШУК в Modbus (null - устройство не отображается в Modbus)
+	config: DeviceConfig;
+}
+
+// Событие 'device.config.changed': конфигурация устройства добавлена, изменена или удалена
+export interface DeviceConfigChange {
+	deviceType: DeviceConfigType;
+	deviceId: string;
+}
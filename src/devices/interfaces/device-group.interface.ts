@@ -0,0 +1,65 @@
+export type GroupDeviceType = 'heating' | 'batteries';
+
+// Группа устройств (зона): может объединять ШУК и ШУОП, например все устройства этажа
+export interface DeviceGroup {
+	id: number;
+	name: string;
+	description: string | null;
+	deviceIds: string[];
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+export interface DeviceGroupInput {
+	name: string;
+	description?: string | null;
+	deviceIds: string[];
+}
+
+export interface GroupDeviceState {
+	deviceId: string;
+	deviceType: GroupDeviceType;
+	name: string;
+	currentTemperature: number;
+	setpointTemperature: number;
+	isOnline: boolean;
+	isWorking: boolean;
+	autoControlEnabled: boolean;
+	isEmergencyStop: boolean;
+	isAlarm: boolean;  // Аварии защит, отказ датчика, ошибки модулей или невыполненные команды
+}
+
+export interface GroupTemperatureStats {
+	min: number;
+	avg: number;
+	max: number;
+}
+
+// Сводное состояние группы
+export interface DeviceGroupState {
+	groupId: number;
+	name: string;
+	deviceCount: number;
+	onlineCount: number;
+	workingCount: number;
+	autoControlCount: number;
+	emergencyStopCount: number;
+	alarmCount: number;
+	temperature: GroupTemperatureStats | null; // По устройствам на связи (null - нет данных)
+	setpoint: GroupTemperatureStats | null;
+	devices: GroupDeviceState[];
+}
+
+export type DeviceGroupCommand =
+	| 'set_setpoint'
+	| 'enable_auto_control'
+	| 'disable_auto_control'
+	| 'emergency_stop'
+	| 'reset_emergency_stop'
+	| 'assign_schedule';
+
+// Результат групповой команды по каждому устройству
+export interface GroupCommandResult {
+	deviceId: string;
+	success: boolean;
+}
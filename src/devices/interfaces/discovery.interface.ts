@@ -0,0 +1,42 @@
+// Модули Wiren Board, которые обнаруживаются по MQTT метаданным:
+// wb-mr6cu - релейный модуль (клапаны), wb-mao4 - модуль аналоговых выходов (вентиляторы), wb-msw-v4 - датчик температуры
+export type DiscoveryModuleType = 'wb-mr6cu' | 'wb-mao4' | 'wb-msw-v4';
+
+export const DISCOVERY_MODULE_TYPES: DiscoveryModuleType[] = ['wb-mr6cu', 'wb-mao4', 'wb-msw-v4'];
+
+// Метаданные контрола из /devices/<модуль>/controls/<контрол>/meta
+export interface DiscoveredControl {
+	name: string;            // Например: 'K1', 'Channel 1 Dimming Level', 'Temperature'
+	topic: string;           // Топик значения: /devices/<модуль>/controls/<контрол>
+	type: string | null;     // switch, range, value, temperature...
+	units: string | null;
+	readonly: boolean;
+	order: number | null;
+	title: string | null;
+}
+
+export interface DiscoveredModule {
+	broker: string;
+	deviceId: string;        // Например: 'wb-mr6cu_86'
+	type: DiscoveryModuleType;
+	address: number;         // Адрес Modbus модуля на шине (86 для wb-mr6cu_86)
+	topic: string;           // /devices/<модуль>/controls - как в topics.RELAY_MODULES ШУОП
+	title: string | null;
+	driver: string | null;
+	controls: DiscoveredControl[];
+	lastSeen: string;
+	usedBy: string[];        // ШУК и ШУОП, в топиках которых используется модуль
+}
+
+// Создание ШУК из обнаруженных модулей вместо ввода топиков
+export interface DiscoveryHeatingInput {
+	relayModule: string;          // wb-mr6cu_<адрес>
+	analogModule: string;         // wb-mao4_<адрес>
+	tempModule: string;           // wb-msw-v4_<адрес>
+	relayControl?: string;        // По умолчанию 'K1'
+	analogControl?: string;       // По умолчанию 'Channel 1 Dimming Level'
+	temperatureControl?: string;  // По умолчанию 'Temperature'
+	broker?: string;              // Брокер реле и аналогового модуля (по умолчанию 'heating'), датчик - на брокере sensors
+	deviceRealName?: string;
+	modbusUnitId?: number;
+}
@@ -1,4 +1,10 @@
 import { Device } from './device.interface';
+import { AutotuneResult, ControlStrategyType } from './control.interface';
+import { SeasonMode, SeasonSource } from './season.interface';
+import { ProtectionAlarm } from './protection.interface';
+import { FusedTemperature, SensorFusionSettings } from './sensor-fusion.interface';
+import { TemperatureSourceRef } from './temperature-source.interface';
+import { ActuatorOutputState } from './actuator.interface';
 
 export interface HeatingData {
 	temperature: number;
@@ -29,6 +35,7 @@ export enum HeatingCommand {
 	SET_TEMPERATURE = 'set_temperature',
 	SET_PUMP_SPEED = 'set_pump_speed',
 	SET_VALVE = 'set_valve',
+	SET_CONTROL_STRATEGY = 'set_control_strategy',
 }
 
 export interface HeatingControlParameters {
@@ -36,6 +43,8 @@ export interface HeatingControlParameters {
 	temperature?: number;
 	pumpSpeed?: number;
 	valvePosition?: number;
+	controlStrategy?: ControlStrategyType;
+	fixedOutput?: number;
 }
 
 export interface Heating extends Device {
@@ -62,21 +71,94 @@ export interface HeatingTemperatureSettings {
 	TEMP_OVERHEAT_LIMIT: number;
 }
 
+export type PIDAntiWindupMode = 'clamping' | 'back_calculation';
+
 export interface HeatingPIDSettings {
 	Kp: number;  // Коэффициент пропорциональности
 	Ki: number;  // Коэффициент интегральной составляющей
 	Kd: number;  // Коэффициент дифференциальной составляющей
 	outputMin: number;  // Минимальное значение выхода (0)
 	outputMax: number;  // Максимальное значение выхода (30)
-	integral: number;   // Интегральная составляющая
+	integral: number;   // Интегральная составляющая (в единицах выхода)
 	prevError: number;  // Предыдущая ошибка
+	antiWindup?: PIDAntiWindupMode;  // Защита от насыщения интеграла (по умолчанию 'back_calculation')
+	trackingTime?: number;           // Постоянная времени обратного расчета Tt (сек)
+	derivativeFilterTime?: number;   // Постоянная времени фильтра D-составляющей (сек)
+	setpointWeight?: number;         // Вес уставки в P-составляющей (0-1)
+}
+
+// Точка кривой погодной компенсации; между точками значения интерполируются линейно,
+// за крайними точками берутся значения крайних точек
+export interface WeatherCompensationPoint {
+	outdoorTemperature: number;  // Уличная температура (°C)
+	setpointOffset: number;      // Поправка к уставке (°C)
+	maxOutput: number;           // Максимальный выход вентилятора (%)
+}
+
+export interface WeatherCompensationSettings {
+	enabled: boolean;
+	points: WeatherCompensationPoint[];
+	fallbackOutdoorTemperature: number;  // Уличная температура, если датчик не настроен или данные устарели
 }
 
-export interface HeatingTemperatureSource {
-	type: 'dht' | 'modbus' | 'mqtt';
-	sourceId: string;
+export interface WeatherCompensationState {
+	outdoorTemperature: number;  // Уличная температура, по которой посчитана компенсация
+	isFallback: boolean;         // Использовано резервное значение
+	setpointOffset: number;
+	maxOutput: number;
+	effectiveSetpoint: number;   // Уставка регулятора с учетом поправки
 }
 
+// Поведение ШУК при отказе датчика температуры (нет новых показаний дольше таймаута)
+export type SensorFaultMode = 'hold' | 'fixed_output' | 'off';
+
+export const SENSOR_FAULT_MODES: SensorFaultMode[] = ['hold', 'fixed_output', 'off'];
+
+export interface SensorFaultSettings {
+	timeout: number;          // Таймаут показаний датчика (сек)
+	mode: SensorFaultMode;    // hold - удерживать последний выход, fixed_output - фиксированный выход, off - выключить вентилятор
+	fallbackOutput: number;   // Выход для режима 'fixed_output' (%)
+}
+
+// Ограничения выхода вентилятора для защиты оборудования (применяются между регулятором и диммером)
+export interface FanOutputLimitSettings {
+	rampRate: number;          // Максимальная скорость изменения выхода (%/с, 0 - без ограничения)
+	cutoffOutput: number;      // Выход ниже порога выключает вентилятор (%)
+	cutoffHysteresis: number;  // Повторное включение - только при выходе не ниже cutoffOutput + cutoffHysteresis (%)
+	minRunTime: number;        // Минимальное время работы после включения (сек)
+	minOffTime: number;        // Минимальное время простоя после выключения (сек)
+	startBoostOutput: number;  // Выход при пуске для страгивания двигателя (%, 0 - без разгона)
+	startBoostTime: number;    // Длительность разгона при пуске (сек)
+}
+
+export interface FanOutputLimiterState {
+	output: number;        // Выход, отправленный на диммер (%)
+	isRunning: boolean;
+	isBoosting: boolean;   // Идет разгон при пуске
+	isHeld: boolean;       // Включение или выключение задержано минимальным временем работы/простоя
+}
+
+// Откуда включен ручной режим
+export type ManualOverrideSource = 'rest' | 'websocket' | 'modbus';
+
+export interface ManualOverrideOptions {
+	fanOutput: number;   // Выход вентилятора (%)
+	valveOpen: boolean;  // Состояние клапана
+	duration: number;    // Длительность ручного режима (сек), после чего ШУК возвращается к автоуправлению
+}
+
+export interface ManualOverrideState {
+	fanOutput: number;
+	valveOpen: boolean;
+	source: ManualOverrideSource;
+	startedAt: string;
+	expiresAt: string;
+	remainingTime: number; // Оставшееся время ручного режима (сек)
+}
+
+// Источник температуры вместо основного датчика ШУК (topics.TEMPERATURE_SENSOR)
+export type HeatingTemperatureSource = TemperatureSourceRef;
+
 export interface HeatingConfig {
 	broker: string;
 	deviceName: string;
@@ -88,6 +170,15 @@ export interface HeatingConfig {
 	topics: HeatingTopics;
 	temperatureSettings: HeatingTemperatureSettings;
 	pidSettings: HeatingPIDSettings;
+	controlStrategy?: ControlStrategyType; // Алгоритм управления (по умолчанию 'pid')
+	fixedOutput?: number;                  // Выход для стратегии 'fixed_output' (%)
+	weatherCompensation?: WeatherCompensationSettings; // Кривая погодной компенсации (по умолчанию отключена)
+	freezeProtectionOutput?: number;       // Выход вентилятора при защите от замерзания (%)
+	sensorFault?: Partial<SensorFaultSettings>; // Контроль датчика температуры (по умолчанию 600 сек, удержание выхода)
+	temperatureSensors?: string[];         // Дополнительные датчики зоны (топики на брокере sensors)
+	sensorFusion?: Partial<SensorFusionSettings>; // Объединение показаний датчиков зоны (по умолчанию среднее)
+	fanOutputLimits?: Partial<FanOutputLimitSettings>; // Ограничения выхода вентилятора (по умолчанию только порог 15% с гистерезисом 2%)
+	modbusUnitId?: number;                 // Unit ID в Modbus (по умолчанию из MODBUS_HEATING_DEVICES)
 }
 
 export interface HeatingState {
@@ -102,4 +193,23 @@ export interface HeatingState {
 	autoControlEnabled?: boolean;
 	lastError?: number;
 	integral?: number;
+	controlStrategy?: ControlStrategyType;
+	fixedOutput?: number;
+	autotune?: AutotuneResult;     // Состояние/результат автонастройки PID
+	manualFanSpeed?: number | null; // Ручная скорость вентилятора (null - не задана)
+	season?: SeasonMode;           // Действующий сезон для клапана ШУК
+	seasonSource?: SeasonSource;   // Откуда взят сезон (переопределение, принудительный, уличная температура, календарь)
+	weatherCompensation?: WeatherCompensationState | null; // Текущая погодная компенсация (null - отключена)
+	freezeProtection?: boolean;    // Действующая или неквитированная авария защиты от замерзания
+	overheatProtection?: boolean;  // Действующая или неквитированная авария защиты от перегрева
+	protectionAlarms?: ProtectionAlarm[];
+	sensorFault?: boolean;               // Датчик температуры не присылает показания дольше таймаута
+	lastTemperatureUpdate?: string | null; // Время последнего показания датчика
+	controlErrors?: Partial<Record<keyof HeatingTopics, string>>; // Ошибки опроса модулей Wiren Board (meta/error)
+	moduleError?: boolean;               // Ошибка модуля реле клапана или диммера вентилятора
+	sensorFusion?: FusedTemperature;     // Температура зоны и показания отдельных датчиков
+	fanOutputLimiter?: FanOutputLimiterState; // Выход вентилятора после ограничений (выход регулятора - pidOutput)
+	outputs?: Partial<Record<keyof HeatingTopics, ActuatorOutputState>>; // Заданное и фактическое состояние клапана и вентилятора
+	actuatorAlarm?: boolean;             // Команда клапану или вентилятору не выполнена
+	manualOverride?: ManualOverrideState | null; // Ручной режим на время (null - не действует)
 }
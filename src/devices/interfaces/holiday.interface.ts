@@ -0,0 +1,42 @@
+// Исключения производственного календаря:
+// holiday - нерабочий праздничный день, workday - перенесенный рабочий день (в выходной)
+export type HolidayDayType = 'holiday' | 'workday';
+
+export const HOLIDAY_DAY_TYPES: HolidayDayType[] = ['holiday', 'workday'];
+
+// Профиль устройства в праздничные дни
+export type HolidayProfile = 'frost_protection' | 'economy';
+
+export const HOLIDAY_PROFILES: HolidayProfile[] = ['frost_protection', 'economy'];
+
+export interface HolidayEntry {
+	date: string;         // Дата в формате YYYY-MM-DD
+	type: HolidayDayType;
+	name?: string;        // Название праздника или комментарий
+	asWeekday?: number;   // Для перенесенного рабочего дня: по программе какого дня недели работать (1-7, по умолчанию 1)
+}
+
+export type HolidayImportFormat = 'json' | 'ics';
+
+export interface HolidayImportResult {
+	imported: number;
+	holidays: number;
+	workdays: number;
+	from: string | null;
+	to: string | null;
+}
+
+export interface HolidayDeviceMode {
+	deviceId: string;
+	profile: HolidayProfile | null;  // Назначенный праздничный профиль
+	mode: 'normal' | HolidayProfile; // Режим устройства в этот день
+	setpoint: number | null;         // Уставка профиля (null - обычная работа)
+}
+
+export interface HolidayDayInfo {
+	date: string;
+	dayType: HolidayDayType | 'weekday' | 'weekend';
+	name: string | null;
+	effectiveWeekday: number;        // День недели, по программе которого работают недельные расписания
+	devices: HolidayDeviceMode[];
+}
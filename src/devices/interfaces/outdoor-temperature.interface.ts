@@ -0,0 +1,20 @@
+export interface OutdoorTemperatureConfig {
+	broker: string;         // Брокер MQTT (по умолчанию 'sensors')
+	topic: string | null;   // Топик уличного датчика (null - датчик не настроен)
+	staleTimeout: number;   // Через сколько секунд без данных показание считается устаревшим
+}
+
+export interface OutdoorDailyMean {
+	date: string;     // Дата в формате YYYY-MM-DD (локальное время сервера)
+	mean: number;     // Среднесуточная температура
+	samples: number;  // Количество измерений за сутки
+}
+
+export interface OutdoorTemperatureState {
+	config: OutdoorTemperatureConfig;
+	temperature: number | null;  // Последнее показание
+	updatedAt: string | null;
+	isStale: boolean;
+	todayMean: number | null;    // Среднее за текущие (неполные) сутки
+	dailyMeans: OutdoorDailyMean[];
+}
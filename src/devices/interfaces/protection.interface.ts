@@ -0,0 +1,21 @@
+// Защиты по температуре: от замерзания (ниже TEMP_FREEZE_LIMIT) и от перегрева (выше TEMP_OVERHEAT_LIMIT)
+export type ProtectionAlarmType = 'freeze' | 'overheat';
+
+export const PROTECTION_ALARM_TYPES: ProtectionAlarmType[] = ['freeze', 'overheat'];
+
+// Авария с фиксацией: остается, пока не квитирована оператором, даже если температура вернулась в норму
+export interface ProtectionAlarm {
+	type: ProtectionAlarmType;
+	active: boolean;                // Условие срабатывания выполняется сейчас (защита действует)
+	acknowledged: boolean;          // Квитирована оператором
+	trippedAt: string;
+	clearedAt: string | null;       // Когда условие перестало выполняться
+	acknowledgedAt: string | null;
+	temperature: number;            // Температура при срабатывании
+	limit: number;                  // Порог срабатывания
+}
+
+export interface ProtectionTransition {
+	event: 'tripped' | 'cleared';
+	alarm: ProtectionAlarm;
+}
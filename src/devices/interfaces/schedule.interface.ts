@@ -0,0 +1,32 @@
+import { HolidayProfile } from './holiday.interface';
+
+// Недельная программа уставок: в указанные дни и часы действует уставка периода,
+// в остальное время - уставка по умолчанию (экономный режим)
+export interface SchedulePeriod {
+	days: number[];    // Дни недели: 1 - понедельник ... 7 - воскресенье
+	start: string;     // Начало периода HH:MM
+	end: string;       // Окончание периода HH:MM (не включительно, 24:00 - до конца суток)
+	setpoint: number;  // Уставка в периоде (°C)
+}
+
+export interface SetpointSchedule {
+	id: number;
+	name: string;
+	defaultSetpoint: number;   // Уставка вне периодов
+	periods: SchedulePeriod[];
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+export type SetpointScheduleInput = Omit<SetpointSchedule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ScheduleDeviceState {
+	deviceId: string;
+	deviceType: 'heating' | 'batteries';
+	scheduleId: number | null;
+	holidayProfile: HolidayProfile | null;  // Профиль устройства в праздничные дни
+	isHoliday: boolean;                // Сейчас действует праздничный профиль
+	scheduledSetpoint: number | null;  // Уставка по программе (или праздничному профилю) на текущий момент
+	nextSwitchAt: string | null;       // Ближайшая точка переключения программы
+	overrideUntil: string | null;      // Ручная уставка действует до этого времени (null - нет переопределения)
+}
@@ -0,0 +1,48 @@
+import { OutdoorDailyMean } from './outdoor-temperature.interface';
+
+// Режим сезона для клапанов ШУК:
+// winter - клапан всегда открыт, summer - всегда закрыт,
+// transition - клапан открывается синхронно с работой ШУК (весна/осень)
+export type SeasonMode = 'winter' | 'summer' | 'transition';
+
+export const SEASON_MODES: SeasonMode[] = ['winter', 'summer', 'transition'];
+
+export interface SeasonPeriod {
+	from: string;       // Дата начала периода в формате MM-DD (действует до начала следующего периода)
+	season: SeasonMode;
+}
+
+export type SeasonSource = 'override' | 'forced' | 'outdoor' | 'calendar';
+
+// Переключение отопительного сезона по среднесуточной уличной температуре
+export interface SeasonOutdoorConfig {
+	enabled: boolean;
+	heatingOnThreshold: number;  // Отопление включается, если среднесуточная ниже порога...
+	heatingOnDays: number;       // ...столько суток подряд
+	heatingOffThreshold: number; // Отопление отключается, если среднесуточная выше порога...
+	heatingOffDays: number;      // ...столько суток подряд
+}
+
+export interface SeasonOutdoorInfo extends SeasonOutdoorConfig {
+	season: SeasonMode | null;  // Сезон, определенный по уличной температуре (null - еще не определен)
+	switchedAt: string | null;  // Время последнего переключения
+}
+
+// Переключение сезона по уличной температуре (событие season.switched)
+export interface SeasonSwitch {
+	previousSeason: SeasonMode | null;
+	season: SeasonMode;
+	source: 'outdoor';
+	switchedAt: string;
+	dailyMeans: OutdoorDailyMean[];  // Среднесуточные значения, по которым принято решение
+}
+
+export interface SeasonInfo {
+	calendar: SeasonPeriod[];
+	calendarSeason: SeasonMode;            // Сезон по календарю на текущую дату
+	forcedSeason: SeasonMode | null;       // Принудительный сезон для всего объекта
+	outdoor: SeasonOutdoorInfo;            // Переключение сезона по уличной температуре
+	activeSeason: SeasonMode;              // Действующий сезон (без учета переопределений ШУК)
+	source: Exclude<SeasonSource, 'override'>;
+	overrides: Record<string, SeasonMode>; // Переопределения сезона для отдельных ШУК
+}
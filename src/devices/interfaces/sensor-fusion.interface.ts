@@ -0,0 +1,26 @@
+// Объединение показаний нескольких датчиков зоны в одну температуру
+export type SensorFusionPolicy = 'mean' | 'median' | 'min' | 'weighted';
+
+export const SENSOR_FUSION_POLICIES: SensorFusionPolicy[] = ['mean', 'median', 'min', 'weighted'];
+
+export interface SensorFusionSettings {
+	policy: SensorFusionPolicy;
+	outlierThreshold: number;          // Отклонение от медианы, при котором датчик исключается (°C)
+	weights?: Record<string, number>;  // Веса датчиков для политики 'weighted' (по умолчанию 1)
+}
+
+// Почему показание датчика не участвует в расчете
+export type SensorExclusionReason = 'no_data' | 'stale' | 'error' | 'outlier';
+
+export interface SensorReading {
+	id: string;                        // Идентификатор датчика (топик или адрес)
+	temperature: number | null;
+	updatedAt: string | null;
+	excluded: SensorExclusionReason | null;
+}
+
+export interface FusedTemperature {
+	temperature: number | null;        // null - нет ни одного пригодного показания
+	policy: SensorFusionPolicy;
+	sensors: SensorReading[];
+}
@@ -21,9 +21,22 @@ export interface TemperatureSensorConfig {
 	deviceName: string;
 	sensorModule: string;
 	deviceRealName: string;
+	location?: string;
+	staleTimeout?: number;  // Через сколько секунд без показаний датчик считается недоступным (по умолчанию 600)
 	topics: {
 		TEMPERATURE: string;
 		HUMIDITY?: string;
 		PRESSURE?: string;
 	};
 }
+
+export type TemperatureSensorConfigSource = 'config' | 'database';
+
+export interface TemperatureSensorState {
+	sensorId: string;
+	config: TemperatureSensorConfig;
+	configSource: TemperatureSensorConfigSource;  // Датчик из temperature-sensor.config.ts или добавлен через API
+	isOnline: boolean;                            // Есть свежие показания температуры и нет ошибки опроса
+	error: string | null;                         // Ошибка опроса контрола температуры Wiren Board (meta/error)
+	data: TemperatureSensorData | null;           // Последние показания (null - показаний еще не было)
+}
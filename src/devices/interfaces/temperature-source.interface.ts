@@ -0,0 +1,53 @@
+// Откуда устройство берет температуру вместо жестко заданных топиков датчиков:
+// dht - датчик из общего реестра датчиков, modbus - регистр внешнего устройства Modbus TCP,
+// mqtt - произвольный топик (в том числе JSON с вложенным значением)
+export type TemperatureSourceType = 'dht' | 'modbus' | 'mqtt';
+
+export const TEMPERATURE_SOURCE_TYPES: TemperatureSourceType[] = ['dht', 'modbus', 'mqtt'];
+
+export interface TemperatureSourceRef {
+	type: TemperatureSourceType;
+	sourceId: string;  // Для dht - ID датчика в реестре, для modbus и mqtt - ID источника в temperature-source.config.ts
+}
+
+export interface MqttTemperatureSourceConfig {
+	broker: string;
+	topic: string;
+	jsonPath?: string;  // Путь к значению в JSON через точку (например: 'data.temperature' или 'sensors.0.value')
+	scale?: number;     // Множитель значения (по умолчанию 1)
+}
+
+export type ModbusRegisterType = 'holding' | 'input';
+
+export type ModbusTemperatureDataType = 'int16' | 'uint16' | 'float32';
+
+export interface ModbusTemperatureSourceConfig {
+	host: string;
+	port?: number;                       // По умолчанию 502
+	unitId?: number;                     // Адрес устройства (по умолчанию 1)
+	register: number;                    // Адрес первого регистра (с нуля)
+	registerType?: ModbusRegisterType;   // По умолчанию 'holding'
+	dataType?: ModbusTemperatureDataType; // По умолчанию 'int16'; float32 - два регистра, старшее слово первым
+	scale?: number;                      // Множитель значения (например 0.1 для температуры в десятых долях)
+	pollInterval?: number;               // Период опроса (сек, по умолчанию 10)
+	timeout?: number;                    // Таймаут ответа (мс, по умолчанию 2000)
+}
+
+export interface TemperatureSourceReading {
+	type: TemperatureSourceType;
+	sourceId: string;
+	temperature: number | null;  // Последнее показание (null - показаний еще не было)
+	updatedAt: string | null;
+	error: string | null;        // Ошибка чтения источника (null - ошибок нет)
+}
+
+export interface TemperatureSourceListener {
+	onReading(temperature: number): void;
+	onError(error: string | null): void;  // null - ошибка снята
+}
+
+export interface TemperatureSourceProvider {
+	readonly type: TemperatureSourceType;
+	start(): void;
+	stop(): void;
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, Put, Body } from '@nestjs/common';
+import { OutdoorTemperatureService } from './outdoor-temperature.service';
+
+@Controller('outdoor-temperature')
+export class OutdoorTemperatureController {
+	constructor(private readonly outdoorTemperatureService: OutdoorTemperatureService) {}
+
+	@Get()
+	getState() {
+		return { success: true, data: this.outdoorTemperatureService.getState() };
+	}
+
+	@Put('config')
+	async setConfig(@Body() body: { topic?: string | null; staleTimeout?: number }) {
+		try {
+			if (!(await this.outdoorTemperatureService.setConfig({ topic: body.topic, staleTimeout: body.staleTimeout }))) {
+				return { success: false, message: `Invalid stale timeout: ${body.staleTimeout}` };
+			}
+			return { success: true, message: 'Outdoor temperature sensor config updated', data: this.outdoorTemperatureService.getState() };
+		} catch (error) {
+			return { success: false, message: `Error updating outdoor temperature config: ${error.message}` };
+		}
+	}
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { OutdoorTemperatureService } from './outdoor-temperature.service';
+import { OutdoorTemperatureController } from './outdoor-temperature.controller';
+import { MqttModule } from '../../mqtt/mqtt.module';
+import { DatabaseModule } from '../../database/database.module';
+
+@Module({
+	imports: [MqttModule, DatabaseModule],
+	controllers: [OutdoorTemperatureController],
+	providers: [OutdoorTemperatureService],
+	exports: [OutdoorTemperatureService],
+})
+export class OutdoorTemperatureModule {}
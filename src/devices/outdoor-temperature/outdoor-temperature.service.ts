@@ -0,0 +1,209 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MqttService } from '../../mqtt/mqtt.service';
+import { DatabaseService } from '../../database/database.service';
+import {
+	OutdoorDailyMean,
+	OutdoorTemperatureConfig,
+	OutdoorTemperatureState,
+} from '../interfaces/outdoor-temperature.interface';
+
+const CONFIG_SETTING_KEY = 'outdoor_temperature_config';
+const HISTORY_SETTING_KEY = 'outdoor_temperature_history';
+const HISTORY_DAYS = 30;
+const ROLLOVER_CHECK_INTERVAL = 60 * 1000; // Проверка смены суток раз в минуту
+
+const DEFAULT_CONFIG: OutdoorTemperatureConfig = {
+	broker: 'sensors',
+	topic: process.env.OUTDOOR_TEMPERATURE_TOPIC || null,
+	staleTimeout: 15 * 60,
+};
+
+interface DayAccumulator {
+	date: string;
+	sum: number;
+	count: number;
+}
+
+/**
+ * Уличная температура с настраиваемого MQTT датчика
+ * Хранит последнее показание и среднесуточные значения за последние дни
+ */
+@Injectable()
+export class OutdoorTemperatureService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(OutdoorTemperatureService.name);
+	private config: OutdoorTemperatureConfig = { ...DEFAULT_CONFIG };
+	private temperature: number | null = null;
+	private updatedAt: number | null = null;
+	private today: DayAccumulator = { date: this.toDateKey(new Date()), sum: 0, count: 0 };
+	private dailyMeans: OutdoorDailyMean[] = [];
+	private rolloverInterval: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly mqttService: MqttService,
+		private readonly databaseService: DatabaseService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async onModuleInit() {
+		await this.loadSettingsFromDatabase();
+
+		this.eventEmitter.on(`mqtt.${this.config.broker}.message`, (data: { topic: string; message: any }) => {
+			if (!this.config.topic || data.topic !== this.config.topic) return;
+
+			const temperature = parseFloat(String(data.message));
+			if (isNaN(temperature)) {
+				this.logger.warn(`❌ Invalid outdoor temperature: ${data.message}`);
+				return;
+			}
+			this.updateTemperature(temperature);
+		});
+
+		this.eventEmitter.on(`mqtt.${this.config.broker}.connected`, () => this.subscribe());
+		this.subscribe();
+
+		this.rolloverInterval = setInterval(() => this.checkDayRollover(), ROLLOVER_CHECK_INTERVAL);
+
+		this.logger.log(`Outdoor Temperature Service initialized: topic=${this.config.topic ?? 'not configured'}`);
+	}
+
+	async onModuleDestroy() {
+		if (this.rolloverInterval) {
+			clearInterval(this.rolloverInterval);
+		}
+		await this.saveHistory();
+	}
+
+	private async loadSettingsFromDatabase() {
+		try {
+			const configStr = await this.databaseService.getSystemSetting(CONFIG_SETTING_KEY);
+			if (configStr) {
+				this.config = { ...DEFAULT_CONFIG, ...JSON.parse(configStr) };
+			}
+
+			const historyStr = await this.databaseService.getSystemSetting(HISTORY_SETTING_KEY);
+			if (historyStr) {
+				const history = JSON.parse(historyStr) as { dailyMeans?: OutdoorDailyMean[]; today?: DayAccumulator };
+				this.dailyMeans = history.dailyMeans ?? [];
+				if (history.today) {
+					this.today = history.today;
+				}
+				this.checkDayRollover();
+			}
+		} catch (error) {
+			this.logger.error('Ошибка загрузки настроек уличного датчика из базы данных:', error);
+		}
+	}
+
+	private subscribe() {
+		if (!this.config.topic) return;
+		try {
+			this.logger.log(`🌡️ Subscribing to outdoor temperature sensor: ${this.config.topic}`);
+			this.mqttService.subscribe(this.config.broker, this.config.topic);
+		} catch (err: unknown) {
+			const error = err as Error;
+			this.logger.error(`Ошибка подписки на уличный датчик: ${error.message}`);
+		}
+	}
+
+	private updateTemperature(temperature: number) {
+		this.checkDayRollover();
+
+		this.temperature = temperature;
+		this.updatedAt = Date.now();
+		this.today.sum += temperature;
+		this.today.count++;
+
+		this.logger.debug(`Outdoor temperature updated: ${temperature}°C`);
+		this.eventEmitter.emit('outdoor.temperature.updated', { temperature });
+	}
+
+	// При смене суток фиксируем среднесуточное значение
+	private checkDayRollover() {
+		const date = this.toDateKey(new Date());
+		if (this.today.date === date) return;
+
+		const completed = this.today;
+		this.today = { date, sum: 0, count: 0 };
+
+		if (completed.count > 0) {
+			const dailyMean: OutdoorDailyMean = {
+				date: completed.date,
+				mean: Number((completed.sum / completed.count).toFixed(2)),
+				samples: completed.count,
+			};
+			this.dailyMeans = [...this.dailyMeans.filter(day => day.date !== dailyMean.date), dailyMean].slice(-HISTORY_DAYS);
+
+			this.logger.log(`🌡️ Outdoor daily mean for ${dailyMean.date}: ${dailyMean.mean}°C (${dailyMean.samples} samples)`);
+			this.eventEmitter.emit('outdoor.temperature.daily', dailyMean);
+		}
+
+		this.saveHistory();
+	}
+
+	private async saveHistory() {
+		try {
+			await this.databaseService.setSystemSetting(
+				HISTORY_SETTING_KEY,
+				JSON.stringify({ dailyMeans: this.dailyMeans, today: this.today }),
+				'Среднесуточная уличная температура',
+			);
+		} catch (error) {
+			this.logger.error('Failed to save outdoor temperature history to database:', error);
+		}
+	}
+
+	// Текущая уличная температура или null, если датчик не настроен или данные устарели
+	getTemperature(): number | null {
+		return this.isStale() ? null : this.temperature;
+	}
+
+	isStale(): boolean {
+		return this.updatedAt === null || Date.now() - this.updatedAt > this.config.staleTimeout * 1000;
+	}
+
+	// Среднесуточные значения за последние дни (от старых к новым)
+	getDailyMeans(): OutdoorDailyMean[] {
+		return this.dailyMeans.map(day => ({ ...day }));
+	}
+
+	getState(): OutdoorTemperatureState {
+		return {
+			config: { ...this.config },
+			temperature: this.temperature,
+			updatedAt: this.updatedAt !== null ? new Date(this.updatedAt).toISOString() : null,
+			isStale: this.isStale(),
+			todayMean: this.today.count > 0 ? Number((this.today.sum / this.today.count).toFixed(2)) : null,
+			dailyMeans: this.getDailyMeans(),
+		};
+	}
+
+	async setConfig(config: Partial<Pick<OutdoorTemperatureConfig, 'topic' | 'staleTimeout'>>): Promise<boolean> {
+		if (config.staleTimeout !== undefined && (isNaN(config.staleTimeout) || config.staleTimeout <= 0)) {
+			return false;
+		}
+
+		const previousTopic = this.config.topic;
+		if (config.topic !== undefined) this.config.topic = config.topic || null;
+		if (config.staleTimeout !== undefined) this.config.staleTimeout = config.staleTimeout;
+
+		if (previousTopic !== this.config.topic) {
+			if (previousTopic) {
+				this.mqttService.unsubscribe(previousTopic, this.config.broker);
+			}
+			this.temperature = null;
+			this.updatedAt = null;
+			this.subscribe();
+		}
+
+		await this.databaseService.setSystemSetting(CONFIG_SETTING_KEY, JSON.stringify(this.config), 'Уличный датчик температуры');
+		this.logger.log(`Outdoor temperature sensor config updated: ${JSON.stringify(this.config)}`);
+		return true;
+	}
+
+	private toDateKey(date: Date): string {
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+}
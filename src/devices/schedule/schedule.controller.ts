@@ -0,0 +1,108 @@
+import { Controller, Get, Post, Put, Delete, Body, Param } from '@nestjs/common';
+import { ScheduleService } from './schedule.service';
+import { SetpointScheduleInput } from '../interfaces/schedule.interface';
+
+@Controller('schedules')
+export class ScheduleController {
+	constructor(private readonly scheduleService: ScheduleService) {}
+
+	@Get()
+	getSchedules() {
+		return { success: true, data: this.scheduleService.getSchedules() };
+	}
+
+	@Get('devices')
+	getDeviceStates() {
+		return { success: true, data: this.scheduleService.getDeviceStates() };
+	}
+
+	@Get('devices/:deviceId')
+	getDeviceState(@Param('deviceId') deviceId: string) {
+		const state = this.scheduleService.getDeviceState(deviceId);
+		if (!state) {
+			return { success: false, message: 'Device not found' };
+		}
+		return { success: true, data: state };
+	}
+
+	@Put('devices/:deviceId')
+	async assignSchedule(@Param('deviceId') deviceId: string, @Body() body: { scheduleId: number | null }) {
+		try {
+			const scheduleId = body.scheduleId ?? null;
+			if (!(await this.scheduleService.assignSchedule(deviceId, scheduleId))) {
+				return { success: false, message: 'Device or schedule not found' };
+			}
+			return {
+				success: true,
+				message: `Schedule for ${deviceId} set to ${scheduleId ?? 'none'}`,
+				data: this.scheduleService.getDeviceState(deviceId),
+			};
+		} catch (error) {
+			return { success: false, message: `Error assigning schedule: ${error.message}` };
+		}
+	}
+
+	@Post('devices/:deviceId/resume')
+	async resumeSchedule(@Param('deviceId') deviceId: string) {
+		try {
+			if (!(await this.scheduleService.resumeSchedule(deviceId))) {
+				return { success: false, message: 'No schedule assigned to device' };
+			}
+			return { success: true, message: `Schedule resumed for ${deviceId}`, data: this.scheduleService.getDeviceState(deviceId) };
+		} catch (error) {
+			return { success: false, message: `Error resuming schedule: ${error.message}` };
+		}
+	}
+
+	@Get(':id')
+	getSchedule(@Param('id') id: string) {
+		const schedule = this.scheduleService.getSchedule(parseInt(id, 10));
+		if (!schedule) {
+			return { success: false, message: 'Schedule not found' };
+		}
+		return { success: true, data: schedule };
+	}
+
+	@Post()
+	async createSchedule(@Body() body: SetpointScheduleInput) {
+		try {
+			const error = this.scheduleService.validateSchedule(body);
+			if (error) {
+				return { success: false, message: `Invalid schedule: ${error}` };
+			}
+			const schedule = await this.scheduleService.createSchedule(body);
+			return { success: true, message: 'Schedule created', data: schedule };
+		} catch (error) {
+			return { success: false, message: `Error creating schedule: ${error.message}` };
+		}
+	}
+
+	@Put(':id')
+	async updateSchedule(@Param('id') id: string, @Body() body: SetpointScheduleInput) {
+		try {
+			const error = this.scheduleService.validateSchedule(body);
+			if (error) {
+				return { success: false, message: `Invalid schedule: ${error}` };
+			}
+			const schedule = await this.scheduleService.updateSchedule(parseInt(id, 10), body);
+			if (!schedule) {
+				return { success: false, message: 'Schedule not found' };
+			}
+			return { success: true, message: 'Schedule updated', data: schedule };
+		} catch (error) {
+			return { success: false, message: `Error updating schedule: ${error.message}` };
+		}
+	}
+
+	@Delete(':id')
+	async deleteSchedule(@Param('id') id: string) {
+		try {
+			if (!(await this.scheduleService.deleteSchedule(parseInt(id, 10)))) {
+				return { success: false, message: 'Schedule not found' };
+			}
+			return { success: true, message: 'Schedule deleted' };
+		} catch (error) {
+			return { success: false, message: `Error deleting schedule: ${error.message}` };
+		}
+	}
+}
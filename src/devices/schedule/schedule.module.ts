@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ScheduleService } from './schedule.service';
+import { ScheduleController } from './schedule.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { HeatingModule } from '../heating/heating.module';
+import { BatteriesModule } from '../batteries/batteries.module';
+import { HolidayModule } from '../holiday/holiday.module';
+
+@Module({
+	imports: [DatabaseModule, HeatingModule, BatteriesModule, HolidayModule],
+	controllers: [ScheduleController],
+	providers: [ScheduleService],
+	exports: [ScheduleService],
+})
+export class ScheduleModule {}
@@ -0,0 +1,421 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabaseService } from '../../database/database.service';
+import { HeatingService } from '../heating/heating.service';
+import { BatteriesService } from '../batteries/batteries.service';
+import { HolidayService } from '../holiday/holiday.service';
+import { heatingConfigs } from '../heating/heating.config';
+import { batteriesConfigs } from '../batteries/batteries.config';
+import {
+	ScheduleDeviceState,
+	SetpointSchedule,
+	SetpointScheduleInput,
+} from '../interfaces/schedule.interface';
+import { getNextSwitchPoint, getSetpointAt, normalizePeriods, validateSchedule } from './schedule.utils';
+
+const SCHEDULE_SETTING_KEY = 'schedule_id';
+const OVERRIDE_SETTING_KEY = 'schedule_override_until';
+const RESTORE_SETTING_KEY = 'holiday_restore_setpoint';
+const SCHEDULER_INTERVAL = 30 * 1000; // Проверка программ каждые 30 секунд
+
+/**
+ * Недельные программы уставок для ШУК и ШУОП
+ * Программы хранятся в таблице setpoint_schedules, назначения - в heating_settings.
+ * Ручное изменение уставки действует до ближайшей точки переключения программы.
+ * В праздничные дни уставка берется из праздничного профиля устройства (HolidayService).
+ */
+@Injectable()
+export class ScheduleService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(ScheduleService.name);
+	private schedules: Map<number, SetpointSchedule> = new Map();
+	private assignments: Record<string, number> = {};
+	private overrides: Record<string, Date> = {};
+	private restoreSetpoints: Record<string, number> = {}; // Уставки устройств без программы, действовавшие до праздника
+	private applying: Set<string> = new Set(); // Устройства, уставку которых сейчас меняет планировщик
+	private schedulerInterval: NodeJS.Timeout | null = null;
+	private readonly getWeekday = (date: Date) => this.holidayService.getEffectiveWeekday(date);
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly heatingService: HeatingService,
+		private readonly batteriesService: BatteriesService,
+		private readonly holidayService: HolidayService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async onModuleInit() {
+		await this.loadFromDatabase();
+
+		// Изменение уставки не планировщиком (REST, WebSocket, Modbus) - временное переопределение программы
+		this.eventEmitter.on('heating.setpoint.changed', (data: { heatingId: string; temperature: number }) =>
+			this.handleManualSetpoint(data.heatingId, data.temperature),
+		);
+		this.eventEmitter.on('batteries.setpoint.changed', (data: { deviceId: string; temperature: number }) =>
+			this.handleManualSetpoint(data.deviceId, data.temperature),
+		);
+		this.eventEmitter.on('holiday.calendar.changed', () => this.applySchedules());
+
+		this.schedulerInterval = setInterval(() => this.applySchedules(), SCHEDULER_INTERVAL);
+		await this.applySchedules();
+
+		this.logger.log(`Schedule Service initialized: ${this.schedules.size} schedules, ${Object.keys(this.assignments).length} assigned devices`);
+	}
+
+	onModuleDestroy() {
+		if (this.schedulerInterval) {
+			clearInterval(this.schedulerInterval);
+		}
+	}
+
+	private async loadFromDatabase() {
+		try {
+			const rows = await this.databaseService.query(
+				'SELECT id, name, default_setpoint, periods, created_at, updated_at FROM setpoint_schedules ORDER BY id',
+			);
+			rows.forEach(row => {
+				const schedule = this.fromRow(row);
+				this.schedules.set(schedule.id, schedule);
+			});
+
+			const assignments = await this.databaseService.getHeatingSettingsByKey(SCHEDULE_SETTING_KEY);
+			Object.entries(assignments).forEach(([deviceId, value]) => {
+				const scheduleId = parseInt(value, 10);
+				if (this.getDeviceType(deviceId) && this.schedules.has(scheduleId)) {
+					this.assignments[deviceId] = scheduleId;
+				}
+			});
+
+			const overrides = await this.databaseService.getHeatingSettingsByKey(OVERRIDE_SETTING_KEY);
+			Object.entries(overrides).forEach(([deviceId, value]) => {
+				const until = value ? new Date(value) : null;
+				if (this.getDeviceType(deviceId) && until && !isNaN(until.getTime())) {
+					this.overrides[deviceId] = until;
+				}
+			});
+
+			const restoreSetpoints = await this.databaseService.getHeatingSettingsByKey(RESTORE_SETTING_KEY);
+			Object.entries(restoreSetpoints).forEach(([deviceId, value]) => {
+				const setpoint = parseFloat(value);
+				if (this.getDeviceType(deviceId) && !isNaN(setpoint)) {
+					this.restoreSetpoints[deviceId] = setpoint;
+				}
+			});
+		} catch (error) {
+			this.logger.error('Ошибка загрузки программ уставок из базы данных:', error);
+		}
+	}
+
+	// ========== Программы ==========
+
+	getSchedules(): SetpointSchedule[] {
+		return Array.from(this.schedules.values()).map(schedule => this.copySchedule(schedule));
+	}
+
+	getSchedule(id: number): SetpointSchedule | null {
+		const schedule = this.schedules.get(id);
+		return schedule ? this.copySchedule(schedule) : null;
+	}
+
+	async createSchedule(input: SetpointScheduleInput): Promise<SetpointSchedule | null> {
+		const error = validateSchedule(input);
+		if (error) {
+			this.logger.warn(`Invalid schedule: ${error}`);
+			return null;
+		}
+
+		const rows = await this.databaseService.query(
+			`INSERT INTO setpoint_schedules (name, default_setpoint, periods)
+			VALUES ($1, $2, $3)
+			RETURNING id, name, default_setpoint, periods, created_at, updated_at`,
+			[input.name.trim(), input.defaultSetpoint, JSON.stringify(normalizePeriods(input.periods))],
+		);
+		const schedule = this.fromRow(rows[0]);
+		this.schedules.set(schedule.id, schedule);
+
+		this.logger.log(`📅 Schedule created: #${schedule.id} "${schedule.name}"`);
+		return this.copySchedule(schedule);
+	}
+
+	async updateSchedule(id: number, input: SetpointScheduleInput): Promise<SetpointSchedule | null> {
+		if (!this.schedules.has(id)) return null;
+
+		const error = validateSchedule(input);
+		if (error) {
+			this.logger.warn(`Invalid schedule #${id}: ${error}`);
+			return null;
+		}
+
+		const rows = await this.databaseService.query(
+			`UPDATE setpoint_schedules
+			SET name = $2, default_setpoint = $3, periods = $4, updated_at = NOW()
+			WHERE id = $1
+			RETURNING id, name, default_setpoint, periods, created_at, updated_at`,
+			[id, input.name.trim(), input.defaultSetpoint, JSON.stringify(normalizePeriods(input.periods))],
+		);
+		const schedule = this.fromRow(rows[0]);
+		this.schedules.set(schedule.id, schedule);
+
+		this.logger.log(`📅 Schedule updated: #${schedule.id} "${schedule.name}"`);
+
+		// Переопределения заканчиваются по точкам переключения новой программы
+		for (const deviceId of this.getAssignedDevices(id)) {
+			if (this.overrides[deviceId]) {
+				await this.setOverride(deviceId, this.getDeviceNextSwitchPoint(deviceId, new Date()));
+			}
+		}
+		await this.applySchedules();
+		return this.copySchedule(schedule);
+	}
+
+	async deleteSchedule(id: number): Promise<boolean> {
+		if (!this.schedules.has(id)) return false;
+
+		// Устройства с удаляемой программой остаются на текущей уставке
+		for (const deviceId of this.getAssignedDevices(id)) {
+			await this.assignSchedule(deviceId, null);
+		}
+
+		await this.databaseService.query('DELETE FROM setpoint_schedules WHERE id = $1', [id]);
+		this.schedules.delete(id);
+
+		this.logger.log(`📅 Schedule deleted: #${id}`);
+		return true;
+	}
+
+	// ========== Назначение программ устройствам ==========
+
+	async assignSchedule(deviceId: string, scheduleId: number | null): Promise<boolean> {
+		if (!this.getDeviceType(deviceId)) return false;
+		if (scheduleId !== null && !this.schedules.has(scheduleId)) return false;
+
+		if (scheduleId !== null) {
+			this.assignments[deviceId] = scheduleId;
+		} else {
+			delete this.assignments[deviceId];
+		}
+		await this.databaseService.setHeatingSetting(deviceId, SCHEDULE_SETTING_KEY, scheduleId !== null ? String(scheduleId) : '');
+		await this.setOverride(deviceId, null);
+		if (scheduleId !== null) {
+			// После праздника уставку задаст программа
+			await this.setRestoreSetpoint(deviceId, null);
+		}
+
+		this.logger.log(`📅 Schedule for ${deviceId} set to: ${scheduleId !== null ? `#${scheduleId}` : 'none'}`);
+		await this.applySchedules();
+		this.emitDeviceUpdated(deviceId);
+		return true;
+	}
+
+	// Отменить ручную уставку и вернуться к программе
+	async resumeSchedule(deviceId: string): Promise<boolean> {
+		if (!this.overrides[deviceId]) return false;
+
+		await this.setOverride(deviceId, null);
+		await this.applySchedules();
+		this.emitDeviceUpdated(deviceId);
+		return true;
+	}
+
+	getDeviceState(deviceId: string, now = new Date()): ScheduleDeviceState | null {
+		const deviceType = this.getDeviceType(deviceId);
+		if (!deviceType) return null;
+
+		const scheduledSetpoint = this.getProgramSetpoint(deviceId, now);
+		const nextSwitchAt = scheduledSetpoint !== null ? this.getDeviceNextSwitchPoint(deviceId, now) : null;
+
+		return {
+			deviceId,
+			deviceType,
+			scheduleId: this.assignments[deviceId] ?? null,
+			holidayProfile: this.holidayService.getDeviceProfiles()[deviceId] ?? null,
+			isHoliday: this.holidayService.getHolidaySetpoint(deviceId, now) !== null,
+			scheduledSetpoint,
+			nextSwitchAt: nextSwitchAt ? nextSwitchAt.toISOString() : null,
+			overrideUntil: this.overrides[deviceId] ? this.overrides[deviceId].toISOString() : null,
+		};
+	}
+
+	getDeviceStates(): ScheduleDeviceState[] {
+		return [...Object.keys(heatingConfigs), ...Object.keys(batteriesConfigs)]
+			.map(deviceId => this.getDeviceState(deviceId))
+			.filter((state): state is ScheduleDeviceState => state !== null);
+	}
+
+	// ========== Планировщик ==========
+
+	private async applySchedules(now = new Date()) {
+		try {
+			const deviceIds = new Set([...Object.keys(this.assignments), ...Object.keys(this.holidayService.getDeviceProfiles())]);
+
+			for (const deviceId of deviceIds) {
+				const override = this.overrides[deviceId];
+				if (override) {
+					if (now < override) continue;
+					this.logger.log(`📅 Manual setpoint override for ${deviceId} expired, returning to schedule`);
+					await this.setOverride(deviceId, null);
+					this.emitDeviceUpdated(deviceId);
+				}
+
+				const setpoint = await this.resolveTargetSetpoint(deviceId, now);
+				if (setpoint !== null && this.getCurrentSetpoint(deviceId) !== setpoint) {
+					await this.applySetpoint(deviceId, setpoint);
+				}
+			}
+		} catch (error) {
+			this.logger.error('Ошибка применения программ уставок:', error);
+		}
+	}
+
+	// Уставка, которую должен поддерживать планировщик: праздничный профиль > программа > уставка до праздника
+	private async resolveTargetSetpoint(deviceId: string, now: Date): Promise<number | null> {
+		const schedule = this.schedules.get(this.assignments[deviceId]);
+		const holidaySetpoint = this.holidayService.getHolidaySetpoint(deviceId, now);
+
+		if (holidaySetpoint !== null) {
+			// У устройства без программы запоминаем обычную уставку, чтобы вернуть ее после праздника
+			const currentSetpoint = this.getCurrentSetpoint(deviceId);
+			if (!schedule && this.restoreSetpoints[deviceId] === undefined && currentSetpoint !== undefined) {
+				await this.setRestoreSetpoint(deviceId, currentSetpoint);
+			}
+			return holidaySetpoint;
+		}
+
+		if (schedule) {
+			return getSetpointAt(schedule, now, this.getWeekday);
+		}
+
+		const restoreSetpoint = this.restoreSetpoints[deviceId];
+		if (restoreSetpoint !== undefined) {
+			await this.setRestoreSetpoint(deviceId, null);
+			return restoreSetpoint;
+		}
+		return null;
+	}
+
+	// Уставка по программе или праздничному профилю (null - устройство сейчас не управляется планировщиком)
+	private getProgramSetpoint(deviceId: string, now: Date): number | null {
+		const holidaySetpoint = this.holidayService.getHolidaySetpoint(deviceId, now);
+		if (holidaySetpoint !== null) return holidaySetpoint;
+
+		const schedule = this.schedules.get(this.assignments[deviceId]);
+		return schedule ? getSetpointAt(schedule, now, this.getWeekday) : null;
+	}
+
+	private async applySetpoint(deviceId: string, setpoint: number) {
+		this.applying.add(deviceId);
+		try {
+			if (this.getDeviceType(deviceId) === 'heating') {
+				await this.heatingService.setTemperature(deviceId, setpoint);
+			} else {
+				await this.batteriesService.setTemperature(deviceId, setpoint);
+			}
+			this.logger.log(`📅 Scheduler: ${deviceId} setpoint -> ${setpoint}°C`);
+		} catch (error) {
+			this.logger.error(`Failed to apply scheduled setpoint for ${deviceId}:`, error);
+		} finally {
+			this.applying.delete(deviceId);
+		}
+		this.emitDeviceUpdated(deviceId);
+	}
+
+	private async handleManualSetpoint(deviceId: string, temperature: number) {
+		if (this.applying.has(deviceId)) return;
+
+		const now = new Date();
+		const programSetpoint = this.getProgramSetpoint(deviceId, now);
+		if (programSetpoint === null) return;
+
+		try {
+			if (temperature === programSetpoint) {
+				// Уставка совпала с программой - переопределение не нужно
+				await this.setOverride(deviceId, null);
+			} else {
+				const until = this.getDeviceNextSwitchPoint(deviceId, now);
+				await this.setOverride(deviceId, until);
+				this.logger.log(`📅 Manual setpoint ${temperature}°C for ${deviceId} overrides schedule until ${until.toISOString()}`);
+			}
+		} catch (error) {
+			this.logger.error(`Failed to save schedule override for ${deviceId}:`, error);
+		}
+		this.emitDeviceUpdated(deviceId);
+	}
+
+	private async setRestoreSetpoint(deviceId: string, setpoint: number | null) {
+		if (setpoint !== null) {
+			this.restoreSetpoints[deviceId] = setpoint;
+		} else {
+			if (this.restoreSetpoints[deviceId] === undefined) return;
+			delete this.restoreSetpoints[deviceId];
+		}
+		await this.databaseService.setHeatingSetting(deviceId, RESTORE_SETTING_KEY, setpoint !== null ? String(setpoint) : '');
+	}
+
+	private async setOverride(deviceId: string, until: Date | null) {
+		if (until) {
+			this.overrides[deviceId] = until;
+		} else {
+			if (!this.overrides[deviceId]) return;
+			delete this.overrides[deviceId];
+		}
+		await this.databaseService.setHeatingSetting(deviceId, OVERRIDE_SETTING_KEY, until ? until.toISOString() : '');
+	}
+
+	// Ближайшая точка переключения для устройства с учетом границ праздничных дней
+	private getDeviceNextSwitchPoint(deviceId: string, from: Date): Date {
+		const midnight = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1);
+		const schedule = this.schedules.get(this.assignments[deviceId]);
+		const holidayToday = this.holidayService.getHolidaySetpoint(deviceId, from) !== null;
+		const holidayTomorrow = this.holidayService.getHolidaySetpoint(deviceId, midnight) !== null;
+
+		if (holidayToday || !schedule) {
+			return midnight;
+		}
+		const next = getNextSwitchPoint(schedule, from, this.getWeekday);
+		return holidayTomorrow && midnight < next ? midnight : next;
+	}
+
+	// ========== Вспомогательные методы ==========
+
+	validateSchedule(input: SetpointScheduleInput): string | null {
+		return validateSchedule(input);
+	}
+
+	private getDeviceType(deviceId: string): 'heating' | 'batteries' | null {
+		if (heatingConfigs[deviceId]) return 'heating';
+		if (batteriesConfigs[deviceId]) return 'batteries';
+		return null;
+	}
+
+	private getCurrentSetpoint(deviceId: string): number | undefined {
+		const state = this.getDeviceType(deviceId) === 'heating'
+			? this.heatingService.getState(deviceId)
+			: this.batteriesService.getState(deviceId);
+		return state?.setpointTemperature;
+	}
+
+	private getAssignedDevices(scheduleId: number): string[] {
+		return Object.keys(this.assignments).filter(deviceId => this.assignments[deviceId] === scheduleId);
+	}
+
+	private emitDeviceUpdated(deviceId: string) {
+		this.eventEmitter.emit('schedule.device.updated', this.getDeviceState(deviceId));
+	}
+
+	private fromRow(row: any): SetpointSchedule {
+		return {
+			id: row.id,
+			name: row.name,
+			defaultSetpoint: Number(row.default_setpoint),
+			periods: row.periods ?? [],
+			createdAt: row.created_at?.toISOString(),
+			updatedAt: row.updated_at?.toISOString(),
+		};
+	}
+
+	private copySchedule(schedule: SetpointSchedule): SetpointSchedule {
+		return {
+			...schedule,
+			periods: schedule.periods.map(period => ({ ...period, days: [...period.days] })),
+		};
+	}
+}
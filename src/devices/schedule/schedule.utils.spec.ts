@@ -0,0 +1,122 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { getNextSwitchPoint, getSetpointAt, validateSchedule } from './schedule.utils';
+import { HolidayService } from '../holiday/holiday.service';
+import { DatabaseService } from '../../database/database.service';
+import { SetpointSchedule } from '../interfaces/schedule.interface';
+
+// Рабочие дни 08:00-18:00 - 21°C, суббота 10:00-14:00 - 19°C, остальное время - 16°C
+const schedule: SetpointSchedule = {
+	id: 1,
+	name: 'Офис',
+	defaultSetpoint: 16,
+	periods: [
+		{ days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00', setpoint: 21 },
+		{ days: [6], start: '10:00', end: '14:00', setpoint: 19 },
+	],
+};
+
+const calendarWeekday = (date: Date) => (date.getDay() === 0 ? 7 : date.getDay());
+
+function createHolidayService(): HolidayService {
+	const databaseService = {
+		transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: jest.fn() }),
+	} as unknown as DatabaseService;
+	const eventEmitter = { emit: jest.fn() } as unknown as EventEmitter2;
+	return new HolidayService(databaseService, eventEmitter);
+}
+
+describe('getSetpointAt', () => {
+	// 2026-10-19 - понедельник
+	it('should use the period setpoint inside the period', () => {
+		expect(getSetpointAt(schedule, new Date(2026, 9, 19, 8, 0), calendarWeekday)).toBe(21);
+		expect(getSetpointAt(schedule, new Date(2026, 9, 24, 12, 30), calendarWeekday)).toBe(19);
+	});
+
+	it('should use the default setpoint outside periods (end is exclusive)', () => {
+		expect(getSetpointAt(schedule, new Date(2026, 9, 19, 7, 59), calendarWeekday)).toBe(16);
+		expect(getSetpointAt(schedule, new Date(2026, 9, 19, 18, 0), calendarWeekday)).toBe(16);
+		expect(getSetpointAt(schedule, new Date(2026, 9, 25, 12, 0), calendarWeekday)).toBe(16);
+	});
+
+	it('should support periods until the end of the day', () => {
+		const night: SetpointSchedule = { ...schedule, periods: [{ days: [1], start: '22:00', end: '24:00', setpoint: 18 }] };
+		expect(getSetpointAt(night, new Date(2026, 9, 19, 23, 59), calendarWeekday)).toBe(18);
+		expect(getSetpointAt(night, new Date(2026, 9, 20, 0, 0), calendarWeekday)).toBe(16);
+	});
+});
+
+describe('getNextSwitchPoint', () => {
+	it('should return the nearest period boundary on the same day', () => {
+		expect(getNextSwitchPoint(schedule, new Date(2026, 9, 19, 7, 0), calendarWeekday)).toEqual(new Date(2026, 9, 19, 8, 0));
+		expect(getNextSwitchPoint(schedule, new Date(2026, 9, 19, 8, 0), calendarWeekday)).toEqual(new Date(2026, 9, 19, 18, 0));
+	});
+
+	it('should look ahead to the following days', () => {
+		// Суббота после 14:00 - следующее переключение в понедельник в 08:00
+		expect(getNextSwitchPoint(schedule, new Date(2026, 9, 24, 15, 0), calendarWeekday)).toEqual(new Date(2026, 9, 26, 8, 0));
+	});
+
+	it('should switch at midnight when the schedule has no periods', () => {
+		const empty: SetpointSchedule = { ...schedule, periods: [] };
+		expect(getNextSwitchPoint(empty, new Date(2026, 9, 19, 15, 0), calendarWeekday)).toEqual(new Date(2026, 9, 20));
+	});
+});
+
+describe('holiday weekday mapping', () => {
+	it('should treat holidays as Sunday and transferred workdays as the given weekday', async () => {
+		const holidayService = createHolidayService();
+		await holidayService.setEntry({ date: '2026-11-04', type: 'holiday', name: 'День народного единства' });
+		await holidayService.setEntry({ date: '2026-10-31', type: 'workday', asWeekday: 3 });
+		await holidayService.setEntry({ date: '2026-11-01', type: 'workday' });
+		const getWeekday = (date: Date) => holidayService.getEffectiveWeekday(date);
+
+		expect(getWeekday(new Date(2026, 10, 4))).toBe(7);
+		expect(getWeekday(new Date(2026, 9, 31))).toBe(3);
+		expect(getWeekday(new Date(2026, 10, 1))).toBe(1);
+		expect(getWeekday(new Date(2026, 10, 5))).toBe(4);
+		expect(getWeekday(new Date(2026, 10, 8))).toBe(7);
+
+		// Праздничная среда - по программе воскресенья, рабочая суббота - по программе среды
+		expect(getSetpointAt(schedule, new Date(2026, 10, 4, 12, 0), getWeekday)).toBe(16);
+		expect(getSetpointAt(schedule, new Date(2026, 9, 31, 12, 0), getWeekday)).toBe(21);
+		expect(getNextSwitchPoint(schedule, new Date(2026, 10, 3, 19, 0), getWeekday)).toEqual(new Date(2026, 10, 5, 8, 0));
+	});
+});
+
+describe('validateSchedule', () => {
+	const input = { name: 'Офис', defaultSetpoint: 16, periods: schedule.periods };
+
+	it('should accept a valid schedule', () => {
+		expect(validateSchedule(input)).toBeNull();
+	});
+
+	it('should validate name and setpoints', () => {
+		expect(validateSchedule({ ...input, name: ' ' })).toContain('name');
+		expect(validateSchedule({ ...input, defaultSetpoint: 40 })).toContain('defaultSetpoint');
+		expect(validateSchedule({ ...input, periods: [{ days: [1], start: '08:00', end: '09:00', setpoint: 2 }] }))
+			.toBe('period 0: setpoint must be between 5 and 35°C');
+	});
+
+	it('should validate days and times', () => {
+		expect(validateSchedule({ ...input, periods: [{ days: [], start: '08:00', end: '09:00', setpoint: 20 }] }))
+			.toBe('period 0: days must be a non-empty array');
+		expect(validateSchedule({ ...input, periods: [{ days: [0], start: '08:00', end: '09:00', setpoint: 20 }] }))
+			.toBe('period 0: days must be 1 (Monday) - 7 (Sunday)');
+		expect(validateSchedule({ ...input, periods: [{ days: [1], start: '8:00', end: '09:00', setpoint: 20 }] }))
+			.toBe('period 0: invalid time (expected HH:MM)');
+		expect(validateSchedule({ ...input, periods: [{ days: [1], start: '24:00', end: '24:00', setpoint: 20 }] }))
+			.toBe('period 0: invalid time (expected HH:MM)');
+		expect(validateSchedule({ ...input, periods: [{ days: [1], start: '10:00', end: '09:00', setpoint: 20 }] }))
+			.toBe('period 0: start must be before end');
+	});
+
+	it('should reject overlapping periods on the same day', () => {
+		expect(validateSchedule({
+			...input,
+			periods: [
+				{ days: [1, 2], start: '08:00', end: '12:00', setpoint: 20 },
+				{ days: [2], start: '11:00', end: '13:00', setpoint: 21 },
+			],
+		})).toBe('periods overlap on day 2');
+	});
+});
@@ -0,0 +1,114 @@
+import { SchedulePeriod, SetpointSchedule, SetpointScheduleInput } from '../interfaces/schedule.interface';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MIN_SETPOINT = 5;
+const MAX_SETPOINT = 35;
+
+// День недели для программ (1 - понедельник ... 7 - воскресенье) с учетом производственного календаря
+export type WeekdayResolver = (date: Date) => number;
+
+// Уставка программы в заданный момент
+export function getSetpointAt(schedule: SetpointSchedule, date: Date, getWeekday: WeekdayResolver): number {
+	const day = getWeekday(date);
+	const minute = date.getHours() * 60 + date.getMinutes();
+
+	const period = schedule.periods.find(
+		p => p.days.includes(day) && parseTime(p.start) <= minute && minute < parseTime(p.end),
+	);
+	return period ? period.setpoint : schedule.defaultSetpoint;
+}
+
+// Ближайшая точка переключения программы после указанного момента;
+// программа без периодов переключается в полночь
+export function getNextSwitchPoint(schedule: SetpointSchedule, from: Date, getWeekday: WeekdayResolver): Date {
+	let next: Date | null = null;
+
+	for (let offset = 0; offset <= 7; offset++) {
+		const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+		const weekday = getWeekday(day);
+
+		for (const period of schedule.periods) {
+			if (!period.days.includes(weekday)) continue;
+
+			for (const time of [period.start, period.end]) {
+				const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, parseTime(time));
+				if (candidate > from && (!next || candidate < next)) {
+					next = candidate;
+				}
+			}
+		}
+		if (next) return next;
+	}
+
+	return new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1);
+}
+
+export function validateSchedule(input: SetpointScheduleInput): string | null {
+	if (!input || typeof input.name !== 'string' || !input.name.trim() || input.name.length > 128) {
+		return 'name must be a non-empty string (max 128 characters)';
+	}
+	if (!isValidSetpoint(input.defaultSetpoint)) {
+		return `defaultSetpoint must be between ${MIN_SETPOINT} and ${MAX_SETPOINT}°C`;
+	}
+	if (!Array.isArray(input.periods)) {
+		return 'periods must be an array';
+	}
+
+	for (const [index, period] of input.periods.entries()) {
+		if (!period || !Array.isArray(period.days) || period.days.length === 0) {
+			return `period ${index}: days must be a non-empty array`;
+		}
+		if (period.days.some(day => !Number.isInteger(day) || day < 1 || day > 7)) {
+			return `period ${index}: days must be 1 (Monday) - 7 (Sunday)`;
+		}
+		const start = parseTime(period.start);
+		const end = parseTime(period.end);
+		if (isNaN(start) || isNaN(end) || start >= MINUTES_PER_DAY) {
+			return `period ${index}: invalid time (expected HH:MM)`;
+		}
+		if (start >= end) {
+			return `period ${index}: start must be before end`;
+		}
+		if (!isValidSetpoint(period.setpoint)) {
+			return `period ${index}: setpoint must be between ${MIN_SETPOINT} and ${MAX_SETPOINT}°C`;
+		}
+	}
+
+	// Периоды одного дня не должны пересекаться
+	for (let day = 1; day <= 7; day++) {
+		const intervals = input.periods
+			.filter(period => period.days.includes(day))
+			.map(period => [parseTime(period.start), parseTime(period.end)])
+			.sort((a, b) => a[0] - b[0]);
+		for (let i = 1; i < intervals.length; i++) {
+			if (intervals[i][0] < intervals[i - 1][1]) {
+				return `periods overlap on day ${day}`;
+			}
+		}
+	}
+	return null;
+}
+
+export function normalizePeriods(periods: SchedulePeriod[]): SchedulePeriod[] {
+	return periods.map(({ days, start, end, setpoint }) => ({
+		days: Array.from(new Set(days)).sort((a, b) => a - b),
+		start,
+		end,
+		setpoint,
+	}));
+}
+
+// HH:MM -> минуты от начала суток (24:00 допустимо только как окончание периода)
+function parseTime(value: string): number {
+	const match = /^(\d{2}):(\d{2})$/.exec(String(value));
+	if (!match) return NaN;
+
+	const hours = parseInt(match[1], 10);
+	const minutes = parseInt(match[2], 10);
+	if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return NaN;
+	return hours * 60 + minutes;
+}
+
+function isValidSetpoint(value: unknown): boolean {
+	return typeof value === 'number' && !isNaN(value) && value >= MIN_SETPOINT && value <= MAX_SETPOINT;
+}
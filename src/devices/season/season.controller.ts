@@ -0,0 +1,67 @@
+import { Controller, Get, Put, Body, Param } from '@nestjs/common';
+import { SeasonService, isSeasonMode } from './season.service';
+import { SeasonMode, SeasonOutdoorConfig, SeasonPeriod } from '../interfaces/season.interface';
+
+@Controller('season')
+export class SeasonController {
+	constructor(private readonly seasonService: SeasonService) {}
+
+	@Get()
+	getSeasonInfo() {
+		return { success: true, data: this.seasonService.getSeasonInfo() };
+	}
+
+	@Put('calendar')
+	async setCalendar(@Body() body: { calendar: SeasonPeriod[] }) {
+		try {
+			const error = await this.seasonService.setCalendar(body.calendar);
+			if (error) {
+				return { success: false, message: `Invalid season calendar: ${error}` };
+			}
+			return { success: true, message: 'Season calendar updated', data: this.seasonService.getSeasonInfo() };
+		} catch (error) {
+			return { success: false, message: `Error updating season calendar: ${error.message}` };
+		}
+	}
+
+	@Put('force')
+	async setForcedSeason(@Body() body: { season: SeasonMode | null }) {
+		try {
+			if (body.season !== null && !isSeasonMode(body.season)) {
+				return { success: false, message: `Unknown season: ${body.season}` };
+			}
+			await this.seasonService.setForcedSeason(body.season);
+			return { success: true, message: `Forced season set to ${body.season ?? 'none'}`, data: this.seasonService.getSeasonInfo() };
+		} catch (error) {
+			return { success: false, message: `Error setting forced season: ${error.message}` };
+		}
+	}
+
+	@Put('override/:heatingId')
+	async setOverride(@Param('heatingId') heatingId: string, @Body() body: { season: SeasonMode | null }) {
+		try {
+			if (body.season !== null && !isSeasonMode(body.season)) {
+				return { success: false, message: `Unknown season: ${body.season}` };
+			}
+			if (!(await this.seasonService.setOverride(heatingId, body.season))) {
+				return { success: false, message: 'Heating system not found' };
+			}
+			return { success: true, message: `Season override for ${heatingId} set to ${body.season ?? 'none'}` };
+		} catch (error) {
+			return { success: false, message: `Error setting season override: ${error.message}` };
+		}
+	}
+
+	@Put('outdoor')
+	async setOutdoorConfig(@Body() body: Partial<SeasonOutdoorConfig>) {
+		try {
+			const error = await this.seasonService.setOutdoorConfig(body);
+			if (error) {
+				return { success: false, message: `Invalid outdoor season config: ${error}` };
+			}
+			return { success: true, message: 'Outdoor season config updated', data: this.seasonService.getSeasonInfo() };
+		} catch (error) {
+			return { success: false, message: `Error updating outdoor season config: ${error.message}` };
+		}
+	}
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SeasonService } from './season.service';
+import { SeasonController } from './season.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { EventLogModule } from '../../event-log/event-log.module';
+import { OutdoorTemperatureModule } from '../outdoor-temperature/outdoor-temperature.module';
+import { DeviceConfigModule } from '../device-config/device-config.module';
+
+@Module({
+	imports: [DatabaseModule, EventLogModule, OutdoorTemperatureModule, DeviceConfigModule],
+	controllers: [SeasonController],
+	providers: [SeasonService],
+	exports: [SeasonService],
+})
+export class SeasonModule {}
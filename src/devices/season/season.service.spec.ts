@@ -0,0 +1,155 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SeasonService } from './season.service';
+import { DatabaseService } from '../../database/database.service';
+import { EventLogService } from '../../event-log/event-log.service';
+import { OutdoorTemperatureService } from '../outdoor-temperature/outdoor-temperature.service';
+import { OutdoorDailyMean } from '../interfaces/outdoor-temperature.interface';
+
+function createService(dailyMeans: OutdoorDailyMean[] = []) {
+	const databaseService = {
+		setSystemSetting: jest.fn().mockResolvedValue(undefined),
+		setHeatingSetting: jest.fn().mockResolvedValue(undefined),
+	} as unknown as DatabaseService;
+	const eventEmitter = { emit: jest.fn(), on: jest.fn() } as unknown as EventEmitter2;
+	const outdoorTemperatureService = { getDailyMeans: () => dailyMeans } as unknown as OutdoorTemperatureService;
+	const eventLogService = { log: jest.fn() } as unknown as EventLogService;
+	return {
+		service: new SeasonService(databaseService, eventEmitter, outdoorTemperatureService, eventLogService),
+		eventEmitter,
+	};
+}
+
+function days(...means: number[]): OutdoorDailyMean[] {
+	return means.map((mean, index) => ({ date: `2026-10-${String(index + 1).padStart(2, '0')}`, mean, samples: 24 }));
+}
+
+describe('SeasonService', () => {
+	describe('calendar', () => {
+		it('should use the default calendar', () => {
+			const { service } = createService();
+			expect(service.getCalendarSeason(new Date(2026, 0, 15))).toBe('winter');
+			expect(service.getCalendarSeason(new Date(2026, 3, 1))).toBe('transition');
+			expect(service.getCalendarSeason(new Date(2026, 6, 10))).toBe('summer');
+			expect(service.getCalendarSeason(new Date(2026, 10, 1))).toBe('winter');
+		});
+
+		it('should wrap to the last period before the first period of the year', async () => {
+			const { service } = createService();
+			expect(await service.setCalendar([{ from: '10-15', season: 'winter' }, { from: '05-01', season: 'summer' }])).toBeNull();
+			expect(service.getCalendarSeason(new Date(2026, 1, 1))).toBe('winter');
+			expect(service.getCalendarSeason(new Date(2026, 4, 1))).toBe('summer');
+			expect(service.getCalendarSeason(new Date(2026, 9, 14))).toBe('summer');
+			expect(service.getCalendarSeason(new Date(2026, 9, 15))).toBe('winter');
+		});
+
+		it('should reject invalid calendars', async () => {
+			const { service } = createService();
+			expect(await service.setCalendar([])).toBe('calendar must be a non-empty array');
+			expect(await service.setCalendar([{ from: '02-30', season: 'winter' }])).toContain('invalid date');
+			expect(await service.setCalendar([
+				{ from: '05-01', season: 'summer' },
+				{ from: '05-01', season: 'winter' },
+			])).toContain('duplicate date');
+			expect(service.getCalendarSeason(new Date(2026, 6, 10))).toBe('summer');
+		});
+	});
+
+	describe('precedence', () => {
+		const summerDay = new Date(2026, 6, 10);
+
+		it('should prefer the forced season over the calendar', async () => {
+			const { service } = createService();
+			await service.setForcedSeason('winter');
+			expect(service.getSeason(undefined, summerDay)).toBe('winter');
+			expect(service.getActiveSource()).toBe('forced');
+
+			await service.setForcedSeason(null);
+			expect(service.getSeason(undefined, summerDay)).toBe('summer');
+			expect(service.getActiveSource()).toBe('calendar');
+		});
+
+		it('should prefer the device override over the forced season', async () => {
+			const { service } = createService();
+			await service.setForcedSeason('summer');
+			expect(await service.setOverride('ШУК1', 'winter')).toBe(true);
+
+			expect(service.getSeason('ШУК1', summerDay)).toBe('winter');
+			expect(service.getSeasonSource('ШУК1')).toBe('override');
+			expect(service.getSeason('ШУК10', summerDay)).toBe('summer');
+			expect(service.getSeasonSource('ШУК10')).toBe('forced');
+		});
+
+		it('should ignore overrides for unknown devices', async () => {
+			const { service } = createService();
+			expect(await service.setOverride('unknown', 'winter')).toBe(false);
+		});
+
+		it('should prefer the forced season over the outdoor season', async () => {
+			const { service } = createService(days(5, 4, 3));
+			await service.setOutdoorConfig({ enabled: true });
+			expect(service.getActiveSeason(summerDay)).toBe('winter');
+			expect(service.getActiveSource()).toBe('outdoor');
+
+			await service.setForcedSeason('summer');
+			expect(service.getActiveSeason(summerDay)).toBe('summer');
+			expect(service.getActiveSource()).toBe('forced');
+		});
+	});
+
+	describe('outdoor daily means', () => {
+		it('should start the heating season after the configured number of cold days', async () => {
+			const { service, eventEmitter } = createService(days(12, 7, 6, 5));
+			await service.setOutdoorConfig({ enabled: true });
+
+			expect(service.getOutdoorInfo().season).toBe('winter');
+			expect(eventEmitter.emit).toHaveBeenCalledWith('season.switched', expect.objectContaining({
+				previousSeason: null,
+				season: 'winter',
+				dailyMeans: days(12, 7, 6, 5).slice(-3),
+			}));
+		});
+
+		it('should not switch until enough days are collected', async () => {
+			const { service } = createService(days(5, 4));
+			await service.setOutdoorConfig({ enabled: true });
+			expect(service.getOutdoorInfo().season).toBeNull();
+			expect(service.getActiveSource()).toBe('calendar');
+		});
+
+		it('should not switch when a single day breaks the sequence', async () => {
+			const { service } = createService(days(5, 9, 4));
+			await service.setOutdoorConfig({ enabled: true });
+			expect(service.getOutdoorInfo().season).toBeNull();
+		});
+
+		it('should keep the current season between the thresholds', async () => {
+			const dailyMeans = days(5, 4, 3);
+			const { service } = createService(dailyMeans);
+			await service.setOutdoorConfig({ enabled: true, heatingOnThreshold: 8, heatingOffThreshold: 12 });
+			expect(service.getOutdoorInfo().season).toBe('winter');
+
+			dailyMeans.push(...days(10, 11, 10));
+			await service.setOutdoorConfig({ enabled: true });
+			expect(service.getOutdoorInfo().season).toBe('winter');
+
+			dailyMeans.push(...days(13, 14, 15));
+			await service.setOutdoorConfig({ enabled: true });
+			expect(service.getOutdoorInfo().season).toBe('summer');
+		});
+
+		it('should ignore the outdoor season when disabled', async () => {
+			const { service } = createService(days(5, 4, 3));
+			await service.setOutdoorConfig({ enabled: true });
+			await service.setOutdoorConfig({ enabled: false });
+			expect(service.getActiveSeason(new Date(2026, 6, 10))).toBe('summer');
+			expect(service.getActiveSource()).toBe('calendar');
+		});
+
+		it('should reject an invalid outdoor config', async () => {
+			const { service } = createService();
+			expect(await service.setOutdoorConfig({ heatingOnDays: 0 })).toBe('heatingOnDays must be an integer between 1 and 30');
+			expect(await service.setOutdoorConfig({ heatingOnThreshold: 10, heatingOffThreshold: 8 }))
+				.toBe('heatingOnThreshold must not exceed heatingOffThreshold');
+		});
+	});
+});
@@ -0,0 +1,385 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabaseService } from '../../database/database.service';
+import { EventLogService } from '../../event-log/event-log.service';
+import { OutdoorTemperatureService } from '../outdoor-temperature/outdoor-temperature.service';
+import { heatingConfigs } from '../heating/heating.config';
+import { OutdoorDailyMean } from '../interfaces/outdoor-temperature.interface';
+import {
+	SeasonInfo,
+	SeasonMode,
+	SeasonOutdoorConfig,
+	SeasonOutdoorInfo,
+	SeasonPeriod,
+	SeasonSource,
+	SeasonSwitch,
+	SEASON_MODES,
+} from '../interfaces/season.interface';
+
+const CALENDAR_SETTING_KEY = 'season_calendar';
+const FORCED_SEASON_SETTING_KEY = 'season_forced';
+const OVERRIDE_SETTING_KEY = 'season_override';
+const OUTDOOR_CONFIG_SETTING_KEY = 'season_outdoor';
+const OUTDOOR_STATE_SETTING_KEY = 'season_outdoor_state';
+
+// Отопительный сезон начинается после 3 суток со среднесуточной ниже +8°C и заканчивается после 3 суток выше +8°C
+const DEFAULT_OUTDOOR_CONFIG: SeasonOutdoorConfig = {
+	enabled: false,
+	heatingOnThreshold: 8,
+	heatingOnDays: 3,
+	heatingOffThreshold: 8,
+	heatingOffDays: 3,
+};
+
+// Календарь по умолчанию (как было зашито в коде):
+// зима 1 ноября - 31 марта, весна 1 апреля - 31 мая, лето 1 июня - 31 августа, осень 1 сентября - 31 октября
+const DEFAULT_CALENDAR: SeasonPeriod[] = [
+	{ from: '04-01', season: 'transition' },
+	{ from: '06-01', season: 'summer' },
+	{ from: '09-01', season: 'transition' },
+	{ from: '11-01', season: 'winter' },
+];
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export function isSeasonMode(value: unknown): value is SeasonMode {
+	return typeof value === 'string' && SEASON_MODES.includes(value as SeasonMode);
+}
+
+@Injectable()
+export class SeasonService implements OnModuleInit {
+	private readonly logger = new Logger(SeasonService.name);
+	private calendar: SeasonPeriod[] = DEFAULT_CALENDAR.map(period => ({ ...period }));
+	private forcedSeason: SeasonMode | null = null;
+	private overrides: Record<string, SeasonMode> = {};
+	private outdoorConfig: SeasonOutdoorConfig = { ...DEFAULT_OUTDOOR_CONFIG };
+	private outdoorSeason: SeasonMode | null = null;
+	private outdoorSwitchedAt: Date | null = null;
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly eventEmitter: EventEmitter2,
+		private readonly outdoorTemperatureService: OutdoorTemperatureService,
+		private readonly eventLogService: EventLogService,
+	) {}
+
+	async onModuleInit() {
+		await this.loadSettingsFromDatabase();
+
+		this.eventEmitter.on('outdoor.temperature.daily', (dailyMean: OutdoorDailyMean) => {
+			this.logger.debug(`Outdoor daily mean received: ${dailyMean.date} ${dailyMean.mean}°C`);
+			this.evaluateOutdoorSeason();
+		});
+
+		this.logger.log(`Season Service initialized: active season ${this.getActiveSeason()} (${this.getActiveSource()})`);
+	}
+
+	private async loadSettingsFromDatabase() {
+		try {
+			const calendarStr = await this.databaseService.getSystemSetting(CALENDAR_SETTING_KEY);
+			if (calendarStr) {
+				const calendar = JSON.parse(calendarStr);
+				const error = this.validateCalendar(calendar);
+				if (error) {
+					this.logger.warn(`Сохраненный календарь сезонов некорректен (${error}), используется календарь по умолчанию`);
+				} else {
+					this.calendar = this.sortCalendar(calendar);
+				}
+			}
+
+			const forcedStr = await this.databaseService.getSystemSetting(FORCED_SEASON_SETTING_KEY);
+			this.forcedSeason = isSeasonMode(forcedStr) ? forcedStr : null;
+
+			const overrides = await this.databaseService.getHeatingSettingsByKey(OVERRIDE_SETTING_KEY);
+			Object.entries(overrides).forEach(([heatingId, season]) => {
+				if (heatingConfigs[heatingId] && isSeasonMode(season)) {
+					this.overrides[heatingId] = season;
+				}
+			});
+
+			const outdoorConfigStr = await this.databaseService.getSystemSetting(OUTDOOR_CONFIG_SETTING_KEY);
+			if (outdoorConfigStr) {
+				const outdoorConfig = { ...DEFAULT_OUTDOOR_CONFIG, ...JSON.parse(outdoorConfigStr) };
+				const error = this.validateOutdoorConfig(outdoorConfig);
+				if (error) {
+					this.logger.warn(`Сохраненные настройки сезона по уличной температуре некорректны (${error}), используются значения по умолчанию`);
+				} else {
+					this.outdoorConfig = outdoorConfig;
+				}
+			}
+
+			const outdoorStateStr = await this.databaseService.getSystemSetting(OUTDOOR_STATE_SETTING_KEY);
+			if (outdoorStateStr) {
+				const outdoorState = JSON.parse(outdoorStateStr) as { season?: unknown; switchedAt?: string | null };
+				this.outdoorSeason = isSeasonMode(outdoorState.season) ? outdoorState.season : null;
+				this.outdoorSwitchedAt = outdoorState.switchedAt ? new Date(outdoorState.switchedAt) : null;
+			}
+		} catch (error) {
+			this.logger.error('Ошибка загрузки настроек сезонов из базы данных:', error);
+		}
+	}
+
+	// Сезон для конкретного ШУК: переопределение > принудительный сезон > уличная температура > календарь
+	getSeason(heatingId?: string, date = new Date()): SeasonMode {
+		if (heatingId && this.overrides[heatingId]) {
+			return this.overrides[heatingId];
+		}
+		return this.getActiveSeason(date);
+	}
+
+	getActiveSeason(date = new Date()): SeasonMode {
+		if (this.forcedSeason) {
+			return this.forcedSeason;
+		}
+		if (this.isOutdoorSeasonActive()) {
+			return this.outdoorSeason!;
+		}
+		return this.getCalendarSeason(date);
+	}
+
+	// Источник сезона для конкретного ШУК
+	getSeasonSource(heatingId?: string): SeasonSource {
+		if (heatingId && this.overrides[heatingId]) {
+			return 'override';
+		}
+		return this.getActiveSource();
+	}
+
+	getActiveSource(): SeasonInfo['source'] {
+		if (this.forcedSeason) return 'forced';
+		if (this.isOutdoorSeasonActive()) return 'outdoor';
+		return 'calendar';
+	}
+
+	// Сезон по уличной температуре действует, только если режим включен и решение уже принято
+	private isOutdoorSeasonActive(): boolean {
+		return this.outdoorConfig.enabled && this.outdoorSeason !== null;
+	}
+
+	getCalendarSeason(date = new Date()): SeasonMode {
+		const today = this.toDayKey(date.getMonth() + 1, date.getDate());
+
+		// Последний период, начавшийся не позже сегодняшней даты; до первого периода года действует последний
+		let current = this.calendar[this.calendar.length - 1];
+		for (const period of this.calendar) {
+			if (this.parseDayKey(period.from) <= today) {
+				current = period;
+			}
+		}
+		return current.season;
+	}
+
+	getSeasonInfo(date = new Date()): SeasonInfo {
+		return {
+			calendar: this.calendar.map(period => ({ ...period })),
+			calendarSeason: this.getCalendarSeason(date),
+			forcedSeason: this.forcedSeason,
+			outdoor: this.getOutdoorInfo(),
+			activeSeason: this.getActiveSeason(date),
+			source: this.getActiveSource(),
+			overrides: { ...this.overrides },
+		};
+	}
+
+	getOutdoorInfo(): SeasonOutdoorInfo {
+		return {
+			...this.outdoorConfig,
+			season: this.outdoorSeason,
+			switchedAt: this.outdoorSwitchedAt ? this.outdoorSwitchedAt.toISOString() : null,
+		};
+	}
+
+	async setCalendar(calendar: SeasonPeriod[]): Promise<string | null> {
+		const error = this.validateCalendar(calendar);
+		if (error) {
+			this.logger.warn(`Invalid season calendar: ${error}`);
+			return error;
+		}
+
+		this.calendar = this.sortCalendar(calendar.map(({ from, season }) => ({ from, season })));
+		await this.databaseService.setSystemSetting(CALENDAR_SETTING_KEY, JSON.stringify(this.calendar), 'Календарь сезонов для клапанов ШУК');
+
+		this.logger.log(`Season calendar updated: ${JSON.stringify(this.calendar)}`);
+		this.emitSeasonChanged();
+		return null;
+	}
+
+	// Принудительный сезон для всего объекта (null - по календарю)
+	async setForcedSeason(season: SeasonMode | null) {
+		this.forcedSeason = season;
+		await this.databaseService.setSystemSetting(FORCED_SEASON_SETTING_KEY, season ?? '', 'Принудительный сезон для всего объекта');
+
+		this.logger.log(`Forced season set to: ${season ?? 'none (calendar)'}`);
+		this.emitSeasonChanged();
+	}
+
+	// Переопределение сезона для отдельного ШУК (null - общий сезон)
+	async setOverride(heatingId: string, season: SeasonMode | null): Promise<boolean> {
+		if (!heatingConfigs[heatingId]) return false;
+
+		if (season) {
+			this.overrides[heatingId] = season;
+		} else {
+			delete this.overrides[heatingId];
+		}
+		await this.databaseService.setHeatingSetting(heatingId, OVERRIDE_SETTING_KEY, season ?? '');
+
+		this.logger.log(`Season override for ${heatingId} set to: ${season ?? 'none'}`);
+		this.emitSeasonChanged(heatingId);
+		return true;
+	}
+
+	async setOutdoorConfig(config: Partial<SeasonOutdoorConfig>): Promise<string | null> {
+		const outdoorConfig: SeasonOutdoorConfig = { ...this.outdoorConfig };
+		const assign = <K extends keyof SeasonOutdoorConfig>(key: K) => {
+			const value = config[key];
+			if (value !== undefined) {
+				outdoorConfig[key] = value;
+			}
+		};
+		(Object.keys(DEFAULT_OUTDOOR_CONFIG) as (keyof SeasonOutdoorConfig)[]).forEach(assign);
+
+		const error = this.validateOutdoorConfig(outdoorConfig);
+		if (error) {
+			this.logger.warn(`Invalid outdoor season config: ${error}`);
+			return error;
+		}
+
+		this.outdoorConfig = outdoorConfig;
+		await this.databaseService.setSystemSetting(
+			OUTDOOR_CONFIG_SETTING_KEY,
+			JSON.stringify(this.outdoorConfig),
+			'Переключение отопительного сезона по уличной температуре',
+		);
+		this.logger.log(`Outdoor season config updated: ${JSON.stringify(this.outdoorConfig)}`);
+
+		// Сразу оцениваем накопленную историю, чтобы не ждать следующих суток
+		if (this.outdoorConfig.enabled) {
+			await this.evaluateOutdoorSeason();
+		}
+		this.emitSeasonChanged();
+		return null;
+	}
+
+	// Решение о переключении по последним среднесуточным значениям;
+	// между порогами сохраняется текущий сезон (гистерезис)
+	private async evaluateOutdoorSeason() {
+		if (!this.outdoorConfig.enabled) return;
+
+		const dailyMeans = this.outdoorTemperatureService.getDailyMeans();
+		const lastDays = (count: number) => (dailyMeans.length >= count ? dailyMeans.slice(-count) : null);
+
+		const onDays = lastDays(this.outdoorConfig.heatingOnDays);
+		const offDays = lastDays(this.outdoorConfig.heatingOffDays);
+		const heatingOn = onDays !== null && onDays.every(day => day.mean < this.outdoorConfig.heatingOnThreshold);
+		const heatingOff = offDays !== null && offDays.every(day => day.mean > this.outdoorConfig.heatingOffThreshold);
+
+		let season: SeasonMode | null = null;
+		if (heatingOn && this.outdoorSeason !== 'winter') {
+			season = 'winter';
+		} else if (heatingOff && this.outdoorSeason !== 'summer') {
+			season = 'summer';
+		}
+		if (!season) return;
+
+		const previousSeason = this.outdoorSeason;
+		const usedDays = season === 'winter' ? onDays! : offDays!;
+		this.outdoorSeason = season;
+		this.outdoorSwitchedAt = new Date();
+
+		try {
+			await this.databaseService.setSystemSetting(
+				OUTDOOR_STATE_SETTING_KEY,
+				JSON.stringify({ season: this.outdoorSeason, switchedAt: this.outdoorSwitchedAt.toISOString() }),
+				'Сезон, определенный по уличной температуре',
+			);
+		} catch (error) {
+			this.logger.error('Failed to save outdoor season state to database:', error);
+		}
+
+		const message = season === 'winter'
+			? `Отопительный сезон начат: среднесуточная ниже ${this.outdoorConfig.heatingOnThreshold}°C ${usedDays.length} сут.`
+			: `Отопительный сезон завершен: среднесуточная выше ${this.outdoorConfig.heatingOffThreshold}°C ${usedDays.length} сут.`;
+
+		this.eventLogService.log({
+			category: 'season',
+			severity: 'info',
+			message,
+			details: { previousSeason, season, dailyMeans: usedDays },
+		});
+
+		const seasonSwitch: SeasonSwitch = {
+			previousSeason,
+			season,
+			source: 'outdoor',
+			switchedAt: this.outdoorSwitchedAt.toISOString(),
+			dailyMeans: usedDays,
+		};
+		this.eventEmitter.emit('season.switched', seasonSwitch);
+		this.emitSeasonChanged();
+	}
+
+	private emitSeasonChanged(heatingId?: string) {
+		this.eventEmitter.emit('season.changed', {
+			heatingId,
+			...this.getSeasonInfo(),
+		});
+	}
+
+	private validateCalendar(calendar: unknown): string | null {
+		if (!Array.isArray(calendar) || calendar.length === 0) {
+			return 'calendar must be a non-empty array';
+		}
+
+		const days = new Set<number>();
+		for (const period of calendar) {
+			if (!period || !isSeasonMode(period.season)) {
+				return `unknown season: ${period?.season}`;
+			}
+			const match = /^(\d{2})-(\d{2})$/.exec(String(period.from));
+			const month = match ? parseInt(match[1], 10) : 0;
+			const day = match ? parseInt(match[2], 10) : 0;
+			if (month < 1 || month > 12 || day < 1 || day > DAYS_IN_MONTH[month - 1]) {
+				return `invalid date: ${period.from} (expected MM-DD)`;
+			}
+			if (days.has(month * 100 + day)) {
+				return `duplicate date: ${period.from}`;
+			}
+			days.add(month * 100 + day);
+		}
+		return null;
+	}
+
+	private validateOutdoorConfig(config: SeasonOutdoorConfig): string | null {
+		if (typeof config.enabled !== 'boolean') {
+			return 'enabled must be a boolean';
+		}
+		for (const key of ['heatingOnThreshold', 'heatingOffThreshold'] as const) {
+			if (typeof config[key] !== 'number' || isNaN(config[key])) {
+				return `${key} must be a number`;
+			}
+		}
+		for (const key of ['heatingOnDays', 'heatingOffDays'] as const) {
+			if (!Number.isInteger(config[key]) || config[key] < 1 || config[key] > 30) {
+				return `${key} must be an integer between 1 and 30`;
+			}
+		}
+		if (config.heatingOnThreshold > config.heatingOffThreshold) {
+			return 'heatingOnThreshold must not exceed heatingOffThreshold';
+		}
+		return null;
+	}
+
+	private sortCalendar(calendar: SeasonPeriod[]): SeasonPeriod[] {
+		return [...calendar].sort((a, b) => this.parseDayKey(a.from) - this.parseDayKey(b.from));
+	}
+
+	private parseDayKey(value: string): number {
+		const [month, day] = value.split('-').map(part => parseInt(part, 10));
+		return this.toDayKey(month, day);
+	}
+
+	private toDayKey(month: number, day: number): number {
+		return month * 100 + day;
+	}
+}
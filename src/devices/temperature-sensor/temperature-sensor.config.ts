@@ -0,0 +1,15 @@
+import { TemperatureSensorConfig } from '../interfaces/temperature-sensor.interface';
+
+// Общий реестр датчиков температуры; устройства ссылаются на датчик через temperatureSource: { type: 'dht', sourceId }
+// Пример:
+// DHT80: {
+// 	broker: 'sensors',
+// 	deviceName: 'DHT80',
+// 	sensorModule: 'wb-m1w2_204',
+// 	deviceRealName: 'Датчик температуры 80',
+// 	topics: {
+// 		TEMPERATURE: '/devices/wb-m1w2_204/controls/External Sensor 1',
+// 		HUMIDITY: '/devices/wb-m1w2_204/controls/External Sensor 2',
+// 	},
+// },
+export const temperatureSensorConfigs: Record<string, TemperatureSensorConfig> = {};
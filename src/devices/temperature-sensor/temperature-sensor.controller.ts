@@ -0,0 +1,84 @@
+import { Controller, Get, Put, Delete, Param, Body } from '@nestjs/common';
+import { TemperatureSensorService } from './temperature-sensor.service';
+import { TemperatureSensorConfig } from '../interfaces/temperature-sensor.interface';
+
+@Controller('temperature-sensors')
+export class TemperatureSensorController {
+	constructor(private readonly temperatureSensorService: TemperatureSensorService) {}
+
+	@Get()
+	getSensors() {
+		return { success: true, data: this.temperatureSensorService.getSensors() };
+	}
+
+	@Get(':sensorId')
+	getSensor(@Param('sensorId') sensorId: string) {
+		const sensor = this.temperatureSensorService.getSensor(sensorId);
+		if (!sensor) {
+			return { success: false, message: 'Temperature sensor not found' };
+		}
+		return { success: true, data: sensor };
+	}
+
+	@Get(':sensorId/temperature')
+	getTemperature(@Param('sensorId') sensorId: string) {
+		const sensor = this.temperatureSensorService.getSensor(sensorId);
+		if (!sensor) {
+			return { success: false, message: 'Temperature sensor not found' };
+		}
+		return {
+			success: true,
+			data: {
+				sensorId,
+				temperature: sensor.data?.temperature ?? null,
+				isOnline: sensor.isOnline,
+				timestamp: sensor.data?.timestamp ?? null,
+			},
+		};
+	}
+
+	@Get(':sensorId/humidity')
+	getHumidity(@Param('sensorId') sensorId: string) {
+		const sensor = this.temperatureSensorService.getSensor(sensorId);
+		if (!sensor) {
+			return { success: false, message: 'Temperature sensor not found' };
+		}
+		if (!sensor.config.topics.HUMIDITY) {
+			return { success: false, message: 'Sensor has no humidity channel' };
+		}
+		return {
+			success: true,
+			data: {
+				sensorId,
+				humidity: sensor.data?.humidity ?? null,
+				isOnline: sensor.isOnline,
+				timestamp: sensor.data?.timestamp ?? null,
+			},
+		};
+	}
+
+	@Put(':sensorId')
+	async setSensor(@Param('sensorId') sensorId: string, @Body() body: Partial<TemperatureSensorConfig>) {
+		try {
+			const error = await this.temperatureSensorService.setSensor(sensorId, body);
+			if (error) {
+				return { success: false, message: `Invalid sensor config: ${error}` };
+			}
+			return { success: true, message: `Temperature sensor ${sensorId} saved`, data: this.temperatureSensorService.getSensor(sensorId) };
+		} catch (error) {
+			return { success: false, message: `Error saving temperature sensor: ${error.message}` };
+		}
+	}
+
+	@Delete(':sensorId')
+	async removeSensor(@Param('sensorId') sensorId: string) {
+		try {
+			if (!(await this.temperatureSensorService.removeSensor(sensorId))) {
+				return { success: false, message: 'Temperature sensor was not added via API' };
+			}
+			return { success: true, message: `Temperature sensor ${sensorId} removed` };
+		} catch (error) {
+			return { success: false, message: `Error removing temperature sensor: ${error.message}` };
+		}
+	}
+}
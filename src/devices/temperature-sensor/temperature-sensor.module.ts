@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TemperatureSensorService } from './temperature-sensor.service';
+import { TemperatureSensorController } from './temperature-sensor.controller';
+import { MqttModule } from '../../mqtt/mqtt.module';
+import { DatabaseModule } from '../../database/database.module';
+
+@Module({
+	imports: [MqttModule, DatabaseModule],
+	controllers: [TemperatureSensorController],
+	providers: [TemperatureSensorService],
+	exports: [TemperatureSensorService],
+})
+export class TemperatureSensorModule {}
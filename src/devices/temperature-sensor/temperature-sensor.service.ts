@@ -0,0 +1,304 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MqttService } from '../../mqtt/mqtt.service';
+import { DatabaseService } from '../../database/database.service';
+import { temperatureSensorConfigs } from './temperature-sensor.config';
+import {
+	TemperatureSensorConfig,
+	TemperatureSensorData,
+	TemperatureSensorState,
+} from '../interfaces/temperature-sensor.interface';
+
+const SETTINGS_KEY = 'temperature_sensors';
+const DEFAULT_STALE_TIMEOUT = 600; // сек
+const ONLINE_CHECK_INTERVAL = 10 * 1000;
+
+type SensorQuantity = 'temperature' | 'humidity' | 'pressure';
+
+const QUANTITY_TOPICS: Record<SensorQuantity, keyof TemperatureSensorConfig['topics']> = {
+	temperature: 'TEMPERATURE',
+	humidity: 'HUMIDITY',
+	pressure: 'PRESSURE',
+};
+
+interface SensorReadings {
+	temperature?: number;
+	humidity?: number;
+	pressure?: number;
+	updatedAt: number | null; // Время последнего показания температуры
+}
+
+/**
+ * Реестр датчиков температуры: датчики из temperature-sensor.config.ts и добавленные через API (хранятся в system_settings)
+ * Температура, влажность и давление принимаются по MQTT; доступность определяется по свежести показаний и meta/error
+ */
+@Injectable()
+export class TemperatureSensorService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(TemperatureSensorService.name);
+	private customConfigs: Record<string, TemperatureSensorConfig> = {};
+	private readings: Record<string, SensorReadings> = {};
+	private errors: Record<string, string> = {};
+	private onlineStates: Record<string, boolean> = {};
+	private brokers = new Set<string>();
+	private onlineCheckInterval: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly mqttService: MqttService,
+		private readonly databaseService: DatabaseService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async onModuleInit() {
+		await this.loadSettingsFromDatabase();
+
+		Object.keys(this.getConfigs()).forEach(sensorId => this.setupSensor(sensorId));
+		this.onlineCheckInterval = setInterval(() => this.checkOnline(), ONLINE_CHECK_INTERVAL);
+
+		this.logger.log(`Temperature Sensor Service initialized: ${Object.keys(this.getConfigs()).length} sensors`);
+	}
+
+	onModuleDestroy() {
+		if (this.onlineCheckInterval) {
+			clearInterval(this.onlineCheckInterval);
+		}
+	}
+
+	private async loadSettingsFromDatabase() {
+		try {
+			const configsStr = await this.databaseService.getSystemSetting(SETTINGS_KEY);
+			if (!configsStr) return;
+
+			const configs = JSON.parse(configsStr) as Record<string, TemperatureSensorConfig>;
+			Object.entries(configs).forEach(([sensorId, config]) => {
+				const error = this.validateConfig(config);
+				if (error) {
+					this.logger.warn(`⚠️ Stored temperature sensor ${sensorId} ignored: ${error}`);
+					return;
+				}
+				this.customConfigs[sensorId] = config;
+			});
+		} catch (error) {
+			this.logger.error('Ошибка загрузки датчиков температуры из базы данных:', error);
+		}
+	}
+
+	getConfigs(): Record<string, TemperatureSensorConfig> {
+		return { ...temperatureSensorConfigs, ...this.customConfigs };
+	}
+
+	hasSensor(sensorId: string): boolean {
+		return this.getConfigs()[sensorId] !== undefined;
+	}
+
+	getSensors(): TemperatureSensorState[] {
+		return Object.keys(this.getConfigs()).map(sensorId => this.getSensor(sensorId)!);
+	}
+
+	getSensor(sensorId: string): TemperatureSensorState | null {
+		const config = this.getConfigs()[sensorId];
+		if (!config) return null;
+
+		return {
+			sensorId,
+			config,
+			configSource: this.customConfigs[sensorId] ? 'database' : 'config',
+			isOnline: this.isOnline(sensorId, config),
+			error: this.errors[sensorId] ?? null,
+			data: this.getData(sensorId),
+		};
+	}
+
+	// Добавить датчик или переопределить датчик из конфигурации; возвращает ошибку валидации или null
+	async setSensor(sensorId: string, config: Partial<TemperatureSensorConfig>): Promise<string | null> {
+		const sensorConfig: TemperatureSensorConfig = {
+			broker: 'sensors',
+			deviceName: sensorId,
+			sensorModule: '',
+			deviceRealName: sensorId,
+			...config,
+			topics: { ...config.topics } as TemperatureSensorConfig['topics'],
+		};
+		const error = this.validateConfig(sensorConfig);
+		if (error) {
+			this.logger.warn(`❌ Invalid temperature sensor ${sensorId}: ${error}`);
+			return error;
+		}
+
+		this.customConfigs[sensorId] = sensorConfig;
+		// Показания старых топиков больше не относятся к датчику
+		delete this.readings[sensorId];
+		delete this.errors[sensorId];
+		await this.saveSettings();
+
+		this.setupSensor(sensorId);
+		this.emitUpdate(sensorId);
+		this.logger.log(`🌡️ Temperature sensor ${sensorId} configured: ${sensorConfig.topics.TEMPERATURE}`);
+		return null;
+	}
+
+	// Удалить датчик, добавленный через API (датчик из конфигурации возвращается к исходным настройкам)
+	async removeSensor(sensorId: string): Promise<boolean> {
+		if (!this.customConfigs[sensorId]) {
+			this.logger.warn(`⚠️ Temperature sensor ${sensorId} is not configured via API`);
+			return false;
+		}
+
+		delete this.customConfigs[sensorId];
+		delete this.readings[sensorId];
+		delete this.errors[sensorId];
+		delete this.onlineStates[sensorId];
+		await this.saveSettings();
+
+		if (this.hasSensor(sensorId)) {
+			this.setupSensor(sensorId);
+			this.emitUpdate(sensorId);
+		}
+		this.logger.log(`🌡️ Temperature sensor ${sensorId} removed`);
+		return true;
+	}
+
+	private async saveSettings() {
+		try {
+			await this.databaseService.setSystemSetting(SETTINGS_KEY, JSON.stringify(this.customConfigs), 'Датчики температуры, добавленные через API');
+		} catch (error) {
+			this.logger.error('Ошибка сохранения датчиков температуры:', error);
+		}
+	}
+
+	private validateConfig(config: TemperatureSensorConfig): string | null {
+		if (typeof config.broker !== 'string' || !config.broker) {
+			return 'broker must be a non-empty string';
+		}
+		if (typeof config.topics?.TEMPERATURE !== 'string' || !config.topics.TEMPERATURE) {
+			return 'topics.TEMPERATURE must be a non-empty string';
+		}
+		for (const key of ['HUMIDITY', 'PRESSURE'] as const) {
+			if (config.topics[key] !== undefined && typeof config.topics[key] !== 'string') {
+				return `topics.${key} must be a string`;
+			}
+		}
+		if (config.staleTimeout !== undefined && (typeof config.staleTimeout !== 'number' || !(config.staleTimeout > 0))) {
+			return 'staleTimeout must be a positive number of seconds';
+		}
+		return null;
+	}
+
+	private setupSensor(sensorId: string) {
+		const config = this.getConfigs()[sensorId];
+		if (!config) return;
+
+		this.listenBroker(config.broker);
+		this.subscribeSensor(sensorId, config);
+	}
+
+	// Обработчики брокера добавляются один раз, в том числе для брокеров датчиков, добавленных через API
+	private listenBroker(broker: string) {
+		if (this.brokers.has(broker)) return;
+		this.brokers.add(broker);
+
+		this.eventEmitter.on(`mqtt.${broker}.message`, (data: { topic: string; message: any }) =>
+			this.handleMessage(broker, data.topic, data.message),
+		);
+		this.eventEmitter.on(`mqtt.${broker}.connected`, () => {
+			Object.entries(this.getConfigs())
+				.filter(([, config]) => config.broker === broker)
+				.forEach(([sensorId, config]) => this.subscribeSensor(sensorId, config));
+		});
+		this.eventEmitter.on(`mqtt.${broker}.control.error`, (data: { topic: string; error: string | null }) =>
+			this.handleControlError(broker, data.topic, data.error),
+		);
+	}
+
+	private subscribeSensor(sensorId: string, config: TemperatureSensorConfig) {
+		try {
+			Object.values(QUANTITY_TOPICS).forEach(key => {
+				const topic = config.topics[key];
+				if (topic) {
+					this.mqttService.subscribe(config.broker, topic);
+				}
+			});
+			this.mqttService.subscribeControlError(config.broker, config.topics.TEMPERATURE);
+		} catch (err: unknown) {
+			const error = err as Error;
+			this.logger.error(`Ошибка подписки на датчик ${sensorId}: ${error.message}`);
+		}
+	}
+
+	private handleMessage(broker: string, topic: string, message: any) {
+		Object.entries(this.getConfigs()).forEach(([sensorId, config]) => {
+			if (config.broker !== broker) return;
+
+			(Object.keys(QUANTITY_TOPICS) as SensorQuantity[]).forEach(quantity => {
+				if (config.topics[QUANTITY_TOPICS[quantity]] !== topic) return;
+
+				const value = parseFloat(String(message));
+				if (isNaN(value)) {
+					this.logger.warn(`❌ Invalid ${quantity} data for sensor ${sensorId}: ${message}`);
+					return;
+				}
+				this.updateReading(sensorId, quantity, value);
+			});
+		});
+	}
+
+	private updateReading(sensorId: string, quantity: SensorQuantity, value: number) {
+		const readings = this.readings[sensorId] ?? { updatedAt: null };
+		readings[quantity] = value;
+		if (quantity === 'temperature') {
+			readings.updatedAt = Date.now();
+		}
+		this.readings[sensorId] = readings;
+
+		this.logger.debug(`Sensor ${sensorId} ${quantity} updated: ${value}`);
+		this.emitUpdate(sensorId);
+	}
+
+	// Ошибка опроса контрола температуры (null - ошибка снята)
+	private handleControlError(broker: string, topic: string, error: string | null) {
+		Object.entries(this.getConfigs()).forEach(([sensorId, config]) => {
+			if (config.broker !== broker || config.topics.TEMPERATURE !== topic) return;
+
+			if (error) {
+				this.errors[sensorId] = error;
+			} else {
+				delete this.errors[sensorId];
+			}
+			this.emitUpdate(sensorId);
+		});
+	}
+
+	private getData(sensorId: string): TemperatureSensorData | null {
+		const readings = this.readings[sensorId];
+		if (readings?.temperature === undefined || readings.updatedAt === null) return null;
+
+		return {
+			temperature: readings.temperature,
+			humidity: readings.humidity,
+			pressure: readings.pressure,
+			timestamp: new Date(readings.updatedAt),
+		};
+	}
+
+	private isOnline(sensorId: string, config: TemperatureSensorConfig): boolean {
+		const updatedAt = this.readings[sensorId]?.updatedAt ?? null;
+		const staleTimeout = (config.staleTimeout ?? DEFAULT_STALE_TIMEOUT) * 1000;
+		return updatedAt !== null && Date.now() - updatedAt <= staleTimeout && !this.errors[sensorId];
+	}
+
+	// Датчик без свежих показаний становится недоступным без новых сообщений - проверяем периодически
+	private checkOnline() {
+		Object.entries(this.getConfigs()).forEach(([sensorId, config]) => {
+			if (this.isOnline(sensorId, config) !== (this.onlineStates[sensorId] ?? false)) {
+				this.emitUpdate(sensorId);
+			}
+		});
+	}
+
+	private emitUpdate(sensorId: string) {
+		const state = this.getSensor(sensorId);
+		if (!state) return;
+
+		this.onlineStates[sensorId] = state.isOnline;
+		this.eventEmitter.emit('temperature.sensor.updated', state);
+	}
+}
@@ -0,0 +1,50 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TemperatureSensorService } from '../temperature-sensor/temperature-sensor.service';
+import { TemperatureSensorState } from '../interfaces/temperature-sensor.interface';
+import {
+	TemperatureSourceListener,
+	TemperatureSourceProvider,
+	TemperatureSourceType,
+} from '../interfaces/temperature-source.interface';
+
+/**
+ * Температура датчика из общего реестра датчиков (TemperatureSensorService)
+ */
+export class DhtTemperatureSourceProvider implements TemperatureSourceProvider {
+	readonly type: TemperatureSourceType = 'dht';
+	private lastTimestamp: number | null = null;
+	private readonly onSensorUpdated = (sensor: TemperatureSensorState) => {
+		if (sensor.sensorId === this.sensorId) {
+			this.handleSensor(sensor);
+		}
+	};
+
+	constructor(
+		private readonly sensorId: string,
+		private readonly listener: TemperatureSourceListener,
+		private readonly temperatureSensorService: TemperatureSensorService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	start() {
+		this.eventEmitter.on('temperature.sensor.updated', this.onSensorUpdated);
+		const sensor = this.temperatureSensorService.getSensor(this.sensorId);
+		if (sensor) {
+			this.handleSensor(sensor);
+		}
+	}
+
+	stop() {
+		this.eventEmitter.off('temperature.sensor.updated', this.onSensorUpdated);
+	}
+
+	// Обновление датчика приходит и при изменении влажности или доступности - передаем только новые показания температуры
+	private handleSensor(sensor: TemperatureSensorState) {
+		this.listener.onError(sensor.error);
+
+		const timestamp = sensor.data ? new Date(sensor.data.timestamp).getTime() : null;
+		if (!sensor.data || timestamp === this.lastTimestamp) return;
+		this.lastTimestamp = timestamp;
+		this.listener.onReading(sensor.data.temperature);
+	}
+}
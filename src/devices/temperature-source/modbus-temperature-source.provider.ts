@@ -0,0 +1,84 @@
+import * as ModbusSerial from 'modbus-serial';
+import {
+	ModbusTemperatureSourceConfig,
+	TemperatureSourceListener,
+	TemperatureSourceProvider,
+	TemperatureSourceType,
+} from '../interfaces/temperature-source.interface';
+import { decodeTemperatureRegisters } from './temperature-source.utils';
+
+// modbus-serial экспортирует класс клиента через module.exports, а не default
+const ModbusRTU = ModbusSerial as unknown as typeof ModbusSerial.default;
+
+const DEFAULT_PORT = 502;
+const DEFAULT_UNIT_ID = 1;
+const DEFAULT_POLL_INTERVAL = 10; // сек
+const DEFAULT_TIMEOUT = 2000; // мс
+
+/**
+ * Температура из регистра внешнего устройства Modbus TCP (например, датчик BMS)
+ * Соединение открывается при первом опросе и переоткрывается после ошибки
+ */
+export class ModbusTemperatureSourceProvider implements TemperatureSourceProvider {
+	readonly type: TemperatureSourceType = 'modbus';
+	private readonly client = new ModbusRTU();
+	private pollTimer: NodeJS.Timeout | null = null;
+	private isPolling = false;
+
+	constructor(
+		private readonly config: ModbusTemperatureSourceConfig,
+		private readonly listener: TemperatureSourceListener,
+	) {}
+
+	start() {
+		void this.poll();
+		this.pollTimer = setInterval(() => void this.poll(), (this.config.pollInterval ?? DEFAULT_POLL_INTERVAL) * 1000);
+	}
+
+	stop() {
+		if (this.pollTimer) {
+			clearInterval(this.pollTimer);
+			this.pollTimer = null;
+		}
+		this.disconnect();
+	}
+
+	private async poll() {
+		if (this.isPolling) return;
+		this.isPolling = true;
+
+		try {
+			if (!this.client.isOpen) {
+				await this.client.connectTCP(this.config.host, { port: this.config.port ?? DEFAULT_PORT });
+				this.client.setID(this.config.unitId ?? DEFAULT_UNIT_ID);
+				this.client.setTimeout(this.config.timeout ?? DEFAULT_TIMEOUT);
+			}
+
+			const dataType = this.config.dataType ?? 'int16';
+			const length = dataType === 'float32' ? 2 : 1;
+			const result = this.config.registerType === 'input'
+				? await this.client.readInputRegisters(this.config.register, length)
+				: await this.client.readHoldingRegisters(this.config.register, length);
+
+			const temperature = decodeTemperatureRegisters(result.data, dataType, this.config.scale);
+			if (temperature === null) {
+				this.listener.onError(`Invalid register value: ${result.data.join(', ')}`);
+				return;
+			}
+			this.listener.onError(null);
+			this.listener.onReading(temperature);
+		} catch (err: unknown) {
+			const error = err as Error;
+			this.listener.onError(`${this.config.host}:${this.config.port ?? DEFAULT_PORT} - ${error.message}`);
+			this.disconnect();
+		} finally {
+			this.isPolling = false;
+		}
+	}
+
+	private disconnect() {
+		if (this.client.isOpen) {
+			this.client.close(() => undefined);
+		}
+	}
+}
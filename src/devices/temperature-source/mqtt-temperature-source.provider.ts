@@ -0,0 +1,71 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MqttService } from '../../mqtt/mqtt.service';
+import {
+	MqttTemperatureSourceConfig,
+	TemperatureSourceListener,
+	TemperatureSourceProvider,
+	TemperatureSourceType,
+} from '../interfaces/temperature-source.interface';
+import { parseTemperaturePayload } from './temperature-source.utils';
+
+/**
+ * Температура из произвольного MQTT топика (число или JSON)
+ */
+export class MqttTemperatureSourceProvider implements TemperatureSourceProvider {
+	readonly type: TemperatureSourceType = 'mqtt';
+	private readonly onMessage = (data: { topic: string; message: any }) => this.handleMessage(data);
+	private readonly onConnected = () => this.subscribe();
+	private readonly onControlError = (data: { topic: string; error: string | null }) => {
+		if (data.topic !== this.config.topic) return;
+		this.controlError = data.error;
+		this.reportError();
+	};
+	// Ошибка опроса контрола Wiren Board (meta/error) и ошибка разбора последнего сообщения
+	private controlError: string | null = null;
+	private payloadError: string | null = null;
+
+	constructor(
+		private readonly config: MqttTemperatureSourceConfig,
+		private readonly listener: TemperatureSourceListener,
+		private readonly mqttService: MqttService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	start() {
+		const { broker } = this.config;
+		this.eventEmitter.on(`mqtt.${broker}.message`, this.onMessage);
+		this.eventEmitter.on(`mqtt.${broker}.connected`, this.onConnected);
+		this.eventEmitter.on(`mqtt.${broker}.control.error`, this.onControlError);
+		this.subscribe();
+	}
+
+	stop() {
+		const { broker } = this.config;
+		this.eventEmitter.off(`mqtt.${broker}.message`, this.onMessage);
+		this.eventEmitter.off(`mqtt.${broker}.connected`, this.onConnected);
+		this.eventEmitter.off(`mqtt.${broker}.control.error`, this.onControlError);
+	}
+
+	private subscribe() {
+		this.mqttService.subscribe(this.config.broker, this.config.topic);
+		this.mqttService.subscribeControlError(this.config.broker, this.config.topic);
+	}
+
+	private handleMessage(data: { topic: string; message: any }) {
+		if (data.topic !== this.config.topic) return;
+
+		const temperature = parseTemperaturePayload(data.message, this.config.jsonPath, this.config.scale);
+		const payloadError = temperature === null ? `Invalid temperature payload: ${data.message}` : null;
+		if (payloadError !== this.payloadError) {
+			this.payloadError = payloadError;
+			this.reportError();
+		}
+		if (temperature !== null) {
+			this.listener.onReading(temperature);
+		}
+	}
+
+	private reportError() {
+		this.listener.onError(this.controlError ?? this.payloadError);
+	}
+}
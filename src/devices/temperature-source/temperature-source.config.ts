@@ -0,0 +1,14 @@
+import {
+	ModbusTemperatureSourceConfig,
+	MqttTemperatureSourceConfig,
+} from '../interfaces/temperature-source.interface';
+
+// Источники для temperatureSource: { type: 'mqtt', sourceId } в конфигурации устройств
+// Пример:
+// BMS_HALL: { broker: 'sensors', topic: '/bms/hall/climate', jsonPath: 'temperature' },
+export const mqttTemperatureSources: Record<string, MqttTemperatureSourceConfig> = {};
+
+// Источники для temperatureSource: { type: 'modbus', sourceId } в конфигурации устройств
+// Пример:
+// BMS_AHU1: { host: '192.168.1.50', unitId: 3, register: 100, registerType: 'input', scale: 0.1 },
+export const modbusTemperatureSources: Record<string, ModbusTemperatureSourceConfig> = {};
@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { TemperatureSourceService } from './temperature-source.service';
+
+@Controller('temperature-sources')
+export class TemperatureSourceController {
+	constructor(private readonly temperatureSourceService: TemperatureSourceService) {}
+
+	@Get()
+	getReadings() {
+		return { success: true, data: this.temperatureSourceService.getReadings() };
+	}
+}
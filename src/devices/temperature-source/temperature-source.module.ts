@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TemperatureSourceService } from './temperature-source.service';
+import { TemperatureSourceController } from './temperature-source.controller';
+import { MqttModule } from '../../mqtt/mqtt.module';
+import { TemperatureSensorModule } from '../temperature-sensor/temperature-sensor.module';
+
+@Module({
+	imports: [MqttModule, TemperatureSensorModule],
+	controllers: [TemperatureSourceController],
+	providers: [TemperatureSourceService],
+	exports: [TemperatureSourceService],
+})
+export class TemperatureSourceModule {}
@@ -0,0 +1,111 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MqttService } from '../../mqtt/mqtt.service';
+import { mqttTemperatureSources, modbusTemperatureSources } from './temperature-source.config';
+import { TemperatureSensorService } from '../temperature-sensor/temperature-sensor.service';
+import {
+	TemperatureSourceListener,
+	TemperatureSourceProvider,
+	TemperatureSourceReading,
+	TemperatureSourceRef,
+} from '../interfaces/temperature-source.interface';
+import { MqttTemperatureSourceProvider } from './mqtt-temperature-source.provider';
+import { ModbusTemperatureSourceProvider } from './modbus-temperature-source.provider';
+import { DhtTemperatureSourceProvider } from './dht-temperature-source.provider';
+import { getTemperatureSourceKey, isTemperatureSourceType } from './temperature-source.utils';
+
+/**
+ * Источники температуры устройств (temperatureSource в конфигурации ШУК и батарей)
+ * На каждый источник запускается один провайдер, даже если на него ссылаются несколько устройств;
+ * новые показания рассылаются событием 'temperature.source.updated'
+ */
+@Injectable()
+export class TemperatureSourceService implements OnModuleDestroy {
+	private readonly logger = new Logger(TemperatureSourceService.name);
+	private providers: Record<string, TemperatureSourceProvider> = {};
+	private readings: Record<string, TemperatureSourceReading> = {};
+
+	constructor(
+		private readonly mqttService: MqttService,
+		private readonly temperatureSensorService: TemperatureSensorService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	onModuleDestroy() {
+		Object.values(this.providers).forEach(provider => provider.stop());
+	}
+
+	// Запуск опроса источника; false - тип или источник не найден в конфигурации
+	register(ref: TemperatureSourceRef): boolean {
+		const key = getTemperatureSourceKey(ref);
+		if (this.providers[key]) return true;
+
+		const listener: TemperatureSourceListener = {
+			onReading: temperature => this.handleReading(key, temperature),
+			onError: error => this.handleError(key, error),
+		};
+		const provider = isTemperatureSourceType(ref.type) ? this.createProvider(ref, listener) : null;
+		if (!provider) {
+			this.logger.warn(`⚠️ Temperature source ${key} is not configured`);
+			return false;
+		}
+
+		this.readings[key] = { type: ref.type, sourceId: ref.sourceId, temperature: null, updatedAt: null, error: null };
+		this.providers[key] = provider;
+		provider.start();
+		this.logger.log(`🌡️ Temperature source ${key} started`);
+		return true;
+	}
+
+	getReading(ref: TemperatureSourceRef): TemperatureSourceReading | null {
+		const reading = this.readings[getTemperatureSourceKey(ref)];
+		return reading ? { ...reading } : null;
+	}
+
+	getReadings(): TemperatureSourceReading[] {
+		return Object.values(this.readings).map(reading => ({ ...reading }));
+	}
+
+	private createProvider(ref: TemperatureSourceRef, listener: TemperatureSourceListener): TemperatureSourceProvider | null {
+		switch (ref.type) {
+			case 'mqtt': {
+				const config = mqttTemperatureSources[ref.sourceId];
+				return config
+					? new MqttTemperatureSourceProvider(config, listener, this.mqttService, this.eventEmitter)
+					: null;
+			}
+			case 'modbus': {
+				const config = modbusTemperatureSources[ref.sourceId];
+				return config ? new ModbusTemperatureSourceProvider(config, listener) : null;
+			}
+			case 'dht':
+				return this.temperatureSensorService.hasSensor(ref.sourceId)
+					? new DhtTemperatureSourceProvider(ref.sourceId, listener, this.temperatureSensorService, this.eventEmitter)
+					: null;
+			default:
+				return null;
+		}
+	}
+
+	private handleReading(key: string, temperature: number) {
+		const reading = this.readings[key];
+		if (!reading) return;
+
+		reading.temperature = temperature;
+		reading.updatedAt = new Date().toISOString();
+		this.logger.debug(`Temperature source ${key} updated: ${temperature}°C`);
+		this.eventEmitter.emit('temperature.source.updated', { ...reading });
+	}
+
+	private handleError(key: string, error: string | null) {
+		const reading = this.readings[key];
+		if (!reading || reading.error === error) return;
+
+		reading.error = error;
+		if (error) {
+			this.logger.warn(`❌ Temperature source ${key} error: ${error}`);
+		} else {
+			this.logger.log(`✅ Temperature source ${key} error cleared`);
+		}
+	}
+}
@@ -0,0 +1,34 @@
+import { decodeTemperatureRegisters, parseTemperaturePayload } from './temperature-source.utils';
+
+describe('parseTemperaturePayload', () => {
+	it('should parse plain numeric payloads', () => {
+		expect(parseTemperaturePayload('21.5')).toBe(21.5);
+		expect(parseTemperaturePayload('215', undefined, 0.1)).toBe(21.5);
+		expect(parseTemperaturePayload('error')).toBeNull();
+	});
+
+	it('should extract values by JSON path', () => {
+		const payload = JSON.stringify({ data: { temperature: 22.4 }, sensors: [{ value: '19.8' }] });
+
+		expect(parseTemperaturePayload(payload, 'data.temperature')).toBe(22.4);
+		expect(parseTemperaturePayload(payload, 'sensors.0.value')).toBe(19.8);
+		expect(parseTemperaturePayload(payload, 'data.humidity')).toBeNull();
+		expect(parseTemperaturePayload('not json', 'data.temperature')).toBeNull();
+	});
+});
+
+describe('decodeTemperatureRegisters', () => {
+	it('should decode 16-bit registers with scale', () => {
+		expect(decodeTemperatureRegisters([215], 'int16', 0.1)).toBe(21.5);
+		expect(decodeTemperatureRegisters([0xff9c], 'int16', 0.1)).toBe(-10);
+		expect(decodeTemperatureRegisters([0xff9c], 'uint16')).toBe(65436);
+	});
+
+	it('should decode float32 from two registers', () => {
+		const buffer = Buffer.alloc(4);
+		buffer.writeFloatBE(23.25, 0);
+
+		expect(decodeTemperatureRegisters([buffer.readUInt16BE(0), buffer.readUInt16BE(2)], 'float32')).toBe(23.25);
+		expect(decodeTemperatureRegisters([1], 'float32')).toBeNull();
+	});
+});
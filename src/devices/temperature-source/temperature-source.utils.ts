@@ -0,0 +1,70 @@
+import {
+	ModbusTemperatureDataType,
+	TemperatureSourceRef,
+	TemperatureSourceType,
+	TEMPERATURE_SOURCE_TYPES,
+} from '../interfaces/temperature-source.interface';
+
+export function isTemperatureSourceType(value: unknown): value is TemperatureSourceType {
+	return TEMPERATURE_SOURCE_TYPES.includes(value as TemperatureSourceType);
+}
+
+// Идентификатор источника среди датчиков устройства (в показаниях объединения датчиков)
+export function getTemperatureSourceKey(ref: TemperatureSourceRef): string {
+	return `${ref.type}:${ref.sourceId}`;
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Температура из MQTT сообщения: число или JSON, из которого значение берется по пути через точку
+ * Возвращает null, если значение не найдено или не является числом
+ */
+export function parseTemperaturePayload(message: unknown, jsonPath?: string, scale = 1): number | null {
+	let value: unknown = message;
+
+	if (jsonPath) {
+		try {
+			value = typeof message === 'string' ? JSON.parse(message) : message;
+		} catch {
+			return null;
+		}
+		for (const key of jsonPath.split('.')) {
+			if (value === null || typeof value !== 'object') return null;
+			value = (value as Record<string, unknown>)[key];
+		}
+	}
+
+	if (typeof value !== 'number' && typeof value !== 'string') return null;
+	const temperature = typeof value === 'number' ? value : parseFloat(value);
+	return isFinite(temperature) ? round(temperature * scale) : null;
+}
+
+/**
+ * Температура из регистров Modbus (float32 - старшее слово в первом регистре)
+ */
+export function decodeTemperatureRegisters(registers: number[], dataType: ModbusTemperatureDataType, scale = 1): number | null {
+	let value: number;
+
+	switch (dataType) {
+		case 'uint16':
+			if (registers.length < 1) return null;
+			value = registers[0] & 0xffff;
+			break;
+		case 'float32': {
+			if (registers.length < 2) return null;
+			const buffer = Buffer.alloc(4);
+			buffer.writeUInt16BE(registers[0] & 0xffff, 0);
+			buffer.writeUInt16BE(registers[1] & 0xffff, 2);
+			value = buffer.readFloatBE(0);
+			break;
+		}
+		default:
+			if (registers.length < 1) return null;
+			value = (registers[0] << 16) >> 16;
+	}
+
+	return isFinite(value) ? round(value * scale) : null;
+}
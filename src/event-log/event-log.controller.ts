@@ -0,0 +1,42 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { EventLogService } from './event-log.service';
+import { EventCategory } from './interfaces/event-log.interface';
+
+@Controller('events')
+export class EventLogController {
+	constructor(private readonly eventLogService: EventLogService) {}
+
+	@Get()
+	async getEvents(
+		@Query('from') from?: string,
+		@Query('to') to?: string,
+		@Query('category') category?: EventCategory,
+		@Query('deviceId') deviceId?: string,
+		@Query('limit') limit?: string,
+	) {
+		const fromDate = from ? new Date(from) : undefined;
+		const toDate = to ? new Date(to) : undefined;
+		if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+			return { success: false, message: 'Invalid event query: from and to must be valid dates' };
+		}
+		if (fromDate && toDate && fromDate >= toDate) {
+			return { success: false, message: 'Invalid event query: from must be before to' };
+		}
+		if (limit !== undefined && (!/^\d+$/.test(limit) || parseInt(limit, 10) < 1)) {
+			return { success: false, message: 'Invalid event query: limit must be a positive integer' };
+		}
+
+		try {
+			const events = await this.eventLogService.find({
+				from: fromDate,
+				to: toDate,
+				category,
+				deviceId,
+				limit: limit !== undefined ? parseInt(limit, 10) : undefined,
+			});
+			return { success: true, data: events };
+		} catch (error) {
+			return { success: false, message: `Error reading event log: ${error.message}` };
+		}
+	}
+}
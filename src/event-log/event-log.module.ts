@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { EventLogService } from './event-log.service';
+import { EventLogController } from './event-log.controller';
+import { DatabaseModule } from '../database/database.module';
+
+@Module({
+	imports: [DatabaseModule],
+	controllers: [EventLogController],
+	providers: [EventLogService],
+	exports: [EventLogService],
+})
+export class EventLogModule {}
@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabaseService } from '../database/database.service';
+import { EventLogEntry, EventLogQuery } from './interfaces/event-log.interface';
+
+const DEFAULT_QUERY_LIMIT = 500;
+const MAX_QUERY_LIMIT = 10000;
+const FIND_ALL_BATCH_SIZE = 1000;
+
+/**
+ * Журнал событий системы (смена сезона, аварии, действия операторов)
+ * Хранится в таблице event_log
+ */
+@Injectable()
+export class EventLogService {
+	private readonly logger = new Logger(EventLogService.name);
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async log(entry: EventLogEntry): Promise<void> {
+		const prefix = entry.deviceId ? `[${entry.deviceId}] ` : '';
+		if (entry.severity === 'info') {
+			this.logger.log(`📝 ${entry.category}: ${prefix}${entry.message}`);
+		} else {
+			this.logger.warn(`📝 ${entry.category}: ${prefix}${entry.message}`);
+		}
+
+		try {
+			const rows = await this.databaseService.query<{ id: string; created_at: Date }>(
+				`INSERT INTO event_log (category, severity, device_id, message, details)
+				VALUES ($1, $2, $3, $4, $5)
+				RETURNING id, created_at`,
+				[entry.category, entry.severity, entry.deviceId ?? null, entry.message, entry.details ? JSON.stringify(entry.details) : null],
+			);
+
+			this.eventEmitter.emit('event.logged', {
+				...entry,
+				id: Number(rows[0].id),
+				createdAt: rows[0].created_at.toISOString(),
+			});
+		} catch (error) {
+			this.logger.error(`Failed to write event to database: ${entry.message}`, error);
+		}
+	}
+
+	async find(query: EventLogQuery = {}): Promise<EventLogEntry[]> {
+		const { conditions, params } = this.buildConditions(query);
+
+		params.push(Math.min(query.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT));
+		const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+		const rows = await this.databaseService.query(
+			`SELECT id, created_at, category, severity, device_id, message, details
+			FROM event_log ${where}
+			ORDER BY created_at DESC
+			LIMIT $${params.length}`,
+			params,
+		);
+
+		return rows.map(row => this.mapRow(row));
+	}
+
+	/**
+	 * Все события запроса в хронологическом порядке (limit не применяется)
+	 * Читаются пакетами по id, в памяти находится только текущий пакет
+	 */
+	async *findAll(query: EventLogQuery = {}): AsyncGenerator<EventLogEntry> {
+		let lastId = 0;
+
+		while (true) {
+			const { conditions, params } = this.buildConditions(query);
+			params.push(lastId);
+			conditions.push(`id > $${params.length}`);
+			params.push(FIND_ALL_BATCH_SIZE);
+
+			const rows = await this.databaseService.query(
+				`SELECT id, created_at, category, severity, device_id, message, details
+				FROM event_log WHERE ${conditions.join(' AND ')}
+				ORDER BY id
+				LIMIT $${params.length}`,
+				params,
+			);
+			for (const row of rows) {
+				yield this.mapRow(row);
+			}
+			if (rows.length < FIND_ALL_BATCH_SIZE) return;
+			lastId = Number(rows[rows.length - 1].id);
+		}
+	}
+
+	private buildConditions(query: EventLogQuery): { conditions: string[]; params: any[] } {
+		const conditions: string[] = [];
+		const params: any[] = [];
+
+		if (query.from) {
+			params.push(query.from);
+			conditions.push(`created_at >= $${params.length}`);
+		}
+		if (query.to) {
+			params.push(query.to);
+			conditions.push(`created_at < $${params.length}`);
+		}
+		if (query.category) {
+			params.push(query.category);
+			conditions.push(`category = $${params.length}`);
+		}
+		if (query.deviceId) {
+			params.push(query.deviceId);
+			conditions.push(`device_id = $${params.length}`);
+		}
+		return { conditions, params };
+	}
+
+	private mapRow(row: any): EventLogEntry {
+		return {
+			id: Number(row.id),
+			createdAt: row.created_at.toISOString(),
+			category: row.category,
+			severity: row.severity,
+			deviceId: row.device_id,
+			message: row.message,
+			details: row.details,
+		};
+	}
+}
@@ -0,0 +1,21 @@
+export type EventCategory = 'season' | 'alarm' | 'control' | 'system';
+
+export type EventSeverity = 'info' | 'warning' | 'alarm';
+
+export interface EventLogEntry {
+	id?: number;
+	createdAt?: string;
+	category: EventCategory;
+	severity: EventSeverity;
+	deviceId?: string | null;
+	message: string;
+	details?: Record<string, any> | null;
+}
+
+export interface EventLogQuery {
+	from?: Date;
+	to?: Date;
+	category?: EventCategory;
+	deviceId?: string;
+	limit?: number;
+}
@@ -0,0 +1,146 @@
+import { Controller, Get, Logger, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { ExportService } from './export.service';
+import { HistoryService } from '../history/history.service';
+import { HistoryField } from '../history/interfaces/history.interface';
+import { parseHistoryQuery } from '../history/history.utils';
+import { CsvDelimiter, EventsExportParams, ExportCell, ExportFormat, HistoryExportParams } from './interfaces/export.interface';
+import { EVENT_COLUMNS, buildHistoryColumns, formatCsvRow, formatDateTime, parseExportOptions } from './export.utils';
+import { buildXlsx } from './xlsx.writer';
+
+// Параметры по умолчанию: температура, уставка и время работы по часам
+const EXPORT_FIELDS: HistoryField[] = ['temperature', 'setpoint', 'working'];
+const EXPORT_RESOLUTION = '1h';
+const EXPORT_MAX_POINTS = 200000;  // Предел интервалов на устройство: год по 5 минут (у графиков - 5000)
+const EVENTS_DEFAULT_RANGE = 30 * 24 * 3600 * 1000;
+const XLSX_MAX_ROWS = 100000;   // XLSX собирается в памяти; большие выгрузки - в CSV
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	csv: 'text/csv; charset=utf-8',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+@Controller('export')
+export class ExportController {
+	private readonly logger = new Logger(ExportController.name);
+
+	constructor(
+		private readonly exportService: ExportService,
+		private readonly historyService: HistoryService,
+	) {}
+
+	// История устройств devices и/или группы groupId; ответ - файл или { success: false, message }
+	@Get('history')
+	async exportHistory(@Query() params: HistoryExportParams, @Res() res: Response) {
+		const options = parseExportOptions(params);
+		if (typeof options === 'string') {
+			return res.json({ success: false, message: `Invalid export options: ${options}` });
+		}
+		const deviceIds = params.devices ? params.devices.split(',').map(deviceId => deviceId.trim()).filter(Boolean) : [];
+		const devices = this.historyService.resolveDevices(deviceIds, params.groupId ? parseInt(params.groupId, 10) : undefined);
+		if (typeof devices === 'string') {
+			return res.json({ success: false, message: devices });
+		}
+		const query = parseHistoryQuery(
+			{ ...params, resolution: params.resolution || EXPORT_RESOLUTION },
+			EXPORT_FIELDS,
+			new Date(),
+			EXPORT_MAX_POINTS,
+		);
+		if (typeof query === 'string') {
+			return res.json({ success: false, message: `Invalid history query: ${query}` });
+		}
+
+		try {
+			const columns = buildHistoryColumns(devices, query.fields, options.stats);
+			const rows = this.exportService.getHistoryRows(devices, query, options.stats);
+			const filename = `history_${formatDateTime(query.from).slice(0, 10)}_${formatDateTime(query.to).slice(0, 10)}`;
+			await this.send(res, options.format, options.delimiter, filename, 'История', columns, rows);
+		} catch (error) {
+			this.sendError(res, `Error exporting history: ${error.message}`);
+		}
+	}
+
+	// Журнал событий за период (по умолчанию - последние 30 суток)
+	@Get('events')
+	async exportEvents(@Query() params: EventsExportParams, @Res() res: Response) {
+		const options = parseExportOptions(params);
+		if (typeof options === 'string') {
+			return res.json({ success: false, message: `Invalid export options: ${options}` });
+		}
+		const to = params.to ? new Date(params.to) : new Date();
+		const from = params.from ? new Date(params.from) : new Date(to.getTime() - EVENTS_DEFAULT_RANGE);
+		if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+			return res.json({ success: false, message: 'from and to must be valid dates, from before to' });
+		}
+
+		try {
+			const rows = this.exportService.getEventRows({ from, to, category: params.category, deviceId: params.deviceId });
+			const filename = `events_${formatDateTime(from).slice(0, 10)}_${formatDateTime(to).slice(0, 10)}`;
+			await this.send(res, options.format, options.delimiter, filename, 'События', EVENT_COLUMNS, rows);
+		} catch (error) {
+			this.sendError(res, `Error exporting events: ${error.message}`);
+		}
+	}
+
+	/**
+	 * CSV передается построчно по мере чтения строк (UTF-8 с BOM для Excel),
+	 * XLSX собирается целиком и передается одним ответом
+	 */
+	private async send(
+		res: Response,
+		format: ExportFormat,
+		delimiter: CsvDelimiter,
+		filename: string,
+		sheetName: string,
+		columns: string[],
+		rows: Iterable<ExportCell[]> | AsyncIterable<ExportCell[]>,
+	) {
+		if (format === 'xlsx') {
+			const collected: ExportCell[][] = [];
+			for await (const row of rows) {
+				if (collected.length >= XLSX_MAX_ROWS) {
+					res.json({ success: false, message: `Too many rows for XLSX (limit ${XLSX_MAX_ROWS}), use CSV or a shorter range` });
+					return;
+				}
+				collected.push(row);
+			}
+			const file = buildXlsx(sheetName, { columns, rows: collected });
+			res.set({ 'Content-Type': CONTENT_TYPES.xlsx, 'Content-Disposition': `attachment; filename="${filename}.xlsx"` });
+			res.send(file);
+			return;
+		}
+
+		res.set({ 'Content-Type': CONTENT_TYPES.csv, 'Content-Disposition': `attachment; filename="${filename}.csv"` });
+		res.write('\ufeff' + formatCsvRow(columns, delimiter));
+		for await (const row of rows) {
+			if (res.destroyed) return;
+			if (!res.write(formatCsvRow(row, delimiter))) {
+				await this.waitForDrain(res);
+			}
+		}
+		res.end();
+	}
+
+	// Ожидание освобождения буфера ответа (или закрытия соединения клиентом)
+	private waitForDrain(res: Response): Promise<void> {
+		return new Promise(resolve => {
+			const done = () => {
+				res.off('drain', done);
+				res.off('close', done);
+				resolve();
+			};
+			res.once('drain', done);
+			res.once('close', done);
+		});
+	}
+
+	// До начала передачи ошибка возвращается в JSON, после - соединение закрывается (файл неполный)
+	private sendError(res: Response, message: string) {
+		this.logger.error(message);
+		if (res.headersSent) {
+			res.destroy();
+		} else {
+			res.json({ success: false, message });
+		}
+	}
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ExportService } from './export.service';
+import { ExportController } from './export.controller';
+import { HistoryModule } from '../history/history.module';
+import { EventLogModule } from '../event-log/event-log.module';
+
+@Module({
+	imports: [HistoryModule, EventLogModule],
+	controllers: [ExportController],
+	providers: [ExportService],
+})
+export class ExportModule {}
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { HistoryService } from '../history/history.service';
+import { EventLogService } from '../event-log/event-log.service';
+import { HistoryDevice, HistoryQuery } from '../history/interfaces/history.interface';
+import { EventLogQuery } from '../event-log/interfaces/event-log.interface';
+import { ExportCell, ExportStat } from './interfaces/export.interface';
+import { buildEventRow, buildHistoryRow } from './export.utils';
+
+/**
+ * Выгрузка истории устройств и журнала событий в таблицы для CSV и XLSX
+ * История агрегируется в базе (как в API истории) и читается страницами по интервалам, журнал - пакетами
+ */
+@Injectable()
+export class ExportService {
+	constructor(
+		private readonly historyService: HistoryService,
+		private readonly eventLogService: EventLogService,
+	) {}
+
+	// Строки таблицы истории (заголовки - buildHistoryColumns) в хронологическом порядке
+	async *getHistoryRows(devices: HistoryDevice[], query: HistoryQuery, stats: ExportStat[]): AsyncGenerator<ExportCell[]> {
+		const { resolution, intervals } = this.historyService.getHistoryIntervals(devices, query);
+		for await (const interval of intervals) {
+			yield buildHistoryRow(interval, devices, query.fields, stats, resolution);
+		}
+	}
+
+	async *getEventRows(query: EventLogQuery): AsyncGenerator<ExportCell[]> {
+		for await (const entry of this.eventLogService.findAll(query)) {
+			const device = entry.deviceId ? this.historyService.findDevice(entry.deviceId) : null;
+			yield buildEventRow(entry, device?.name ?? null);
+		}
+	}
+}
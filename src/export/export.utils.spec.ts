@@ -0,0 +1,93 @@
+import { buildEventRow, buildHistoryColumns, buildHistoryRow, formatCsvRow, formatDateTime, parseExportOptions } from './export.utils';
+import { HistoryDevice, HistoryField, HistoryInterval } from '../history/interfaces/history.interface';
+
+const devices: HistoryDevice[] = [
+	{ deviceId: 'ШУК16', deviceType: 'heating', name: 'Управление отоплением 16' },
+	{ deviceId: 'ШУОП1', deviceType: 'batteries', name: 'ШУОП-1 низ' },
+];
+const fields: HistoryField[] = ['temperature', 'working'];
+
+function interval(): HistoryInterval {
+	const stats = (avg: number) => ({ min: avg - 1, avg, max: avg + 1 });
+	return {
+		time: '2026-01-01T01:00:00.000Z',
+		points: {
+			ШУК16: { time: '2026-01-01T01:00:00.000Z', samples: 360, values: { temperature: stats(21), working: stats(0.25) } },
+		},
+	};
+}
+
+describe('parseExportOptions', () => {
+	it('should default to CSV with semicolons and averages', () => {
+		expect(parseExportOptions({})).toEqual({ format: 'csv', delimiter: 'semicolon', stats: ['avg'] });
+	});
+
+	it('should keep stats in min/avg/max order and reject unknown values', () => {
+		expect(parseExportOptions({ format: 'xlsx', stats: 'max,min' })).toEqual({ format: 'xlsx', delimiter: 'semicolon', stats: ['min', 'max'] });
+		expect(parseExportOptions({ format: 'pdf' })).toBe('format must be csv or xlsx');
+		expect(parseExportOptions({ stats: 'median' })).toContain('stats must be');
+	});
+});
+
+describe('buildHistoryColumns', () => {
+	it('should use device names in headers and convert flags to hours', () => {
+		expect(buildHistoryColumns(devices, fields, ['avg'])).toEqual([
+			'Время',
+			'Управление отоплением 16: Температура, °C',
+			'Управление отоплением 16: Работа, ч',
+			'ШУОП-1 низ: Температура, °C',
+			'ШУОП-1 низ: Работа, ч',
+		]);
+	});
+
+	it('should add a column per statistic', () => {
+		expect(buildHistoryColumns(devices, fields, ['min', 'max']).slice(1, 4)).toEqual([
+			'Управление отоплением 16: Температура, °C (мин.)',
+			'Управление отоплением 16: Температура, °C (макс.)',
+			'Управление отоплением 16: Работа, ч',
+		]);
+	});
+});
+
+describe('buildHistoryRow', () => {
+	it('should convert flags to hours and leave devices without records empty', () => {
+		expect(buildHistoryRow(interval(), devices, fields, ['avg'], 3600)).toEqual([new Date('2026-01-01T01:00:00.000Z'), 21, 0.25, null, null]);
+		expect(buildHistoryRow(interval(), devices, fields, ['avg'], 300)).toEqual([new Date('2026-01-01T01:00:00.000Z'), 21, 0.02, null, null]);
+	});
+
+	it('should add a cell per statistic', () => {
+		expect(buildHistoryRow(interval(), devices, fields, ['min', 'max'], 3600).slice(1, 4)).toEqual([20, 22, 0.25]);
+	});
+});
+
+describe('formatCsvRow', () => {
+	it('should use decimal commas with semicolon delimiter', () => {
+		expect(formatCsvRow(['ШУК1', 21.5, null], 'semicolon')).toBe('ШУК1;21,5;\r\n');
+		expect(formatCsvRow(['ШУК1', 21.5, null], 'comma')).toBe('ШУК1,21.5,\r\n');
+	});
+
+	it('should quote text with delimiters, quotes and line breaks', () => {
+		expect(formatCsvRow(['Ошибка; "датчик"', 'a\nb'], 'semicolon')).toBe('"Ошибка; ""датчик""";"a\nb"\r\n');
+	});
+
+	it('should format dates in server local time', () => {
+		const date = new Date(2026, 0, 15, 8, 5, 3);
+		expect(formatDateTime(date)).toBe('2026-01-15 08:05:03');
+		expect(formatCsvRow([date], 'comma')).toBe('2026-01-15 08:05:03\r\n');
+	});
+});
+
+describe('buildEventRow', () => {
+	it('should translate category and severity and prefer the device name', () => {
+		const row = buildEventRow({
+			createdAt: '2026-01-15T08:00:00.000Z',
+			category: 'alarm',
+			severity: 'warning',
+			deviceId: 'ШУОП1',
+			message: 'Датчик не отвечает',
+			details: { sensor: 'T1' },
+		}, 'ШУОП-1 низ');
+
+		expect(row).toEqual([new Date('2026-01-15T08:00:00.000Z'), 'Авария', 'Предупреждение', 'ШУОП-1 низ', 'Датчик не отвечает', '{"sensor":"T1"}']);
+	});
+});
@@ -0,0 +1,133 @@
+import { HistoryDevice, HistoryField, HistoryInterval } from '../history/interfaces/history.interface';
+import { EventCategory, EventLogEntry, EventSeverity } from '../event-log/interfaces/event-log.interface';
+import { CsvDelimiter, ExportCell, ExportOptions, ExportOptionsParams, ExportStat } from './interfaces/export.interface';
+
+const EXPORT_STATS: ExportStat[] = ['min', 'avg', 'max'];
+const STAT_LABELS: Record<ExportStat, string> = { min: 'мин.', avg: 'ср.', max: 'макс.' };
+
+// Заголовки параметров; признаки выгружаются как время во включенном состоянии за интервал (часы)
+const FIELD_LABELS: Record<HistoryField, { title: string; unit: string; hours?: boolean }> = {
+	temperature: { title: 'Температура', unit: '°C' },
+	setpoint: { title: 'Уставка', unit: '°C' },
+	fanOutput: { title: 'Вентилятор', unit: '%' },
+	valveOpen: { title: 'Клапан открыт', unit: 'ч', hours: true },
+	pidOutput: { title: 'Выход регулятора', unit: '%' },
+	pidError: { title: 'Рассогласование', unit: '°C' },
+	pidP: { title: 'P-составляющая', unit: '%' },
+	pidI: { title: 'I-составляющая', unit: '%' },
+	pidD: { title: 'D-составляющая', unit: '%' },
+	autoControl: { title: 'Автоуправление', unit: 'ч', hours: true },
+	emergencyStop: { title: 'Аварийная остановка', unit: 'ч', hours: true },
+	working: { title: 'Работа', unit: 'ч', hours: true },
+	online: { title: 'На связи', unit: 'ч', hours: true },
+};
+
+const CATEGORY_LABELS: Record<EventCategory, string> = {
+	season: 'Сезон',
+	alarm: 'Авария',
+	control: 'Управление',
+	system: 'Система',
+};
+
+const SEVERITY_LABELS: Record<EventSeverity, string> = {
+	info: 'Информация',
+	warning: 'Предупреждение',
+	alarm: 'Авария',
+};
+
+export const EVENT_COLUMNS = ['Время', 'Категория', 'Важность', 'Устройство', 'Сообщение', 'Подробности'];
+
+/**
+ * Разбор параметров выгрузки: format (csv | xlsx), delimiter (semicolon | comma), stats (min,avg,max)
+ * Возвращает текст ошибки при неверных параметрах
+ */
+export function parseExportOptions(params: ExportOptionsParams): ExportOptions | string {
+	const format = params.format || 'csv';
+	if (format !== 'csv' && format !== 'xlsx') {
+		return 'format must be csv or xlsx';
+	}
+	const delimiter = params.delimiter || 'semicolon';
+	if (delimiter !== 'semicolon' && delimiter !== 'comma') {
+		return 'delimiter must be semicolon or comma';
+	}
+	const stats = params.stats ? params.stats.split(',').map(stat => stat.trim()) : ['avg'];
+	if (stats.length === 0 || !stats.every(stat => EXPORT_STATS.includes(stat as ExportStat))) {
+		return `stats must be a comma-separated list of: ${EXPORT_STATS.join(', ')}`;
+	}
+	return { format, delimiter, stats: EXPORT_STATS.filter(stat => stats.includes(stat)) };
+}
+
+/**
+ * Заголовки таблицы истории: время, затем столбцы по устройствам и параметрам
+ * Заголовки - deviceRealName устройства и параметр с единицами измерения
+ */
+export function buildHistoryColumns(devices: HistoryDevice[], fields: HistoryField[], stats: ExportStat[]): string[] {
+	const columns = ['Время'];
+	devices.forEach(device => fields.forEach(field => {
+		const label = FIELD_LABELS[field];
+		if (label.hours || stats.length === 1) {
+			columns.push(`${device.name}: ${label.title}, ${label.unit}`);
+		} else {
+			stats.forEach(stat => columns.push(`${device.name}: ${label.title}, ${label.unit} (${STAT_LABELS[stat]})`));
+		}
+	}));
+	return columns;
+}
+
+// Строка таблицы истории за интервал длиной resolution секунд; у устройств без записей - пустые ячейки
+export function buildHistoryRow(
+	interval: HistoryInterval,
+	devices: HistoryDevice[],
+	fields: HistoryField[],
+	stats: ExportStat[],
+	resolution: number,
+): ExportCell[] {
+	const row: ExportCell[] = [new Date(interval.time)];
+	devices.forEach(device => {
+		const point = interval.points[device.deviceId];
+		fields.forEach(field => {
+			const values = point?.values[field];
+			if (FIELD_LABELS[field].hours) {
+				row.push(values?.avg != null ? round(values.avg * resolution / 3600) : null);
+			} else {
+				stats.forEach(stat => row.push(values?.[stat] ?? null));
+			}
+		});
+	});
+	return row;
+}
+
+export function buildEventRow(entry: EventLogEntry, deviceName: string | null): ExportCell[] {
+	return [
+		new Date(entry.createdAt!),
+		CATEGORY_LABELS[entry.category] ?? entry.category,
+		SEVERITY_LABELS[entry.severity] ?? entry.severity,
+		deviceName ?? entry.deviceId ?? null,
+		entry.message,
+		entry.details ? JSON.stringify(entry.details) : null,
+	];
+}
+
+// Строка CSV; при разделителе ";" дробная часть чисел отделяется запятой
+export function formatCsvRow(cells: ExportCell[], delimiter: CsvDelimiter): string {
+	const separator = delimiter === 'semicolon' ? ';' : ',';
+	return cells.map(cell => {
+		if (cell === null) return '';
+		if (cell instanceof Date) return formatDateTime(cell);
+		if (typeof cell === 'number') {
+			return delimiter === 'semicolon' ? String(cell).replace('.', ',') : String(cell);
+		}
+		return /[";,\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+	}).join(separator) + '\r\n';
+}
+
+// Местное время сервера: YYYY-MM-DD HH:mm:ss
+export function formatDateTime(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+		+ `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
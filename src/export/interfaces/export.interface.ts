@@ -0,0 +1,41 @@
+import { HistoryQueryParams, HistoryValueStats } from '../../history/interfaces/history.interface';
+import { EventCategory } from '../../event-log/interfaces/event-log.interface';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Разделитель CSV: semicolon - для Excel с русскими региональными настройками (дробная часть через запятую)
+export type CsvDelimiter = 'semicolon' | 'comma';
+
+export type ExportStat = keyof HistoryValueStats;
+
+export type ExportCell = string | number | Date | null;
+
+export interface ExportTable {
+	columns: string[];
+	rows: ExportCell[][];
+}
+
+export interface ExportOptions {
+	format: ExportFormat;
+	delimiter: CsvDelimiter;
+	stats: ExportStat[];
+}
+
+// Параметры запроса выгрузки (строки запроса)
+export interface ExportOptionsParams {
+	format?: string;
+	delimiter?: string;
+	stats?: string;
+}
+
+export interface HistoryExportParams extends HistoryQueryParams, ExportOptionsParams {
+	devices?: string;
+	groupId?: string;
+}
+
+export interface EventsExportParams extends ExportOptionsParams {
+	from?: string;
+	to?: string;
+	category?: EventCategory;
+	deviceId?: string;
+}
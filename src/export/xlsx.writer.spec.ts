@@ -0,0 +1,66 @@
+import { inflateRawSync } from 'zlib';
+import { buildXlsx, columnName, crc32 } from './xlsx.writer';
+
+// Файлы ZIP-архива по центральному каталогу
+function unzip(file: Buffer): Record<string, string> {
+	const end = file.length - 22;
+	expect(file.readUInt32LE(end)).toBe(0x06054b50);
+	const count = file.readUInt16LE(end + 10);
+	let offset = file.readUInt32LE(end + 16);
+	const files: Record<string, string> = {};
+
+	for (let i = 0; i < count; i++) {
+		expect(file.readUInt32LE(offset)).toBe(0x02014b50);
+		const compressedSize = file.readUInt32LE(offset + 20);
+		const nameLength = file.readUInt16LE(offset + 28);
+		const localOffset = file.readUInt32LE(offset + 42);
+		const name = file.toString('utf8', offset + 46, offset + 46 + nameLength);
+		const dataStart = localOffset + 30 + file.readUInt16LE(localOffset + 26);
+		const data = inflateRawSync(file.subarray(dataStart, dataStart + compressedSize));
+
+		expect(crc32(data)).toBe(file.readUInt32LE(offset + 16));
+		files[name] = data.toString('utf8');
+		offset += 46 + nameLength;
+	}
+	return files;
+}
+
+describe('buildXlsx', () => {
+	it('should package a workbook with one sheet', () => {
+		const files = unzip(buildXlsx('История', { columns: ['Время', 'ШУОП-1 низ: Температура, °C'], rows: [] }));
+
+		expect(Object.keys(files)).toEqual([
+			'[Content_Types].xml',
+			'_rels/.rels',
+			'xl/workbook.xml',
+			'xl/_rels/workbook.xml.rels',
+			'xl/styles.xml',
+			'xl/worksheets/sheet1.xml',
+		]);
+		expect(files['xl/workbook.xml']).toContain('<sheet name="История" sheetId="1" r:id="rId1"/>');
+		expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="B1" t="inlineStr" s="2"><is><t xml:space="preserve">ШУОП-1 низ: Температура, °C</t></is></c>');
+	});
+
+	it('should write numbers, dates and escaped text', () => {
+		const date = new Date(Date.UTC(2026, 0, 15, 12) + new Date(2026, 0, 15).getTimezoneOffset() * 60000);
+		const files = unzip(buildXlsx('События', { columns: ['A', 'B', 'C', 'D'], rows: [[date, 21.5, null, 'T < 5 & "авария"']] }));
+		const sheet = files['xl/worksheets/sheet1.xml'];
+
+		expect(sheet).toContain('<c r="A2" s="1"><v>46037.5</v></c>');
+		expect(sheet).toContain('<c r="B2"><v>21.5</v></c>');
+		expect(sheet).not.toContain('r="C2"');
+		expect(sheet).toContain('T &lt; 5 &amp; &quot;авария&quot;');
+	});
+});
+
+describe('columnName', () => {
+	it('should name columns like Excel', () => {
+		expect([0, 25, 26, 51, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA']);
+	});
+});
+
+describe('crc32', () => {
+	it('should match the standard check value', () => {
+		expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+	});
+});
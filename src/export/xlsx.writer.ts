@@ -0,0 +1,194 @@
+import { deflateRawSync } from 'zlib';
+import { ExportCell, ExportTable } from './interfaces/export.interface';
+
+const MAIN_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Стили ячеек: 0 - обычная, 1 - дата и время, 2 - заголовок
+const DATE_STYLE = 1;
+const HEADER_STYLE = 2;
+const MAX_COLUMN_WIDTH = 60;
+const EXCEL_EPOCH_OFFSET = 25569;   // 1970-01-01 в датах Excel
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+/**
+ * Книга XLSX из одного листа: первая строка - заголовки (закреплена), даты записываются
+ * как даты Excel в местном времени сервера. Файл собирается в памяти без внешних библиотек
+ */
+export function buildXlsx(sheetName: string, table: ExportTable): Buffer {
+	return buildZip([
+		['[Content_Types].xml', buildContentTypes()],
+		['_rels/.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">`
+			+ `<Relationship Id="rId1" Type="${RELATIONSHIPS_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>`
+			+ '</Relationships>'],
+		['xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIPS_NAMESPACE}">`
+			+ `<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>`
+			+ '</workbook>'],
+		['xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">`
+			+ `<Relationship Id="rId1" Type="${RELATIONSHIPS_NAMESPACE}/worksheet" Target="worksheets/sheet1.xml"/>`
+			+ `<Relationship Id="rId2" Type="${RELATIONSHIPS_NAMESPACE}/styles" Target="styles.xml"/>`
+			+ '</Relationships>'],
+		['xl/styles.xml', buildStyles()],
+		['xl/worksheets/sheet1.xml', buildSheet(table)],
+	]);
+}
+
+// Имя столбца Excel по номеру с нуля: 0 - A, 26 - AA
+export function columnName(index: number): string {
+	let name = '';
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+export function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildContentTypes(): string {
+	const type = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+	return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+		+ '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+		+ '<Default Extension="xml" ContentType="application/xml"/>'
+		+ `<Override PartName="/xl/workbook.xml" ContentType="${type}.sheet.main+xml"/>`
+		+ `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="${type}.worksheet+xml"/>`
+		+ `<Override PartName="/xl/styles.xml" ContentType="${type}.styles+xml"/>`
+		+ '</Types>';
+}
+
+function buildStyles(): string {
+	return `${XML_HEADER}<styleSheet xmlns="${MAIN_NAMESPACE}">`
+		+ '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>'
+		+ '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+		+ '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+		+ '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+		+ '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+		+ '<cellXfs count="3">'
+		+ '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+		+ '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+		+ '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+		+ '</cellXfs>'
+		+ '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+		+ '</styleSheet>';
+}
+
+function buildSheet(table: ExportTable): string {
+	const widths = table.columns.map((title, index) => {
+		const width = Math.max(title.length, index === 0 ? 19 : 10) + 2;
+		return `<col min="${index + 1}" max="${index + 1}" width="${Math.min(width, MAX_COLUMN_WIDTH)}" customWidth="1"/>`;
+	});
+	const rows = [
+		buildRow(1, table.columns, HEADER_STYLE),
+		...table.rows.map((cells, index) => buildRow(index + 2, cells)),
+	];
+
+	return `${XML_HEADER}<worksheet xmlns="${MAIN_NAMESPACE}">`
+		+ '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+		+ (widths.length > 0 ? `<cols>${widths.join('')}</cols>` : '')
+		+ `<sheetData>${rows.join('')}</sheetData>`
+		+ '</worksheet>';
+}
+
+function buildRow(rowNumber: number, cells: ExportCell[], style?: number): string {
+	const xml = cells.map((cell, index) => buildCell(`${columnName(index)}${rowNumber}`, cell, style)).join('');
+	return `<row r="${rowNumber}">${xml}</row>`;
+}
+
+function buildCell(reference: string, cell: ExportCell, style?: number): string {
+	const styleAttribute = style !== undefined ? ` s="${style}"` : '';
+	if (cell === null || cell === '') {
+		return '';
+	}
+	if (cell instanceof Date) {
+		const serial = (cell.getTime() - cell.getTimezoneOffset() * 60000) / 86400000 + EXCEL_EPOCH_OFFSET;
+		return `<c r="${reference}" s="${DATE_STYLE}"><v>${serial}</v></c>`;
+	}
+	if (typeof cell === 'number') {
+		return Number.isFinite(cell) ? `<c r="${reference}"${styleAttribute}><v>${cell}</v></c>` : '';
+	}
+	return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+// Имя листа Excel: до 31 символа, без символов []:*?/\
+function toSheetName(name: string): string {
+	return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+}
+
+function escapeXml(value: string): string {
+	return value
+		// eslint-disable-next-line no-control-regex
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+// ZIP-архив (deflate), имена файлов в UTF-8
+function buildZip(files: [string, string][]): Buffer {
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const [name, content] of files) {
+		const nameBuffer = Buffer.from(name, 'utf8');
+		const data = Buffer.from(content, 'utf8');
+		const compressed = deflateRawSync(data);
+		const crc = crc32(data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);         // Версия для распаковки
+		local.writeUInt16LE(0x0800, 6);     // Имена в UTF-8
+		local.writeUInt16LE(8, 8);          // deflate
+		local.writeUInt16LE(0, 10);         // Время изменения
+		local.writeUInt16LE(0x21, 12);      // Дата изменения: 1980-01-01
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(nameBuffer.length, 26);
+		local.writeUInt16LE(0, 28);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt16LE(0, 12);
+		central.writeUInt16LE(0x21, 14);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(data.length, 24);
+		central.writeUInt16LE(nameBuffer.length, 28);
+		central.writeUInt32LE(offset, 42);
+
+		localParts.push(local, nameBuffer, compressed);
+		centralParts.push(central, nameBuffer);
+		offset += local.length + nameBuffer.length + compressed.length;
+	}
+
+	const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(files.length, 8);
+	end.writeUInt16LE(files.length, 10);
+	end.writeUInt32LE(centralSize, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...localParts, ...centralParts, end]);
+}
@@ -0,0 +1,60 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { HistoryService } from './history.service';
+import { HistoryDevice, HistoryField, HistoryQueryParams } from './interfaces/history.interface';
+import { parseHistoryQuery } from './history.utils';
+
+// Параметры по умолчанию (fields не задан)
+const HEATING_FIELDS: HistoryField[] = ['temperature', 'setpoint', 'fanOutput', 'valveOpen'];
+const BATTERIES_FIELDS: HistoryField[] = ['temperature', 'setpoint', 'valveOpen'];
+const COMPARE_FIELDS: HistoryField[] = ['temperature', 'setpoint'];
+
+@Controller()
+export class HistoryController {
+	constructor(private readonly historyService: HistoryService) {}
+
+	@Get('heating/:heatingId/history')
+	async getHeatingHistory(@Param('heatingId') heatingId: string, @Query() params: HistoryQueryParams) {
+		const device = this.historyService.findDevice(heatingId);
+		if (device?.deviceType !== 'heating') {
+			return { success: false, message: 'Heating system not found' };
+		}
+		return this.getHistory([device], params, HEATING_FIELDS);
+	}
+
+	@Get('batteries/:deviceId/history')
+	async getBatteriesHistory(@Param('deviceId') deviceId: string, @Query() params: HistoryQueryParams) {
+		const device = this.historyService.findDevice(deviceId);
+		if (device?.deviceType !== 'batteries') {
+			return { success: false, message: 'Batteries device not found' };
+		}
+		return this.getHistory([device], params, BATTERIES_FIELDS);
+	}
+
+	// Сравнение устройств: список devices и/или все устройства группы groupId
+	@Get('history')
+	async getDevicesHistory(
+		@Query() params: HistoryQueryParams,
+		@Query('devices') devices?: string,
+		@Query('groupId') groupId?: string,
+	) {
+		const deviceIds = devices ? devices.split(',').map(deviceId => deviceId.trim()).filter(Boolean) : [];
+		const historyDevices = this.historyService.resolveDevices(deviceIds, groupId ? parseInt(groupId, 10) : undefined);
+		if (typeof historyDevices === 'string') {
+			return { success: false, message: historyDevices };
+		}
+		return this.getHistory(historyDevices, params, COMPARE_FIELDS);
+	}
+
+	private async getHistory(devices: HistoryDevice[], params: HistoryQueryParams, defaultFields: HistoryField[]) {
+		const query = parseHistoryQuery(params, defaultFields);
+		if (typeof query === 'string') {
+			return { success: false, message: `Invalid history query: ${query}` };
+		}
+		try {
+			const history = await this.historyService.getHistory(devices, query);
+			return { success: true, data: history };
+		} catch (error) {
+			return { success: false, message: `Error reading history: ${error.message}` };
+		}
+	}
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { HistoryService } from './history.service';
+import { HistoryController } from './history.controller';
+import { DatabaseModule } from '../database/database.module';
+import { HeatingModule } from '../devices/heating/heating.module';
+import { BatteriesModule } from '../devices/batteries/batteries.module';
+import { DeviceGroupModule } from '../devices/device-group/device-group.module';
+
+@Module({
+	imports: [DatabaseModule, HeatingModule, BatteriesModule, DeviceGroupModule],
+	controllers: [HistoryController],
+	providers: [HistoryService],
+	exports: [HistoryService],
+})
+export class HistoryModule {}
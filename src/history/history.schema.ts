@@ -0,0 +1,47 @@
+import { HISTORY_COLUMNS } from './interfaces/history.interface';
+
+export const HISTORY_RAW_TABLE = 'history_samples';
+
+// Агрегаты: min/avg/max каждого параметра за интервал, количество записей со значением параметра и всех исходных записей
+export const HISTORY_ROLLUPS = [
+	{ table: 'history_5min', seconds: 300, source: HISTORY_RAW_TABLE },
+	{ table: 'history_hourly', seconds: 3600, source: 'history_5min' },
+] as const;
+
+const columns = Object.values(HISTORY_COLUMNS);
+
+function createRollupTable(table: string): string {
+	return `CREATE TABLE IF NOT EXISTS ${table} (
+		device_id VARCHAR(64) NOT NULL,
+		device_type VARCHAR(16) NOT NULL,
+		bucket TIMESTAMPTZ NOT NULL,
+		samples INTEGER NOT NULL,
+		${columns.map(column => `${column}_min REAL, ${column}_avg REAL, ${column}_max REAL, ${column}_count INTEGER`).join(',\n\t\t')},
+		PRIMARY KEY (device_id, bucket)
+	)`;
+}
+
+// Колонки <колонка>_count для таблиц агрегатов, созданных до их появления
+function addRollupCountColumns(table: string): string {
+	return `ALTER TABLE ${table} ${columns.map(column => `ADD COLUMN IF NOT EXISTS ${column}_count INTEGER`).join(', ')}`;
+}
+
+/**
+ * Таблицы истории: исходные записи и агрегаты по 5 минут и по часу
+ * Первичный ключ (device_id, время) служит индексом для выборки по устройству и диапазону
+ */
+export const HISTORY_SCHEMA: string[] = [
+	`CREATE TABLE IF NOT EXISTS ${HISTORY_RAW_TABLE} (
+		device_id VARCHAR(64) NOT NULL,
+		device_type VARCHAR(16) NOT NULL,
+		sampled_at TIMESTAMPTZ NOT NULL,
+		${columns.map(column => `${column} REAL`).join(',\n\t\t')},
+		PRIMARY KEY (device_id, sampled_at)
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_${HISTORY_RAW_TABLE}_sampled_at ON ${HISTORY_RAW_TABLE} (sampled_at)`,
+	...HISTORY_ROLLUPS.flatMap(({ table }) => [
+		createRollupTable(table),
+		addRollupCountColumns(table),
+		`CREATE INDEX IF NOT EXISTS idx_${table}_bucket ON ${table} (bucket)`,
+	]),
+];
@@ -0,0 +1,337 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabaseService } from '../database/database.service';
+import { HeatingService } from '../devices/heating/heating.service';
+import { BatteriesService } from '../devices/batteries/batteries.service';
+import { DeviceGroupService } from '../devices/device-group/device-group.service';
+import { HeatingState } from '../devices/interfaces/heating.interface';
+import { BatteriesState } from '../devices/interfaces/batteries.interface';
+import { heatingConfigs } from '../devices/heating/heating.config';
+import { batteriesConfigs } from '../devices/batteries/batteries.config';
+import {
+	HistoryDevice,
+	HistoryField,
+	HistoryInterval,
+	HistoryOptions,
+	HistoryQuery,
+	HistoryResult,
+	HistorySample,
+	HistorySeries,
+	HistorySource,
+} from './interfaces/history.interface';
+import { HISTORY_RAW_TABLE, HISTORY_ROLLUPS } from './history.schema';
+import {
+	HistoryRow,
+	buildHistoryQuery,
+	buildInsertQuery,
+	buildRollupQuery,
+	floorToBucket,
+	parseHistoryRow,
+	selectHistorySource,
+} from './history.utils';
+
+const HISTORY_OPTIONS: HistoryOptions = {
+	sampleInterval: parseFloat(process.env.HISTORY_SAMPLE_INTERVAL || '10'),
+	flushInterval: parseFloat(process.env.HISTORY_FLUSH_INTERVAL || '60'),
+	batchSize: parseInt(process.env.HISTORY_BATCH_SIZE || '500'),
+	rawRetentionDays: parseFloat(process.env.HISTORY_RAW_RETENTION_DAYS || '7'),
+	fiveMinuteRetentionDays: parseFloat(process.env.HISTORY_5MIN_RETENTION_DAYS || '90'),
+	hourlyRetentionDays: parseFloat(process.env.HISTORY_HOURLY_RETENTION_DAYS || '0'),
+};
+const MAINTENANCE_INTERVAL = 5 * 60 * 1000;
+const MAX_BUFFERED_BATCHES = 10;     // При недоступной базе хранится не больше 10 пакетов, старые записи отбрасываются
+const PID_TERMS_TIMEOUT = 5000;      // Составляющие PID старше 5 секунд не записываются (регулятор не работает)
+const PAGE_INTERVALS = 500;          // Интервалов в странице при чтении истории для выгрузки
+
+interface PidTerms {
+	error: number;
+	proportional?: number;
+	integral?: number;
+	derivative?: number;
+	updatedAt: number;
+}
+
+/**
+ * История состояния ШУК и ШУОП: температура, уставка, выходы, составляющие PID и признаки режимов
+ *
+ * Состояние записывается раз в sampleInterval секунд в буфер, буфер пишется в базу одним INSERT.
+ * Исходные записи агрегируются в 5-минутные и часовые интервалы (min/avg/max) и удаляются
+ * по истечении срока хранения; агрегаты хранятся дольше. Запросы истории агрегируются в базе
+ * из самой крупной подходящей таблицы.
+ */
+@Injectable()
+export class HistoryService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(HistoryService.name);
+	private buffer: HistorySample[] = [];
+	private pidTerms: Record<string, PidTerms> = {};
+	private sampleInterval: NodeJS.Timeout | null = null;
+	private flushInterval: NodeJS.Timeout | null = null;
+	private maintenanceInterval: NodeJS.Timeout | null = null;
+	private isFlushing = false;
+	private isMaintaining = false;
+
+	constructor(
+		private readonly databaseService: DatabaseService,
+		private readonly heatingService: HeatingService,
+		private readonly batteriesService: BatteriesService,
+		private readonly deviceGroupService: DeviceGroupService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	onModuleInit() {
+		if (HISTORY_OPTIONS.sampleInterval <= 0) {
+			this.logger.log('History recording disabled (HISTORY_SAMPLE_INTERVAL=0)');
+			return;
+		}
+
+		this.eventEmitter.on('heating.pid.updated', (data: { heatingId: string; error: number; proportional?: number; integral?: number; derivative?: number }) => {
+			this.pidTerms[data.heatingId] = {
+				error: data.error,
+				proportional: data.proportional,
+				integral: data.integral,
+				derivative: data.derivative,
+				updatedAt: Date.now(),
+			};
+		});
+
+		this.sampleInterval = setInterval(() => this.sample(), HISTORY_OPTIONS.sampleInterval * 1000);
+		this.flushInterval = setInterval(() => this.flush(), HISTORY_OPTIONS.flushInterval * 1000);
+		this.maintenanceInterval = setInterval(() => this.runMaintenance(), MAINTENANCE_INTERVAL);
+		// Агрегаты за время простоя сервера
+		this.runMaintenance();
+
+		this.logger.log(`History Service initialized: sample=${HISTORY_OPTIONS.sampleInterval}s, raw retention=${HISTORY_OPTIONS.rawRetentionDays}d, 5min=${HISTORY_OPTIONS.fiveMinuteRetentionDays}d, hourly=${HISTORY_OPTIONS.hourlyRetentionDays || '∞'}d`);
+	}
+
+	async onModuleDestroy() {
+		[this.sampleInterval, this.flushInterval, this.maintenanceInterval].forEach(interval => {
+			if (interval) clearInterval(interval);
+		});
+		await this.flush();
+	}
+
+	getOptions(): HistoryOptions {
+		return { ...HISTORY_OPTIONS };
+	}
+
+	findDevice(deviceId: string): HistoryDevice | null {
+		if (heatingConfigs[deviceId]) {
+			return { deviceId, deviceType: 'heating', name: heatingConfigs[deviceId].deviceRealName || deviceId };
+		}
+		if (batteriesConfigs[deviceId]) {
+			return { deviceId, deviceType: 'batteries', name: batteriesConfigs[deviceId].deviceRealName || deviceId };
+		}
+		return null;
+	}
+
+	/**
+	 * Устройства запроса: перечисленные и все устройства группы (удаленные из конфигурации пропускаются)
+	 * Возвращает текст ошибки, если устройство или группа не найдены
+	 */
+	resolveDevices(deviceIds: string[], groupId?: number): HistoryDevice[] | string {
+		const unknown = deviceIds.find(deviceId => !this.findDevice(deviceId));
+		if (unknown) {
+			return `Device ${unknown} not found`;
+		}
+
+		const ids = [...deviceIds];
+		if (groupId !== undefined) {
+			const group = this.deviceGroupService.getGroup(groupId);
+			if (!group) {
+				return 'Group not found';
+			}
+			ids.push(...group.deviceIds.filter(deviceId => this.findDevice(deviceId)));
+		}
+		if (ids.length === 0) {
+			return 'devices or groupId is required';
+		}
+		return [...new Set(ids)].map(deviceId => this.findDevice(deviceId)!);
+	}
+
+	/**
+	 * История устройств за диапазон запроса: min/avg/max параметров по интервалам
+	 * Таблица выбирается по интервалу и срокам хранения, начало диапазона выравнивается по интервалу
+	 */
+	async getHistory(devices: HistoryDevice[], query: HistoryQuery): Promise<HistoryResult> {
+		const source = selectHistorySource(query, HISTORY_OPTIONS);
+		const from = floorToBucket(query.from, source.seconds);
+		const series: HistorySeries[] = devices.map(device => ({ ...device, points: [] }));
+		const seriesById = new Map(series.map(item => [item.deviceId, item]));
+
+		const rows = await this.databaseService.query<HistoryRow>(
+			buildHistoryQuery(source, query.fields),
+			[devices.map(device => device.deviceId), from, query.to],
+		);
+		rows.forEach(row => seriesById.get(row.device_id)?.points.push(parseHistoryRow(row, query.fields)));
+
+		return {
+			from: from.toISOString(),
+			to: query.to.toISOString(),
+			resolution: source.seconds,
+			source: source.table,
+			fields: query.fields,
+			series,
+		};
+	}
+
+	/**
+	 * История устройств по интервалам в хронологическом порядке (выгрузка); resolution - фактический интервал
+	 * Читается страницами по PAGE_INTERVALS интервалов, в памяти находится только текущая страница
+	 */
+	getHistoryIntervals(devices: HistoryDevice[], query: HistoryQuery): { resolution: number; intervals: AsyncGenerator<HistoryInterval> } {
+		const source = selectHistorySource(query, HISTORY_OPTIONS);
+		return { resolution: source.seconds, intervals: this.readIntervals(devices, query, source) };
+	}
+
+	private async *readIntervals(devices: HistoryDevice[], query: HistoryQuery, source: HistorySource): AsyncGenerator<HistoryInterval> {
+		const text = buildHistoryQuery(source, query.fields);
+		const deviceIds = devices.map(device => device.deviceId);
+		const pageLength = PAGE_INTERVALS * source.seconds * 1000;
+
+		// Границы страниц кратны интервалу: интервал целиком попадает в одну страницу
+		for (let pageFrom = floorToBucket(query.from, source.seconds); pageFrom < query.to; pageFrom = new Date(pageFrom.getTime() + pageLength)) {
+			const pageTo = new Date(Math.min(pageFrom.getTime() + pageLength, query.to.getTime()));
+			const rows = await this.databaseService.query<HistoryRow>(text, [deviceIds, pageFrom, pageTo]);
+
+			// Строки упорядочены по устройству, интервалы собираются по времени
+			const intervals = new Map<number, HistoryInterval>();
+			rows.forEach(row => {
+				const point = parseHistoryRow(row, query.fields);
+				const time = row.point_time.getTime();
+				if (!intervals.has(time)) {
+					intervals.set(time, { time: point.time, points: {} });
+				}
+				intervals.get(time)!.points[row.device_id] = point;
+			});
+			yield* [...intervals.keys()].sort((a, b) => a - b).map(time => intervals.get(time)!);
+		}
+	}
+
+	private sample() {
+		const sampledAt = new Date();
+
+		Object.entries(this.heatingService.getAllStates()).forEach(([heatingId, state]) => {
+			this.buffer.push({ deviceId: heatingId, deviceType: 'heating', sampledAt, values: this.getHeatingValues(heatingId, state) });
+		});
+		Object.entries(this.batteriesService.getAllStates()).forEach(([deviceId, state]) => {
+			this.buffer.push({ deviceId, deviceType: 'batteries', sampledAt, values: this.getBatteriesValues(state) });
+		});
+
+		if (this.buffer.length >= HISTORY_OPTIONS.batchSize) {
+			this.flush();
+		}
+	}
+
+	private getHeatingValues(heatingId: string, state: HeatingState): Record<HistoryField, number | null> {
+		const terms = this.pidTerms[heatingId];
+		const isControlling = terms !== undefined && Date.now() - terms.updatedAt < PID_TERMS_TIMEOUT;
+
+		return {
+			temperature: state.currentTemperature,
+			setpoint: state.setpointTemperature,
+			fanOutput: state.currentFanSpeed,
+			valveOpen: state.valveState === 'open' ? 1 : 0,
+			pidOutput: state.pidOutput,
+			pidError: isControlling ? terms.error : null,
+			pidP: isControlling ? terms.proportional ?? null : null,
+			pidI: isControlling ? terms.integral ?? null : null,
+			pidD: isControlling ? terms.derivative ?? null : null,
+			...this.getFlags(state),
+		};
+	}
+
+	private getBatteriesValues(state: BatteriesState): Record<HistoryField, number | null> {
+		const valves = Object.values(state.valveStates);
+
+		return {
+			temperature: state.currentTemperature,
+			setpoint: state.setpointTemperature,
+			fanOutput: null,
+			valveOpen: valves.length > 0 ? valves.filter(valve => valve === 'open').length / valves.length : null,
+			pidOutput: null,
+			pidError: null,
+			pidP: null,
+			pidI: null,
+			pidD: null,
+			...this.getFlags(state),
+		};
+	}
+
+	private getFlags(state: HeatingState | BatteriesState): Pick<Record<HistoryField, number>, 'autoControl' | 'emergencyStop' | 'working' | 'online'> {
+		return {
+			autoControl: state.autoControlEnabled ? 1 : 0,
+			emergencyStop: state.isEmergencyStop ? 1 : 0,
+			working: state.isWorking ? 1 : 0,
+			online: state.isOnline ? 1 : 0,
+		};
+	}
+
+	// Пакетная запись буфера; при ошибке записи остаются в буфере до следующей попытки
+	private async flush() {
+		if (this.isFlushing || this.buffer.length === 0) return;
+		this.isFlushing = true;
+
+		try {
+			while (this.buffer.length > 0) {
+				const batch = this.buffer.slice(0, HISTORY_OPTIONS.batchSize);
+				const { text, params } = buildInsertQuery(batch);
+				await this.databaseService.query(text, params);
+				this.buffer.splice(0, batch.length);
+			}
+		} catch (error) {
+			this.logger.error(`Ошибка записи истории (${this.buffer.length} записей в буфере):`, error);
+			const maxBuffered = HISTORY_OPTIONS.batchSize * MAX_BUFFERED_BATCHES;
+			if (this.buffer.length > maxBuffered) {
+				this.logger.warn(`⚠️ History buffer overflow: ${this.buffer.length - maxBuffered} oldest samples dropped`);
+				this.buffer.splice(0, this.buffer.length - maxBuffered);
+			}
+		} finally {
+			this.isFlushing = false;
+		}
+	}
+
+	// Агрегирование завершенных интервалов и удаление устаревших записей
+	private async runMaintenance() {
+		if (this.isMaintaining) return;
+		this.isMaintaining = true;
+
+		try {
+			await this.flush();
+			for (const rollup of HISTORY_ROLLUPS) {
+				await this.rollup(rollup.table, rollup.source, rollup.seconds);
+			}
+			await this.applyRetention();
+		} catch (error) {
+			this.logger.error('Ошибка агрегирования истории:', error);
+		} finally {
+			this.isMaintaining = false;
+		}
+	}
+
+	// Пересчитываются интервалы начиная с последнего рассчитанного, до начала текущего
+	private async rollup(table: string, source: string, seconds: number) {
+		const rows = await this.databaseService.query<{ last_bucket: Date | null }>(`SELECT MAX(bucket) AS last_bucket FROM ${table}`);
+		const since = rows[0]?.last_bucket ?? new Date(0);
+		const until = floorToBucket(new Date(), seconds);
+		if (since >= until) return;
+
+		await this.databaseService.query(buildRollupQuery(table, source, seconds), [since, until]);
+		this.logger.debug(`History rollup ${table}: ${since.toISOString()} - ${until.toISOString()}`);
+	}
+
+	private async applyRetention() {
+		const retention: [string, string, number][] = [
+			[HISTORY_RAW_TABLE, 'sampled_at', HISTORY_OPTIONS.rawRetentionDays],
+			['history_5min', 'bucket', HISTORY_OPTIONS.fiveMinuteRetentionDays],
+			['history_hourly', 'bucket', HISTORY_OPTIONS.hourlyRetentionDays],
+		];
+
+		for (const [table, column, days] of retention) {
+			if (days <= 0) continue;
+			await this.databaseService.query(
+				`DELETE FROM ${table} WHERE ${column} < NOW() - make_interval(secs => $1)`,
+				[days * 86400],
+			);
+		}
+	}
+}
@@ -0,0 +1,164 @@
+import {
+	buildHistoryQuery,
+	buildInsertQuery,
+	buildRollupQuery,
+	floorToBucket,
+	parseHistoryQuery,
+	parseHistoryRow,
+	parseResolution,
+	selectHistorySource,
+} from './history.utils';
+import { HISTORY_FIELDS, HistoryField, HistoryOptions, HistoryQuery, HistorySample } from './interfaces/history.interface';
+
+function sample(deviceId: string, temperature: number): HistorySample {
+	const values = Object.fromEntries(HISTORY_FIELDS.map(field => [field, null])) as Record<HistoryField, number | null>;
+	return { deviceId, deviceType: 'heating', sampledAt: new Date('2026-01-15T10:00:00Z'), values: { ...values, temperature } };
+}
+
+describe('buildInsertQuery', () => {
+	it('should insert the whole batch with one statement', () => {
+		const { text, params } = buildInsertQuery([sample('ШУК1', 21.5), sample('ШУК2', 19)]);
+		const columnCount = 3 + HISTORY_FIELDS.length;
+
+		expect(params).toHaveLength(2 * columnCount);
+		expect(params[0]).toBe('ШУК1');
+		expect(params[3]).toBe(21.5);
+		expect(params[columnCount]).toBe('ШУК2');
+		expect(text).toContain(`$${2 * columnCount})`);
+		expect(text).toContain('ON CONFLICT (device_id, sampled_at) DO NOTHING');
+	});
+});
+
+describe('buildRollupQuery', () => {
+	it('should aggregate raw samples with min/avg/max', () => {
+		const text = buildRollupQuery('history_5min', 'history_samples', 300);
+
+		expect(text).toContain('MIN(temperature), AVG(temperature), MAX(temperature), COUNT(temperature)');
+		expect(text).toContain('temperature_count = EXCLUDED.temperature_count');
+		expect(text).toContain('COUNT(*)');
+		expect(text).toContain('floor(extract(epoch FROM sampled_at) / 300) * 300');
+	});
+
+	it('should weight averages by the per-parameter count when rolling up aggregates', () => {
+		const text = buildRollupQuery('history_hourly', 'history_5min', 3600);
+		const count = 'SUM(COALESCE(temperature_count, samples)) FILTER (WHERE temperature_avg IS NOT NULL)';
+
+		expect(text).toContain('MIN(temperature_min)');
+		expect(text).toContain(`SUM(temperature_avg * COALESCE(temperature_count, samples)) / NULLIF(${count}, 0)`);
+		expect(text).toContain(`MAX(temperature_max), ${count}`);
+		expect(text).toContain('MAX(temperature_max)');
+		expect(text).toContain('SUM(samples)');
+	});
+});
+
+describe('floorToBucket', () => {
+	it('should floor time to the interval start', () => {
+		expect(floorToBucket(new Date('2026-01-15T10:07:42Z'), 300).toISOString()).toBe('2026-01-15T10:05:00.000Z');
+		expect(floorToBucket(new Date('2026-01-15T10:07:42Z'), 3600).toISOString()).toBe('2026-01-15T10:00:00.000Z');
+	});
+});
+
+describe('parseHistoryQuery', () => {
+	const now = new Date('2026-01-15T12:00:00Z');
+
+	it('should default to the last day with auto resolution', () => {
+		const query = parseHistoryQuery({}, ['temperature'], now);
+
+		expect(query).toEqual({ from: new Date('2026-01-14T12:00:00Z'), to: now, fields: ['temperature'], resolution: 'auto' });
+	});
+
+	it('should parse fields and duration resolution', () => {
+		const query = parseHistoryQuery({ from: '2026-01-01T00:00:00Z', fields: 'temperature, fanOutput', resolution: '15m' }, [], now);
+
+		expect(query).toMatchObject({ fields: ['temperature', 'fanOutput'], resolution: 900 });
+	});
+
+	it('should reject unknown fields, invalid ranges and too fine resolution', () => {
+		expect(parseHistoryQuery({ fields: 'temperature,humidity' }, [], now)).toContain('fields must be');
+		expect(parseHistoryQuery({ from: '2026-01-16T00:00:00Z' }, ['temperature'], now)).toBe('from must be before to');
+		expect(parseHistoryQuery({ from: 'yesterday' }, ['temperature'], now)).toBe('from and to must be valid dates');
+		expect(parseHistoryQuery({ from: '2025-12-15T12:00:00Z', resolution: '1m' }, ['temperature'], now)).toContain('resolution too fine');
+	});
+
+	it('should accept a custom point limit', () => {
+		expect(parseHistoryQuery({ from: '2025-12-15T12:00:00Z', resolution: '5m' }, ['temperature'], now)).toContain('limit is 5000');
+		expect(parseHistoryQuery({ from: '2025-12-15T12:00:00Z', resolution: '5m' }, ['temperature'], now, 200000)).toMatchObject({ resolution: 300 });
+	});
+});
+
+describe('parseResolution', () => {
+	it('should accept seconds and durations', () => {
+		expect(parseResolution('auto')).toBe('auto');
+		expect(parseResolution('300')).toBe(300);
+		expect(parseResolution('1h')).toBe(3600);
+		expect(parseResolution('2d')).toBe(172800);
+		expect(parseResolution('0')).toBeNull();
+		expect(parseResolution('5 minutes')).toBeNull();
+	});
+});
+
+describe('selectHistorySource', () => {
+	const now = new Date('2026-01-31T00:00:00Z');
+	const options: HistoryOptions = {
+		sampleInterval: 10,
+		flushInterval: 60,
+		batchSize: 500,
+		rawRetentionDays: 7,
+		fiveMinuteRetentionDays: 90,
+		hourlyRetentionDays: 0,
+	};
+	const query = (days: number, resolution: number | 'auto'): HistoryQuery => ({
+		from: new Date(now.getTime() - days * 86400 * 1000),
+		to: now,
+		fields: ['temperature'],
+		resolution,
+	});
+
+	it('should use raw samples for short ranges and fine resolution', () => {
+		expect(selectHistorySource(query(1, 60), options, now)).toEqual({ table: 'history_samples', seconds: 60 });
+	});
+
+	it('should use the coarsest table matching the resolution', () => {
+		expect(selectHistorySource(query(1, 900), options, now)).toEqual({ table: 'history_5min', seconds: 900 });
+		expect(selectHistorySource(query(1, 7200), options, now)).toEqual({ table: 'history_hourly', seconds: 7200 });
+	});
+
+	it('should pick a resolution for charting a month of data from hourly aggregates', () => {
+		expect(selectHistorySource(query(30, 'auto'), options, now)).toEqual({ table: 'history_hourly', seconds: 7200 });
+	});
+
+	it('should coarsen the resolution when raw samples are no longer kept', () => {
+		expect(selectHistorySource(query(30, 60), options, now)).toEqual({ table: 'history_5min', seconds: 300 });
+		expect(selectHistorySource(query(120, 600), options, now)).toEqual({ table: 'history_hourly', seconds: 3600 });
+	});
+});
+
+describe('buildHistoryQuery', () => {
+	it('should aggregate requested fields per device and interval in SQL', () => {
+		const text = buildHistoryQuery({ table: 'history_hourly', seconds: 7200 }, ['temperature', 'fanOutput']);
+
+		expect(text).toContain('floor(extract(epoch FROM bucket) / 7200) * 7200');
+		expect(text).toContain('MIN(fan_output_min) AS fan_output_min');
+		expect(text).toContain('SUM(samples)::int AS samples');
+		expect(text).toContain('WHERE device_id = ANY($1) AND bucket >= $2 AND bucket < $3');
+		expect(text).toContain('GROUP BY device_id, point_time');
+		expect(text).not.toContain('setpoint');
+	});
+
+	it('should map rows to rounded min/avg/max points', () => {
+		const point = parseHistoryRow({
+			device_id: 'ШУК1',
+			point_time: new Date('2026-01-15T10:00:00Z'),
+			samples: 360,
+			temperature_min: 20.5,
+			temperature_avg: 21.23456,
+			temperature_max: 22,
+		}, ['temperature']);
+
+		expect(point).toEqual({
+			time: '2026-01-15T10:00:00.000Z',
+			samples: 360,
+			values: { temperature: { min: 20.5, avg: 21.235, max: 22 } },
+		});
+	});
+});
@@ -0,0 +1,213 @@
+import {
+	HISTORY_COLUMNS,
+	HISTORY_FIELDS,
+	HistoryField,
+	HistoryOptions,
+	HistoryPoint,
+	HistoryQuery,
+	HistoryQueryParams,
+	HistorySample,
+	HistorySource,
+} from './interfaces/history.interface';
+import { HISTORY_RAW_TABLE, HISTORY_ROLLUPS } from './history.schema';
+
+const columns = HISTORY_FIELDS.map(field => HISTORY_COLUMNS[field]);
+
+const HISTORY_MAX_POINTS = 5000;           // Предел точек на устройство при явно заданном интервале
+const HISTORY_TARGET_POINTS = 500;         // Количество точек для графика при resolution=auto
+const DEFAULT_RANGE = 24 * 3600 * 1000;
+// Интервалы, из которых выбирается resolution=auto (сек)
+const AUTO_RESOLUTIONS = [60, 300, 900, 1800, 3600, 7200, 10800, 21600, 43200, 86400];
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+// Строка результата запроса истории: device_id, point_time, samples и <колонка>_min/_avg/_max
+export interface HistoryRow {
+	device_id: string;
+	point_time: Date;
+	samples: number;
+	[column: string]: string | Date | number | null;
+}
+
+// Начало интервала длиной seconds, в который попадает время (интервалы отсчитываются от начала эпохи UTC)
+export function bucketExpression(column: string, seconds: number): string {
+	return `to_timestamp(floor(extract(epoch FROM ${column}) / ${seconds}) * ${seconds})`;
+}
+
+export function floorToBucket(date: Date, seconds: number): Date {
+	const step = seconds * 1000;
+	return new Date(Math.floor(date.getTime() / step) * step);
+}
+
+// Пакетная запись: один INSERT на все записи пакета
+export function buildInsertQuery(samples: HistorySample[]): { text: string; params: unknown[] } {
+	const params: unknown[] = [];
+	const rows = samples.map(sample => {
+		const values = [sample.deviceId, sample.deviceType, sample.sampledAt, ...HISTORY_FIELDS.map(field => sample.values[field])];
+		const placeholders = values.map(value => {
+			params.push(value);
+			return `$${params.length}`;
+		});
+		return `(${placeholders.join(', ')})`;
+	});
+
+	return {
+		text: `INSERT INTO ${HISTORY_RAW_TABLE} (device_id, device_type, sampled_at, ${columns.join(', ')})
+			VALUES ${rows.join(', ')}
+			ON CONFLICT (device_id, sampled_at) DO NOTHING`,
+		params,
+	};
+}
+
+/**
+ * Агрегирование в таблицу target за [$1, $2): из исходных записей или из более мелких агрегатов
+ * Повторный расчет интервала заменяет его (записи, пришедшие с опозданием, учитываются)
+ */
+// min/avg/max параметра и количество записей со значением параметра по исходным записям или по агрегатам
+// Среднее агрегатов взвешивается по количеству записей со значением (для агрегатов без <колонка>_count - по samples)
+function aggregateExpressions(column: string, fromRaw: boolean): [string, string, string, string] {
+	if (fromRaw) {
+		return [`MIN(${column})`, `AVG(${column})`, `MAX(${column})`, `COUNT(${column})`];
+	}
+	const weight = `COALESCE(${column}_count, samples)`;
+	const count = `SUM(${weight}) FILTER (WHERE ${column}_avg IS NOT NULL)`;
+	return [`MIN(${column}_min)`, `SUM(${column}_avg * ${weight}) / NULLIF(${count}, 0)`, `MAX(${column}_max)`, count];
+}
+
+export function buildRollupQuery(target: string, source: string, seconds: number): string {
+	const fromRaw = source === HISTORY_RAW_TABLE;
+	const timeColumn = fromRaw ? 'sampled_at' : 'bucket';
+	const aggregates = columns.map(column => aggregateExpressions(column, fromRaw).join(', '));
+	const targetColumns = columns.flatMap(column => [`${column}_min`, `${column}_avg`, `${column}_max`, `${column}_count`]);
+
+	return `INSERT INTO ${target} (device_id, device_type, bucket, samples, ${targetColumns.join(', ')})
+		SELECT device_id, MAX(device_type), ${bucketExpression(timeColumn, seconds)} AS rollup_bucket, ${fromRaw ? 'COUNT(*)' : 'SUM(samples)'},
+			${aggregates.join(',\n\t\t\t')}
+		FROM ${source}
+		WHERE ${timeColumn} >= $1 AND ${timeColumn} < $2
+		GROUP BY device_id, rollup_bucket
+		ON CONFLICT (device_id, bucket) DO UPDATE SET
+			device_type = EXCLUDED.device_type,
+			samples = EXCLUDED.samples,
+			${targetColumns.map(column => `${column} = EXCLUDED.${column}`).join(',\n\t\t\t')}`;
+}
+
+// Интервал агрегирования: auto, секунды или длительность вида 30s, 5m, 1h, 1d
+export function parseResolution(value: string): number | 'auto' | null {
+	if (value === 'auto') return 'auto';
+	const match = /^(\d+)([smhd])?$/.exec(value.trim());
+	if (!match) return null;
+	const seconds = parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's'];
+	return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Разбор параметров запроса истории; по умолчанию - последние сутки с resolution=auto
+ * maxPoints - предел точек на устройство при явно заданном интервале (для графиков - HISTORY_MAX_POINTS)
+ * Возвращает текст ошибки при неверных параметрах
+ */
+export function parseHistoryQuery(
+	params: HistoryQueryParams,
+	defaultFields: HistoryField[],
+	now = new Date(),
+	maxPoints = HISTORY_MAX_POINTS,
+): HistoryQuery | string {
+	const to = params.to ? new Date(params.to) : now;
+	const from = params.from ? new Date(params.from) : new Date(to.getTime() - DEFAULT_RANGE);
+	if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+		return 'from and to must be valid dates';
+	}
+	if (from >= to) {
+		return 'from must be before to';
+	}
+
+	const fields = params.fields ? params.fields.split(',').map(field => field.trim()).filter(Boolean) : defaultFields;
+	const unknown = fields.find(field => !HISTORY_FIELDS.includes(field as HistoryField));
+	if (unknown !== undefined || fields.length === 0) {
+		return `fields must be a comma-separated list of: ${HISTORY_FIELDS.join(', ')}`;
+	}
+
+	const resolution = params.resolution ? parseResolution(params.resolution) : 'auto';
+	if (resolution === null) {
+		return 'resolution must be auto, seconds or a duration like 30s, 5m, 1h, 1d';
+	}
+	if (resolution !== 'auto') {
+		const points = Math.ceil((to.getTime() - from.getTime()) / 1000 / resolution);
+		if (points > maxPoints) {
+			return `resolution too fine: ${points} points per device, limit is ${maxPoints} (use a coarser resolution or auto)`;
+		}
+	}
+
+	return { from, to, fields: [...new Set(fields)] as HistoryField[], resolution };
+}
+
+/**
+ * Выбор таблицы для запроса: самая крупная из таблиц, хранящих начало диапазона, интервал которой
+ * кратен запрошенному; иначе самая подробная, интервал округляется вверх до кратного интервалу таблицы.
+ * Если начало диапазона старше сроков хранения всех таблиц - часовые агрегаты
+ */
+export function selectHistorySource(query: HistoryQuery, options: HistoryOptions, now = new Date()): HistorySource {
+	const [fiveMinute, hourly] = HISTORY_ROLLUPS;
+	const tables = [
+		{ table: HISTORY_RAW_TABLE, seconds: Math.max(options.sampleInterval, 1), retentionDays: options.rawRetentionDays },
+		{ table: fiveMinute.table, seconds: fiveMinute.seconds, retentionDays: options.fiveMinuteRetentionDays },
+		{ table: hourly.table, seconds: hourly.seconds, retentionDays: options.hourlyRetentionDays },
+	];
+	const covering = tables.filter(({ retentionDays }) =>
+		retentionDays <= 0 || query.from.getTime() >= now.getTime() - retentionDays * 86400 * 1000,
+	);
+	const candidates = covering.length > 0 ? covering : [tables[tables.length - 1]];
+
+	const requested = query.resolution === 'auto' ? getAutoResolution(query.from, query.to) : query.resolution;
+	const exact = [...candidates].reverse().find(({ seconds }) => requested >= seconds && requested % seconds === 0);
+	if (exact) {
+		return { table: exact.table, seconds: requested };
+	}
+	const finest = candidates[0];
+	return { table: finest.table, seconds: Math.ceil(requested / finest.seconds) * finest.seconds };
+}
+
+// Наименьший из стандартных интервалов, при котором точек не больше HISTORY_TARGET_POINTS
+function getAutoResolution(from: Date, to: Date): number {
+	const target = (to.getTime() - from.getTime()) / 1000 / HISTORY_TARGET_POINTS;
+	const day = AUTO_RESOLUTIONS[AUTO_RESOLUTIONS.length - 1];
+	return AUTO_RESOLUTIONS.find(seconds => seconds >= target) ?? Math.ceil(target / day) * day;
+}
+
+/**
+ * Агрегирование истории устройств $1 за [$2, $3) по интервалам source.seconds
+ * Группировка выполняется в базе: в приложение передаются только точки графика
+ */
+export function buildHistoryQuery(source: HistorySource, fields: HistoryField[]): string {
+	const fromRaw = source.table === HISTORY_RAW_TABLE;
+	const timeColumn = fromRaw ? 'sampled_at' : 'bucket';
+	const aggregates = fields.map(field => {
+		const column = HISTORY_COLUMNS[field];
+		const [min, avg, max] = aggregateExpressions(column, fromRaw);
+		return `${min} AS ${column}_min, ${avg} AS ${column}_avg, ${max} AS ${column}_max`;
+	});
+
+	return `SELECT device_id, ${bucketExpression(timeColumn, source.seconds)} AS point_time, ${fromRaw ? 'COUNT(*)' : 'SUM(samples)'}::int AS samples,
+			${aggregates.join(',\n\t\t\t')}
+		FROM ${source.table}
+		WHERE device_id = ANY($1) AND ${timeColumn} >= $2 AND ${timeColumn} < $3
+		GROUP BY device_id, point_time
+		ORDER BY device_id, point_time`;
+}
+
+export function parseHistoryRow(row: HistoryRow, fields: HistoryField[]): HistoryPoint {
+	const values: HistoryPoint['values'] = {};
+	fields.forEach(field => {
+		const column = HISTORY_COLUMNS[field];
+		values[field] = {
+			min: roundValue(row[`${column}_min`]),
+			avg: roundValue(row[`${column}_avg`]),
+			max: roundValue(row[`${column}_max`]),
+		};
+	});
+	return { time: row.point_time.toISOString(), samples: row.samples, values };
+}
+
+function roundValue(value: HistoryRow[string]): number | null {
+	if (value === null || value === undefined) return null;
+	return Math.round(Number(value) * 1000) / 1000;
+}
@@ -0,0 +1,112 @@
+export type HistoryDeviceType = 'heating' | 'batteries';
+
+// Записываемые параметры устройства; признаки (autoControl, emergencyStop, working, online) хранятся как 0/1,
+// поэтому среднее по интервалу - доля времени во включенном состоянии
+export type HistoryField =
+	| 'temperature'
+	| 'setpoint'
+	| 'fanOutput'      // Скорость вентилятора ШУК (%)
+	| 'valveOpen'      // Клапан ШУК 0/1, для ШУОП - доля открытых клапанов групп
+	| 'pidOutput'      // Выход регулятора ШУК
+	| 'pidError'
+	| 'pidP'
+	| 'pidI'
+	| 'pidD'
+	| 'autoControl'
+	| 'emergencyStop'
+	| 'working'
+	| 'online';
+
+// Колонки таблиц истории по параметрам
+export const HISTORY_COLUMNS: Record<HistoryField, string> = {
+	temperature: 'temperature',
+	setpoint: 'setpoint',
+	fanOutput: 'fan_output',
+	valveOpen: 'valve_open',
+	pidOutput: 'pid_output',
+	pidError: 'pid_error',
+	pidP: 'pid_p',
+	pidI: 'pid_i',
+	pidD: 'pid_d',
+	autoControl: 'auto_control',
+	emergencyStop: 'emergency_stop',
+	working: 'working',
+	online: 'online',
+};
+
+export const HISTORY_FIELDS = Object.keys(HISTORY_COLUMNS) as HistoryField[];
+
+export interface HistorySample {
+	deviceId: string;
+	deviceType: HistoryDeviceType;
+	sampledAt: Date;
+	values: Record<HistoryField, number | null>; // null - параметр не применим или нет данных
+}
+
+export interface HistoryOptions {
+	sampleInterval: number;        // Период записи состояния (сек), 0 - запись отключена
+	flushInterval: number;         // Период пакетной записи в базу (сек)
+	batchSize: number;             // Пакет записывается сразу при наборе этого количества строк
+	rawRetentionDays: number;      // Хранение исходных записей (сутки); здесь и далее 0 - без ограничения
+	fiveMinuteRetentionDays: number; // Хранение 5-минутных агрегатов (сутки)
+	hourlyRetentionDays: number;   // Хранение часовых агрегатов (сутки)
+}
+
+export interface HistoryDevice {
+	deviceId: string;
+	deviceType: HistoryDeviceType;
+	name: string;                  // deviceRealName из конфигурации
+}
+
+// Параметры запроса истории в API (строки запроса)
+export interface HistoryQueryParams {
+	from?: string;
+	to?: string;
+	fields?: string;
+	resolution?: string;
+}
+
+// Запрос истории: интервал [from, to), параметры и размер интервала агрегирования
+export interface HistoryQuery {
+	from: Date;
+	to: Date;
+	fields: HistoryField[];
+	resolution: number | 'auto';   // Секунды или auto - по количеству точек для графика
+}
+
+// Таблица выборки и фактический размер интервала (не меньше интервала таблицы)
+export interface HistorySource {
+	table: string;
+	seconds: number;
+}
+
+export interface HistoryValueStats {
+	min: number | null;
+	avg: number | null;
+	max: number | null;
+}
+
+export interface HistoryPoint {
+	time: string;                  // Начало интервала
+	samples: number;               // Количество исходных записей в интервале
+	values: Partial<Record<HistoryField, HistoryValueStats>>;
+}
+
+export interface HistorySeries extends HistoryDevice {
+	points: HistoryPoint[];
+}
+
+// Интервал истории всех устройств запроса (выгрузка): точки по deviceId, устройства без записей отсутствуют
+export interface HistoryInterval {
+	time: string;                  // Начало интервала
+	points: Record<string, HistoryPoint>;
+}
+
+export interface HistoryResult {
+	from: string;
+	to: string;
+	resolution: number;
+	source: string;
+	fields: HistoryField[];
+	series: HistorySeries[];
+}
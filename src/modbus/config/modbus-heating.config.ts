@@ -58,7 +58,7 @@ export const HEATING_VARIABLES_TEMPLATE: ModbusVariable[] = [
 		address: 0,
 		dataType: 'bit',
 		bitOffset: 5,
-		description: 'Защита от замерзания активна',
+		description: 'Защита от замерзания действует или авария не квитирована',
 		access: 'R'
 	},
 	{
@@ -67,7 +67,7 @@ export const HEATING_VARIABLES_TEMPLATE: ModbusVariable[] = [
 		address: 0,
 		dataType: 'bit',
 		bitOffset: 6,
-		description: 'Защита от перегрева активна',
+		description: 'Защита от перегрева действует или авария не квитирована',
 		access: 'R'
 	},
 	{
@@ -79,6 +79,51 @@ export const HEATING_VARIABLES_TEMPLATE: ModbusVariable[] = [
 		description: 'Клапан открыт',
 		access: 'R'
 	},
+	{
+		name: 'SEASON_WINTER',
+		area: ModbusAreaType.DISCRETE_INPUTS,
+		address: 0,
+		dataType: 'bit',
+		bitOffset: 8,
+		description: 'Действует зимний (отопительный) сезон',
+		access: 'R'
+	},
+	{
+		name: 'SEASON_SUMMER',
+		area: ModbusAreaType.DISCRETE_INPUTS,
+		address: 0,
+		dataType: 'bit',
+		bitOffset: 9,
+		description: 'Действует летний сезон (отопление отключено)',
+		access: 'R'
+	},
+	{
+		name: 'SEASON_BY_OUTDOOR',
+		area: ModbusAreaType.DISCRETE_INPUTS,
+		address: 0,
+		dataType: 'bit',
+		bitOffset: 10,
+		description: 'Сезон определен по уличной температуре',
+		access: 'R'
+	},
+	{
+		name: 'MODULE_ERROR',
+		area: ModbusAreaType.DISCRETE_INPUTS,
+		address: 0,
+		dataType: 'bit',
+		bitOffset: 11,
+		description: 'Ошибка опроса модуля реле клапана или диммера вентилятора (meta/error) или команда не выполнена',
+		access: 'R'
+	},
+	{
+		name: 'MANUAL_OVERRIDE_ACTIVE',
+		area: ModbusAreaType.DISCRETE_INPUTS,
+		address: 0,
+		dataType: 'bit',
+		bitOffset: 12,
+		description: 'Действует ручной режим на время',
+		access: 'R'
+	},
 	
 	// ========== COILS (Read/Write) - Управление ==========
 	// Биты 0-15 объединяются в одно 16-битное слово
@@ -97,7 +142,7 @@ export const HEATING_VARIABLES_TEMPLATE: ModbusVariable[] = [
 		address: 0,
 		dataType: 'bit',
 		bitOffset: 1,
-		description: 'Ручное управление',
+		description: 'Ручной режим на время (1 - включить с параметрами MANUAL_FAN_OUTPUT, MANUAL_VALVE_OPEN, MANUAL_DURATION; 0 - вернуться к автоуправлению)',
 		access: 'RW'
 	},
 	
@@ -141,7 +186,23 @@ export const HEATING_VARIABLES_TEMPLATE: ModbusVariable[] = [
 		area: ModbusAreaType.INPUT_REGISTERS,
 		address: 4,
 		dataType: 'uint16',
-		description: 'Статусное слово (биты 0-7: IS_ONLINE, IS_WORKING, IS_EMERGENCY_STOP, TEMP_SENSOR_ERROR, PID_ACTIVE, FREEZE_PROTECTION, OVERHEAT_PROTECTION, VALVE_OPEN)',
+		description: 'Статусное слово (биты 0-7: IS_ONLINE, IS_WORKING, IS_EMERGENCY_STOP, TEMP_SENSOR_ERROR, PID_ACTIVE, FREEZE_PROTECTION, OVERHEAT_PROTECTION, VALVE_OPEN; биты 8-12: SEASON_WINTER, SEASON_SUMMER, SEASON_BY_OUTDOOR, MODULE_ERROR, MANUAL_OVERRIDE_ACTIVE)',
+		access: 'R'
+	},
+	{
+		name: 'MANUAL_OVERRIDE_REMAINING',
+		area: ModbusAreaType.INPUT_REGISTERS,
+		address: 5,
+		dataType: 'uint16',
+		description: 'Оставшееся время ручного режима (сек)',
+		access: 'R'
+	},
+	{
+		name: 'MANUAL_OVERRIDE_SOURCE',
+		area: ModbusAreaType.INPUT_REGISTERS,
+		address: 6,
+		dataType: 'uint16',
+		description: 'Откуда включен ручной режим (0=не действует, 1=REST, 2=WebSocket, 3=Modbus)',
 		access: 'R'
 	},
 	
@@ -224,6 +285,30 @@ export const HEATING_VARIABLES_TEMPLATE: ModbusVariable[] = [
 		description: 'Параметр команды 2',
 		access: 'W'
 	},
+	{
+		name: 'MANUAL_FAN_OUTPUT',
+		area: ModbusAreaType.HOLDING_REGISTERS,
+		address: 13,
+		dataType: 'uint16',
+		description: 'Выход вентилятора в ручном режиме (%)',
+		access: 'RW'
+	},
+	{
+		name: 'MANUAL_VALVE_OPEN',
+		area: ModbusAreaType.HOLDING_REGISTERS,
+		address: 14,
+		dataType: 'uint16',
+		description: 'Клапан в ручном режиме (0=закрыт, 1=открыт)',
+		access: 'RW'
+	},
+	{
+		name: 'MANUAL_DURATION',
+		area: ModbusAreaType.HOLDING_REGISTERS,
+		address: 15,
+		dataType: 'uint16',
+		description: 'Длительность ручного режима (мин, 0 - по умолчанию 60 мин)',
+		access: 'RW'
+	},
 	{
 		name: 'DEVICE_NAME',
 		area: ModbusAreaType.HOLDING_REGISTERS,
@@ -289,7 +374,7 @@ export const MODBUS_HEATING_PORT = 8503;
 export const MEMORY_SIZES = {
 	DISCRETE_INPUTS: 16,      // 16 бит
 	COILS: 16,                // 16 бит
-	INPUT_REGISTERS: 10,      // 10 регистров (0-3: данные, 4: статусное слово, 5-9: резерв)
+	INPUT_REGISTERS: 10,      // 10 регистров (0-3: данные, 4: статусное слово, 5-6: ручной режим, 7-9: резерв)
 	HOLDING_REGISTERS: 30,    // 30 регистров
 };
 
@@ -42,11 +42,13 @@ export interface ModbusDeviceConfig {
 // Бит 0 (1)   - зарезервировано
 // Бит 1 (2)   - ENABLE_AUTO_CONTROL (включить автоуправление)
 // Бит 2 (4)   - DISABLE_AUTO_CONTROL (выключить автоуправление)
-// Бит 3-15    - зарезервированы
+// Бит 3 (8)   - ACKNOWLEDGE_ALARMS (квитировать аварии защит)
+// Бит 4-15    - зарезервированы
 export enum ModbusCommand {
 	NOP = 0,                   // Нет операции (все биты = 0)
 	ENABLE_AUTO_CONTROL = 2,   // Бит 1 (значение 2) - Включить автоуправление
-	DISABLE_AUTO_CONTROL = 4   // Бит 2 (значение 4) - Выключить автоуправление
+	DISABLE_AUTO_CONTROL = 4,  // Бит 2 (значение 4) - Выключить автоуправление
+	ACKNOWLEDGE_ALARMS = 8,    // Бит 3 (значение 8) - Квитировать аварии защит
 }
 
 // Параметры команды
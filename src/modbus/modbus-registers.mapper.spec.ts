@@ -0,0 +1,28 @@
+import { ModbusRegistersMapper } from './modbus-registers.mapper';
+import { MemoryAreaManager } from './utils/memory-area.manager';
+
+function createMapper(commandWord: number): ModbusRegistersMapper {
+	const memoryManager = {
+		readRegister: (_unitId: number, _area: unknown, address: number) => (address === 10 ? commandWord : 0),
+	} as unknown as MemoryAreaManager;
+	return new ModbusRegistersMapper([], [{ deviceId: 'ШУК1', unitId: 1, enabled: true }], memoryManager);
+}
+
+describe('ModbusRegistersMapper.readCommand', () => {
+	it('should return nothing for an empty command word', () => {
+		expect(createMapper(0).readCommand(1)).toBeNull();
+	});
+
+	it('should decode acknowledge together with a mode command', () => {
+		expect(createMapper(0x000a).readCommand(1)).toMatchObject({ deviceId: 'ШУК1', commands: [8, 2], unknownBits: 0 });
+		expect(createMapper(0x000c).readCommand(1)).toMatchObject({ commands: [8, 4] });
+	});
+
+	it('should give DISABLE_AUTO_CONTROL priority over ENABLE_AUTO_CONTROL', () => {
+		expect(createMapper(6).readCommand(1)).toMatchObject({ commands: [4] });
+	});
+
+	it('should report unknown bits', () => {
+		expect(createMapper(0x0011).readCommand(1)).toMatchObject({ commands: [], unknownBits: 0x0011 });
+	});
+});
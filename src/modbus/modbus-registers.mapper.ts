@@ -1,7 +1,7 @@
 import { Logger } from '@nestjs/common';
 import { ModbusVariable, ModbusDeviceConfig, ModbusAreaType } from './interfaces/modbus.interface';
 import { MemoryAreaManager } from './utils/memory-area.manager';
-import { HeatingState } from '../devices/interfaces/heating.interface';
+import { HeatingState, ManualOverrideOptions, ManualOverrideSource } from '../devices/interfaces/heating.interface';
 import { 
 	setBit, 
 	getBit, 
@@ -14,6 +14,13 @@ import {
 	registersToString
 } from './utils/bit-field.utils';
 
+// Коды источника ручного режима в регистре MANUAL_OVERRIDE_SOURCE
+const MANUAL_OVERRIDE_SOURCE_CODES: Record<ManualOverrideSource, number> = {
+	rest: 1,
+	websocket: 2,
+	modbus: 3,
+};
+
 /**
  * Маппер для связи внутреннего состояния Heating с Modbus регистрами
  */
@@ -45,6 +52,29 @@ export class ModbusRegistersMapper {
 		this.logger.log(`Mapper initialized with ${devicesConfig.filter(d => d.enabled).length} enabled devices`);
 	}
 
+	/**
+	 * Добавить устройство (при изменении конфигурации без перезапуска сервера)
+	 */
+	addDevice(device: ModbusDeviceConfig): void {
+		this.removeDevice(device.deviceId);
+		this.devicesConfig.push(device);
+		this.deviceIdToUnitId.set(device.deviceId, device.unitId);
+		this.unitIdToDeviceId.set(device.unitId, device.deviceId);
+	}
+
+	/**
+	 * Удалить устройство; возвращает освободившийся Unit ID
+	 */
+	removeDevice(deviceId: string): number | undefined {
+		const unitId = this.deviceIdToUnitId.get(deviceId);
+		this.devicesConfig = this.devicesConfig.filter(device => device.deviceId !== deviceId);
+		this.deviceIdToUnitId.delete(deviceId);
+		if (unitId !== undefined) {
+			this.unitIdToDeviceId.delete(unitId);
+		}
+		return unitId;
+	}
+
 	/**
 	 * Получить Unit ID по device ID
 	 */
@@ -92,36 +122,34 @@ export class ModbusRegistersMapper {
 		}
 	}
 
+	/**
+	 * Статусное слово: одинаковые биты для Discrete Inputs и регистра STATUS_WORD
+	 */
+	private buildStatusWord(state: HeatingState): number {
+		let statusWord = 0;
+		statusWord = setBit(statusWord, 0, state.isOnline ?? false);             // IS_ONLINE
+		statusWord = setBit(statusWord, 1, state.isWorking ?? false);            // IS_WORKING
+		statusWord = setBit(statusWord, 2, state.isEmergencyStop ?? false);      // IS_EMERGENCY_STOP
+		statusWord = setBit(statusWord, 3, state.sensorFault ?? false);          // TEMP_SENSOR_ERROR
+		statusWord = setBit(statusWord, 4, state.autoControlEnabled ?? false);   // PID_ACTIVE
+		statusWord = setBit(statusWord, 5, state.freezeProtection ?? false);     // FREEZE_PROTECTION (действует или не квитирована)
+		statusWord = setBit(statusWord, 6, state.overheatProtection ?? false);   // OVERHEAT_PROTECTION (действует или не квитирована)
+		statusWord = setBit(statusWord, 7, state.valveState === 'open');         // VALVE_OPEN
+		statusWord = setBit(statusWord, 8, state.season === 'winter');           // SEASON_WINTER
+		statusWord = setBit(statusWord, 9, state.season === 'summer');           // SEASON_SUMMER
+		statusWord = setBit(statusWord, 10, state.seasonSource === 'outdoor');   // SEASON_BY_OUTDOOR
+		statusWord = setBit(statusWord, 11, (state.moduleError || state.actuatorAlarm) ?? false); // MODULE_ERROR
+		statusWord = setBit(statusWord, 12, !!state.manualOverride);             // MANUAL_OVERRIDE_ACTIVE
+		// Биты 13-15: резерв (0)
+		return statusWord;
+	}
+
 	/**
 	 * Синхронизация Discrete Inputs (статусные биты)
 	 */
 	private syncDiscreteInputs(unitId: number, state: HeatingState): void {
 		// Упаковываем статусы в одно 16-битное слово по адресу 0
-		let statusWord = 0;
-
-		// Бит 0: IS_ONLINE
-		statusWord = setBit(statusWord, 0, state.isOnline ?? false);
-
-		// Бит 1: IS_WORKING
-		statusWord = setBit(statusWord, 1, state.isWorking ?? false);
-
-		// Бит 2: IS_EMERGENCY_STOP
-		statusWord = setBit(statusWord, 2, state.isEmergencyStop ?? false);
-
-		// Бит 3: TEMP_SENSOR_ERROR (пока false, можно добавить логику проверки)
-		statusWord = setBit(statusWord, 3, false);
-
-		// Бит 4: PID_ACTIVE (проверяем, что автоконтроль включен)
-		statusWord = setBit(statusWord, 4, state.autoControlEnabled ?? false);
-
-		// Бит 5: FREEZE_PROTECTION (можно добавить логику)
-		statusWord = setBit(statusWord, 5, false);
-
-		// Бит 6: OVERHEAT_PROTECTION (можно добавить логику)
-		statusWord = setBit(statusWord, 6, false);
-
-		// Бит 7: VALVE_OPEN
-		statusWord = setBit(statusWord, 7, state.valveState === 'open');
+		const statusWord = this.buildStatusWord(state);
 
 		// Записываем все биты (0-15) в область DISCRETE_INPUTS
 		for (let bit = 0; bit < 16; bit++) {
@@ -136,8 +164,8 @@ export class ModbusRegistersMapper {
 		// Бит 0: AUTO_CONTROL_ENABLED
 		this.memoryManager.writeBit(unitId, ModbusAreaType.COILS, 0, state.autoControlEnabled ?? false);
 
-		// Бит 1: MANUAL_OVERRIDE (пока false, можно расширить)
-		this.memoryManager.writeBit(unitId, ModbusAreaType.COILS, 1, false);
+		// Бит 1: MANUAL_OVERRIDE
+		this.memoryManager.writeBit(unitId, ModbusAreaType.COILS, 1, !!state.manualOverride);
 	}
 
 	/**
@@ -169,18 +197,13 @@ export class ModbusRegistersMapper {
 
 		// Адрес 4: STATUS_WORD (статусное слово для чтения по битам)
 		// Формируем статусное слово из тех же битов, что и в Discrete Inputs
-		let statusWord = 0;
-		statusWord = setBit(statusWord, 0, state.isOnline ?? false);                    // IS_ONLINE
-		statusWord = setBit(statusWord, 1, state.isWorking ?? false);                 // IS_WORKING
-		statusWord = setBit(statusWord, 2, state.isEmergencyStop ?? false);           // IS_EMERGENCY_STOP
-		statusWord = setBit(statusWord, 3, false);                                     // TEMP_SENSOR_ERROR (можно добавить логику)
-		statusWord = setBit(statusWord, 4, state.autoControlEnabled ?? false);       // PID_ACTIVE
-		statusWord = setBit(statusWord, 5, false);                                      // FREEZE_PROTECTION (можно добавить логику)
-		statusWord = setBit(statusWord, 6, false);                                      // OVERHEAT_PROTECTION (можно добавить логику)
-		statusWord = setBit(statusWord, 7, state.valveState === 'open');               // VALVE_OPEN
-		// Биты 8-15: резерв (0)
-		
+		const statusWord = this.buildStatusWord(state);
 		this.memoryManager.writeRegister(unitId, ModbusAreaType.INPUT_REGISTERS, 4, statusWord);
+
+		// Адреса 5-6: MANUAL_OVERRIDE_REMAINING (сек), MANUAL_OVERRIDE_SOURCE
+		const override = state.manualOverride;
+		this.memoryManager.writeRegister(unitId, ModbusAreaType.INPUT_REGISTERS, 5, toUint16(override?.remainingTime ?? 0));
+		this.memoryManager.writeRegister(unitId, ModbusAreaType.INPUT_REGISTERS, 6, override ? MANUAL_OVERRIDE_SOURCE_CODES[override.source] : 0);
 	}
 
 	/**
@@ -206,6 +229,14 @@ export class ModbusRegistersMapper {
 		// Регистр очищается автоматически после выполнения команды
 		// Адреса 11-12: не используются для битовых команд
 
+		// Адреса 13-15: параметры ручного режима - при действующем режиме показываем его значения,
+		// иначе оставляем записанные клиентом для следующего включения
+		const override = state.manualOverride;
+		if (override) {
+			this.memoryManager.writeRegister(unitId, ModbusAreaType.HOLDING_REGISTERS, 13, toUint16(Math.round(override.fanOutput)));
+			this.memoryManager.writeRegister(unitId, ModbusAreaType.HOLDING_REGISTERS, 14, override.valveOpen ? 1 : 0);
+		}
+
 		// Адреса 20-24: DEVICE_NAME (строка)
 		const deviceName = deviceId;
 		const nameRegisters = stringToRegisters(deviceName, 5);
@@ -288,11 +319,11 @@ export class ModbusRegistersMapper {
 					value
 				};
 
-			case 1: // MANUAL_OVERRIDE
+			case 1: // MANUAL_OVERRIDE - параметры берутся из регистров MANUAL_FAN_OUTPUT, MANUAL_VALVE_OPEN, MANUAL_DURATION
 				return {
 					deviceId,
 					parameter: 'manualOverride',
-					value
+					value: value ? this.readManualOverrideOptions(unitId) : false
 				};
 
 			default:
@@ -301,13 +332,31 @@ export class ModbusRegistersMapper {
 	}
 
 	/**
-	 * Прочитать команду из COMMAND регистра (битовое управляющее слово)
+	 * Параметры ручного режима из Holding Registers 13-15
 	 * @param unitId - Unit ID
-	 * @returns объект команды или null
+	 */
+	private readManualOverrideOptions(unitId: number): Partial<ManualOverrideOptions> {
+		const fanOutput = this.memoryManager.readRegister(unitId, ModbusAreaType.HOLDING_REGISTERS, 13) ?? 0;
+		const valveOpen = this.memoryManager.readRegister(unitId, ModbusAreaType.HOLDING_REGISTERS, 14) ?? 0;
+		const durationMinutes = this.memoryManager.readRegister(unitId, ModbusAreaType.HOLDING_REGISTERS, 15) ?? 0;
+
+		return {
+			fanOutput,
+			valveOpen: valveOpen !== 0,
+			duration: durationMinutes > 0 ? durationMinutes * 60 : undefined,
+		};
+	}
+
+	/**
+	 * Прочитать команды из COMMAND регистра (битовое управляющее слово)
+	 * В слове может быть установлено несколько битов: команды возвращаются в порядке выполнения
+	 * @param unitId - Unit ID
+	 * @returns объект с командами или null
 	 */
 	readCommand(unitId: number): {
 		deviceId: string;
-		command: number;
+		commands: number[];
+		unknownBits: number;
 		param1: number;
 		param2: number;
 	} | null {
@@ -324,25 +373,26 @@ export class ModbusRegistersMapper {
 			return null; // NOP (все биты = 0)
 		}
 
-		// Определяем команду на основе установленных битов
 		// Бит 1 (2) = ENABLE_AUTO_CONTROL
 		// Бит 2 (4) = DISABLE_AUTO_CONTROL
-		let command: number = 0;
-		
+		// Бит 3 (8) = ACKNOWLEDGE_ALARMS
+		const commands: number[] = [];
+
+		if (commandWord & 8) {
+			// Квитирование не меняет режим и выполняется первым
+			commands.push(8); // ACKNOWLEDGE_ALARMS
+		}
 		if (commandWord & 4) {
-			// Бит 2 установлен = DISABLE_AUTO_CONTROL (приоритет выше)
-			command = 4; // DISABLE_AUTO_CONTROL
+			// DISABLE_AUTO_CONTROL имеет приоритет над ENABLE_AUTO_CONTROL
+			commands.push(4); // DISABLE_AUTO_CONTROL
 		} else if (commandWord & 2) {
-			// Бит 1 установлен = ENABLE_AUTO_CONTROL
-			command = 2; // ENABLE_AUTO_CONTROL
-		} else {
-			// Другие биты - неизвестная команда
-			return null;
+			commands.push(2); // ENABLE_AUTO_CONTROL
 		}
 
 		return {
 			deviceId,
-			command,
+			commands,
+			unknownBits: commandWord & ~(2 | 4 | 8),
 			param1, // Не используются для битовых команд
 			param2  // Не используются для битовых команд
 		};
@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { ModbusSlaveService } from './modbus-slave.service';
 import { ModbusController } from './modbus.controller';
 import { HeatingModule } from '../devices/heating/heating.module';
+import { DeviceConfigModule } from '../devices/device-config/device-config.module';
 
 /**
  * Modbus TCP Slave модуль
  * Обеспечивает двустороннюю синхронизацию между OPC сервером и Heating системой
  */
 @Module({
-	imports: [HeatingModule],
+	imports: [HeatingModule, DeviceConfigModule],
 	controllers: [ModbusController],
 	providers: [ModbusSlaveService],
 	exports: [ModbusSlaveService],
@@ -4,7 +4,6 @@ import * as jsmodbus from 'jsmodbus';
 import * as net from 'net';
 import { 
 	HEATING_VARIABLES_TEMPLATE, 
-	MODBUS_HEATING_DEVICES, 
 	MODBUS_HEATING_PORT,
 	MEMORY_SIZES 
 } from './config/modbus-heating.config';
@@ -12,6 +11,9 @@ import { MemoryAreaManager } from './utils/memory-area.manager';
 import { ModbusRegistersMapper } from './modbus-registers.mapper';
 import { ModbusCommand, ModbusAreaType } from './interfaces/modbus.interface';
 import { HeatingService } from '../devices/heating/heating.service';
+import { DeviceConfigService } from '../devices/device-config/device-config.service';
+import { heatingConfigs } from '../devices/heating/heating.config';
+import { DeviceConfigChange } from '../devices/interfaces/device-config.interface';
 
 /**
  * Modbus TCP Slave сервис для Heating системы
@@ -31,11 +33,13 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 	constructor(
 		private readonly eventEmitter: EventEmitter2,
 		private readonly heatingService: HeatingService,
+		private readonly deviceConfigService: DeviceConfigService,
 	) {
 		this.memoryManager = new MemoryAreaManager();
+		// Устройства добавляются в onModuleInit по действующей конфигурации ШУК
 		this.mapper = new ModbusRegistersMapper(
 			HEATING_VARIABLES_TEMPLATE,
-			MODBUS_HEATING_DEVICES,
+			[],
 			this.memoryManager
 		);
 	}
@@ -81,23 +85,82 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 
 	/**
 	 * Инициализация карт памяти для всех устройств
+	 * Unit ID - из конфигурации ШУК (modbusUnitId) или из MODBUS_HEATING_DEVICES
 	 */
 	private initializeMemoryMaps(): void {
-		for (const device of MODBUS_HEATING_DEVICES) {
-			if (device.enabled) {
-				this.memoryManager.initializeMemoryMap(
-					device.unitId,
-					device.deviceId,
-					{
-						discreteInputs: MEMORY_SIZES.DISCRETE_INPUTS,
-						coils: MEMORY_SIZES.COILS,
-						inputRegisters: MEMORY_SIZES.INPUT_REGISTERS,
-						holdingRegisters: MEMORY_SIZES.HOLDING_REGISTERS,
-					}
-				);
-				this.logger.log(`Memory map initialized for ${device.deviceId} (Unit ID: ${device.unitId})`);
+		for (const heatingId of Object.keys(heatingConfigs)) {
+			this.addDevice(heatingId);
+		}
+	}
+
+	/**
+	 * Регистрация ШУК в маппере и создание карты памяти
+	 */
+	private addDevice(heatingId: string): boolean {
+		const unitId = this.deviceConfigService.getModbusUnitId(heatingId);
+		if (unitId === null) return false;
+
+		const owner = this.mapper.getDeviceId(unitId);
+		if (owner !== undefined && owner !== heatingId) {
+			this.logger.warn(`⚠️ Unit ID ${unitId} is already used by ${owner}, ${heatingId} is not available via Modbus`);
+			return false;
+		}
+
+		this.mapper.addDevice({ deviceId: heatingId, unitId, enabled: true, description: heatingConfigs[heatingId].deviceRealName });
+		this.memoryManager.initializeMemoryMap(
+			unitId,
+			heatingId,
+			{
+				discreteInputs: MEMORY_SIZES.DISCRETE_INPUTS,
+				coils: MEMORY_SIZES.COILS,
+				inputRegisters: MEMORY_SIZES.INPUT_REGISTERS,
+				holdingRegisters: MEMORY_SIZES.HOLDING_REGISTERS,
 			}
+		);
+		this.logger.log(`Memory map initialized for ${heatingId} (Unit ID: ${unitId})`);
+		return true;
+	}
+
+	/**
+	 * Удаление ШУК из маппера: карта памяти и область в буферах jsmodbus обнуляются
+	 */
+	private removeDevice(heatingId: string): void {
+		const unitId = this.mapper.removeDevice(heatingId);
+		if (unitId === undefined) return;
+
+		this.memoryManager.removeMemoryMap(unitId);
+		if (this.modbusServer) {
+			const inputOffset = this.getInputRegisterAddress(unitId, 0) * 2;
+			const holdingOffset = this.getHoldingRegisterAddress(unitId, 0) * 2;
+			this.modbusServer.input.fill(0, inputOffset, Math.min(inputOffset + 20 * 2, this.modbusServer.input.length));
+			this.modbusServer.holding.fill(0, holdingOffset, Math.min(holdingOffset + 30 * 2, this.modbusServer.holding.length));
 		}
+		this.logger.log(`Memory map removed for ${heatingId} (Unit ID: ${unitId})`);
+	}
+
+	/**
+	 * Изменение конфигурации ШУК через API: перестраиваем карту Unit ID без перезапуска сервера
+	 */
+	private reloadDevice(heatingId: string): void {
+		this.removeDevice(heatingId);
+		if (heatingConfigs[heatingId] && this.addDevice(heatingId)) {
+			this.syncHeatingToModbus(heatingId);
+		}
+		this.addUnmappedDevices();
+	}
+
+	/**
+	 * ШУК, которым ранее отказано из-за занятого Unit ID, подключаются, когда этот Unit ID освобождается
+	 */
+	private addUnmappedDevices(): void {
+		Object.keys(heatingConfigs)
+			.filter(heatingId => this.mapper.getUnitId(heatingId) === undefined)
+			.forEach(heatingId => {
+				const unitId = this.deviceConfigService.getModbusUnitId(heatingId);
+				if (unitId !== null && this.mapper.getDeviceId(unitId) === undefined && this.addDevice(heatingId)) {
+					this.syncHeatingToModbus(heatingId);
+				}
+			});
 	}
 
 	/**
@@ -427,6 +490,7 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 					const commandBits: string[] = [];
 					if ((actualValue & 2) !== 0) commandBits.push('ENABLE_AUTO_CONTROL');
 					if ((actualValue & 4) !== 0) commandBits.push('DISABLE_AUTO_CONTROL');
+					if ((actualValue & 8) !== 0) commandBits.push('ACKNOWLEDGE_ALARMS');
 					if (actualValue === 0) commandBits.push('NOP');
 					this.logger.log(`  📊 Unit ${actualUnitId} (${deviceId ?? 'unknown'}): Addr ${regAddr} (rel ${relAddr}, COMMAND) = ${actualValue} (0x${actualValue.toString(16).padStart(4, '0')}) - [${commandBits.join(', ') || 'NOP'}]`);
 				}
@@ -1001,6 +1065,13 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 	 * Подписка на события изменения состояния Heating
 	 */
 	private subscribeToHeatingEvents(): void {
+		// Изменение конфигурации ШУК (добавление, удаление, смена modbusUnitId)
+		this.eventEmitter.on('device.config.changed', (change: DeviceConfigChange) => {
+			if (change.deviceType === 'heating') {
+				this.reloadDevice(change.deviceId);
+			}
+		});
+
 		// Обновление любого параметра heating
 		this.eventEmitter.on('heating.update', (heatingId: string) => {
 			this.syncHeatingToModbus(heatingId);
@@ -1147,10 +1218,11 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 		this.logger.log('Performing initial state synchronization...');
 
 		let syncedCount = 0;
-		for (const device of MODBUS_HEATING_DEVICES) {
-			if (device.enabled) {
-				this.logger.debug(`Initial sync for device: ${device.deviceId} (Unit ID: ${device.unitId})`);
-				this.syncHeatingToModbus(device.deviceId);
+		for (const heatingId of Object.keys(heatingConfigs)) {
+			const unitId = this.mapper.getUnitId(heatingId);
+			if (unitId !== undefined) {
+				this.logger.debug(`Initial sync for device: ${heatingId} (Unit ID: ${unitId})`);
+				this.syncHeatingToModbus(heatingId);
 				syncedCount++;
 			}
 		}
@@ -1184,6 +1256,23 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 					}
 					break;
 
+				case 'manualOverride':
+					// false - вернуться к автоуправлению, объект - включить ручной режим с параметрами из регистров
+					if (value === false) {
+						this.heatingService.endManualOverride(deviceId, 'modbus');
+						break;
+					}
+					if (typeof value !== 'object' || value === null) {
+						this.logger.error(`Invalid value for manualOverride: ${value}`);
+						return;
+					}
+					if (!this.heatingService.startManualOverride(deviceId, value, 'modbus')) {
+						this.logger.warn(`Manual override rejected for ${deviceId}: ${JSON.stringify(value)}`);
+						// Возвращаем coil в фактическое состояние
+						this.syncHeatingToModbus(deviceId);
+					}
+					break;
+
 				case 'setpointTemperature':
 					// Валидация температуры перед установкой
 					if (typeof value !== 'number' || isNaN(value) || !isFinite(value)) {
@@ -1217,26 +1306,30 @@ export class ModbusSlaveService implements OnModuleInit, OnModuleDestroy {
 			return;
 		}
 
-		const { deviceId, command } = cmdData;
+		const { deviceId, commands, unknownBits } = cmdData;
 
-		this.logger.log(`Processing command word value=${command} for ${deviceId} (bit-based command)`);
+		this.logger.log(`Processing command word bits=[${commands.join(', ')}] for ${deviceId} (bit-based command)`);
 
 		try {
-			// Обработка битовых команд (значение = 2 или 4)
-			if (command === ModbusCommand.ENABLE_AUTO_CONTROL) {
-				// Бит 1 (значение 2) - включить автоуправление
-				this.logger.log(`  ✅ Executing ENABLE_AUTO_CONTROL (bit 1 = 2) for ${deviceId}`);
-				this.heatingService.enableAutoControl(deviceId);
-			} else if (command === ModbusCommand.DISABLE_AUTO_CONTROL) {
-				// Бит 2 (значение 4) - выключить автоуправление
-				this.logger.log(`  ✅ Executing DISABLE_AUTO_CONTROL (bit 2 = 4) for ${deviceId}`);
-				this.heatingService.disableAutoControl(deviceId);
-			} else if (command === 0) {
-				// NOP - нет операции
-				this.logger.debug(`NOP command (value = 0) for ${deviceId}`);
-			} else {
-				// Неизвестная команда
-				this.logger.warn(`Unknown command value: ${command} for ${deviceId}. Expected 2 (ENABLE) or 4 (DISABLE)`);
+			if (unknownBits !== 0) {
+				this.logger.warn(`Unknown command bits: ${unknownBits} for ${deviceId}. Expected 2 (ENABLE), 4 (DISABLE) or 8 (ACKNOWLEDGE_ALARMS)`);
+			}
+
+			// Все установленные биты выполняются по порядку
+			for (const command of commands) {
+				if (command === ModbusCommand.ACKNOWLEDGE_ALARMS) {
+					// Бит 3 (значение 8) - квитировать аварии защит
+					this.logger.log(`  ✅ Executing ACKNOWLEDGE_ALARMS (bit 3 = 8) for ${deviceId}`);
+					this.heatingService.acknowledgeAlarms(deviceId);
+				} else if (command === ModbusCommand.ENABLE_AUTO_CONTROL) {
+					// Бит 1 (значение 2) - включить автоуправление
+					this.logger.log(`  ✅ Executing ENABLE_AUTO_CONTROL (bit 1 = 2) for ${deviceId}`);
+					this.heatingService.enableAutoControl(deviceId);
+				} else if (command === ModbusCommand.DISABLE_AUTO_CONTROL) {
+					// Бит 2 (значение 4) - выключить автоуправление
+					this.logger.log(`  ✅ Executing DISABLE_AUTO_CONTROL (bit 2 = 4) for ${deviceId}`);
+					this.heatingService.disableAutoControl(deviceId);
+				}
 			}
 
 			// Очищаем COMMAND регистр после выполнения
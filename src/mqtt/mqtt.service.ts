@@ -3,15 +3,33 @@ import { MqttClient, connect } from 'mqtt';
 import { mqttConfigs } from './mqtt.config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
+// Wiren Board публикует ошибки опроса контрола в <контрол>/meta/error:
+// r - ошибка чтения, w - ошибка записи, p - пропуск периода опроса (не считаем отказом)
+const META_ERROR_SUFFIX = '/meta/error';
+// Метаданные модулей и контролов (<модуль>/meta, <контрол>/meta) - только для обнаружения модулей
+const META_SUFFIX = '/meta';
+const FAULT_ERROR_FLAGS = /[rw]/g;
+const PUBLISH_RATE_WINDOW = 60_000; // Окно расчета частоты публикаций (мс)
+
 interface MqttClientState {
 	client: MqttClient;
 	reconnectAttempts: number;
 	topics: string[];
 }
 
+// Публикации на брокер: количество и частота за последнюю минуту
+export interface MqttPublishStats {
+	published: number;
+	failed: number;        // Ошибки публикации и сообщения, не отправленные без связи с брокером
+	lastMinute: number;    // Публикаций за последние 60 секунд
+	perSecond: number;     // Средняя частота за последние 60 секунд
+}
+
 @Injectable()
 export class MqttService implements OnModuleInit, OnModuleDestroy {
 	private clientStates: Record<string, MqttClientState> = {};
+	private controlErrors: Record<string, Record<string, string>> = {}; // Текущие ошибки контролов по брокерам
+	private publishCounters: Record<string, { published: number; failed: number; recent: number[] }> = {};
 	private readonly logger = new Logger(MqttService.name);
 	private readonly maxReconnectAttempts = 5;
 	private readonly reconnectInterval = 5000; // 5 секунд
@@ -84,6 +102,19 @@ export class MqttService implements OnModuleInit, OnModuleDestroy {
 	}
 
 	private handleMessage(brokerName: string, topic: string, message: Buffer) {
+		// Ошибки опроса не являются значениями контрола - обрабатываем их отдельно
+		if (topic.endsWith(META_ERROR_SUFFIX)) {
+			this.handleControlError(brokerName, topic.slice(0, -META_ERROR_SUFFIX.length), message.toString());
+			return;
+		}
+		if (topic.endsWith(META_SUFFIX)) {
+			this.eventEmitter.emit(`mqtt.${brokerName}.meta`, {
+				topic,
+				message: message.toString(),
+			});
+			return;
+		}
+
 		// Эмитируем событие для каждого сообщения
 		this.eventEmitter.emit(`mqtt.${brokerName}.message`, {
 			topic,
@@ -97,6 +128,29 @@ export class MqttService implements OnModuleInit, OnModuleDestroy {
 		});
 	}
 
+	private handleControlError(brokerName: string, controlTopic: string, payload: string) {
+		const error = (payload.match(FAULT_ERROR_FLAGS) ?? []).join('') || null;
+		const errors = (this.controlErrors[brokerName] ??= {});
+		const previous = errors[controlTopic] ?? null;
+
+		if (error) {
+			errors[controlTopic] = error;
+		} else {
+			delete errors[controlTopic];
+		}
+		if (error === previous) return;
+
+		if (error) {
+			this.logger.warn(`Control error on ${brokerName}: ${controlTopic} = "${error}"`);
+		} else {
+			this.logger.log(`Control error cleared on ${brokerName}: ${controlTopic}`);
+		}
+		this.eventEmitter.emit(`mqtt.${brokerName}.control.error`, {
+			topic: controlTopic,
+			error,
+		});
+	}
+
 	private async handleReconnect(
 		name: string,
 		config: (typeof mqttConfigs)[keyof typeof mqttConfigs],
@@ -152,6 +206,15 @@ export class MqttService implements OnModuleInit, OnModuleDestroy {
 		}
 	}
 
+	// Подписка на ошибки опроса контрола Wiren Board (/devices/<dev>/controls/<ctrl>/meta/error)
+	subscribeControlError(brokerName: string, controlTopic: string) {
+		this.subscribe(brokerName, `${controlTopic}${META_ERROR_SUFFIX}`);
+	}
+
+	getControlError(brokerName: string, controlTopic: string): string | null {
+		return this.controlErrors[brokerName]?.[controlTopic] ?? null;
+	}
+
 	unsubscribe(topic: string, brokerName: string = 'heating') {
 		const state = this.clientStates[brokerName];
 		if (!state) {
@@ -177,21 +240,24 @@ export class MqttService implements OnModuleInit, OnModuleDestroy {
 		this.eventEmitter.removeAllListeners(`mqtt.${brokerName}.topic.${topic}`);
 	}
 
+	// Возвращает false, если сообщение не отправлено (нет брокера или связи с ним)
 	publish(
 		brokerName: string,
 		topic: string,
 		message: string | Record<string, unknown> | boolean | number,
 		options: { retain?: boolean } = {},
-	) {
+	): boolean {
 		const state = this.clientStates[brokerName];
 		if (!state) {
 			this.logger.error(`Broker ${brokerName} not found`);
-			return;
+			return false;
 		}
 
+		const counters = (this.publishCounters[brokerName] ??= { published: 0, failed: 0, recent: [] });
 		if (!state.client.connected) {
 			this.logger.warn(`MQTT client "${brokerName}" not connected, cannot publish to topic: ${topic}`);
-			return;
+			counters.failed++;
+			return false;
 		}
 
 		// Преобразуем сообщение в строку
@@ -207,10 +273,37 @@ export class MqttService implements OnModuleInit, OnModuleDestroy {
 		state.client.publish(topic, payload, { qos: 1, retain: options.retain || false }, (err) => {
 			if (err) {
 				this.logger.error(`Failed to publish to ${topic} on ${brokerName}: ${err.message}`);
+				counters.failed++;
 			} else {
-				this.logger.log(`✅ MQTT Published to "${topic}" on broker "${brokerName}": ${payload}`);
+				this.logger.debug(`✅ MQTT Published to "${topic}" on broker "${brokerName}": ${payload}`);
+				counters.published++;
+				counters.recent.push(Date.now());
+				this.pruneRecent(counters.recent);
 			}
 		});
+		return true;
+	}
+
+	getPublishStats(): Record<string, MqttPublishStats> {
+		const stats: Record<string, MqttPublishStats> = {};
+		Object.keys(mqttConfigs).forEach(brokerName => {
+			const counters = this.publishCounters[brokerName] ?? { published: 0, failed: 0, recent: [] };
+			this.pruneRecent(counters.recent);
+			stats[brokerName] = {
+				published: counters.published,
+				failed: counters.failed,
+				lastMinute: counters.recent.length,
+				perSecond: Math.round(counters.recent.length / (PUBLISH_RATE_WINDOW / 1000) * 100) / 100,
+			};
+		});
+		return stats;
+	}
+
+	private pruneRecent(recent: number[]) {
+		const since = Date.now() - PUBLISH_RATE_WINDOW;
+		let count = 0;
+		while (count < recent.length && recent[count] < since) count++;
+		if (count > 0) recent.splice(0, count);
 	}
 
 	isConnected(brokerName: string = 'heating'): boolean {
@@ -12,17 +12,28 @@ import { Device } from '../devices/interfaces/device.interface';
 import { Logger } from '@nestjs/common';
 import { HeatingService } from '../devices/heating/heating.service';
 import { heatingConfigs } from '../devices/heating/heating.config';
+import { isControlStrategyType } from '../devices/control/control-strategy.factory';
+import { TemperatureSensorService } from '../devices/temperature-sensor/temperature-sensor.service';
+import { TemperatureSensorState } from '../devices/interfaces/temperature-sensor.interface';
+import { DeviceGroupService } from '../devices/device-group/device-group.service';
+import { DeviceGroupState } from '../devices/interfaces/device-group.interface';
 
 interface ClientSubscription {
 	clientId: string;
 	heating: Set<string>;
 	devices: Set<string>;
+	temperatureSensors: Set<string>;
+	groups: Set<number>;
 }
 
 interface HeatingCommand {
 	heatingId: string;
-	command: 'TURN_ON' | 'TURN_OFF' | 'SET_TEMPERATURE' | 'SET_PUMP_SPEED' | 'SET_VALVE' | 'EMERGENCY_STOP';
+	command: 'TURN_ON' | 'TURN_OFF' | 'SET_TEMPERATURE' | 'SET_PUMP_SPEED' | 'SET_VALVE' | 'EMERGENCY_STOP' | 'SET_CONTROL_STRATEGY' | 'START_AUTOTUNE' | 'ABORT_AUTOTUNE' | 'ACCEPT_AUTOTUNE' | 'START_MANUAL_OVERRIDE' | 'END_MANUAL_OVERRIDE';
 	value?: string | number;
+	fixedOutput?: number;
+	fanOutput?: number;
+	valveOpen?: boolean;
+	durationMinutes?: number;
 }
 
 @WebSocketGateway({
@@ -41,6 +52,8 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 	constructor(
 		private readonly eventEmitter: EventEmitter2,
 		private readonly heatingService: HeatingService,
+		private readonly temperatureSensorService: TemperatureSensorService,
+		private readonly deviceGroupService: DeviceGroupService,
 	) {
 		// Подписываемся на события обновления устройств
 		this.eventEmitter.on('device.updated', (device: Device) => this.handleDeviceUpdate(device));
@@ -71,6 +84,36 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 		this.eventEmitter.on('heating.emergency.stop.reset', (data: { heatingId: string }) =>
 			this.sendHeatingUpdate(data.heatingId),
 		);
+
+		// Смена алгоритма управления
+		this.eventEmitter.on('heating.control.strategy.changed', (data: { heatingId: string; strategy: string }) =>
+			this.sendHeatingUpdate(data.heatingId),
+		);
+
+		// Прогресс и результат автонастройки PID
+		this.eventEmitter.on('heating.autotune.updated', (data: { heatingId: string }) =>
+			this.sendHeatingUpdate(data.heatingId),
+		);
+
+		// Изменение кривой погодной компенсации
+		this.eventEmitter.on('heating.weather.compensation.changed', (data: { heatingId: string }) =>
+			this.sendHeatingUpdate(data.heatingId),
+		);
+
+		// Включение, изменение и завершение ручного режима
+		this.eventEmitter.on('heating.manual.override.changed', (data: { heatingId: string }) =>
+			this.sendHeatingUpdate(data.heatingId),
+		);
+
+		// Показания и доступность датчиков температуры
+		this.eventEmitter.on('temperature.sensor.updated', (data: TemperatureSensorState) =>
+			this.sendTemperatureSensorUpdate(data),
+		);
+
+		// Сводное состояние групп устройств
+		this.eventEmitter.on('device.group.updated', (data: DeviceGroupState) =>
+			this.sendGroupUpdate(data),
+		);
 	}
 
 	afterInit() {
@@ -85,6 +128,8 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 			clientId: client.id,
 			heating: new Set(),
 			devices: new Set(),
+			temperatureSensors: new Set(),
+			groups: new Set(),
 		});
 
 		// Отправляем подтверждение подключения
@@ -135,6 +180,52 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 	}
 
 
+	@SubscribeMessage('subscribeToTemperatureSensors')
+	handleTemperatureSensorsSubscription(client: Socket, sensorIds: string[]) {
+		const subscription = this.clientSubscriptions.get(client.id);
+		if (subscription) {
+			subscription.temperatureSensors.clear();
+			sensorIds.forEach(id => subscription.temperatureSensors.add(id));
+
+			this.logger.log(`Client ${client.id} subscribed to temperature sensors: ${sensorIds.join(', ')}`);
+
+			client.emit('temperatureSensorsSubscriptionConfirmed', {
+				subscribedTo: sensorIds,
+				message: 'Temperature sensors subscription confirmed',
+			});
+
+			// Сразу отсылаем текущие показания
+			const list = sensorIds
+				.map(id => this.temperatureSensorService.getSensor(id))
+				.filter(sensor => sensor !== null);
+
+			client.emit('temperatureSensors', list);
+		}
+	}
+
+	@SubscribeMessage('subscribeToGroups')
+	handleGroupsSubscription(client: Socket, groupIds: number[]) {
+		const subscription = this.clientSubscriptions.get(client.id);
+		if (subscription) {
+			subscription.groups.clear();
+			groupIds.forEach(id => subscription.groups.add(Number(id)));
+
+			this.logger.log(`Client ${client.id} subscribed to groups: ${groupIds.join(', ')}`);
+
+			client.emit('groupsSubscriptionConfirmed', {
+				subscribedTo: groupIds,
+				message: 'Groups subscription confirmed',
+			});
+
+			// Сразу отсылаем текущее сводное состояние
+			const list = Array.from(subscription.groups)
+				.map(id => this.deviceGroupService.getGroupState(id))
+				.filter(state => state !== null);
+
+			client.emit('groups', list);
+		}
+	}
+
 	@SubscribeMessage('subscribeToDevices')
 	handleDeviceSubscription(client: Socket, deviceIds: string[]) {
 		const subscription = this.clientSubscriptions.get(client.id);
@@ -157,6 +248,8 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 		if (subscription) {
 			subscription.heating.clear();
 			subscription.devices.clear();
+			subscription.temperatureSensors.clear();
+			subscription.groups.clear();
 			
 			this.logger.log(`Client ${client.id} unsubscribed from all devices`);
 			
@@ -171,6 +264,8 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 			client.emit('subscriptions', {
 				heating: Array.from(subscription.heating),
 				devices: Array.from(subscription.devices),
+				temperatureSensors: Array.from(subscription.temperatureSensors),
+				groups: Array.from(subscription.groups),
 			});
 		}
 	}
@@ -224,6 +319,48 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 				case 'EMERGENCY_STOP':
 					this.heatingService.emergencyStop(heatingId);
 					break;
+				case 'SET_CONTROL_STRATEGY':
+					if (!isControlStrategyType(value)) {
+						throw new Error(`Unknown control strategy: ${value}`);
+					}
+					if (!this.heatingService.setControlStrategy(heatingId, value, payload.fixedOutput)) {
+						throw new Error(`Failed to set control strategy for heating ${heatingId}`);
+					}
+					break;
+				case 'START_AUTOTUNE':
+					// value - правило расчета коэффициентов (по умолчанию ziegler_nichols)
+					if (value !== undefined && value !== 'ziegler_nichols' && value !== 'tyreus_luyben') {
+						throw new Error(`Unknown autotune rule: ${value}`);
+					}
+					if (!this.heatingService.startAutotune(heatingId, { rule: value })) {
+						throw new Error(`Failed to start autotune for heating ${heatingId}`);
+					}
+					break;
+				case 'ABORT_AUTOTUNE':
+					this.heatingService.abortAutotune(heatingId);
+					break;
+				case 'ACCEPT_AUTOTUNE':
+					if (!this.heatingService.acceptAutotune(heatingId)) {
+						throw new Error(`No completed autotune result for heating ${heatingId}`);
+					}
+					break;
+				case 'START_MANUAL_OVERRIDE': {
+					const { fanOutput, valveOpen, durationMinutes } = payload;
+					const started = this.heatingService.startManualOverride(heatingId, {
+						fanOutput,
+						valveOpen,
+						duration: durationMinutes !== undefined ? durationMinutes * 60 : undefined,
+					}, 'websocket');
+					if (!started) {
+						throw new Error(`Failed to start manual override for heating ${heatingId}`);
+					}
+					break;
+				}
+				case 'END_MANUAL_OVERRIDE':
+					if (!this.heatingService.endManualOverride(heatingId, 'websocket')) {
+						throw new Error(`Manual override is not active for heating ${heatingId}`);
+					}
+					break;
 				default:
 					this.logger.warn(`Неизвестная команда для системы отопления ${heatingId}: ${command}`);
 					return;
@@ -291,6 +428,26 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 	}
 
 
+	// Отправка показаний датчика температуры подписанным клиентам
+	private sendTemperatureSensorUpdate(sensor: TemperatureSensorState) {
+		this.clientSubscriptions.forEach((subscription, clientId) => {
+			if (subscription.temperatureSensors.has(sensor.sensorId)) {
+				const clientSocket = (this.server.sockets as any).get(clientId);
+				clientSocket?.emit('temperature:sensor:updated', sensor);
+			}
+		});
+	}
+
+	// Отправка сводного состояния группы подписанным клиентам
+	private sendGroupUpdate(state: DeviceGroupState) {
+		this.clientSubscriptions.forEach((subscription, clientId) => {
+			if (subscription.groups.has(state.groupId)) {
+				const clientSocket = (this.server.sockets as any).get(clientId);
+				clientSocket?.emit('group:updated', state);
+			}
+		});
+	}
+
 	private handleDeviceUpdate(device: Device) {
 		// Отправляем обновление только подписанным клиентам
 		this.clientSubscriptions.forEach((subscription, clientId) => {
@@ -317,11 +474,15 @@ export class SelectiveWebsocketGateway implements OnGatewayInit, OnGatewayConnec
 			totalClients: this.clientSubscriptions.size,
 			totalHeatingSubscriptions: 0,
 			totalDeviceSubscriptions: 0,
+			totalTemperatureSensorSubscriptions: 0,
+			totalGroupSubscriptions: 0,
 		};
 
 		this.clientSubscriptions.forEach(subscription => {
 			stats.totalHeatingSubscriptions += subscription.heating.size;
 			stats.totalDeviceSubscriptions += subscription.devices.size;
+			stats.totalTemperatureSensorSubscriptions += subscription.temperatureSensors.size;
+			stats.totalGroupSubscriptions += subscription.groups.size;
 		});
 
 		return stats;
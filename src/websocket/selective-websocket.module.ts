@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common';
 import { SelectiveWebsocketGateway } from './selective-websocket.gateway';
 import { HeatingModule } from '../devices/heating/heating.module';
 import { BatteriesModule } from '../devices/batteries/batteries.module';
+import { TemperatureSensorModule } from '../devices/temperature-sensor/temperature-sensor.module';
+import { DeviceGroupModule } from '../devices/device-group/device-group.module';
 
 @Module({
 	providers: [SelectiveWebsocketGateway],
 	exports: [SelectiveWebsocketGateway],
-	imports: [HeatingModule, BatteriesModule],
+	imports: [HeatingModule, BatteriesModule, TemperatureSensorModule, DeviceGroupModule],
 })
 export class SelectiveWebsocketModule {}
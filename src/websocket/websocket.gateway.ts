@@ -10,23 +10,34 @@ import { Server, Socket } from 'socket.io';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Device } from '../devices/interfaces/device.interface';
 import { Logger } from '@nestjs/common';
-import { HeatingState } from '../devices/interfaces/heating.interface';
+import { HeatingState, ManualOverrideState } from '../devices/interfaces/heating.interface';
+import { AutotuneResult } from '../devices/interfaces/control.interface';
+import { SeasonInfo, SeasonSwitch } from '../devices/interfaces/season.interface';
+import { ScheduleDeviceState } from '../devices/interfaces/schedule.interface';
+import { ProtectionAlarm } from '../devices/interfaces/protection.interface';
+import { SensorReading } from '../devices/interfaces/sensor-fusion.interface';
 import { HeatingService } from '../devices/heating/heating.service';
-import { BatteriesState } from '../devices/interfaces/batteries.interface';
+import { BatteriesState, BatteriesValveMode, BATTERIES_VALVE_MODES } from '../devices/interfaces/batteries.interface';
 import { BatteriesService } from '../devices/batteries/batteries.service';
+import { TemperatureSensorState } from '../devices/interfaces/temperature-sensor.interface';
+import { DeviceGroupState } from '../devices/interfaces/device-group.interface';
 
 interface HeatingCommand {
 	heatingId: string;
-	command: 'TURN_ON' | 'TURN_OFF' | 'SET_TEMPERATURE' | 'SET_PUMP_SPEED' | 'SET_VALVE' | 'EMERGENCY_STOP';
+	command: 'TURN_ON' | 'TURN_OFF' | 'SET_TEMPERATURE' | 'SET_PUMP_SPEED' | 'SET_VALVE' | 'EMERGENCY_STOP' | 'START_MANUAL_OVERRIDE' | 'END_MANUAL_OVERRIDE';
 	value?: string | number;
+	fanOutput?: number;
+	valveOpen?: boolean;
+	durationMinutes?: number;
 }
 
 interface BatteriesCommand {
 	deviceId: string;
-	command: 'set_temperature' | 'enable_auto_control' | 'disable_auto_control' | 'set_group_valve' | 'emergency_stop' | 'reset_emergency_stop';
+	command: 'set_temperature' | 'enable_auto_control' | 'disable_auto_control' | 'set_group_valve' | 'set_group_valve_mode' | 'emergency_stop' | 'reset_emergency_stop';
 	temperature?: number;
 	groupName?: string;
 	open?: boolean;
+	mode?: BatteriesValveMode;
 }
 
 @WebSocketGateway({
@@ -50,7 +61,7 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 		this.eventEmitter.on('device.updated', (device: Device) => this.handleDeviceUpdate(device));
 		
 		// События системы отопления
-		this.eventEmitter.on('heating.temperature.updated', (data: { heatingId: string; temperature: number }) => {
+		this.eventEmitter.on('heating.temperature.updated', (data: { heatingId: string; temperature: number; sensors: SensorReading[] }) => {
 			this.handleHeatingTemperatureUpdate(data);
 			this.handleHeatingStateUpdate(data.heatingId);
 		});
@@ -81,9 +92,32 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 		this.eventEmitter.on('heating.pid.updated', (data: { heatingId: string; error: number; output: number }) =>
 			this.handleHeatingPIDUpdate(data),
 		);
+		this.eventEmitter.on('heating.control.strategy.changed', (data: { heatingId: string }) =>
+			this.handleHeatingStateUpdate(data.heatingId),
+		);
+		this.eventEmitter.on('heating.weather.compensation.changed', (data: { heatingId: string }) =>
+			this.handleHeatingStateUpdate(data.heatingId),
+		);
+		this.eventEmitter.on('heating.alarm', (data: { heatingId: string; isAlarm: boolean; alarms: ProtectionAlarm[]; sensorFault: boolean; controlErrors: Record<string, string>; actuatorAlarms: string[] }) => {
+			this.handleHeatingAlarm(data);
+			this.handleHeatingStateUpdate(data.heatingId);
+		});
+		this.eventEmitter.on('heating.manual.override.changed', (data: { heatingId: string; manualOverride: ManualOverrideState | null }) => {
+			this.handleHeatingManualOverride(data);
+			this.handleHeatingStateUpdate(data.heatingId);
+		});
+		this.eventEmitter.on('heating.autotune.updated', (data: { heatingId: string; autotune: AutotuneResult | null }) => {
+			this.handleHeatingAutotuneUpdate(data);
+			this.handleHeatingStateUpdate(data.heatingId);
+		});
+		this.eventEmitter.on('season.changed', (data: SeasonInfo & { heatingId?: string }) =>
+			this.handleSeasonChanged(data),
+		);
+		this.eventEmitter.on('season.switched', (data: SeasonSwitch) => this.handleSeasonSwitched(data));
+		this.eventEmitter.on('schedule.device.updated', (data: ScheduleDeviceState) => this.handleScheduleDeviceUpdated(data));
 
 		// События системы батарей
-		this.eventEmitter.on('batteries.temperature.updated', (data: { deviceId: string; temperature: number }) => {
+		this.eventEmitter.on('batteries.temperature.updated', (data: { deviceId: string; temperature: number; sensors: SensorReading[] }) => {
 			this.handleBatteriesTemperatureUpdate(data);
 			this.handleBatteriesStateUpdate(data.deviceId);
 		});
@@ -111,6 +145,21 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 			this.handleBatteriesAutoControlDisabled(data);
 			this.handleBatteriesStateUpdate(data.deviceId);
 		});
+		this.eventEmitter.on('batteries.valve.mode.changed', (data: { deviceId: string }) =>
+			this.handleBatteriesStateUpdate(data.deviceId),
+		);
+		this.eventEmitter.on('batteries.alarm', (data: { deviceId: string; isAlarm: boolean; alarms: ProtectionAlarm[]; controlErrors: Record<string, string>; actuatorAlarms: string[] }) => {
+			this.handleBatteriesAlarm(data);
+			this.handleBatteriesStateUpdate(data.deviceId);
+		});
+
+		// События датчиков температуры
+		this.eventEmitter.on('temperature.sensor.updated', (data: TemperatureSensorState) =>
+			this.handleTemperatureSensorUpdate(data),
+		);
+		this.eventEmitter.on('device.group.updated', (data: DeviceGroupState) =>
+			this.handleDeviceGroupUpdate(data),
+		);
 	}
 
 	afterInit() {
@@ -142,11 +191,12 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 		this.server.emit('device:updated', device);
 	}
 
-	private handleHeatingTemperatureUpdate(data: { heatingId: string; temperature: number }) {
-		// Отправляем обновление температуры отопления всем подключенным клиентам
+	private handleHeatingTemperatureUpdate(data: { heatingId: string; temperature: number; sensors: SensorReading[] }) {
+		// Отправляем обновление температуры отопления (температура зоны и показания отдельных датчиков)
 		this.server.emit('heating:temperature:updated', {
 			heatingId: data.heatingId,
 			temperature: data.temperature,
+			sensors: data.sensors,
 			timestamp: new Date().toISOString(),
 		});
 	}
@@ -224,6 +274,79 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 		});
 	}
 
+	private handleSeasonChanged(data: SeasonInfo & { heatingId?: string }) {
+		// Отправляем обновленный календарь и действующий сезон
+		this.server.emit('season:changed', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleSeasonSwitched(data: SeasonSwitch) {
+		// Отправляем переключение отопительного сезона по уличной температуре
+		this.server.emit('season:switched', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleHeatingAlarm(data: { heatingId: string; isAlarm: boolean; alarms: ProtectionAlarm[]; sensorFault: boolean; controlErrors: Record<string, string>; actuatorAlarms: string[] }) {
+		// Отправляем аварии защит от замерзания и перегрева (действующие и неквитированные)
+		this.server.emit('heating:alarm', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleBatteriesAlarm(data: { deviceId: string; isAlarm: boolean; alarms: ProtectionAlarm[]; controlErrors: Record<string, string>; actuatorAlarms: string[] }) {
+		this.server.emit('batteries:alarm', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleTemperatureSensorUpdate(data: TemperatureSensorState) {
+		// Отправляем показания и доступность датчика температуры
+		this.server.emit('temperature:sensor:updated', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleDeviceGroupUpdate(data: DeviceGroupState) {
+		// Отправляем сводное состояние группы устройств
+		this.server.emit('group:updated', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleScheduleDeviceUpdated(data: ScheduleDeviceState) {
+		// Отправляем состояние программы уставок устройства (уставка по программе, ручное переопределение)
+		this.server.emit('schedule:device:updated', {
+			...data,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleHeatingManualOverride(data: { heatingId: string; manualOverride: ManualOverrideState | null }) {
+		// Отправляем состояние ручного режима (null - ручной режим завершен)
+		this.server.emit('heating:manual:override', {
+			heatingId: data.heatingId,
+			manualOverride: data.manualOverride,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	private handleHeatingAutotuneUpdate(data: { heatingId: string; autotune: AutotuneResult | null }) {
+		// Отправляем прогресс/результат автонастройки PID
+		this.server.emit('heating:autotune:updated', {
+			heatingId: data.heatingId,
+			autotune: data.autotune,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
 	private handleHeatingEmergencyStopReset(data: { heatingId: string }) {
 		// Отправляем сообщение о сбросе аварийной остановки
 		this.server.emit('heating:emergency:stop:reset', {
@@ -296,6 +419,23 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 				case 'EMERGENCY_STOP':
 					this.heatingService.emergencyStop(heatingId);
 					break;
+				case 'START_MANUAL_OVERRIDE': {
+					const { fanOutput, valveOpen, durationMinutes } = payload;
+					const started = this.heatingService.startManualOverride(heatingId, {
+						fanOutput,
+						valveOpen,
+						duration: durationMinutes !== undefined ? durationMinutes * 60 : undefined,
+					}, 'websocket');
+					if (!started) {
+						throw new Error(`Failed to start manual override for heating ${heatingId}`);
+					}
+					break;
+				}
+				case 'END_MANUAL_OVERRIDE':
+					if (!this.heatingService.endManualOverride(heatingId, 'websocket')) {
+						throw new Error(`Manual override is not active for heating ${heatingId}`);
+					}
+					break;
 				default:
 					this.logger.warn(`Неизвестная команда: ${command}`);
 			}
@@ -342,7 +482,7 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 	@SubscribeMessage('batteries-command')
 	async handleBatteriesCommand(client: Socket, payload: BatteriesCommand) {
 		try {
-			const { deviceId, command, temperature, groupName, open } = payload;
+			const { deviceId, command, temperature, groupName, open, mode } = payload;
 			this.logger.log(`🔋 [MAIN] Получена команда для батарей ${deviceId}: ${command}`);
 
 			switch (command) {
@@ -362,6 +502,11 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 						this.batteriesService.setGroupValveManually(deviceId, groupName, open);
 					}
 					break;
+				case 'set_group_valve_mode':
+					if (groupName !== undefined && mode !== undefined && BATTERIES_VALVE_MODES.includes(mode)) {
+						this.batteriesService.setGroupValveMode(deviceId, groupName, mode);
+					}
+					break;
 				case 'emergency_stop':
 					this.batteriesService.emergencyStop(deviceId);
 					break;
@@ -390,7 +535,7 @@ export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnG
 	}
 
 	// Обработчики событий батарей
-	private handleBatteriesTemperatureUpdate(data: { deviceId: string; temperature: number }) {
+	private handleBatteriesTemperatureUpdate(data: { deviceId: string; temperature: number; sensors: SensorReading[] }) {
 		this.server.emit('batteries-temperature-update', data);
 	}
 